@@ -341,4 +341,4 @@ Error generating stack: `+i.message+`
  *
  * This source code is licensed under the MIT license found in the
  * LICENSE file in the root directory of this source tree.
- */var Sn=v;function hm(e,t){return e===t&&(e!==0||1/e===1/t)||e!==e&&t!==t}var xm=typeof Object.is=="function"?Object.is:hm,gm=Sn.useState,vm=Sn.useEffect,ym=Sn.useLayoutEffect,wm=Sn.useDebugValue;function jm(e,t){var n=t(),r=gm({inst:{value:n,getSnapshot:t}}),s=r[0].inst,i=r[1];return ym(function(){s.value=n,s.getSnapshot=t,hs(s)&&i({inst:s})},[e,n,t]),vm(function(){return hs(s)&&i({inst:s}),e(function(){hs(s)&&i({inst:s})})},[e]),wm(n),n}function hs(e){var t=e.getSnapshot;e=e.value;try{var n=t();return!xm(e,n)}catch{return!0}}function Nm(e,t){return t()}var bm=typeof window>"u"||typeof window.document>"u"||typeof window.document.createElement>"u"?Nm:jm;ld.useSyncExternalStore=Sn.useSyncExternalStore!==void 0?Sn.useSyncExternalStore:bm;rd.exports=ld;var km=rd.exports;const Sm=Id.useInsertionEffect,Cm=typeof window<"u"&&typeof window.document<"u"&&typeof window.document.createElement<"u",Em=Cm?v.useLayoutEffect:v.useEffect,Im=Sm||Em,sd=e=>{const t=v.useRef([e,(...n)=>t[0](...n)]).current;return Im(()=>{t[0]=e}),t[1]},Mm="popstate",mo="pushState",po="replaceState",Pm="hashchange",Ia=[Mm,mo,po,Pm],_m=e=>{for(const t of Ia)addEventListener(t,e);return()=>{for(const t of Ia)removeEventListener(t,e)}},id=(e,t)=>km.useSyncExternalStore(_m,e,t),Lm=()=>location.search,Tm=({ssrSearch:e=""}={})=>id(Lm,()=>e),Ma=()=>location.pathname,zm=({ssrPath:e}={})=>id(Ma,e?()=>e:Ma),Am=(e,{replace:t=!1,state:n=null}={})=>history[t?po:mo](n,"",e),Om=(e={})=>[zm(e),Am],Pa=Symbol.for("wouter_v3");if(typeof history<"u"&&typeof window[Pa]>"u"){for(const e of[mo,po]){const t=history[e];history[e]=function(){const n=t.apply(this,arguments),r=new Event(e);return r.arguments=arguments,dispatchEvent(r),n}}Object.defineProperty(window,Pa,{value:!0})}const Rm=(e,t)=>t.toLowerCase().indexOf(e.toLowerCase())?"~"+t:t.slice(e.length)||"/",od=(e="")=>e==="/"?"":e,Fm=(e,t)=>e[0]==="~"?e.slice(1):od(t)+e,Um=(e="",t)=>Rm(_a(od(e)),_a(t)),_a=e=>{try{return decodeURI(e)}catch{return e}},$m={hook:Om,searchHook:Tm,parser:pm,base:"",ssrPath:void 0,ssrSearch:void 0,ssrContext:void 0,hrefs:e=>e},Bm=v.createContext($m),ad=()=>v.useContext(Bm),Vm={};v.createContext(Vm);const cd=e=>{const[t,n]=e.hook(e);return[Um(e.base,t),sd((r,s)=>n(Fm(r,e.base),s))]},Hm=()=>cd(ad());v.forwardRef((e,t)=>{const n=ad(),[r,s]=cd(n),{to:i="",href:o=i,onClick:a,asChild:c,children:d,className:h,replace:x,state:m,...g}=e,j=sd(I=>{I.ctrlKey||I.metaKey||I.altKey||I.shiftKey||I.button!==0||(a==null||a(I),I.defaultPrevented||(I.preventDefault(),s(o,e)))}),N=n.hrefs(o[0]==="~"?o.slice(1):n.base+o,n);return c&&v.isValidElement(d)?v.cloneElement(d,{onClick:j,href:N}):v.createElement("a",{...g,onClick:j,href:N,className:h!=null&&h.call?h(r===o):h,children:d,ref:t})});const xs=({setActiveTab:e})=>{const[t,n]=Hm(),r=[{id:8,title:"🍎 قطف الفواكه",description:"اقطف الفواكه الساقطة واجمع أكبر عدد من النقاط في هذه اللعبة الممتعة!",image:"https://images.pexels.com/photos/1132047/pexels-photo-1132047.jpeg?auto=compress&cs=tinysrgb&w=800",players:250,rating:5,featured:!0,onPlay:()=>{const i=window.location.origin;window.open(`${i}/fruit-catching.html`,"_blank")}},{id:1,title:"صناديق الحظ اللانهائية",description:"افتح الصناديق واكتشف الكنوز المخفية في عالم INFINITY BOX",image:"https://images.pexels.com/photos/1111597/pexels-photo-1111597.jpeg?auto=compress&cs=tinysrgb&w=800",players:15420,rating:5,featured:!0,onPlay:()=>window.open("/game1.html","_blank")},{id:2,title:"تحدي السرعة",description:"اختبر سرعة ردود أفعالك في هذا التحدي المثير",image:"https://images.pexels.com/photos/442576/pexels-photo-442576.jpeg?auto=compress&cs=tinysrgb&w=800",players:8930,rating:4,onPlay:()=>console.log("تحدي السرعة")},{id:3,title:"ألغاز العقل",description:"حل الألغاز المعقدة واكسب النقاط والجوائز",image:"https://images.pexels.com/photos/1040157/pexels-photo-1040157.jpeg?auto=compress&cs=tinysrgb&w=800",players:12150,rating:4,onPlay:()=>console.log("ألغاز العقل")},{id:4,title:"مغامرة الكنوز",description:"انطلق في رحلة البحث عن الكنوز المفقودة",image:"https://images.pexels.com/photos/1670977/pexels-photo-1670977.jpeg?auto=compress&cs=tinysrgb&w=800",players:6780,rating:5,onPlay:()=>console.log("مغامرة الكنوز")},{id:5,title:"بطولة النجوم",description:"تنافس مع أفضل اللاعبين في البطولة الكبرى",image:"https://images.pexels.com/photos/163064/play-stone-network-networked-interactive-163064.jpeg?auto=compress&cs=tinysrgb&w=800",players:25600,rating:5,onPlay:()=>n("/game")},{id:6,title:"عالم الخيال",description:"استكشف عوالم خيالية مليئة بالمغامرات والأسرار",image:"https://images.pexels.com/photos/1591447/pexels-photo-1591447.jpeg?auto=compress&cs=tinysrgb&w=800",players:18900,rating:4,onPlay:()=>console.log("عالم الخيال")},{id:7,title:"الصناديق التي لا تنتهي - لعبة جديدة",description:"جرب لعبة الصناديق التي لا تنتهي الجديدة والممتعة!",image:"https://images.pexels.com/photos/3258/boxes-wooden-crates-market.jpg?auto=compress&cs=tinysrgb&w=800",players:0,rating:5,featured:!1,onPlay:()=>window.open("/game8.html","_blank")}],s=[{icon:l.jsx(Ea,{className:"w-6 h-6"}),title:"لعبة سريعة",description:"ابدأ لعبة سريعة في أقل من دقيقة",color:"from-yellow-500 to-orange-500",onClick:()=>console.log("لعبة سريعة")},{icon:l.jsx(Ca,{className:"w-6 h-6"}),title:"تحدي يومي",description:"أكمل التحدي اليومي واكسب مكافآت",color:"from-green-500 to-emerald-500",onClick:()=>console.log("تحدي يومي")},{icon:l.jsx(tm,{className:"w-6 h-6"}),title:"لغز اليوم",description:"حل لغز اليوم واحصل على نقاط إضافية",color:"from-blue-500 to-cyan-500",onClick:()=>console.log("لغز اليوم")},{icon:l.jsx(Ca,{className:"w-6 h-6"}),title:"قطف الفواكه",description:"اقطف الفواكه الساقطة واجمع أكبر عدد من النقاط",color:"from-green-500 to-lime-500",onClick:()=>window.open("/fruit-catching.html","_blank")},{icon:l.jsx(jl,{className:"w-6 h-6"}),title:"وضع التدريب",description:"تدرب وحسن مهاراتك قبل المنافسة",color:"from-purple-500 to-indigo-500",onClick:()=>console.log("وضع التدريب")}];return l.jsxs("div",{className:"space-y-12",children:[l.jsxs("section",{children:[l.jsxs("div",{className:"flex items-center gap-3 mb-8",children:[l.jsx("div",{className:"w-8 h-8 bg-gradient-to-r from-yellow-500 to-orange-500 rounded-lg flex items-center justify-center",children:l.jsx(Ea,{className:"w-5 h-5 text-white"})}),l.jsx("h2",{className:"text-2xl font-bold text-white",children:"ألعاب سريعة"})]}),l.jsx("div",{className:"grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6",children:s.map((i,o)=>l.jsxs("button",{onClick:i.onClick,className:"group p-6 bg-white/5 backdrop-blur-md rounded-2xl border border-white/10 hover:bg-white/10 transition-all duration-300 transform hover:scale-105 text-right",children:[l.jsx("div",{className:`w-12 h-12 bg-gradient-to-r ${i.color} rounded-xl flex items-center justify-center mb-4 group-hover:scale-110 transition-transform duration-300`,children:i.icon}),l.jsx("h3",{className:"text-lg font-semibold text-white mb-2",children:i.title}),l.jsx("p",{className:"text-gray-300 text-sm",children:i.description})]},o))})]}),l.jsxs("section",{children:[l.jsxs("div",{className:"flex items-center gap-3 mb-8",children:[l.jsx("div",{className:"w-8 h-8 bg-gradient-to-r from-purple-500 to-pink-500 rounded-lg flex items-center justify-center",children:l.jsx(jl,{className:"w-5 h-5 text-white"})}),l.jsx("h2",{className:"text-2xl font-bold text-white",children:"الألعاب المميزة"})]}),l.jsxs("div",{className:"grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8",children:[l.jsx(ps,{title:"🍎 قطف الفواكه",description:"اقطف الفواكه الساقطة واجمع أكبر عدد من النقاط والعملات في هذه اللعبة الممتعة!",image:"https://images.pexels.com/photos/1132047/pexels-photo-1132047.jpeg?auto=compress&cs=tinysrgb&w=800",players:1250,rating:5,onPlay:()=>{const i=window.location.origin;window.open(`${i}/fruit-catching.html`,"_blank")},featured:!0}),l.jsx(ps,{title:"الغرفة الصوتية العامة",description:"انضم للدردشة الصوتية مع جميع اللاعبين في INFINITY BOX وتواصل مباشرة بالصوت!",image:"https://images.pexels.com/photos/3394656/pexels-photo-3394656.jpeg?auto=compress&cs=tinysrgb&w=800",players:9999,rating:5,onPlay:()=>e&&e("voice"),featured:!0}),r.filter(i=>i.id!==8).map(i=>l.jsx(ps,{title:i.title,description:i.description,image:i.image,players:i.players,rating:i.rating,onPlay:i.onPlay,featured:i.featured},i.id))]})]})]})},Wm=({user:e,roleIcon:t})=>{const n=s=>s.split(" ").map(i=>i[0]).join("").toUpperCase().slice(0,2),r=s=>{const i=["from-purple-500 to-pink-500","from-blue-500 to-cyan-500","from-green-500 to-emerald-500","from-yellow-500 to-orange-500","from-red-500 to-pink-500","from-indigo-500 to-purple-500"];return i[parseInt(s)%i.length]};return l.jsxs("div",{className:"flex flex-col items-center group",children:[l.jsxs("div",{className:"relative",children:[e.isSpeaking&&l.jsx("div",{className:"absolute -inset-2 rounded-full bg-gradient-to-r from-green-400 to-emerald-400 animate-pulse opacity-75"}),l.jsxs("div",{className:`relative w-16 h-16 rounded-full bg-gradient-to-br ${r(e.id)} flex items-center justify-center text-white font-bold text-lg shadow-lg transform transition-all duration-300 group-hover:scale-110 ${e.isSpeaking?"scale-110":""}`,children:[e.avatar?l.jsx("img",{src:e.avatar,alt:e.username,className:"w-full h-full rounded-full object-cover"}):n(e.username),t&&l.jsx("div",{className:"absolute -top-1 -right-1 bg-black/80 rounded-full p-1",children:t})]}),l.jsxs("div",{className:"absolute -bottom-1 -right-1 flex gap-1",children:[e.isMuted&&l.jsx("div",{className:"bg-red-500 rounded-full p-1",children:l.jsx(Zu,{className:"w-3 h-3 text-white"})}),e.isDeafened&&l.jsx("div",{className:"bg-gray-500 rounded-full p-1",children:l.jsx(nd,{className:"w-3 h-3 text-white"})})]})]}),l.jsxs("div",{className:"mt-2 text-center",children:[l.jsx("p",{className:"text-sm font-medium text-white truncate max-w-20",title:e.username,children:e.username}),e.isSpeaking&&l.jsx("div",{className:"flex items-center justify-center mt-1",children:l.jsxs("div",{className:"flex gap-1",children:[l.jsx("div",{className:"w-1 h-3 bg-green-400 rounded-full animate-pulse"}),l.jsx("div",{className:"w-1 h-2 bg-green-400 rounded-full animate-pulse delay-100"}),l.jsx("div",{className:"w-1 h-4 bg-green-400 rounded-full animate-pulse delay-200"})]})})]})]})},Dm=({message:e})=>{const t=r=>r.toLocaleTimeString("ar-SA",{hour:"2-digit",minute:"2-digit",hour12:!1});if(e.type==="system")return l.jsx("div",{className:"flex justify-center",children:l.jsx("div",{className:"bg-blue-500/20 text-blue-300 px-3 py-1 rounded-full text-xs",children:e.text})});const n=e.sender==="أنت";return l.jsx("div",{className:`flex ${n?"justify-end":"justify-start"}`,children:l.jsx("div",{className:`max-w-xs lg:max-w-md ${n?"order-2":"order-1"}`,children:l.jsxs("div",{className:`rounded-2xl px-4 py-2 ${n?"bg-gradient-to-r from-purple-500 to-pink-500 text-white":"bg-white/10 text-white"}`,children:[!n&&l.jsx("p",{className:"text-xs font-semibold mb-1 opacity-70",children:e.sender}),l.jsx("p",{className:"text-sm leading-relaxed",children:e.text}),l.jsx("p",{className:`text-xs mt-1 ${n?"text-white/70":"text-gray-400"}`,children:t(e.timestamp)})]})})})},Qm=({onEmojiSelect:e,onClose:t})=>{const n=v.useRef(null),r=["😀","😃","😄","😁","😆","😅","😂","🤣","😊","😇","🙂","🙃","😉","😌","😍","🥰","😘","😗","😙","😚","😋","😛","😝","😜","🤪","🤨","🧐","🤓","😎","🤩","🥳","😏","😒","😞","😔","😟","😕","🙁","☹️","😣","😖","😫","😩","🥺","😢","😭","😤","😠","👍","👎","👌","✌️","🤞","🤟","🤘","🤙","👈","👉","👆","👇","☝️","✋","🤚","🖐️","🖖","👋","🤝","👏","🙌","👐","🤲","🤜","❤️","🧡","💛","💚","💙","💜","🖤","🤍","💯","💢","💥","💫","💦","💨","🕳️","💬","🎉","🎊","🎈","🎁","🎀","🎂","🎄","🎆"];return v.useEffect(()=>{const s=i=>{n.current&&!n.current.contains(i.target)&&t()};return document.addEventListener("mousedown",s),()=>document.removeEventListener("mousedown",s)},[t]),l.jsx("div",{ref:n,className:"absolute bottom-12 left-0 bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl p-4 shadow-2xl z-50",children:l.jsx("div",{className:"grid grid-cols-8 gap-2 max-h-48 overflow-y-auto",children:r.map((s,i)=>l.jsx("button",{onClick:()=>e(s),className:"w-8 h-8 flex items-center justify-center rounded-lg hover:bg-white/20 transition-colors text-lg",children:s},i))})})};class Ym{constructor(t=`${window.location.protocol==="https:"?"wss":"ws"}://${window.location.host}/ws`){this.url=t,this.ws=null,this.reconnectAttempts=0,this.maxReconnectAttempts=5,this.reconnectDelay=1e3,this.listeners=new Map,this.isConnecting=!1}connect(){return this.isConnecting||this.ws&&this.ws.readyState===WebSocket.OPEN?Promise.resolve():(this.isConnecting=!0,new Promise((t,n)=>{try{console.log("Connecting to WebSocket:",this.url),this.ws=new WebSocket(this.url),this.ws.onopen=()=>{console.log("WebSocket connected successfully"),this.isConnecting=!1,this.reconnectAttempts=0,t()},this.ws.onmessage=r=>{try{const s=JSON.parse(r.data);this.handleMessage(s)}catch(s){console.error("Failed to parse WebSocket message:",s)}},this.ws.onclose=r=>{console.log("WebSocket closed:",r.code,r.reason),this.isConnecting=!1,this.attemptReconnect()},this.ws.onerror=r=>{console.error("WebSocket error:",r),this.isConnecting=!1,this.reconnectAttempts===0&&n(r)}}catch(r){this.isConnecting=!1,n(r)}}))}handleMessage(t){const n=this.listeners.get(t.type);n&&n.forEach(r=>{try{r(t)}catch(s){console.error("Error in WebSocket message handler:",s)}})}attemptReconnect(){if(this.reconnectAttempts>=this.maxReconnectAttempts){console.error("Max reconnection attempts reached");return}this.reconnectAttempts++;const t=this.reconnectDelay*Math.pow(2,this.reconnectAttempts-1);console.log(`Attempting to reconnect in ${t}ms (attempt ${this.reconnectAttempts})`),setTimeout(()=>{this.connect().catch(n=>{console.error("Reconnection failed:",n)})},t)}send(t){this.ws&&this.ws.readyState===WebSocket.OPEN?this.ws.send(JSON.stringify(t)):console.warn("WebSocket not connected, message not sent:",t)}on(t,n){this.listeners.has(t)||this.listeners.set(t,new Set),this.listeners.get(t).add(n)}off(t,n){const r=this.listeners.get(t);r&&r.delete(n)}disconnect(){this.ws&&(this.ws.close(),this.ws=null),this.listeners.clear(),this.reconnectAttempts=0,this.isConnecting=!1}get isConnected(){var t;return((t=this.ws)==null?void 0:t.readyState)===WebSocket.OPEN}}const D=new Ym,Gm=({userData:e,onLogout:t})=>{const[n,r]=v.useState([]),[s,i]=v.useState([{id:"1",sender:"النظام",text:"مرحباً بكم في INFINITY BOX - غرفة المحادثة الصوتية",timestamp:new Date,type:"system"},{id:"2",sender:"أحمد محمد",text:"أهلاً وسهلاً بالجميع في INFINITY BOX!",timestamp:new Date,type:"user"},{id:"3",sender:"فاطمة علي",text:"كيف حالكم اليوم؟ هل جربتم الألعاب الجديدة؟",timestamp:new Date,type:"user"}]),[o]=v.useState({id:"current",username:(e==null?void 0:e.username)||"أنت",isSpeaking:!1,isMuted:!1,isDeafened:!1,role:e!=null&&e.isAdmin?"admin":"member",isAdmin:(e==null?void 0:e.isAdmin)||!1,coins:500,level:2,experience:750,joinedAt:new Date,lastActive:new Date,status:"online"}),[a,c]=v.useState(!1),[d,h]=v.useState(!0),[x,m]=v.useState(!0),[g,j]=v.useState(!0),[N,I]=v.useState(""),[f,u]=v.useState(!1),[p,w]=v.useState({totalUsers:5,speakingUsers:1}),C=v.useRef(null),E=v.useRef(null),[k,P]=v.useState(null),[H,y]=v.useState(null),[A,xe]=v.useState(0),[L,re]=v.useState({}),[Pe,T]=v.useState({});v.useEffect(()=>{var O;(O=C.current)==null||O.scrollIntoView({behavior:"smooth"})},[s]),v.useEffect(()=>{D.connect().then(()=>{var $;D.send({type:"user_auth",userId:(($=e==null?void 0:e.id)==null?void 0:$.toString())||"",username:(e==null?void 0:e.username)||"ضيف",isAdmin:(e==null?void 0:e.isAdmin)||!1}),setTimeout(()=>{D.send({type:"get_room_users"})},500)}),D.on("voice_room_users",$=>{if($.users){const U=$.users.map(R=>({id:R.username,username:R.username,isSpeaking:R.isSpeaking||!1,isMuted:R.isMuted||!1,isDeafened:!1,role:R.isAdmin?"admin":"member",isAdmin:R.isAdmin||!1,coins:0,level:1,experience:0,joinedAt:new Date,lastActive:new Date,status:"online"}));r(U),w({totalUsers:U.length,speakingUsers:U.filter(R=>R.isSpeaking).length})}}),D.on("chat_message",$=>{if($.sender&&$.text){const U={id:Date.now().toString(),sender:$.sender,text:$.text,timestamp:new Date($.timestamp||Date.now()),type:$.isAdmin?"admin":"user"};i(R=>[...R,U])}}),D.on("auth_success",$=>{const U={id:Date.now().toString(),sender:"النظام",text:$.message||"تم الاتصال بالمحادثة الصوتية بنجاح",timestamp:new Date,type:"system"};i(R=>[...R,U])}),D.on("voice_status_update",$=>{r(U=>U.map(R=>R.username===$.username?{...R,isMuted:$.isMuted,isSpeaking:$.isSpeaking}:R))}),D.on("player_joined",$=>{if($.username){const U={id:Date.now().toString(),sender:"النظام",text:`انضم ${$.username} إلى INFINITY BOX`,timestamp:new Date,type:"system"};i(R=>[...R,U])}}),D.on("player_left",$=>{if($.username){const U={id:Date.now().toString(),sender:"النظام",text:`غادر ${$.username} من INFINITY BOX`,timestamp:new Date,type:"system"};i(R=>[...R,U])}});const O=setInterval(()=>{r($=>$.map(U=>({...U,isSpeaking:Math.random()>.8&&!U.isMuted})))},2e3);return()=>{clearInterval(O)}},[]);const W=async()=>{if(k){k.getTracks().forEach(O=>O.stop()),P(null),c(!1);return}try{const O=await navigator.mediaDevices.getUserMedia({audio:!0});P(O),c(!0),y(null)}catch{y("تعذر الوصول للمايكروفون"),c(!1)}},S=()=>{h(!d)},z=()=>{m(!x),x?D.disconnect():D.connect()},F=()=>{var O;if(N.trim()){const $={type:"chat_message",sender:o.username,text:N.trim(),roomId:"main-room"};D.send($);const U={id:Date.now().toString(),sender:o.username,text:N.trim(),timestamp:new Date,type:"user"};i(R=>[...R,U]),I(""),(O=E.current)==null||O.focus()}},Y=O=>{O.key==="Enter"&&!O.shiftKey&&(O.preventDefault(),F())},te=O=>{var $;I(U=>U+O),u(!1),($=E.current)==null||$.focus()},nt=O=>{switch(O){case"admin":return l.jsx(Ht,{className:"w-3 h-3 text-yellow-400"});case"moderator":return l.jsx(ed,{className:"w-3 h-3 text-blue-400"});default:return null}};return v.useEffect(()=>{if(!k)return;const O=new(window.AudioContext||window.webkitAudioContext),$=O.createMediaStreamSource(k),U=O.createAnalyser();$.connect(U);const R=new Uint8Array(U.fftSize),fe=()=>{U.getByteTimeDomainData(R);let se=0;for(let Re=0;Re<R.length;Re++)se+=Math.abs(R[Re]-128);xe(se/R.length),requestAnimationFrame(fe)};return fe(),()=>{O.close()}},[k]),v.useEffect(()=>{var $;if(!k||!(o!=null&&o.id))return;D.ws&&D.ws.readyState===WebSocket.OPEN&&D.ws.send(JSON.stringify({type:"join_voice",userId:o.id})),($=D.ws)==null||$.addEventListener("message",U=>{(async()=>{var R;try{const fe=JSON.parse(U.data);if(fe.type==="signal"){const{from:se,signal:Re}=fe;if(se===o.id)return;let pt=L[se];if(pt||(pt=O(se),re(Bl=>({...Bl,[se]:pt}))),Re.sdp&&(await pt.setRemoteDescription(new RTCSessionDescription(Re.sdp)),Re.sdp.type==="offer")){const Bl=await pt.createAnswer();await pt.setLocalDescription(Bl),(R=D.ws)==null||R.send(JSON.stringify({type:"signal",to:se,from:o.id,signal:{sdp:pt.localDescription}}))}Re.candidate&&await pt.addIceCandidate(new RTCIceCandidate(Re.candidate))}}catch{}})()}),D.on("voice_room_users",U=>{U.users&&U.users.forEach(R=>{if(R.id!==o.id&&!L[R.id]){const fe=O(R.id);re(se=>({...se,[R.id]:fe})),k&&k.getTracks().forEach(se=>fe.addTrack(se,k)),fe.createOffer().then(se=>{fe.setLocalDescription(se).then(()=>{var Re;(Re=D.ws)==null||Re.send(JSON.stringify({type:"signal",to:R.id,from:o.id,signal:{sdp:se}}))})})}})});function O(U){const R=new RTCPeerConnection({iceServers:[{urls:"stun:stun.l.google.com:19302"}]});return k&&k.getTracks().forEach(fe=>R.addTrack(fe,k)),R.ontrack=fe=>{T(se=>({...se,[U]:fe.streams[0]}))},R.onicecandidate=fe=>{var se;fe.candidate&&((se=D.ws)==null||se.send(JSON.stringify({type:"signal",to:U,from:o.id,signal:{candidate:fe.candidate}})))},R}return()=>{Object.values(L).forEach(U=>U.close()),re({}),T({})}},[k,o==null?void 0:o.id]),l.jsxs("div",{className:"min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 text-white",children:[l.jsx("div",{className:"absolute inset-0 overflow-hidden hidden sm:block",children:l.jsxs("div",{className:"absolute -inset-10 opacity-20",children:[l.jsx("div",{className:"absolute top-1/4 left-1/4 w-96 h-96 bg-purple-500 rounded-full mix-blend-multiply filter blur-xl animate-pulse"}),l.jsx("div",{className:"absolute top-3/4 right-1/4 w-96 h-96 bg-blue-500 rounded-full mix-blend-multiply filter blur-xl animate-pulse delay-1000"}),l.jsx("div",{className:"absolute bottom-1/4 left-1/2 w-96 h-96 bg-pink-500 rounded-full mix-blend-multiply filter blur-xl animate-pulse delay-2000"})]})}),l.jsxs("div",{className:"relative z-10 container mx-auto px-2 sm:px-4 py-4 sm:py-8",children:[l.jsxs("div",{className:"flex flex-col sm:flex-row items-center justify-between mb-4 sm:mb-8 gap-4",children:[l.jsx("div",{className:"flex items-center gap-4",children:l.jsxs("div",{className:"inline-flex items-center gap-3 bg-white/10 backdrop-blur-md rounded-2xl px-6 py-3 border border-white/20",children:[l.jsx("div",{className:"w-3 h-3 bg-green-400 rounded-full animate-pulse"}),l.jsxs("div",{className:"flex items-center gap-2",children:[l.jsx(ft,{className:"w-6 h-6 text-purple-400"}),l.jsx(Mn,{className:"w-4 h-4 text-blue-400"})]}),l.jsx("h1",{className:"text-2xl font-bold bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent",children:"INFINITY BOX"}),l.jsxs("div",{className:"flex items-center gap-2 text-sm text-gray-300",children:[l.jsx(Lt,{className:"w-4 h-4"}),l.jsx("span",{children:p.totalUsers})]})]})}),l.jsxs("div",{className:"flex items-center gap-4",children:[l.jsxs("div",{className:"bg-white/10 backdrop-blur-md rounded-2xl px-4 py-2 border border-white/20 flex items-center gap-3",children:[l.jsxs("div",{className:"flex items-center gap-2",children:[l.jsx(uo,{className:"w-4 h-4 text-yellow-400"}),l.jsx("span",{className:"text-yellow-400 font-semibold",children:o.coins})]}),l.jsx("div",{className:"w-px h-4 bg-white/20"}),l.jsxs("span",{className:"text-sm text-gray-300",children:["مرحباً، ",o.username]}),o.isAdmin&&l.jsx(Ht,{className:"w-4 h-4 text-yellow-400"})]}),l.jsxs("button",{onClick:t,className:"bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 rounded-xl px-4 py-2 text-red-300 hover:text-red-200 transition-all duration-200 flex items-center gap-2",children:[l.jsx(Xu,{className:"w-4 h-4"}),"خروج"]})]})]}),l.jsxs("div",{className:"grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-8",children:[l.jsx("div",{className:"lg:col-span-2",children:l.jsxs("div",{className:"bg-white/5 backdrop-blur-md rounded-3xl p-4 sm:p-8 border border-white/10 shadow-2xl",children:[l.jsxs("div",{className:"flex flex-col sm:flex-row items-center justify-between mb-4 sm:mb-6 gap-2 sm:gap-0",children:[l.jsxs("h2",{className:"text-xl font-semibold flex items-center gap-2",children:[l.jsx(Lt,{className:"w-5 h-5 text-blue-400"}),"المتصلون في INFINITY BOX (",n.length,")"]}),l.jsxs("div",{className:"flex items-center gap-2 text-sm text-gray-400",children:[l.jsx("div",{className:"w-2 h-2 bg-green-400 rounded-full animate-pulse"}),p.speakingUsers," يتحدث الآن"]})]}),l.jsx("div",{className:"grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-6 mb-4 sm:mb-8",children:n.map(O=>l.jsx(Wm,{user:O,roleIcon:nt(O.role)},O.id))}),l.jsxs("div",{className:"flex flex-wrap items-center justify-center gap-3 sm:gap-4 w-full",children:[l.jsxs("button",{onClick:W,className:`relative group p-4 rounded-2xl transition-all duration-300 transform hover:scale-110 ${a?"bg-gradient-to-r from-green-500 to-emerald-500 shadow-lg shadow-green-500/25":"bg-gradient-to-r from-red-500 to-pink-500 shadow-lg shadow-red-500/25"}`,children:[a?l.jsx(Jf,{className:"w-6 h-6"}):l.jsx(Zu,{className:"w-6 h-6"}),l.jsx("div",{className:"absolute -top-12 left-1/2 transform -translate-x-1/2 bg-black/80 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity",children:a?"إيقاف المايك":"تشغيل المايك"})]}),H&&l.jsx("div",{style:{color:"red"},children:H}),l.jsx("div",{style:{width:100,height:10,background:"#eee",marginTop:8},children:l.jsx("div",{style:{width:`${A*10}px`,height:10,background:"#4ade80"}})}),l.jsxs("button",{onClick:S,className:`relative group p-4 rounded-2xl transition-all duration-300 transform hover:scale-110 ${d?"bg-gradient-to-r from-blue-500 to-cyan-500 shadow-lg shadow-blue-500/25":"bg-gradient-to-r from-gray-500 to-slate-500 shadow-lg shadow-gray-500/25"}`,children:[d?l.jsx(am,{className:"w-6 h-6"}):l.jsx(nd,{className:"w-6 h-6"}),l.jsx("div",{className:"absolute -top-12 left-1/2 transform -translate-x-1/2 bg-black/80 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity",children:d?"إيقاف السماعة":"تشغيل السماعة"})]}),l.jsxs("button",{onClick:z,className:`relative group p-4 rounded-2xl transition-all duration-300 transform hover:scale-110 ${x?"bg-gradient-to-r from-red-500 to-pink-500 shadow-lg shadow-red-500/25":"bg-gradient-to-r from-green-500 to-emerald-500 shadow-lg shadow-green-500/25"}`,children:[x?l.jsx(em,{className:"w-6 h-6"}):l.jsx(Ju,{className:"w-6 h-6"}),l.jsx("div",{className:"absolute -top-12 left-1/2 transform -translate-x-1/2 bg-black/80 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity",children:x?"قطع الاتصال":"الاتصال"})]}),l.jsxs("button",{className:"relative group p-4 rounded-2xl bg-gradient-to-r from-purple-500 to-indigo-500 shadow-lg shadow-purple-500/25 transition-all duration-300 transform hover:scale-110",children:[l.jsx(Nl,{className:"w-6 h-6"}),l.jsx("div",{className:"absolute -top-12 left-1/2 transform -translate-x-1/2 bg-black/80 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity",children:"الإعدادات"})]})]})]})}),l.jsx("div",{className:"lg:col-span-1",children:l.jsxs("div",{className:"bg-white/5 backdrop-blur-md rounded-3xl border border-white/10 shadow-2xl overflow-hidden",children:[l.jsxs("div",{className:"flex items-center justify-between p-3 sm:p-4 border-b border-white/10",children:[l.jsxs("h3",{className:"font-semibold flex items-center gap-2",children:[l.jsx($l,{className:"w-5 h-5 text-purple-400"}),"دردشة INFINITY BOX"]}),l.jsx("button",{onClick:()=>j(!g),className:"p-2 rounded-lg hover:bg-white/10 transition-colors",children:g?l.jsx(Xf,{className:"w-4 h-4"}):l.jsx(Gf,{className:"w-4 h-4"})})]}),g&&l.jsxs(l.Fragment,{children:[l.jsxs("div",{className:"h-60 sm:h-96 overflow-y-auto p-2 sm:p-4 space-y-3",children:[s.map(O=>l.jsx(Dm,{message:O},O.id)),l.jsx("div",{ref:C})]}),l.jsx("div",{className:"p-2 sm:p-4 border-t border-white/10",children:l.jsxs("div",{className:"flex items-center gap-1 sm:gap-2",children:[l.jsxs("div",{className:"relative",children:[l.jsx("button",{onClick:()=>u(!f),className:"p-2 rounded-lg hover:bg-white/10 transition-colors",children:l.jsx(rm,{className:"w-5 h-5 text-yellow-400"})}),f&&l.jsx(Qm,{onEmojiSelect:te,onClose:()=>u(!1)})]}),l.jsx("input",{ref:E,type:"text",value:N,onChange:O=>I(O.target.value),onKeyPress:Y,placeholder:"اكتب رسالتك في INFINITY BOX...",className:"flex-1 bg-white/10 border border-white/20 rounded-xl px-2 sm:px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm sm:text-base"}),l.jsx("button",{onClick:F,disabled:!N.trim(),className:"p-2 rounded-xl bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 transform hover:scale-105",children:l.jsx(pi,{className:"w-5 h-5"})})]})})]})]})})]}),l.jsx("div",{className:"mt-4 sm:mt-8 text-center overflow-x-auto",children:l.jsxs("div",{className:"inline-flex items-center gap-2 sm:gap-4 bg-white/5 backdrop-blur-md rounded-2xl px-3 sm:px-6 py-2 sm:py-3 border border-white/10",children:[l.jsxs("div",{className:"flex items-center gap-2",children:[l.jsx("div",{className:`w-2 h-2 rounded-full ${x?"bg-green-400":"bg-red-400"}`}),l.jsx("span",{className:"text-sm text-gray-300",children:x?"متصل بـ INFINITY BOX":"غير متصل"})]}),l.jsx("div",{className:"w-px h-4 bg-white/20"}),l.jsxs("div",{className:"flex items-center gap-2 text-sm text-gray-300",children:[l.jsx(kn,{className:"w-4 h-4 text-yellow-400"}),l.jsx("span",{children:"جودة عالية"})]}),l.jsx("div",{className:"w-px h-4 bg-white/20"}),l.jsxs("div",{className:"flex items-center gap-2 text-sm text-gray-300",children:[l.jsx(ft,{className:"w-4 h-4 text-purple-400"}),l.jsxs("span",{children:["المستوى ",o.level]})]})]})}),Object.entries(Pe).map(([O,$])=>l.jsx("audio",{autoPlay:!0,playsInline:!0,ref:U=>{U&&(U.srcObject=$)}},O))]})]})},Xm=()=>{const[e,t]=v.useState([]),[n,r]=v.useState(1),[s,i]=v.useState(""),[o,a]=v.useState(null),[c,d]=v.useState(!1),[h,x]=v.useState(null),[m,g]=v.useState(""),[j,N]=v.useState(null),[I,f]=v.useState(null),[u,p]=v.useState(!1),[w,C]=v.useState(null);v.useEffect(()=>{k()},[]);const E=(T,W)=>{C({type:T,text:W}),setTimeout(()=>C(null),5e3)},k=async(T=1,W="")=>{d(!0);try{const S=await ae.getUsersWithImages(T,12,W);t(S.users||[]),a(S.pagination),r(T),i(W)}catch(S){E("error","خطأ في تحميل المستخدمين: "+S.message)}finally{d(!1)}},P=()=>{const T=document.getElementById("searchInput"),W=(T==null?void 0:T.value.trim())||"";k(1,W)},H=(T,W)=>{x(T),g(W),N(null),f(null),p(!0)},y=T=>{var S;const W=(S=T.target.files)==null?void 0:S[0];if(W){if(!["image/jpeg","image/jpg","image/png","image/gif"].includes(W.type)){E("error","نوع الملف غير مدعوم. يرجى اختيار صورة بصيغة JPG, PNG, أو GIF");return}const F=2*1024*1024;if(W.size>F){E("error","حجم الصورة كبير جداً. الحد الأقصى 2MB");return}N(W);const Y=new FileReader;Y.onload=te=>{var nt;f((nt=te.target)==null?void 0:nt.result)},Y.readAsDataURL(W)}},A=T=>new Promise((W,S)=>{const z=new FileReader;z.readAsDataURL(T),z.onload=()=>W(z.result),z.onerror=F=>S(F)}),xe=async T=>{if(T.preventDefault(),!(!h||!m))try{let W=null,S=null;m.startsWith("change_")&&j&&(W=await A(j),S=j.type),await ae.manageUserImage(h.userId,m,W||void 0,S||void 0),E("success","تم تحديث الصورة بنجاح"),L(),k(n,s)}catch(W){E("error","خطأ في إدارة الصورة: "+W.message)}},L=()=>{p(!1),x(null),g(""),N(null),f(null)},re=T=>T?"موجودة":"غير موجودة",Pe=T=>T||"/images/default-avatar.png";return l.jsxs("div",{className:"space-y-8",children:[l.jsxs("div",{className:"flex items-center gap-3 mb-8",children:[l.jsx("div",{className:"w-8 h-8 bg-gradient-to-r from-purple-500 to-indigo-500 rounded-lg flex items-center justify-center",children:l.jsx(Yu,{className:"w-5 h-5 text-white"})}),l.jsx("h2",{className:"text-2xl font-bold text-white",children:"إدارة صور المستخدمين"})]}),w&&l.jsx("div",{className:`p-4 rounded-2xl border ${w.type==="success"?"bg-green-500/20 border-green-500/50 text-green-300":w.type==="error"?"bg-red-500/20 border-red-500/50 text-red-300":"bg-blue-500/20 border-blue-500/50 text-blue-300"}`,children:l.jsxs("div",{className:"flex items-center gap-2",children:[w.type==="success"&&l.jsx(ci,{className:"w-5 h-5"}),w.type==="error"&&l.jsx(ui,{className:"w-5 h-5"}),w.type==="info"&&l.jsx(hi,{className:"w-5 h-5"}),l.jsx("span",{children:w.text})]})}),l.jsxs("div",{className:"bg-white/5 backdrop-blur-md rounded-3xl border border-white/10 shadow-2xl overflow-hidden",children:[l.jsx("div",{className:"p-6 border-b border-white/10",children:l.jsxs("div",{className:"flex items-center gap-4",children:[l.jsxs("div",{className:"relative flex-1",children:[l.jsx(mi,{className:"absolute right-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400"}),l.jsx("input",{id:"searchInput",type:"text",placeholder:"البحث عن مستخدم...",className:"w-full bg-white/10 border border-white/20 rounded-xl px-12 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent",onKeyPress:T=>T.key==="Enter"&&P()})]}),l.jsxs("button",{onClick:P,className:"bg-purple-500/20 hover:bg-purple-500/30 border border-purple-500/50 rounded-xl px-6 py-3 text-purple-300 transition-colors flex items-center gap-2",children:[l.jsx(mi,{className:"w-4 h-4"}),"بحث"]}),l.jsxs("button",{onClick:()=>k(),className:"bg-green-500/20 hover:bg-green-500/30 border border-green-500/50 rounded-xl px-6 py-3 text-green-300 transition-colors flex items-center gap-2",children:[l.jsx(Zn,{className:"w-4 h-4"}),"تحديث"]})]})}),l.jsxs("div",{className:"p-6",children:[c?l.jsxs("div",{className:"text-center py-12",children:[l.jsx(Zn,{className:"w-8 h-8 text-purple-400 animate-spin mx-auto mb-4"}),l.jsx("p",{className:"text-gray-300",children:"جاري التحميل..."})]}):e.length===0?l.jsxs("div",{className:"text-center py-12",children:[l.jsx(Lt,{className:"w-16 h-16 text-gray-400 mx-auto mb-4"}),l.jsx("h3",{className:"text-xl font-semibold text-white mb-2",children:"لا توجد مستخدمين"}),l.jsx("p",{className:"text-gray-300",children:"لم يتم العثور على أي مستخدمين"})]}):l.jsx("div",{className:"grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6",children:e.map(T=>l.jsxs("div",{className:"bg-white/5 rounded-2xl p-6 border border-white/10 hover:bg-white/10 transition-all duration-200",children:[l.jsxs("div",{className:"flex items-center gap-4 mb-4",children:[l.jsx("img",{src:Pe(T.avatar),alt:"صورة المستخدم",className:"w-16 h-16 rounded-full object-cover border-2 border-purple-500"}),l.jsxs("div",{className:"flex-1",children:[l.jsx("h3",{className:"font-semibold text-white",children:T.displayName||T.username}),l.jsxs("p",{className:"text-sm text-gray-400",children:["ID: ",T.userId]})]})]}),l.jsx("div",{className:"space-y-3 mb-4",children:l.jsxs("div",{className:"flex items-center justify-between p-3 bg-white/5 rounded-lg",children:[l.jsxs("div",{className:"flex items-center gap-3",children:[l.jsx("img",{src:Pe(T.avatar),alt:"الصورة الشخصية",className:"w-8 h-8 rounded-lg object-cover"}),l.jsxs("div",{children:[l.jsx("p",{className:"text-sm font-medium text-white",children:"الصورة الشخصية"}),l.jsx("p",{className:"text-xs text-gray-400",children:re(T.avatar)})]})]}),l.jsxs("div",{className:"flex gap-2",children:[l.jsx("button",{onClick:()=>H(T,"remove_avatar"),className:"p-2 bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 rounded-lg text-red-300 transition-colors",title:"حذف",children:l.jsx(lm,{className:"w-4 h-4"})}),l.jsx("button",{onClick:()=>H(T,"change_avatar"),className:"p-2 bg-yellow-500/20 hover:bg-yellow-500/30 border border-yellow-500/50 rounded-lg text-yellow-300 transition-colors",title:"تغيير",children:l.jsx(qu,{className:"w-4 h-4"})})]})]})})]},T.userId))}),o&&o.totalPages>1&&l.jsxs("div",{className:"flex justify-center items-center gap-2 mt-8",children:[o.hasPrevPage&&l.jsx("button",{onClick:()=>k(n-1,s),className:"px-4 py-2 bg-white/10 hover:bg-white/20 border border-white/20 rounded-lg text-white transition-colors",children:"السابق"}),Array.from({length:o.totalPages},(T,W)=>W+1).map(T=>l.jsx("button",{onClick:()=>k(T,s),className:`px-4 py-2 rounded-lg transition-colors ${T===n?"bg-purple-500 text-white":"bg-white/10 hover:bg-white/20 border border-white/20 text-white"}`,children:T},T)),o.hasNextPage&&l.jsx("button",{onClick:()=>k(n+1,s),className:"px-4 py-2 bg-white/10 hover:bg-white/20 border border-white/20 rounded-lg text-white transition-colors",children:"التالي"})]})]})]}),u&&l.jsx("div",{className:"fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4",children:l.jsxs("div",{className:"bg-slate-800 rounded-3xl p-8 max-w-md w-full border border-white/20",children:[l.jsxs("div",{className:"flex items-center justify-between mb-6",children:[l.jsxs("h3",{className:"text-xl font-bold text-white",children:["إدارة صور المستخدم ",h==null?void 0:h.userId]}),l.jsx("button",{onClick:L,className:"p-2 rounded-lg hover:bg-white/10 transition-colors",children:l.jsx(fo,{className:"w-5 h-5 text-gray-400"})})]}),l.jsxs("form",{onSubmit:xe,className:"space-y-6",children:[l.jsxs("div",{children:[l.jsx("label",{className:"block text-sm font-medium text-gray-300 mb-2",children:"الإجراء"}),l.jsxs("select",{value:m,onChange:T=>g(T.target.value),className:"w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-purple-500",required:!0,children:[l.jsx("option",{value:"",children:"اختر الإجراء"}),l.jsx("option",{value:"remove_avatar",children:"حذف الصورة الشخصية"}),l.jsx("option",{value:"change_avatar",children:"تغيير الصورة الشخصية"})]})]}),m.startsWith("change_")&&l.jsxs("div",{children:[l.jsx("label",{className:"block text-sm font-medium text-gray-300 mb-2",children:"اختر الصورة"}),l.jsxs("div",{className:"relative",children:[l.jsx("input",{type:"file",accept:"image/*",onChange:y,className:"hidden",id:"imageFile"}),l.jsxs("label",{htmlFor:"imageFile",className:"w-full bg-purple-500/20 hover:bg-purple-500/30 border border-purple-500/50 rounded-xl px-4 py-3 text-purple-300 cursor-pointer transition-colors flex items-center justify-center gap-2",children:[l.jsx(sm,{className:"w-5 h-5"}),"اختيار ملف"]})]}),I&&l.jsx("div",{className:"mt-4",children:l.jsx("img",{src:I,alt:"معاينة الصورة",className:"w-full max-h-40 object-cover rounded-xl"})})]}),l.jsxs("div",{className:"flex gap-4",children:[l.jsx("button",{type:"submit",className:"flex-1 bg-gradient-to-r from-purple-500 to-indigo-500 hover:from-purple-600 hover:to-indigo-600 text-white font-semibold py-3 px-6 rounded-xl transition-all duration-200",children:"حفظ التغييرات"}),l.jsx("button",{type:"button",onClick:L,className:"flex-1 bg-gray-500/20 hover:bg-gray-500/30 border border-gray-500/50 text-gray-300 font-semibold py-3 px-6 rounded-xl transition-all duration-200",children:"إلغاء"})]})]})]})})]})},La=({userData:e,onLogout:t})=>{const[n,r]=v.useState("users"),[s,i]=v.useState([]),[o,a]=v.useState(null),[c,d]=v.useState(""),[h,x]=v.useState(!1),[m,g]=v.useState(null),[j,N]=v.useState({numBoxes:10,winRatio:.3}),[I,f]=v.useState([]);v.useEffect(()=>{e!=null&&e.isAdmin&&(p(),w(),C())},[e]);const u=(y,A)=>{g({type:y,text:A}),setTimeout(()=>g(null),5e3)},p=async()=>{x(!0);try{const y=await ae.getAllUsersAdmin();i(y.users||[])}catch{u("error","خطأ في تحميل المستخدمين")}finally{x(!1)}},w=async()=>{try{const y=await ae.getGameSettings();N(y)}catch(y){console.error("خطأ في تحميل إعدادات اللعبة:",y)}},C=async()=>{try{const y=await ae.getSuspiciousActivity();f(y.users||[])}catch(y){console.error("خطأ في تحميل النشاطات المشبوهة:",y),f([])}},E=async y=>{if(!y.trim()){p();return}x(!0);try{const A=await ae.searchUsersAdmin(y);i(A.users||[])}catch{u("error","خطأ في البحث")}finally{x(!1)}},k=async(y,A)=>{try{if(A.playerId){if(!/^\d{6}$/.test(A.playerId)){u("error","معرف اللاعب يجب أن يكون 6 أرقام فقط");return}await ae.updatePlayerId(y,A.playerId),u("success","تم تحديث معرف اللاعب بنجاح")}const{playerId:xe,...L}=A;Object.keys(L).length>0&&(await ae.updateUserAdmin(y,L),u("success","تم تحديث المستخدم بنجاح")),p(),a(null)}catch{u("error","خطأ في تحديث المستخدم")}},P=async()=>{try{await ae.updateGameSettings(j),u("success","تم حفظ إعدادات اللعبة بنجاح")}catch{u("error","خطأ في حفظ الإعدادات")}},H=s.filter(y=>y.username.toLowerCase().includes(c.toLowerCase())||y.email.toLowerCase().includes(c.toLowerCase()));return e!=null&&e.isAdmin?l.jsxs("div",{className:"min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 text-white",children:[l.jsx("div",{className:"absolute inset-0 overflow-hidden",children:l.jsxs("div",{className:"absolute -inset-10 opacity-20",children:[l.jsx("div",{className:"absolute top-1/4 left-1/4 w-96 h-96 bg-purple-500 rounded-full mix-blend-multiply filter blur-xl animate-pulse"}),l.jsx("div",{className:"absolute top-3/4 right-1/4 w-96 h-96 bg-blue-500 rounded-full mix-blend-multiply filter blur-xl animate-pulse delay-1000"}),l.jsx("div",{className:"absolute bottom-1/4 left-1/2 w-96 h-96 bg-pink-500 rounded-full mix-blend-multiply filter blur-xl animate-pulse delay-2000"})]})}),l.jsxs("div",{className:"relative z-10 container mx-auto px-4 py-8",children:[l.jsxs("div",{className:"flex items-center justify-between mb-8",children:[l.jsxs("div",{className:"flex items-center gap-4",children:[l.jsxs("div",{className:"w-16 h-16 bg-gradient-to-r from-yellow-500 to-orange-500 rounded-2xl flex items-center justify-center relative",children:[l.jsx(Ht,{className:"w-8 h-8 text-white"}),l.jsx(Mn,{className:"w-4 h-4 text-white absolute -top-1 -right-1"})]}),l.jsxs("div",{children:[l.jsx("h1",{className:"text-3xl font-bold bg-gradient-to-r from-yellow-400 to-orange-400 bg-clip-text text-transparent",children:"لوحة تحكم المشرف"}),l.jsx("p",{className:"text-gray-300",children:"INFINITY BOX - إدارة شاملة للمنصة"})]})]}),l.jsxs("div",{className:"flex items-center gap-4",children:[l.jsxs("div",{className:"bg-white/10 backdrop-blur-md rounded-2xl px-4 py-2 border border-white/20 flex items-center gap-3",children:[l.jsx(Ht,{className:"w-5 h-5 text-yellow-400"}),l.jsxs("span",{className:"text-sm text-gray-300",children:["مرحباً، ",e.username]})]}),l.jsx("button",{onClick:t,className:"bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 rounded-xl px-4 py-2 text-red-300 hover:text-red-200 transition-all duration-200",children:"خروج"})]})]}),m&&l.jsx("div",{className:`mb-6 p-4 rounded-2xl border ${m.type==="success"?"bg-green-500/20 border-green-500/50 text-green-300":m.type==="error"?"bg-red-500/20 border-red-500/50 text-red-300":"bg-blue-500/20 border-blue-500/50 text-blue-300"}`,children:l.jsxs("div",{className:"flex items-center gap-2",children:[m.type==="success"&&l.jsx(ci,{className:"w-5 h-5"}),m.type==="error"&&l.jsx(ui,{className:"w-5 h-5"}),m.type==="info"&&l.jsx(hi,{className:"w-5 h-5"}),l.jsx("span",{children:m.text})]})}),l.jsx("div",{className:"flex flex-wrap gap-2 mb-8",children:[{id:"users",label:"إدارة المستخدمين",icon:Lt,color:"from-blue-500 to-cyan-500"},{id:"game",label:"إعدادات اللعبة",icon:Nl,color:"from-green-500 to-emerald-500"},{id:"suspicious",label:"النشاطات المشبوهة",icon:ka,color:"from-red-500 to-pink-500"},{id:"images",label:"إدارة الصور",icon:Yu,color:"from-purple-500 to-indigo-500"}].map(y=>l.jsxs("button",{onClick:()=>r(y.id),className:`flex items-center gap-2 px-6 py-3 rounded-xl transition-all duration-200 ${n===y.id?`bg-gradient-to-r ${y.color} text-white shadow-lg`:"bg-white/10 hover:bg-white/20 text-gray-300"}`,children:[l.jsx(y.icon,{className:"w-5 h-5"}),l.jsx("span",{className:"font-medium",children:y.label})]},y.id))}),l.jsxs("div",{className:"bg-white/5 backdrop-blur-md rounded-3xl border border-white/10 shadow-2xl overflow-hidden",children:[n==="users"&&l.jsxs("div",{className:"p-8",children:[l.jsxs("div",{className:"flex items-center justify-between mb-6",children:[l.jsxs("h2",{className:"text-2xl font-bold text-white flex items-center gap-2",children:[l.jsx(Lt,{className:"w-6 h-6 text-blue-400"}),"إدارة المستخدمين (",H.length,")"]}),l.jsxs("button",{onClick:p,className:"flex items-center gap-2 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 rounded-xl px-4 py-2 text-blue-300 transition-colors",children:[l.jsx(Zn,{className:"w-4 h-4"}),"تحديث"]})]}),l.jsxs("div",{className:"relative mb-6",children:[l.jsx(mi,{className:"absolute right-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400"}),l.jsx("input",{type:"text",value:c,onChange:y=>{d(y.target.value),E(y.target.value)},placeholder:"البحث عن المستخدمين...",className:"w-full bg-white/10 border border-white/20 rounded-xl px-12 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"})]}),h?l.jsxs("div",{className:"text-center py-12",children:[l.jsx(Zn,{className:"w-8 h-8 text-blue-400 animate-spin mx-auto mb-4"}),l.jsx("p",{className:"text-gray-300",children:"جاري التحميل..."})]}):l.jsx("div",{className:"grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6",children:H.map(y=>l.jsxs("div",{className:"bg-white/5 rounded-2xl p-6 border border-white/10 hover:bg-white/10 transition-all duration-200",children:[l.jsxs("div",{className:"flex items-center gap-4 mb-4",children:[l.jsx("div",{className:"w-12 h-12 bg-gradient-to-r from-blue-500 to-cyan-500 rounded-full flex items-center justify-center text-lg font-bold",children:y.username.charAt(0).toUpperCase()}),l.jsxs("div",{className:"flex-1",children:[l.jsxs("h3",{className:"font-semibold text-white flex items-center gap-2",children:[y.username,y.isAdmin&&l.jsx(Ht,{className:"w-4 h-4 text-yellow-400"})]}),l.jsx("p",{className:"text-sm text-gray-400",children:y.email}),l.jsxs("p",{className:"text-xs text-blue-400",children:["المعرف: ",y.playerId]})]})]}),l.jsxs("div",{className:"grid grid-cols-2 gap-4 mb-4",children:[l.jsxs("div",{className:"bg-white/5 rounded-lg p-3 text-center",children:[l.jsxs("div",{className:"flex items-center justify-center gap-1 mb-1",children:[l.jsx(uo,{className:"w-4 h-4 text-yellow-400"}),l.jsx("span",{className:"text-yellow-400 font-semibold",children:y.coins})]}),l.jsx("p",{className:"text-xs text-gray-400",children:"العملات"})]}),l.jsxs("div",{className:"bg-white/5 rounded-lg p-3 text-center",children:[l.jsxs("div",{className:"flex items-center justify-center gap-1 mb-1",children:[l.jsx(kn,{className:"w-4 h-4 text-purple-400"}),l.jsx("span",{className:"text-purple-400 font-semibold",children:y.pearls||0})]}),l.jsx("p",{className:"text-xs text-gray-400",children:"اللآلئ"})]})]}),l.jsxs("div",{className:"flex gap-2",children:[l.jsxs("button",{onClick:()=>a(y),className:"flex-1 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 rounded-lg px-3 py-2 text-blue-300 text-sm transition-colors flex items-center justify-center gap-1",children:[l.jsx(qu,{className:"w-4 h-4"}),"تعديل"]}),l.jsxs("button",{onClick:()=>k(y.id,{isAdmin:!y.isAdmin}),className:`flex-1 border rounded-lg px-3 py-2 text-sm transition-colors flex items-center justify-center gap-1 ${y.isAdmin?"bg-red-500/20 hover:bg-red-500/30 border-red-500/50 text-red-300":"bg-green-500/20 hover:bg-green-500/30 border-green-500/50 text-green-300"}`,children:[y.isAdmin?l.jsx(om,{className:"w-4 h-4"}):l.jsx(im,{className:"w-4 h-4"}),y.isAdmin?"إلغاء":"ترقية"]})]})]},y.id))})]}),n==="game"&&l.jsxs("div",{className:"p-8",children:[l.jsxs("h2",{className:"text-2xl font-bold text-white mb-6 flex items-center gap-2",children:[l.jsx(Nl,{className:"w-6 h-6 text-green-400"}),"إعدادات اللعبة"]}),l.jsx("div",{className:"max-w-2xl space-y-6",children:l.jsxs("div",{className:"bg-white/5 rounded-2xl p-6 border border-white/10",children:[l.jsx("h3",{className:"text-lg font-semibold text-white mb-4",children:"إعدادات صناديق الحظ"}),l.jsxs("div",{className:"space-y-4",children:[l.jsxs("div",{children:[l.jsx("label",{className:"block text-sm font-medium text-gray-300 mb-2",children:"عدد الصناديق في الجولة"}),l.jsx("input",{type:"number",min:"5",max:"100",value:j.numBoxes,onChange:y=>N(A=>({...A,numBoxes:parseInt(y.target.value)})),className:"w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"})]}),l.jsxs("div",{children:[l.jsx("label",{className:"block text-sm font-medium text-gray-300 mb-2",children:"نسبة الفوز (من 0.1 إلى 0.9)"}),l.jsx("input",{type:"number",min:"0.1",max:"0.9",step:"0.1",value:j.winRatio,onChange:y=>N(A=>({...A,winRatio:parseFloat(y.target.value)})),className:"w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"})]}),l.jsxs("button",{onClick:P,className:"w-full bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white font-semibold py-3 px-6 rounded-xl transition-all duration-200 flex items-center justify-center gap-2",children:[l.jsx(nm,{className:"w-5 h-5"}),"حفظ الإعدادات"]})]})]})})]}),n==="suspicious"&&l.jsxs("div",{className:"p-8",children:[l.jsxs("div",{className:"flex items-center justify-between mb-6",children:[l.jsxs("h2",{className:"text-2xl font-bold text-white flex items-center gap-2",children:[l.jsx(ka,{className:"w-6 h-6 text-red-400"}),"النشاطات المشبوهة"]}),l.jsxs("button",{onClick:C,className:"flex items-center gap-2 bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 rounded-xl px-4 py-2 text-red-300 transition-colors",children:[l.jsx(Zn,{className:"w-4 h-4"}),"تحديث"]})]}),l.jsxs("div",{className:"grid grid-cols-1 md:grid-cols-3 gap-6 mb-8",children:[l.jsx("div",{className:"bg-red-500/20 rounded-2xl p-6 border border-red-500/50",children:l.jsxs("div",{className:"flex items-center gap-3",children:[l.jsx(hi,{className:"w-8 h-8 text-red-400"}),l.jsxs("div",{children:[l.jsx("p",{className:"text-2xl font-bold text-red-300",children:I.length}),l.jsx("p",{className:"text-sm text-red-400",children:"مستخدمين مشبوهين"})]})]})}),l.jsx("div",{className:"bg-orange-500/20 rounded-2xl p-6 border border-orange-500/50",children:l.jsxs("div",{className:"flex items-center gap-3",children:[l.jsx(Qf,{className:"w-8 h-8 text-orange-400"}),l.jsxs("div",{children:[l.jsx("p",{className:"text-2xl font-bold text-orange-300",children:I.filter(y=>y.riskLevel==="high").length}),l.jsx("p",{className:"text-sm text-orange-400",children:"مخاطر عالية"})]})]})}),l.jsx("div",{className:"bg-yellow-500/20 rounded-2xl p-6 border border-yellow-500/50",children:l.jsxs("div",{className:"flex items-center gap-3",children:[l.jsx(wl,{className:"w-8 h-8 text-yellow-400"}),l.jsxs("div",{children:[l.jsx("p",{className:"text-2xl font-bold text-yellow-300",children:I.filter(y=>y.riskLevel==="medium").length}),l.jsx("p",{className:"text-sm text-yellow-400",children:"تحت المراقبة"})]})]})})]}),I.length===0?l.jsxs("div",{className:"text-center py-12",children:[l.jsx(ci,{className:"w-16 h-16 text-green-400 mx-auto mb-4"}),l.jsx("h3",{className:"text-xl font-semibold text-white mb-2",children:"لا توجد نشاطات مشبوهة"}),l.jsx("p",{className:"text-gray-300",children:"جميع المستخدمين يتصرفون بشكل طبيعي"})]}):l.jsx("div",{className:"space-y-4",children:I.map((y,A)=>{var xe,L;return l.jsx("div",{className:"bg-white/5 rounded-2xl p-6 border border-white/10",children:l.jsxs("div",{className:"flex items-center justify-between",children:[l.jsxs("div",{className:"flex items-center gap-4",children:[l.jsx("div",{className:"w-12 h-12 bg-gradient-to-r from-red-500 to-pink-500 rounded-full flex items-center justify-center text-lg font-bold",children:((L=(xe=y.username)==null?void 0:xe.charAt(0))==null?void 0:L.toUpperCase())||"?"}),l.jsxs("div",{children:[l.jsx("h3",{className:"font-semibold text-white",children:y.username}),l.jsxs("p",{className:"text-sm text-gray-400",children:["آخر نشاط: ",y.lastActivity]})]})]}),l.jsx("div",{className:`px-3 py-1 rounded-full text-xs font-semibold ${y.riskLevel==="high"?"bg-red-500/20 text-red-300":y.riskLevel==="medium"?"bg-yellow-500/20 text-yellow-300":"bg-green-500/20 text-green-300"}`,children:y.riskLevel==="high"?"خطر عالي":y.riskLevel==="medium"?"خطر متوسط":"خطر منخفض"})]})},A)})})]}),n==="images"&&l.jsx("div",{className:"p-8",children:l.jsx(Xm,{})})]})]}),o&&l.jsx("div",{className:"fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4",children:l.jsxs("div",{className:"bg-slate-800 rounded-3xl p-8 max-w-md w-full border border-white/20",children:[l.jsx("h3",{className:"text-xl font-bold text-white mb-6",children:"تعديل المستخدم"}),l.jsxs("div",{className:"space-y-4",children:[l.jsxs("div",{children:[l.jsx("label",{className:"block text-sm font-medium text-gray-300 mb-2",children:"معرف اللاعب"}),l.jsx("input",{type:"text",value:o.playerId,onChange:y=>a(A=>A?{...A,playerId:y.target.value}:null),maxLength:6,pattern:"\\d{6}",className:"w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500",placeholder:"6 أرقام فقط"})]}),l.jsxs("div",{children:[l.jsx("label",{className:"block text-sm font-medium text-gray-300 mb-2",children:"اسم المستخدم"}),l.jsx("input",{type:"text",value:o.username,onChange:y=>a(A=>A?{...A,username:y.target.value}:null),className:"w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"})]}),l.jsxs("div",{children:[l.jsx("label",{className:"block text-sm font-medium text-gray-300 mb-2",children:"العملات الذهبية"}),l.jsx("input",{type:"number",value:o.coins,onChange:y=>a(A=>A?{...A,coins:parseInt(y.target.value)}:null),className:"w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"})]}),l.jsxs("div",{children:[l.jsx("label",{className:"block text-sm font-medium text-gray-300 mb-2",children:"اللآلئ"}),l.jsx("input",{type:"number",value:o.pearls||0,onChange:y=>a(A=>A?{...A,pearls:parseInt(y.target.value)}:null),className:"w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"})]}),l.jsxs("div",{className:"flex items-center gap-3",children:[l.jsx("input",{type:"checkbox",id:"isAdmin",checked:o.isAdmin,onChange:y=>a(A=>A?{...A,isAdmin:y.target.checked}:null),className:"w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"}),l.jsx("label",{htmlFor:"isAdmin",className:"text-sm font-medium text-gray-300",children:"صلاحيات المشرف"})]})]}),l.jsxs("div",{className:"flex gap-4 mt-8",children:[l.jsx("button",{onClick:()=>k(o.id,o),className:"flex-1 bg-gradient-to-r from-blue-500 to-cyan-500 hover:from-blue-600 hover:to-cyan-600 text-white font-semibold py-3 px-6 rounded-xl transition-all duration-200",children:"حفظ التغييرات"}),l.jsx("button",{onClick:()=>a(null),className:"flex-1 bg-gray-500/20 hover:bg-gray-500/30 border border-gray-500/50 text-gray-300 font-semibold py-3 px-6 rounded-xl transition-all duration-200",children:"إلغاء"})]})]})})]}):l.jsx("div",{className:"min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center",children:l.jsxs("div",{className:"bg-red-500/20 border border-red-500/50 rounded-3xl p-8 text-center max-w-md",children:[l.jsx(ui,{className:"w-16 h-16 text-red-400 mx-auto mb-4"}),l.jsx("h2",{className:"text-2xl font-bold text-white mb-2",children:"غير مصرح"}),l.jsx("p",{className:"text-red-300 mb-6",children:"ليس لديك صلاحيات للوصول إلى لوحة تحكم المشرف"}),l.jsx("button",{onClick:t,className:"bg-red-500 hover:bg-red-600 text-white px-6 py-2 rounded-xl transition-colors",children:"العودة لتسجيل الدخول"})]})})},Km=({userData:e,isOwner:t,onUpdateProfile:n})=>{const[r,s]=v.useState("overview"),[i,o]=v.useState(!1),[a,c]=v.useState(""),[d,h]=v.useState((e==null?void 0:e.gender)||"male"),[x,m]=v.useState(!1),[g,j]=v.useState({gems:0,stars:0,coins:0,bombs:0,bats:0,snakes:0}),[N,I]=v.useState(!1),[f,u]=v.useState(!1),[p,w]=v.useState(""),E=(L=>L==="female"?{primary:"from-pink-500 to-red-400",secondary:"bg-pink-50",accent:"text-pink-600",button:"bg-pink-500 hover:bg-pink-600",border:"border-pink-200"}:{primary:"from-blue-500 to-yellow-400",secondary:"bg-blue-50",accent:"text-blue-600",button:"bg-blue-500 hover:bg-blue-600",border:"border-blue-200"})((e==null?void 0:e.gender)||"male");v.useEffect(()=>{e!=null&&e.id&&(k(),P())},[e==null?void 0:e.id,t]);const k=async()=>{try{const L=await fetch(`/api/user-items/${e.id}`);if(L.ok){const re=await L.json();j(re.items)}}catch(L){console.error("Error fetching user items:",L)}},P=async()=>{if(!t&&(e!=null&&e.id))try{const L=localStorage.getItem("token"),re=await fetch(`/api/friends/check/${e.id}`,{headers:{Authorization:`Bearer ${L}`}});if(re.ok){const Pe=await re.json();I(Pe.isFriend)}}catch(L){console.error("Error checking friendship:",L)}},H=async()=>{if(p.trim())try{const L=localStorage.getItem("token");(await fetch("/api/messages/send",{method:"POST",headers:{"Content-Type":"application/json",Authorization:`Bearer ${L}`},body:JSON.stringify({toUserId:e.id,message:p})})).ok?(w(""),u(!1),alert("تم إرسال الرسالة بنجاح!")):alert("فشل في إرسال الرسالة")}catch(L){console.error("Error sending message:",L),alert("خطأ في إرسال الرسالة")}},y=L=>{var Pe;const re=(Pe=L.target.files)==null?void 0:Pe[0];if(re){if(re.size>5*1024*1024){alert("حجم الصورة كبير جداً. يجب أن يكون أقل من 5 ميجابايت");return}const T=new FileReader;T.onload=W=>{var S;c((S=W.target)==null?void 0:S.result)},T.readAsDataURL(re)}},A=async()=>{m(!0);try{const L=localStorage.getItem("token"),re=await fetch("/api/profile/update",{method:"PUT",headers:{"Content-Type":"application/json",Authorization:`Bearer ${L}`},body:JSON.stringify({profileImage:a,gender:d})});if(re.ok){const Pe=await re.json();n==null||n(Pe),o(!1),alert("تم تحديث الملف الشخصي بنجاح!")}else alert("فشل في تحديث الملف الشخصي")}catch(L){console.error("Error updating profile:",L),alert("حدث خطأ في تحديث الملف الشخصي")}finally{m(!1)}},xe=()=>a||(e!=null&&e.profileImage?e.profileImage:(e==null?void 0:e.gender)==="female"?"data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTAwIiBoZWlnaHQ9IjEwMCIgdmlld0JveD0iMCAwIDEwMCAxMDAiIGZpbGw9Im5vbmUiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+CjxyZWN0IHdpZHRoPSIxMDAiIGhlaWdodD0iMTAwIiByeD0iNTAiIGZpbGw9IiNGRjY5QjQiLz4KPHN2ZyB4PSIyNSIgeT0iMjUiIHdpZHRoPSI1MCIgaGVpZ2h0PSI1MCIgdmlld0JveD0iMCAwIDI0IDI0IiBmaWxsPSJ3aGl0ZSI+CjxwYXRoIGQ9Ik0xMiAyQzEzLjEgMiAxNCAyLjkgMTQgNFMxMy4xIDYgMTIgNiAxMCA1LjEgMTAgNFMxMC45IDIgMTIgMlpNMjEgOVYxMUgyMFYxMkMxOS4xIDEyIDE4LjQgMTIuNiAxOC4xIDEzLjNDMTcuMSAxMS45IDE1LjEgMTEgMTMuOCAxMC43QzE0IDEwLjUgMTQuMSAxMC4yIDE0LjEgMTBDMTQgOS4xIDEzLjYgOC40IDEzIDhDMTMuNCA3LjYgMTMuNyA3IDE0IDYuOUMxNS40IDcuNyAxNi4yIDkuMSAxNiAzMEMxOC40IDI5IDEwLjUgMzAgOFMxMS42IDI5IDEwIDI5LjdIMThDMTggMjguNSAxOC4zIDI3LjUgMTguOSAyNi43QzE5LjMgMjcuMSAxOS44IDI3LjMgMjAuNSAyNy4zSDE5QzE5IDI3IDEwLjMgMjcgMTAuNSAyNy4zSDE5LjQgMjEgOVoiLz4KPHN2Zz4KPHN2Zz4K":"data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTAwIiBoZWlnaHQ9IjEwMCIgdmlld0JveD0iMCAwIDEwMCAxMDAiIGZpbGw9Im5vbmUiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+CjxyZWN0IHdpZHRoPSIxMDAiIGhlaWdodD0iMTAwIiByeD0iNTAiIGZpbGw9IiMzQjgyRjYiLz4KPHN2ZyB4PSIyNSIgeT0iMjUiIHdpZHRoPSI1MCIgaGVpZ2h0PSI1MCIgdmlld0JveD0iMCAwIDI0IDI0IiBmaWxsPSJ3aGl0ZSI+CjxwYXRoIGQ9Ik0xMiAyQTMgMyAwIDAgMSAxNSA1QTMgMyAwIDAgMSAxMiA4QTMgMyAwIDAgMSA5IDVBMyAzIDAgMCAxIDEyIDJNMjEgMjFWMjBDMjEgMTYuMTMgMTcuODcgMTMgMTQgMTNIMTBDNi4xMyAxMyAzIDE2LjEzIDMgMjBWMjFIMjFaIi8+Cjwvc3ZnPgo=");return l.jsxs("div",{className:"max-w-md mx-auto bg-gradient-to-br from-slate-900 via-purple-900/90 to-slate-800 min-h-screen rounded-3xl shadow-2xl overflow-hidden",children:[l.jsxs("div",{className:`bg-gradient-to-br ${E.primary} p-8 text-white relative overflow-hidden rounded-t-3xl`,children:[l.jsxs("div",{className:"absolute inset-0 opacity-20",children:[l.jsx("div",{className:"absolute top-0 left-0 w-40 h-40 bg-white/30 rounded-full -translate-x-20 -translate-y-20 blur-xl"}),l.jsx("div",{className:"absolute bottom-0 right-0 w-32 h-32 bg-white/20 rounded-full translate-x-12 translate-y-12 blur-lg"}),l.jsx("div",{className:"absolute top-1/2 left-1/2 w-24 h-24 bg-white/10 rounded-full -translate-x-12 -translate-y-12 blur-md"})]}),l.jsxs("div",{className:"relative z-10",children:[l.jsxs("div",{className:"flex flex-col items-center mb-4",children:[l.jsxs("div",{className:"relative",children:[l.jsx("div",{className:"w-28 h-28 rounded-full overflow-hidden border-4 border-white/60 shadow-2xl bg-gradient-to-br from-purple-400 to-blue-500 ring-4 ring-white/30 backdrop-blur-sm",children:l.jsx("img",{src:xe(),alt:"الصورة الشخصية",className:"w-full h-full object-cover"})}),t&&l.jsx("button",{onClick:()=>{var L;return i?(L=document.getElementById("imageUpload"))==null?void 0:L.click():o(!0)},className:"absolute -bottom-1 -right-1 w-10 h-10 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center shadow-xl border-2 border-white/50 hover:scale-110 transition-transform",children:l.jsx(Df,{className:"w-5 h-5 text-white"})}),i&&l.jsx("input",{id:"imageUpload",type:"file",accept:"image/*",onChange:y,className:"hidden"})]}),l.jsx("h2",{className:"text-xl font-bold mt-3 text-black",children:e==null?void 0:e.username}),l.jsxs("p",{className:"text-white/80 text-sm",children:["ID: ",e==null?void 0:e.playerId]}),i&&l.jsxs("div",{className:"mt-3 flex space-x-2 rtl:space-x-reverse",children:[l.jsx("button",{onClick:()=>h("male"),className:`px-3 py-1 rounded-full text-xs ${d==="male"?"bg-white text-blue-600":"bg-white/20 text-white"}`,children:"ذكر"}),l.jsx("button",{onClick:()=>h("female"),className:`px-3 py-1 rounded-full text-xs ${d==="female"?"bg-white text-pink-600":"bg-white/20 text-white"}`,children:"أنثى"})]})]}),t?l.jsxs("div",{className:"grid grid-cols-3 gap-3 text-center",children:[l.jsxs("div",{className:"bg-white/20 rounded-lg p-3 backdrop-blur-sm",children:[l.jsxs("div",{className:"text-lg font-bold text-black",children:["🪙 ",(e==null?void 0:e.goldCoins)||0]}),l.jsx("div",{className:"text-xs text-white/80",children:"ذهب"})]}),l.jsxs("div",{className:"bg-white/20 rounded-lg p-3 backdrop-blur-sm",children:[l.jsxs("div",{className:"text-lg font-bold text-black",children:["🦪 ",(e==null?void 0:e.pearls)||0]}),l.jsx("div",{className:"text-xs text-white/80",children:"لؤلؤ"})]}),l.jsxs("div",{className:"bg-white/20 rounded-lg p-3 backdrop-blur-sm",children:[l.jsxs("div",{className:"text-lg font-bold text-black",children:["Lv.",(e==null?void 0:e.level)||1]}),l.jsx("div",{className:"text-xs text-white/80",children:"مستوى"})]})]}):l.jsxs("div",{className:"space-y-3",children:[l.jsxs("div",{className:"bg-white/20 rounded-lg p-3 backdrop-blur-sm text-center",children:[l.jsxs("div",{className:"text-lg font-bold text-black",children:["Lv.",(e==null?void 0:e.level)||1]}),l.jsx("div",{className:"text-xs text-white/80",children:"مستوى"})]}),N&&l.jsxs("button",{onClick:()=>u(!0),className:"w-full bg-gradient-to-r from-blue-500 to-purple-600 text-white py-2 px-4 rounded-lg flex items-center justify-center gap-2 hover:from-blue-600 hover:to-purple-700 transition-all duration-300 shadow-lg",children:[l.jsx($l,{className:"w-4 h-4"}),l.jsx("span",{children:"إرسال رسالة"})]})]})]}),i&&l.jsxs("div",{className:"absolute top-4 right-4 flex space-x-2 rtl:space-x-reverse",children:[l.jsx("button",{onClick:A,disabled:x,className:"w-8 h-8 bg-green-500 rounded-full flex items-center justify-center",children:l.jsx(Yf,{className:"w-4 h-4 text-white"})}),l.jsx("button",{onClick:()=>{o(!1),c(""),h((e==null?void 0:e.gender)||"male")},className:"w-8 h-8 bg-red-500 rounded-full flex items-center justify-center",children:l.jsx(fo,{className:"w-4 h-4 text-white"})})]})]}),l.jsx("div",{className:"sticky top-0 bg-gradient-to-r from-slate-800/95 to-blue-800/95 backdrop-blur-md border-b border-blue-500/30 z-20 mx-4 rounded-2xl mt-4 shadow-lg",children:l.jsx("div",{className:"flex overflow-x-auto scrollbar-hide p-2",children:[{id:"overview",label:"عام",icon:Xr},...t?[{id:"friends",label:"أصدقاء",icon:Lt},{id:"gifts",label:"هدايا",icon:Zf},{id:"items",label:"عناصر ودرع",icon:kn},{id:"charge",label:"شحن",icon:Kf},{id:"exchange",label:"تبديل",icon:Wf}]:[]].map(L=>l.jsxs("button",{onClick:()=>s(L.id),className:`flex-shrink-0 flex flex-col items-center px-3 py-2 min-w-[60px] transition-all duration-300 rounded-xl ${r===L.id?"bg-gradient-to-br from-blue-500 to-indigo-600 text-white shadow-lg transform scale-105":"text-gray-300 hover:bg-slate-800/40 hover:text-white"}`,children:[l.jsx(L.icon,{className:"w-4 h-4 mb-1"}),l.jsx("span",{className:"text-xs font-medium",children:L.label})]},L.id))})}),l.jsxs("div",{className:"p-6 pb-20",children:[r==="overview"&&l.jsxs("div",{className:"space-y-6",children:[l.jsxs("div",{className:"bg-gradient-to-br from-slate-800/90 to-blue-800/90 rounded-2xl p-6 border border-blue-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h3",{className:"font-bold text-blue-300 mb-4 text-lg flex items-center gap-2",children:[l.jsx(Xr,{className:"w-5 h-5"}),"معلومات الحساب"]}),l.jsxs("div",{className:"space-y-3 text-sm",children:[l.jsxs("div",{className:"flex justify-between items-center p-3 bg-slate-800/40 rounded-xl backdrop-blur-sm border border-slate-400/20",children:[l.jsx("span",{className:"text-slate-300",children:"الجنس:"}),l.jsx("span",{className:"text-blue-300 font-medium",children:(e==null?void 0:e.gender)==="female"?"👩 أنثى":"👨 ذكر"})]}),l.jsxs("div",{className:"flex justify-between items-center p-3 bg-slate-800/40 rounded-xl backdrop-blur-sm border border-slate-400/20",children:[l.jsx("span",{className:"text-slate-300",children:"تاريخ الانضمام:"}),l.jsx("span",{className:"text-blue-300 font-medium",children:new Date(e==null?void 0:e.joinedAt).toLocaleDateString("ar-EG")})]}),l.jsxs("div",{className:"flex justify-between items-center p-3 bg-slate-800/40 rounded-xl backdrop-blur-sm border border-slate-400/20",children:[l.jsx("span",{className:"text-slate-300",children:"آخر نشاط:"}),l.jsx("span",{className:"text-blue-300 font-medium",children:new Date(e==null?void 0:e.lastActive).toLocaleDateString("ar-EG")})]})]})]}),!t&&l.jsx("div",{className:"bg-gradient-to-br from-blue-800/80 to-indigo-800/80 rounded-2xl p-6 border border-blue-400/30 shadow-xl backdrop-blur-sm",children:l.jsxs("div",{className:"flex items-center space-x-3 rtl:space-x-reverse",children:[l.jsx("div",{className:"w-12 h-12 bg-gradient-to-br from-blue-400 to-indigo-500 rounded-full flex items-center justify-center shadow-lg",children:l.jsx(Xr,{className:"w-6 h-6 text-white"})}),l.jsxs("div",{children:[l.jsx("h4",{className:"font-bold text-blue-300 text-lg",children:"ملف عام"}),l.jsx("p",{className:"text-sm text-blue-200",children:"يمكنك عرض الاسم والصورة والآي دي والمستوى فقط"})]})]})}),l.jsxs("div",{className:"grid grid-cols-2 gap-4",children:[l.jsx("div",{className:"bg-gradient-to-br from-amber-800/80 to-orange-800/80 rounded-2xl p-5 shadow-xl border border-amber-400/30 backdrop-blur-sm",children:l.jsxs("div",{className:"flex items-center space-x-3 rtl:space-x-reverse",children:[l.jsx("div",{className:"w-12 h-12 bg-gradient-to-br from-amber-400 to-orange-500 rounded-full flex items-center justify-center shadow-lg",children:l.jsx("span",{className:"text-2xl",children:"🏆"})}),l.jsxs("div",{children:[l.jsx("div",{className:"text-xl font-bold text-black",children:(e==null?void 0:e.experience)||0}),l.jsx("div",{className:"text-xs text-amber-200 font-medium",children:"خبرة"})]})]})}),l.jsx("div",{className:"bg-gradient-to-br from-amber-800/80 to-orange-800/80 rounded-2xl p-5 shadow-xl border border-amber-400/30 backdrop-blur-sm",children:l.jsxs("div",{className:"flex items-center space-x-3 rtl:space-x-reverse",children:[l.jsx("div",{className:"w-12 h-12 bg-gradient-to-br from-amber-400 to-orange-500 rounded-full flex items-center justify-center shadow-lg",children:l.jsx("span",{className:"text-2xl",children:"🎮"})}),l.jsxs("div",{children:[l.jsx("div",{className:"text-xl font-bold text-black",children:(e==null?void 0:e.level)||1}),l.jsx("div",{className:"text-xs text-amber-200 font-medium",children:"مستوى"})]})]})})]})]}),t&&r==="friends"&&l.jsxs("div",{className:"space-y-5",children:[l.jsxs("div",{className:"text-center mb-6",children:[l.jsx("div",{className:"text-5xl mb-4 drop-shadow-lg",children:"👥"}),l.jsx("h3",{className:"text-xl font-bold text-white mb-2",children:"إدارة الأصدقاء"}),l.jsx("p",{className:"text-gray-300 text-sm",children:"أضف وتفاعل مع أصدقائك في المنصة"})]}),l.jsxs("div",{className:"bg-gradient-to-br from-blue-800/60 to-indigo-800/60 p-6 rounded-2xl border border-blue-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("div",{className:"flex items-center gap-3 mb-4",children:[l.jsx(td,{className:"w-6 h-6 text-blue-300"}),l.jsx("h4",{className:"font-bold text-blue-200 text-lg",children:"إضافة صديق جديد"})]}),l.jsxs("div",{className:"flex gap-3",children:[l.jsx("input",{type:"text",placeholder:"رقم اللاعب (6 أرقام)",className:"flex-1 px-4 py-3 bg-blue-900/30 border border-blue-400/30 rounded-xl text-white placeholder-blue-300 focus:outline-none focus:ring-2 focus:ring-blue-500",maxLength:6}),l.jsx("button",{className:"px-6 py-3 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-xl text-sm font-bold hover:from-blue-600 hover:to-indigo-700 transition-all duration-300 shadow-md",children:"🔍 بحث"})]})]}),l.jsxs("div",{className:"bg-gradient-to-br from-slate-800/60 to-blue-800/60 p-6 rounded-2xl border border-slate-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h4",{className:"font-bold text-slate-200 mb-4 text-lg flex items-center gap-3",children:[l.jsx("span",{className:"text-2xl",children:"👫"}),"قائمة الأصدقاء"]}),l.jsxs("div",{className:"text-center py-6 text-slate-300 text-sm bg-slate-900/30 rounded-xl",children:[l.jsx("div",{className:"text-3xl mb-2",children:"😔"}),"لا توجد أصدقاء حالياً"]})]}),l.jsxs("div",{className:"bg-gradient-to-br from-emerald-800/60 to-green-800/60 p-6 rounded-2xl border border-emerald-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h4",{className:"font-bold text-emerald-200 mb-4 text-lg flex items-center gap-3",children:[l.jsx("span",{className:"text-2xl",children:"📩"}),"طلبات الصداقة"]}),l.jsxs("div",{className:"text-center py-6 text-emerald-300 text-sm bg-emerald-900/30 rounded-xl",children:[l.jsx("div",{className:"text-3xl mb-2",children:"📭"}),"لا توجد طلبات صداقة جديدة"]})]})]}),t&&r==="gifts"&&l.jsxs("div",{className:"space-y-5",children:[l.jsxs("div",{className:"text-center mb-6",children:[l.jsx("div",{className:"text-5xl mb-4 drop-shadow-lg",children:"🎁"}),l.jsx("h3",{className:"text-xl font-bold text-white mb-2",children:"نظام إدارة الهدايا"}),l.jsx("p",{className:"text-gray-300 text-sm",children:"أرسل واستقبل الهدايا المتنوعة مع الأصدقاء"})]}),l.jsxs("div",{className:"bg-gradient-to-br from-blue-800/60 to-indigo-800/60 p-6 rounded-2xl border border-blue-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("div",{className:"flex items-center gap-3 mb-5",children:[l.jsx(pi,{className:"w-6 h-6 text-blue-300"}),l.jsx("h4",{className:"font-bold text-blue-200 text-lg",children:"إرسال هدية جديدة"})]}),l.jsxs("div",{className:"mb-5",children:[l.jsxs("h5",{className:"text-base font-bold text-yellow-300 mb-3 flex items-center gap-2",children:[l.jsx("span",{className:"text-xl",children:"💰"}),"العملات الذهبية"]}),l.jsx("div",{className:"grid grid-cols-1 gap-3",children:l.jsxs("button",{className:"p-4 bg-yellow-800/40 border border-yellow-400/30 rounded-xl hover:bg-yellow-700/50 transition-all duration-300 flex items-center gap-4 shadow-lg",children:[l.jsx("div",{className:"text-3xl drop-shadow-lg",children:"🪙"}),l.jsxs("div",{className:"text-right flex-1",children:[l.jsx("div",{className:"text-sm font-bold text-yellow-200",children:"عملات ذهبية"}),l.jsx("div",{className:"text-xs text-yellow-300",children:"للشراء والاستخدام في المنصة"})]})]})})]}),l.jsxs("div",{className:"mb-5",children:[l.jsxs("h5",{className:"text-base font-bold text-red-300 mb-3 flex items-center gap-2",children:[l.jsx("span",{className:"text-xl",children:"⚠️"}),"العناصر الضارة"]}),l.jsxs("div",{className:"grid grid-cols-3 gap-3",children:[l.jsxs("button",{className:"p-4 bg-red-800/40 border border-red-400/30 rounded-xl hover:bg-red-700/50 transition-all duration-300 text-center shadow-lg",children:[l.jsx("div",{className:"text-3xl mb-2 drop-shadow-lg",children:"💣"}),l.jsx("div",{className:"text-xs font-bold text-red-200",children:"قنبلة مدمرة"})]}),l.jsxs("button",{className:"p-4 bg-red-800/40 border border-red-400/30 rounded-xl hover:bg-red-700/50 transition-all duration-300 text-center shadow-lg",children:[l.jsx("div",{className:"text-3xl mb-2 drop-shadow-lg",children:"🦇"}),l.jsx("div",{className:"text-xs font-bold text-red-200",children:"خفاش مؤذي"})]}),l.jsxs("button",{className:"p-4 bg-red-800/40 border border-red-400/30 rounded-xl hover:bg-red-700/50 transition-all duration-300 text-center shadow-lg",children:[l.jsx("div",{className:"text-3xl mb-2 drop-shadow-lg",children:"🐍"}),l.jsx("div",{className:"text-xs font-bold text-red-200",children:"ثعبان سام"})]})]})]}),l.jsxs("div",{className:"mb-5",children:[l.jsxs("h5",{className:"text-base font-bold text-emerald-300 mb-3 flex items-center gap-2",children:[l.jsx("span",{className:"text-xl",children:"✨"}),"العناصر المفيدة"]}),l.jsxs("div",{className:"grid grid-cols-3 gap-3",children:[l.jsxs("button",{className:"p-4 bg-emerald-800/40 border border-emerald-400/30 rounded-xl hover:bg-emerald-700/50 transition-all duration-300 text-center shadow-lg",children:[l.jsx("div",{className:"text-3xl mb-2 drop-shadow-lg",children:"💎"}),l.jsx("div",{className:"text-xs font-bold text-emerald-200",children:"جوهرة نادرة"})]}),l.jsxs("button",{className:"p-4 bg-emerald-800/40 border border-emerald-400/30 rounded-xl hover:bg-emerald-700/50 transition-all duration-300 text-center shadow-lg",children:[l.jsx("div",{className:"text-3xl mb-2 drop-shadow-lg",children:"⭐"}),l.jsx("div",{className:"text-xs font-bold text-emerald-200",children:"نجمة ذهبية"})]}),l.jsxs("button",{className:"p-4 bg-emerald-800/40 border border-emerald-400/30 rounded-xl hover:bg-emerald-700/50 transition-all duration-300 text-center shadow-lg",children:[l.jsx("div",{className:"text-3xl mb-2 drop-shadow-lg",children:"🪙"}),l.jsx("div",{className:"text-xs font-bold text-emerald-200",children:"عملة خاصة"})]})]})]}),l.jsxs("div",{className:"flex gap-3",children:[l.jsx("input",{type:"text",placeholder:"رقم اللاعب (6 أرقام)",className:"flex-1 px-4 py-3 bg-blue-900/30 border border-blue-400/30 rounded-xl text-white placeholder-blue-300 focus:outline-none focus:ring-2 focus:ring-blue-500"}),l.jsx("button",{className:"px-6 py-3 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-xl text-sm font-bold hover:from-blue-600 hover:to-indigo-700 transition-all duration-300 shadow-md",children:"🎁 إرسال"})]})]}),l.jsxs("div",{className:"bg-gradient-to-br from-slate-800/60 to-blue-800/60 p-6 rounded-2xl border border-slate-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h4",{className:"font-bold text-slate-200 mb-4 text-lg flex items-center gap-3",children:[l.jsx("span",{className:"text-2xl",children:"📦"}),"الهدايا المستلمة"]}),l.jsxs("div",{className:"text-center py-6 text-slate-300 text-sm bg-slate-900/30 rounded-xl",children:[l.jsx("div",{className:"text-3xl mb-2",children:"🎈"}),"لا توجد هدايا جديدة في الوقت الحالي"]})]})]}),t&&r==="items"&&l.jsxs("div",{className:"space-y-4",children:[l.jsxs("div",{className:"text-center mb-6",children:[l.jsx("div",{className:"text-4xl mb-3",children:"⚡"}),l.jsx("h3",{className:"text-lg font-semibold text-gray-700 mb-2",children:"العناصر المجمعة"}),l.jsx("p",{className:"text-sm text-gray-500",children:"العناصر التي حصلت عليها من الألعاب"})]}),l.jsxs("div",{className:"bg-gradient-to-br from-emerald-800/80 to-green-800/80 p-6 rounded-2xl border border-emerald-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h4",{className:"font-bold text-emerald-300 mb-4 text-lg flex items-center gap-3",children:[l.jsx("span",{className:"text-2xl",children:"⭐"}),"العناصر المفيدة"]}),l.jsxs("div",{className:"grid grid-cols-3 gap-4",children:[l.jsxs("div",{className:"text-center p-4 bg-emerald-800/40 rounded-xl border border-emerald-400/30 backdrop-blur-sm hover:bg-emerald-700/50 transition-all duration-300 transform hover:scale-105 shadow-lg",children:[l.jsx("div",{className:"text-4xl mb-3 drop-shadow-lg",children:"💎"}),l.jsx("div",{className:"text-sm font-bold text-emerald-200 mb-1",children:"جوهرة نادرة"}),l.jsx("div",{className:"text-xs text-emerald-300 bg-emerald-900/30 px-2 py-1 rounded-lg mb-2",children:"مكافأة 500 🪙"}),l.jsx("div",{className:"text-xl font-bold text-white bg-gradient-to-r from-emerald-600 to-green-600 rounded-xl py-2 shadow-md",children:g.gems})]}),l.jsxs("div",{className:"text-center p-4 bg-emerald-800/40 rounded-xl border border-emerald-400/30 backdrop-blur-sm hover:bg-emerald-700/50 transition-all duration-300 transform hover:scale-105 shadow-lg",children:[l.jsx("div",{className:"text-4xl mb-3 drop-shadow-lg",children:"⭐"}),l.jsx("div",{className:"text-sm font-bold text-emerald-200 mb-1",children:"نجمة ذهبية"}),l.jsx("div",{className:"text-xs text-emerald-300 bg-emerald-900/30 px-2 py-1 rounded-lg mb-2",children:"مكافأة 200 🪙"}),l.jsx("div",{className:"text-xl font-bold text-white bg-gradient-to-r from-emerald-600 to-green-600 rounded-xl py-2 shadow-md",children:g.stars})]}),l.jsxs("div",{className:"text-center p-4 bg-emerald-800/40 rounded-xl border border-emerald-400/30 backdrop-blur-sm hover:bg-emerald-700/50 transition-all duration-300 transform hover:scale-105 shadow-lg",children:[l.jsx("div",{className:"text-4xl mb-3 drop-shadow-lg",children:"🪙"}),l.jsx("div",{className:"text-sm font-bold text-emerald-200 mb-1",children:"عملة خاصة"}),l.jsx("div",{className:"text-xs text-emerald-300 bg-emerald-900/30 px-2 py-1 rounded-lg mb-2",children:"مكافأة 100 🪙"}),l.jsx("div",{className:"text-xl font-bold text-white bg-gradient-to-r from-emerald-600 to-green-600 rounded-xl py-2 shadow-md",children:g.coins})]})]})]}),l.jsxs("div",{className:"bg-gradient-to-br from-red-800/80 to-rose-800/80 p-6 rounded-2xl border border-red-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h4",{className:"font-bold text-red-300 mb-4 text-lg flex items-center gap-3",children:[l.jsx("span",{className:"text-2xl",children:"💣"}),"العناصر الضارة"]}),l.jsxs("div",{className:"grid grid-cols-3 gap-4",children:[l.jsxs("div",{className:"text-center p-4 bg-red-800/40 rounded-xl border border-red-400/30 backdrop-blur-sm hover:bg-red-700/50 transition-all duration-300 transform hover:scale-105 shadow-lg",children:[l.jsx("div",{className:"text-4xl mb-3 drop-shadow-lg",children:"💣"}),l.jsx("div",{className:"text-sm font-bold text-red-200 mb-1",children:"قنبلة مدمرة"}),l.jsx("div",{className:"text-xs text-red-300 bg-red-900/30 px-2 py-1 rounded-lg mb-2",children:"خسارة 100 🪙"}),l.jsx("div",{className:"text-xl font-bold text-white bg-gradient-to-r from-red-600 to-rose-600 rounded-xl py-2 shadow-md",children:g.bombs})]}),l.jsxs("div",{className:"text-center p-4 bg-red-800/40 rounded-xl border border-red-400/30 backdrop-blur-sm hover:bg-red-700/50 transition-all duration-300 transform hover:scale-105 shadow-lg",children:[l.jsx("div",{className:"text-4xl mb-3 drop-shadow-lg",children:"🦇"}),l.jsx("div",{className:"text-sm font-bold text-red-200 mb-1",children:"خفاش مؤذي"}),l.jsx("div",{className:"text-xs text-red-300 bg-red-900/30 px-2 py-1 rounded-lg mb-2",children:"خسارة 50 🪙"}),l.jsx("div",{className:"text-xl font-bold text-white bg-gradient-to-r from-red-600 to-rose-600 rounded-xl py-2 shadow-md",children:g.bats})]}),l.jsxs("div",{className:"text-center p-4 bg-red-800/40 rounded-xl border border-red-400/30 backdrop-blur-sm hover:bg-red-700/50 transition-all duration-300 transform hover:scale-105 shadow-lg",children:[l.jsx("div",{className:"text-4xl mb-3 drop-shadow-lg",children:"🐍"}),l.jsx("div",{className:"text-sm font-bold text-red-200 mb-1",children:"ثعبان سام"}),l.jsx("div",{className:"text-xs text-red-300 bg-red-900/30 px-2 py-1 rounded-lg mb-2",children:"خسارة 75 🪙"}),l.jsx("div",{className:"text-xl font-bold text-white bg-gradient-to-r from-red-600 to-rose-600 rounded-xl py-2 shadow-md",children:g.snakes})]})]})]}),l.jsxs("div",{className:"bg-gradient-to-br from-amber-800/60 to-yellow-800/60 p-6 rounded-2xl border border-amber-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h4",{className:"font-bold text-amber-200 mb-3 text-lg flex items-center gap-3",children:[l.jsx("span",{className:"text-2xl",children:"💡"}),"نصائح مهمة"]}),l.jsx("p",{className:"text-amber-100 text-sm leading-relaxed",children:"اجمع العناصر المفيدة من الألعاب • أرسلها كهدايا للأصدقاء • بادلها بعملات ذهبية قيمة"})]}),l.jsxs("div",{className:"bg-gradient-to-br from-blue-800/80 to-indigo-800/80 p-6 rounded-2xl border border-blue-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h4",{className:"font-bold text-blue-200 mb-4 text-lg flex items-center gap-3",children:[l.jsx("span",{className:"text-3xl drop-shadow-lg",children:"🛡️"}),"نظام الحماية المتطور"]}),l.jsx("p",{className:"text-blue-100 text-sm mb-6 leading-relaxed",children:"احمِ نفسك من العناصر الضارة والهجمات الخطيرة في الألعاب والهدايا"}),l.jsxs("div",{className:"grid grid-cols-1 gap-5",children:[l.jsxs("div",{className:"bg-blue-800/40 p-5 rounded-xl border border-blue-400/30 backdrop-blur-sm shadow-lg",children:[l.jsxs("div",{className:"flex items-center justify-between mb-3",children:[l.jsx("h5",{className:"font-bold text-blue-200 text-base",children:"🥇 درع ذهبي أساسي"}),l.jsx("span",{className:"text-xs text-blue-100 bg-blue-600/40 px-3 py-1 rounded-full font-medium",children:"24 ساعة"})]}),l.jsx("p",{className:"text-sm text-blue-100 mb-4 leading-relaxed",children:"حماية قوية ضد القنابل المدمرة والخفافيش المؤذية والثعابين السامة"}),l.jsx("button",{className:"w-full bg-gradient-to-r from-blue-500 to-blue-600 text-white py-3 rounded-xl text-sm font-bold hover:from-blue-600 hover:to-blue-700 transition-all duration-300 shadow-md",children:"🛡️ تفعيل الحماية (2,000 🪙)"})]}),l.jsxs("div",{className:"bg-purple-800/40 p-5 rounded-xl border border-purple-400/30 backdrop-blur-sm shadow-lg",children:[l.jsxs("div",{className:"flex items-center justify-between mb-3",children:[l.jsx("h5",{className:"font-bold text-purple-200 text-base",children:"👑 درع متقدم مميز"}),l.jsx("span",{className:"text-xs text-purple-100 bg-purple-600/40 px-3 py-1 rounded-full font-medium",children:"7 أيام"})]}),l.jsx("p",{className:"text-sm text-purple-100 mb-4 leading-relaxed",children:"حماية مميزة وشاملة لمدة أسبوع كامل ضد جميع العناصر الضارة والهجمات"}),l.jsx("button",{className:"w-full bg-gradient-to-r from-purple-500 to-purple-600 text-white py-3 rounded-xl text-sm font-bold hover:from-purple-600 hover:to-purple-700 transition-all duration-300 shadow-md",children:"👑 تفعيل الحماية المميزة (20,000 🪙)"})]})]})]})]}),t&&r==="charge"&&l.jsxs("div",{className:"space-y-4",children:[l.jsxs("div",{className:"text-center mb-6",children:[l.jsx("div",{className:"text-5xl mb-4 drop-shadow-lg",children:"💰"}),l.jsx("h3",{className:"text-xl font-bold text-white mb-2",children:"شحن الرصيد الذهبي"}),l.jsx("p",{className:"text-gray-300 text-sm",children:"اشحن عملاتك الذهبية بأفضل الأسعار"})]}),l.jsxs("div",{className:"grid grid-cols-1 gap-4",children:[l.jsx("div",{className:"bg-gradient-to-br from-yellow-800/60 to-amber-800/60 p-6 rounded-2xl border border-yellow-400/30 shadow-xl backdrop-blur-sm",children:l.jsxs("div",{className:"text-center",children:[l.jsx("div",{className:"text-4xl mb-3 drop-shadow-lg",children:"🪙"}),l.jsx("h4",{className:"font-bold text-yellow-200 mb-2 text-lg",children:"5,000 عملة ذهبية"}),l.jsx("p",{className:"text-yellow-100 text-base mb-4 font-semibold",children:"💵 $1 USD فقط"}),l.jsx("button",{className:"w-full bg-gradient-to-r from-yellow-500 to-amber-600 text-white py-3 rounded-xl text-sm font-bold hover:from-yellow-600 hover:to-amber-700 transition-all duration-300 shadow-md",children:"📱 شحن عبر واتساب"})]})}),l.jsx("div",{className:"bg-gradient-to-br from-green-800/60 to-emerald-800/60 p-6 rounded-2xl border border-green-400/30 shadow-xl backdrop-blur-sm",children:l.jsxs("div",{className:"text-center",children:[l.jsx("div",{className:"text-4xl mb-3 drop-shadow-lg",children:"🪙"}),l.jsx("h4",{className:"font-bold text-green-200 mb-2 text-lg",children:"27,200 عملة ذهبية"}),l.jsx("p",{className:"text-green-100 text-base mb-1 font-semibold",children:"💵 $5 USD"}),l.jsx("p",{className:"text-sm text-green-300 bg-green-900/30 px-3 py-1 rounded-lg mb-4 font-medium",children:"🎉 وفر 8% أكثر!"}),l.jsx("button",{className:"w-full bg-gradient-to-r from-green-500 to-emerald-600 text-white py-3 rounded-xl text-sm font-bold hover:from-green-600 hover:to-emerald-700 transition-all duration-300 shadow-md",children:"📱 شحن عبر واتساب"})]})})]})]}),t&&r==="exchange"&&l.jsxs("div",{className:"space-y-4",children:[l.jsxs("div",{className:"text-center mb-6",children:[l.jsx("div",{className:"text-5xl mb-4 drop-shadow-lg",children:"🔄"}),l.jsx("h3",{className:"text-xl font-bold text-white mb-2",children:"نظام تبديل العملات"}),l.jsx("p",{className:"text-gray-300 text-sm",children:"اللآلئ مخصصة حصرياً للتحويل إلى دولارات نقدية"})]}),l.jsxs("div",{className:"space-y-5",children:[l.jsxs("div",{className:"bg-gradient-to-br from-blue-800/60 to-indigo-800/60 p-6 rounded-2xl border border-blue-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h4",{className:"font-bold text-blue-200 mb-4 text-lg flex items-center gap-3",children:[l.jsx("span",{className:"text-2xl",children:"🪙➡️🦪"}),"تحويل ذهب إلى لآلئ"]}),l.jsx("p",{className:"text-blue-100 text-sm mb-4 bg-blue-900/30 px-3 py-2 rounded-lg",children:"معدل التحويل: 10,000 🪙 = 1 🦪"}),l.jsxs("div",{className:"flex items-center gap-3 mb-4",children:[l.jsx("input",{type:"number",placeholder:"10000",className:"flex-1 px-4 py-3 bg-blue-900/30 border border-blue-400/30 rounded-xl text-white placeholder-blue-300 focus:outline-none focus:ring-2 focus:ring-blue-500"}),l.jsx("span",{className:"text-blue-200 font-medium",children:"🪙 ➡️ 🦪"})]}),l.jsx("button",{className:"w-full bg-gradient-to-r from-blue-500 to-indigo-600 text-white py-3 rounded-xl text-sm font-bold hover:from-blue-600 hover:to-indigo-700 transition-all duration-300 shadow-md",children:"🔄 تحويل إلى لآلئ"})]}),l.jsxs("div",{className:"bg-gradient-to-br from-green-800/60 to-emerald-800/60 p-6 rounded-2xl border border-green-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h4",{className:"font-bold text-green-200 mb-4 text-lg flex items-center gap-3",children:[l.jsx("span",{className:"text-2xl",children:"🦪➡️💵"}),"سحب دولارات نقدية"]}),l.jsx("div",{className:"bg-green-900/30 p-4 rounded-xl mb-4",children:l.jsxs("p",{className:"text-green-100 text-sm leading-relaxed",children:[l.jsx("strong",{className:"text-green-200",children:"💰 معدل التحويل:"})," 10 🦪 = $1 USD",l.jsx("br",{}),l.jsx("strong",{className:"text-green-200",children:"🎯 الحد الأدنى للسحب:"})," $25 USD (250 🦪)"]})}),l.jsxs("div",{className:"flex items-center gap-3 mb-4",children:[l.jsx("input",{type:"number",placeholder:"250",min:"250",className:"flex-1 px-4 py-3 bg-green-900/30 border border-green-400/30 rounded-xl text-white placeholder-green-300 focus:outline-none focus:ring-2 focus:ring-green-500"}),l.jsx("span",{className:"text-green-200 font-medium",children:"🦪 ➡️ $"})]}),l.jsx("button",{className:"w-full bg-gradient-to-r from-green-500 to-emerald-600 text-white py-3 rounded-xl text-sm font-bold hover:from-green-600 hover:to-emerald-700 transition-all duration-300 shadow-md",children:"📱 طلب سحب عبر واتساب"})]}),l.jsxs("div",{className:"bg-gradient-to-br from-amber-800/60 to-yellow-800/60 p-6 rounded-2xl border border-amber-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h4",{className:"font-bold text-amber-200 mb-4 text-lg flex items-center gap-3",children:[l.jsx("span",{className:"text-2xl",children:"📝"}),"معلومات مهمة"]}),l.jsxs("div",{className:"space-y-2 text-amber-100 text-sm leading-relaxed",children:[l.jsxs("p",{children:["• ",l.jsx("strong",{children:"اللآلئ 🦪"})," - مخصصة حصرياً للتحويل إلى دولارات نقدية"]}),l.jsxs("p",{children:["• ",l.jsx("strong",{children:"العملات الذهبية 🪙"})," - للشراء والتبادل داخل المنصة"]}),l.jsxs("p",{children:["• ",l.jsx("strong",{children:"العناصر الخاصة"})," - تُكسب من الألعاب والتحديات"]})]})]})]})]})]}),f&&l.jsx("div",{className:"fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4",children:l.jsxs("div",{className:"bg-gradient-to-br from-slate-800 to-blue-800 rounded-2xl p-6 w-full max-w-md shadow-2xl border border-blue-400/30",children:[l.jsxs("h3",{className:"text-xl font-bold text-white mb-4 text-center",children:["إرسال رسالة إلى ",e==null?void 0:e.username]}),l.jsx("textarea",{value:p,onChange:L=>w(L.target.value),placeholder:"اكتب رسالتك هنا...",className:"w-full p-3 rounded-xl bg-slate-800/40 border border-blue-400/30 text-white placeholder-blue-300 resize-none h-32 focus:outline-none focus:ring-2 focus:ring-blue-500",maxLength:500}),l.jsxs("div",{className:"text-right text-xs text-blue-300 mt-1 mb-4",children:[p.length,"/500"]}),l.jsxs("div",{className:"flex gap-3",children:[l.jsx("button",{onClick:()=>{u(!1),w("")},className:"flex-1 bg-slate-600 hover:bg-slate-700 text-white py-2 px-4 rounded-xl transition-colors",children:"إلغاء"}),l.jsxs("button",{onClick:H,disabled:!p.trim(),className:"flex-1 bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 disabled:from-gray-500 disabled:to-gray-600 text-white py-2 px-4 rounded-xl transition-all flex items-center justify-center gap-2",children:[l.jsx(pi,{className:"w-4 h-4"}),"إرسال"]})]})]})})]})},Zm=({userData:e,onLogout:t})=>{var x,m;const[n,r]=v.useState("games"),[s,i]=v.useState(!1),[o,a]=v.useState(e),c=g=>{a({...o,...g})},d=[{id:"games",label:"الألعاب",icon:jl,color:"text-purple-400"},{id:"voice",label:"المحادثة الصوتية",icon:$l,color:"text-blue-400"},{id:"leaderboard",label:"لوحة المتصدرين",icon:bl,color:"text-yellow-400"},{id:"profile",label:"الملف الشخصي",icon:Lt,color:"text-green-400"},...e!=null&&e.isAdmin?[{id:"admin",label:"لوحة المشرف",icon:ed,color:"text-red-400"}]:[]];v.useEffect(()=>{a(e)},[e]);const h=()=>{switch(n){case"games":return l.jsx(xs,{setActiveTab:r});case"voice":return l.jsx(Gm,{userData:e,onLogout:t});case"leaderboard":return l.jsx(Jm,{});case"profile":return l.jsx(qm,{userData:o,onUpdateProfile:c});case"admin":return e!=null&&e.isAdmin?l.jsx(La,{userData:e,onLogout:t}):l.jsx(xs,{});default:return l.jsx(xs,{})}};return n==="admin"&&(e!=null&&e.isAdmin)?l.jsx(La,{userData:e,onLogout:t}):l.jsxs("div",{className:"min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 text-white",children:[l.jsx("div",{className:"absolute inset-0 overflow-hidden",children:l.jsxs("div",{className:"absolute -inset-10 opacity-20",children:[l.jsx("div",{className:"absolute top-1/4 left-1/4 w-96 h-96 bg-purple-500 rounded-full mix-blend-multiply filter blur-xl animate-pulse"}),l.jsx("div",{className:"absolute top-3/4 right-1/4 w-96 h-96 bg-blue-500 rounded-full mix-blend-multiply filter blur-xl animate-pulse delay-1000"}),l.jsx("div",{className:"absolute bottom-1/4 left-1/2 w-96 h-96 bg-pink-500 rounded-full mix-blend-multiply filter blur-xl animate-pulse delay-2000"})]})}),l.jsxs("div",{className:"relative z-10 flex h-screen",children:[l.jsx("aside",{className:`fixed lg:static inset-y-0 right-0 z-50 w-80 bg-slate-900 border-l border-slate-700 transform transition-transform duration-300 ${s?"translate-x-0":"translate-x-full lg:translate-x-0"}`,children:l.jsxs("div",{className:"flex flex-col h-full",children:[l.jsx("div",{className:"p-6 border-b border-slate-700",children:l.jsxs("div",{className:"flex items-center justify-between",children:[l.jsxs("div",{className:"flex items-center gap-3",children:[l.jsxs("div",{className:"w-12 h-12 bg-gradient-to-r from-purple-500 to-pink-500 rounded-2xl flex items-center justify-center relative",children:[l.jsx(ft,{className:"w-6 h-6 text-white"}),l.jsx(Mn,{className:"w-3 h-3 text-white absolute -top-1 -right-1"})]}),l.jsxs("div",{children:[l.jsx("h1",{className:"text-xl font-bold bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent",children:"INFINITY BOX"}),l.jsx("p",{className:"text-xs text-gray-400",children:"منصة الألعاب والمحادثة"})]})]}),l.jsx("button",{onClick:()=>i(!1),className:"lg:hidden p-2 rounded-lg hover:bg-slate-700 transition-colors",children:l.jsx(fo,{className:"w-5 h-5"})})]})}),l.jsxs("div",{className:"p-6 border-b border-slate-700",children:[l.jsxs("div",{className:"flex items-center gap-4 mb-4",children:[l.jsx("div",{className:"w-16 h-16 bg-gradient-to-r from-blue-500 to-cyan-500 rounded-full flex items-center justify-center text-xl font-bold",children:((m=(x=e==null?void 0:e.username)==null?void 0:x.charAt(0))==null?void 0:m.toUpperCase())||"U"}),l.jsxs("div",{className:"flex-1",children:[l.jsx("h3",{className:"font-semibold text-white",children:(e==null?void 0:e.username)||"مستخدم"}),(e==null?void 0:e.playerId)&&l.jsxs("div",{className:"text-xs text-gray-400 mt-1",children:["رقمك المميز: ",e.playerId]}),l.jsxs("div",{className:"flex items-center gap-2 text-sm text-gray-400",children:[l.jsx(kn,{className:"w-4 h-4 text-yellow-400"}),l.jsx("span",{children:"المستوى 5"})]})]}),(e==null?void 0:e.isAdmin)&&l.jsx(Ht,{className:"w-5 h-5 text-yellow-400"})]}),l.jsxs("div",{className:"grid grid-cols-2 gap-4",children:[l.jsxs("div",{className:"bg-slate-800 rounded-xl p-3 text-center border border-slate-700",children:[l.jsxs("div",{className:"flex items-center justify-center gap-1 mb-1",children:[l.jsx(uo,{className:"w-4 h-4 text-yellow-400"}),l.jsx("span",{className:"text-yellow-400 font-semibold",children:"1,250"})]}),l.jsx("p",{className:"text-xs text-gray-400",children:"العملات الذهبية"})]}),l.jsxs("div",{className:"bg-slate-800 rounded-xl p-3 text-center border border-slate-700",children:[l.jsxs("div",{className:"flex items-center justify-center gap-1 mb-1",children:[l.jsx(bl,{className:"w-4 h-4 text-purple-400"}),l.jsx("span",{className:"text-purple-400 font-semibold",children:"847"})]}),l.jsx("p",{className:"text-xs text-gray-400",children:"النقاط"})]})]})]}),l.jsx("nav",{className:"flex-1 p-6",children:l.jsx("div",{className:"space-y-2",children:d.map(g=>l.jsxs("button",{onClick:()=>{r(g.id),i(!1)},className:`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all duration-200 text-right ${n===g.id?"bg-slate-700 border border-slate-600 shadow-lg":"hover:bg-slate-800"}`,children:[l.jsx(g.icon,{className:`w-5 h-5 ${g.color}`}),l.jsx("span",{className:"font-medium",children:g.label}),g.id==="admin"&&(e==null?void 0:e.isAdmin)&&l.jsx(Ht,{className:"w-4 h-4 text-yellow-400 mr-auto"})]},g.id))})}),l.jsxs("div",{className:"p-6 border-t border-white/10 space-y-2",children:[l.jsxs("button",{className:"w-full flex items-center gap-3 px-4 py-3 rounded-xl hover:bg-white/5 transition-colors text-right",onClick:()=>{e!=null&&e.isAdmin?(r("admin"),i(!1)):alert("هذه الصفحة مخصصة للمشرفين فقط")},children:[l.jsx(Nl,{className:"w-5 h-5 text-gray-400"}),l.jsx("span",{children:"الإعدادات"})]}),l.jsxs("button",{onClick:t,className:"w-full flex items-center gap-3 px-4 py-3 rounded-xl hover:bg-red-500/20 text-red-300 transition-colors text-right",children:[l.jsx(Xu,{className:"w-5 h-5"}),l.jsx("span",{children:"تسجيل الخروج"})]})]})]})}),l.jsxs("main",{className:"flex-1 flex flex-col overflow-hidden",children:[l.jsx("header",{className:"lg:hidden bg-slate-900 border-b border-slate-700 p-4",children:l.jsxs("div",{className:"flex items-center justify-between",children:[l.jsxs("div",{className:"flex items-center gap-3",children:[l.jsx("div",{className:"w-8 h-8 bg-gradient-to-r from-purple-500 to-pink-500 rounded-lg flex items-center justify-center",children:l.jsx(ft,{className:"w-4 h-4 text-white"})}),l.jsx("h1",{className:"text-lg font-bold",children:"INFINITY BOX"})]}),l.jsx("button",{onClick:()=>i(!0),className:"p-2 rounded-lg hover:bg-slate-700 transition-colors",children:l.jsx(qf,{className:"w-6 h-6"})})]})}),l.jsx("div",{className:"flex-1 overflow-auto p-6 lg:p-8",children:h()})]})]}),s&&l.jsx("div",{className:"fixed inset-0 bg-black/50 z-40 lg:hidden",onClick:()=>i(!1)})]})},qm=({userData:e,onUpdateProfile:t})=>l.jsx(Km,{userData:e,isOwner:!0,onUpdateProfile:t}),Jm=()=>l.jsxs("div",{className:"space-y-8",children:[l.jsxs("div",{className:"flex items-center gap-3 mb-8",children:[l.jsx("div",{className:"w-8 h-8 bg-gradient-to-r from-yellow-500 to-orange-500 rounded-lg flex items-center justify-center",children:l.jsx(bl,{className:"w-5 h-5 text-white"})}),l.jsx("h2",{className:"text-2xl font-bold text-white",children:"لوحة المتصدرين"})]}),l.jsx("div",{className:"bg-white/5 backdrop-blur-md rounded-3xl p-8 border border-white/10",children:l.jsxs("div",{className:"text-center py-12",children:[l.jsx(bl,{className:"w-16 h-16 text-yellow-400 mx-auto mb-4"}),l.jsx("h3",{className:"text-xl font-semibold text-white mb-2",children:"لوحة المتصدرين"}),l.jsx("p",{className:"text-gray-300",children:"قريباً - سيتم عرض أفضل اللاعبين هنا"})]})})]}),ep=({onLogin:e})=>{const[t,n]=v.useState(""),[r,s]=v.useState(""),[i,o]=v.useState(""),[a,c]=v.useState(!1),[d,h]=v.useState(""),x=async m=>{m.preventDefault(),h("");try{if(a){const g=await ae.register({username:t,password:r,email:i});e(g.user)}else{const g=await ae.login({username:t,password:r});e(g.user)}}catch(g){h(g.message||"حدث خطأ في المصادقة")}};return l.jsxs("div",{className:"mobile-login",children:[l.jsxs("div",{className:"login-header",children:[l.jsx("div",{className:"app-logo",children:"🎮"}),l.jsx("h1",{className:"app-title",children:"INFINITY BOX"}),l.jsx("p",{className:"app-subtitle",children:"منصة الألعاب الجماعية والمحادثة الصوتية"})]}),l.jsxs("form",{className:"login-form",onSubmit:x,children:[l.jsx("input",{type:"text",placeholder:"اسم المستخدم",value:t,onChange:m=>n(m.target.value),required:!0}),a&&l.jsx("input",{type:"email",placeholder:"البريد الإلكتروني",value:i,onChange:m=>o(m.target.value),required:!0}),l.jsx("input",{type:"password",placeholder:"كلمة المرور",value:r,onChange:m=>s(m.target.value),required:!0}),d&&l.jsx("div",{className:"error-message",children:d}),l.jsx("button",{type:"submit",className:"login-button",children:a?"إنشاء حساب":"تسجيل الدخول"}),l.jsx("button",{type:"button",className:"switch-mode",onClick:()=>c(!a),children:a?"لديك حساب؟ سجل دخولك":"ليس لديك حساب؟ أنشئ واحداً"})]})]})},tp=()=>{const[e,t]=v.useState(0),[n,r]=v.useState(3),[s,i]=v.useState(0),[o,a]=v.useState(50),[c,d]=v.useState([]),[h,x]=v.useState(!1),[m,g]=v.useState(0);v.useEffect(()=>{if(h){const I=setInterval(()=>{const f={id:Date.now(),x:Math.random()*90+5,y:-10,type:Math.random()>.8?"bomb":"fruit",emoji:Math.random()>.8?"💣":["🍎","🍊","🍌","🍇"][Math.floor(Math.random()*4)]};d(u=>[...u,f])},1e3);return()=>clearInterval(I)}},[h]),v.useEffect(()=>{if(h){const I=setInterval(()=>{d(f=>f.map(u=>({...u,y:u.y+5})).filter(u=>u.y>=85&&u.y<=95&&Math.abs(u.x-o)<15?(u.type==="bomb"?r(p=>p-1):(t(p=>p+10),i(p=>p+5)),!1):u.y<100))},50);return()=>clearInterval(I)}},[h,o]);const j=I=>{g(I.touches[0].clientX)},N=I=>{const f=I.touches[0].clientX,p=(f-m)/window.innerWidth*100;a(w=>{const C=w+p;return Math.max(10,Math.min(90,C))}),g(f)};return n<=0?l.jsxs("div",{className:"game-over",children:[l.jsx("h2",{children:"انتهت اللعبة!"}),l.jsxs("p",{children:["النقاط: ",e]}),l.jsxs("p",{children:["الذهب المكتسب: ",s," 🪙"]}),l.jsx("button",{onClick:()=>window.location.reload(),children:"العب مرة أخرى"})]}):l.jsxs("div",{className:"fruit-game-mobile",children:[l.jsxs("div",{className:"game-header",children:[l.jsxs("div",{children:["النقاط: ",e]}),l.jsxs("div",{children:["الحياة: ","❤️".repeat(n)]}),l.jsxs("div",{children:["الذهب: ",s," 🪙"]})]}),h?l.jsxs("div",{className:"game-area",onTouchStart:j,onTouchMove:N,children:[c.map(I=>l.jsx("div",{className:"falling-fruit",style:{left:`${I.x}%`,top:`${I.y}%`},children:I.emoji},I.id)),l.jsx("div",{className:"basket",style:{left:`${o}%`},children:"🧺"})]}):l.jsxs("div",{className:"game-start",children:[l.jsx("h2",{children:"لعبة جمع الفواكه"}),l.jsx("p",{children:"استخدم إصبعك لتحريك السلة وجمع الفواكه!"}),l.jsx("button",{onClick:()=>x(!0),children:"ابدأ اللعبة"})]})]})},np=({user:e,onNavigate:t})=>{const[n,r]=v.useState({onlinePlayers:0,activeRooms:0});v.useEffect(()=>{ae.request("/stats").then(i=>{r(i)}).catch(console.error)},[]);const s=[{id:1,name:"لعبة جمع الفواكه",icon:"🍎",description:"اجمع الفواكه واربح النقاط الذهبية",action:()=>t("fruit-game")},{id:2,name:"الغرف الجماعية",icon:"🎮",description:"العب مع أصدقائك في غرف خاصة",action:()=>t("multiplayer")},{id:3,name:"المحادثة الصوتية",icon:"🎤",description:"تحدث مع الأصدقاء صوتياً",action:()=>t("voice")},{id:4,name:"الملف الشخصي",icon:"👤",description:"عرض وتعديل ملفك الشخصي",action:()=>t("profile")}];return l.jsxs("div",{className:"mobile-home",children:[l.jsxs("div",{className:"home-header",children:[l.jsxs("h1",{children:["مرحباً ",e.username,"!"]}),l.jsxs("div",{className:"stats",children:[l.jsxs("div",{className:"stat",children:[l.jsx("span",{className:"stat-value",children:n.onlinePlayers}),l.jsx("span",{className:"stat-label",children:"لاعب متصل"})]}),l.jsxs("div",{className:"stat",children:[l.jsx("span",{className:"stat-value",children:n.activeRooms}),l.jsx("span",{className:"stat-label",children:"غرفة نشطة"})]})]})]}),l.jsx("div",{className:"games-grid",children:s.map(i=>l.jsxs("div",{className:"game-card",onClick:i.action,children:[l.jsx("div",{className:"game-icon",children:i.icon}),l.jsx("div",{className:"game-name",children:i.name}),l.jsx("div",{className:"game-desc",children:i.description})]},i.id))})]})},rp=({onBack:e})=>{const[t,n]=v.useState([]),[r,s]=v.useState(!1),[i,o]=v.useState("");v.useEffect(()=>(a(),D.on("room_update",a),()=>{D.off("room_update",a)}),[]);const a=async()=>{try{const h=await ae.request("/game/rooms");n(h.rooms||[])}catch(h){console.error("Error loading rooms:",h)}},c=async()=>{i&&(D.send({type:"room_create",data:{gameType:"fruit_catching",settings:{maxPlayers:4,isPrivate:!1,gameMode:"competitive",difficulty:"medium"}},roomId:"",playerId:localStorage.getItem("userId")||"",timestamp:Date.now()}),s(!1),o(""))},d=h=>{D.send({type:"room_join",data:{roomId:h},roomId:h,playerId:localStorage.getItem("userId")||"",timestamp:Date.now()})};return l.jsxs("div",{className:"mobile-multiplayer",children:[l.jsxs("div",{className:"screen-header",children:[l.jsx("button",{onClick:e,className:"back-button",children:"⬅️"}),l.jsx("h2",{children:"غرف الألعاب الجماعية"}),l.jsx("button",{onClick:()=>s(!0),className:"create-button",children:"➕"})]}),l.jsx("div",{className:"rooms-list",children:t.map(h=>{var x,m,g;return l.jsxs("div",{className:"room-card",children:[l.jsxs("div",{className:"room-info",children:[l.jsx("h3",{children:h.name}),l.jsxs("p",{children:[((x=h.players)==null?void 0:x.length)||0,"/",((m=h.settings)==null?void 0:m.maxPlayers)||4," لاعبين"]}),l.jsx("p",{children:(g=h.settings)!=null&&g.isPrivate?"🔒 خاصة":"🌐 عامة"})]}),l.jsx("button",{onClick:()=>d(h.id),className:"join-button",children:"انضمام"})]},h.id)})}),r&&l.jsx("div",{className:"modal",children:l.jsxs("div",{className:"modal-content",children:[l.jsx("h3",{children:"إنشاء غرفة جديدة"}),l.jsx("input",{type:"text",placeholder:"اسم الغرفة",value:i,onChange:h=>o(h.target.value)}),l.jsxs("div",{className:"modal-buttons",children:[l.jsx("button",{onClick:()=>s(!1),children:"إلغاء"}),l.jsx("button",{onClick:c,children:"إنشاء"})]})]})})]})},lp=({onBack:e})=>{var x;const[t,n]=v.useState([]),[r,s]=v.useState(null),[i,o]=v.useState(!1);v.useEffect(()=>{a()},[]);const a=async()=>{try{const m=await ae.request("/voice/rooms");n(m.rooms||[])}catch(m){console.error("Error loading voice rooms:",m)}},c=m=>{D.send({type:"voice_room_join",roomId:m,userId:localStorage.getItem("userId")||"",data:{roomId:m},timestamp:Date.now()});const g=t.find(j=>j.id===m);s(g)},d=()=>{r&&(D.send({type:"voice_room_leave",roomId:r.id,userId:localStorage.getItem("userId")||"",data:{},timestamp:Date.now()}),s(null))},h=()=>{o(!i),D.send({type:i?"voice_unmute":"voice_mute",roomId:r.id,userId:localStorage.getItem("userId")||"",data:{},timestamp:Date.now()})};return r?l.jsxs("div",{className:"voice-room-active",children:[l.jsxs("div",{className:"screen-header",children:[l.jsx("button",{onClick:d,className:"back-button",children:"⬅️"}),l.jsx("h2",{children:r.name})]}),l.jsx("div",{className:"voice-users",children:(x=r.users)==null?void 0:x.map(m=>l.jsxs("div",{className:"voice-user",children:[l.jsx("div",{className:"user-avatar",children:"👤"}),l.jsx("div",{className:"user-name",children:m.username}),l.jsx("div",{className:`speaking-indicator ${m.isSpeaking?"speaking":""}`,children:m.isMuted?"🔇":"🔊"})]},m.id))}),l.jsx("div",{className:"voice-controls",children:l.jsx("button",{onClick:h,className:`mute-button ${i?"muted":""}`,children:i?"🔇":"🎤"})})]}):l.jsxs("div",{className:"mobile-voice",children:[l.jsxs("div",{className:"screen-header",children:[l.jsx("button",{onClick:e,className:"back-button",children:"⬅️"}),l.jsx("h2",{children:"الغرف الصوتية"})]}),l.jsx("div",{className:"voice-rooms-list",children:t.map(m=>{var g;return l.jsxs("div",{className:"voice-room-card",children:[l.jsxs("div",{className:"room-info",children:[l.jsx("h3",{children:m.name}),l.jsxs("p",{children:[m.userCount||0,"/",((g=m.settings)==null?void 0:g.maxUsers)||20," مستخدم"]})]}),l.jsx("button",{onClick:()=>c(m.id),className:"join-button",children:"انضمام 🎤"})]},m.id)})})]})},sp=({user:e,onBack:t})=>{var n;return l.jsxs("div",{className:"mobile-profile",children:[l.jsxs("div",{className:"screen-header",children:[l.jsx("button",{onClick:t,className:"back-button",children:"⬅️"}),l.jsx("h2",{children:"الملف الشخصي"})]}),l.jsxs("div",{className:"profile-content",children:[l.jsxs("div",{className:"profile-header",children:[l.jsx("div",{className:"profile-avatar",children:"👤"}),l.jsx("h2",{children:e.username}),l.jsxs("p",{className:"player-id",children:["رقم اللاعب: ",e.playerId]}),e.isAdmin&&l.jsx("span",{className:"admin-badge",children:"مدير"})]}),l.jsxs("div",{className:"profile-stats",children:[l.jsxs("div",{className:"stat-box",children:[l.jsx("span",{className:"stat-icon",children:"🪙"}),l.jsx("span",{className:"stat-value",children:((n=e.goldCoins)==null?void 0:n.toLocaleString())||0}),l.jsx("span",{className:"stat-label",children:"ذهب"})]}),l.jsxs("div",{className:"stat-box",children:[l.jsx("span",{className:"stat-icon",children:"🦪"}),l.jsx("span",{className:"stat-value",children:e.pearls||0}),l.jsx("span",{className:"stat-label",children:"لؤلؤة"})]}),l.jsxs("div",{className:"stat-box",children:[l.jsx("span",{className:"stat-icon",children:"⭐"}),l.jsx("span",{className:"stat-value",children:e.level||1}),l.jsx("span",{className:"stat-label",children:"المستوى"})]})]}),l.jsxs("div",{className:"profile-actions",children:[l.jsxs("button",{className:"profile-action",children:[l.jsx("span",{children:"🛍️"})," المتجر"]}),l.jsxs("button",{className:"profile-action",children:[l.jsx("span",{children:"👥"})," الأصدقاء"]}),l.jsxs("button",{className:"profile-action",children:[l.jsx("span",{children:"🎁"})," الهدايا"]}),l.jsxs("button",{className:"profile-action",children:[l.jsx("span",{children:"⚙️"})," الإعدادات"]})]}),l.jsx("button",{className:"logout-button",onClick:()=>{ae.logout(),window.location.reload()},children:"تسجيل الخروج"})]})]})};function ip(){const[e,t]=v.useState(null),[n,r]=v.useState("home"),[s,i]=v.useState(!0);v.useEffect(()=>{(async()=>{if(localStorage.getItem("token"))try{const h=await ae.request("/auth/me");t(h.user)}catch(h){console.error("Auth check failed:",h)}i(!1)})()},[]);const o=c=>{t(c),r("home")},a=c=>{r(c)};return s?l.jsxs("div",{className:"mobile-loading",children:[l.jsx("div",{className:"loading-icon",children:"🎮"}),l.jsx("h1",{children:"INFINITY BOX"})]}):e?l.jsxs("div",{className:"mobile-app",children:[n==="home"&&l.jsx(np,{user:e,onNavigate:a}),n==="fruit-game"&&l.jsxs("div",{children:[l.jsx("button",{onClick:()=>a("home"),className:"back-button",children:"⬅️ رجوع"}),l.jsx(tp,{})]}),n==="multiplayer"&&l.jsx(rp,{onBack:()=>a("home")}),n==="voice"&&l.jsx(lp,{onBack:()=>a("home")}),n==="profile"&&l.jsx(sp,{user:e,onBack:()=>a("home")})]}):l.jsx(ep,{onLogin:o})}function op(){const[e,t]=v.useState(!1),[n,r]=v.useState(null),[s,i]=v.useState(!0),[o,a]=v.useState(!1);v.useEffect(()=>{localStorage.removeItem("activeTab");const h=()=>{const m=navigator.userAgent,g=/Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(m)||window.innerWidth<=768;a(g)};h(),window.addEventListener("resize",h);const x=localStorage.getItem("token");x?ae.getCurrentUser().then(m=>{const g=localStorage.getItem("isAdmin")==="true";r(m&&typeof m=="object"?{...m,token:x,isAdmin:g}:{token:x,isAdmin:g}),t(!0),D.connect().catch(j=>{console.error("Failed to connect to WebSocket:",j)})}).catch(m=>{m.message.includes("MULTIPLE_LOGIN")&&alert("تم تسجيل الدخول من جهاز آخر. سيتم تسجيل خروجك من هذا الجهاز."),t(!1),r(null),localStorage.removeItem("token"),localStorage.removeItem("username"),localStorage.removeItem("isAdmin")}).finally(()=>i(!1)):i(!1)},[]);const c=async h=>{r(h),t(!0);try{await D.connect()}catch(x){console.error("Failed to connect to WebSocket:",x)}},d=()=>{localStorage.removeItem("token"),localStorage.removeItem("username"),localStorage.removeItem("isAdmin"),D.disconnect(),t(!1),r(null)};return s?l.jsx("div",{className:"min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center",children:l.jsxs("div",{className:"text-center",children:[l.jsx("div",{className:"w-16 h-16 border-4 border-purple-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"}),l.jsx("p",{className:"text-white text-lg",children:"جاري التحميل..."})]})}):o?l.jsx(ip,{}):e?l.jsx(Zm,{userData:n,onLogout:d}):l.jsx(mm,{onAuthSuccess:c})}Du(document.getElementById("root")).render(l.jsx(v.StrictMode,{children:l.jsx(op,{})}));
+ */var Sn=v;function hm(e,t){return e===t&&(e!==0||1/e===1/t)||e!==e&&t!==t}var xm=typeof Object.is=="function"?Object.is:hm,gm=Sn.useState,vm=Sn.useEffect,ym=Sn.useLayoutEffect,wm=Sn.useDebugValue;function jm(e,t){var n=t(),r=gm({inst:{value:n,getSnapshot:t}}),s=r[0].inst,i=r[1];return ym(function(){s.value=n,s.getSnapshot=t,hs(s)&&i({inst:s})},[e,n,t]),vm(function(){return hs(s)&&i({inst:s}),e(function(){hs(s)&&i({inst:s})})},[e]),wm(n),n}function hs(e){var t=e.getSnapshot;e=e.value;try{var n=t();return!xm(e,n)}catch{return!0}}function Nm(e,t){return t()}var bm=typeof window>"u"||typeof window.document>"u"||typeof window.document.createElement>"u"?Nm:jm;ld.useSyncExternalStore=Sn.useSyncExternalStore!==void 0?Sn.useSyncExternalStore:bm;rd.exports=ld;var km=rd.exports;const Sm=Id.useInsertionEffect,Cm=typeof window<"u"&&typeof window.document<"u"&&typeof window.document.createElement<"u",Em=Cm?v.useLayoutEffect:v.useEffect,Im=Sm||Em,sd=e=>{const t=v.useRef([e,(...n)=>t[0](...n)]).current;return Im(()=>{t[0]=e}),t[1]},Mm="popstate",mo="pushState",po="replaceState",Pm="hashchange",Ia=[Mm,mo,po,Pm],_m=e=>{for(const t of Ia)addEventListener(t,e);return()=>{for(const t of Ia)removeEventListener(t,e)}},id=(e,t)=>km.useSyncExternalStore(_m,e,t),Lm=()=>location.search,Tm=({ssrSearch:e=""}={})=>id(Lm,()=>e),Ma=()=>location.pathname,zm=({ssrPath:e}={})=>id(Ma,e?()=>e:Ma),Am=(e,{replace:t=!1,state:n=null}={})=>history[t?po:mo](n,"",e),Om=(e={})=>[zm(e),Am],Pa=Symbol.for("wouter_v3");if(typeof history<"u"&&typeof window[Pa]>"u"){for(const e of[mo,po]){const t=history[e];history[e]=function(){const n=t.apply(this,arguments),r=new Event(e);return r.arguments=arguments,dispatchEvent(r),n}}Object.defineProperty(window,Pa,{value:!0})}const Rm=(e,t)=>t.toLowerCase().indexOf(e.toLowerCase())?"~"+t:t.slice(e.length)||"/",od=(e="")=>e==="/"?"":e,Fm=(e,t)=>e[0]==="~"?e.slice(1):od(t)+e,Um=(e="",t)=>Rm(_a(od(e)),_a(t)),_a=e=>{try{return decodeURI(e)}catch{return e}},$m={hook:Om,searchHook:Tm,parser:pm,base:"",ssrPath:void 0,ssrSearch:void 0,ssrContext:void 0,hrefs:e=>e},Bm=v.createContext($m),ad=()=>v.useContext(Bm),Vm={};v.createContext(Vm);const cd=e=>{const[t,n]=e.hook(e);return[Um(e.base,t),sd((r,s)=>n(Fm(r,e.base),s))]},Hm=()=>cd(ad());v.forwardRef((e,t)=>{const n=ad(),[r,s]=cd(n),{to:i="",href:o=i,onClick:a,asChild:c,children:d,className:h,replace:x,state:m,...g}=e,j=sd(I=>{I.ctrlKey||I.metaKey||I.altKey||I.shiftKey||I.button!==0||(a==null||a(I),I.defaultPrevented||(I.preventDefault(),s(o,e)))}),N=n.hrefs(o[0]==="~"?o.slice(1):n.base+o,n);return c&&v.isValidElement(d)?v.cloneElement(d,{onClick:j,href:N}):v.createElement("a",{...g,onClick:j,href:N,className:h!=null&&h.call?h(r===o):h,children:d,ref:t})});const xs=({setActiveTab:e})=>{const[t,n]=Hm(),r=[{id:8,title:"🍎 قطف الفواكه",description:"اقطف الفواكه الساقطة واجمع أكبر عدد من النقاط في هذه اللعبة الممتعة!",image:"https://images.pexels.com/photos/1132047/pexels-photo-1132047.jpeg?auto=compress&cs=tinysrgb&w=800",players:250,rating:5,featured:!0,onPlay:()=>{const i=window.location.origin;window.open(`${i}/fruit-catching.html`,"_blank")}},{id:1,title:"صناديق الحظ اللانهائية",description:"افتح الصناديق واكتشف الكنوز المخفية في عالم INFINITY BOX",image:"https://images.pexels.com/photos/1111597/pexels-photo-1111597.jpeg?auto=compress&cs=tinysrgb&w=800",players:15420,rating:5,featured:!0,onPlay:()=>window.open("/game1.html","_blank")},{id:2,title:"تحدي السرعة",description:"اختبر سرعة ردود أفعالك في هذا التحدي المثير",image:"https://images.pexels.com/photos/442576/pexels-photo-442576.jpeg?auto=compress&cs=tinysrgb&w=800",players:8930,rating:4,onPlay:()=>console.log("تحدي السرعة")},{id:3,title:"ألغاز العقل",description:"حل الألغاز المعقدة واكسب النقاط والجوائز",image:"https://images.pexels.com/photos/1040157/pexels-photo-1040157.jpeg?auto=compress&cs=tinysrgb&w=800",players:12150,rating:4,onPlay:()=>console.log("ألغاز العقل")},{id:4,title:"مغامرة الكنوز",description:"انطلق في رحلة البحث عن الكنوز المفقودة",image:"https://images.pexels.com/photos/1670977/pexels-photo-1670977.jpeg?auto=compress&cs=tinysrgb&w=800",players:6780,rating:5,onPlay:()=>console.log("مغامرة الكنوز")},{id:5,title:"بطولة النجوم",description:"تنافس مع أفضل اللاعبين في البطولة الكبرى",image:"https://images.pexels.com/photos/163064/play-stone-network-networked-interactive-163064.jpeg?auto=compress&cs=tinysrgb&w=800",players:25600,rating:5,onPlay:()=>n("/game")},{id:6,title:"عالم الخيال",description:"استكشف عوالم خيالية مليئة بالمغامرات والأسرار",image:"https://images.pexels.com/photos/1591447/pexels-photo-1591447.jpeg?auto=compress&cs=tinysrgb&w=800",players:18900,rating:4,onPlay:()=>console.log("عالم الخيال")},{id:7,title:"الصناديق التي لا تنتهي - لعبة جديدة",description:"جرب لعبة الصناديق التي لا تنتهي الجديدة والممتعة!",image:"https://images.pexels.com/photos/3258/boxes-wooden-crates-market.jpg?auto=compress&cs=tinysrgb&w=800",players:0,rating:5,featured:!1,onPlay:()=>window.open("/game8.html","_blank")}],s=[{icon:l.jsx(Ea,{className:"w-6 h-6"}),title:"لعبة سريعة",description:"ابدأ لعبة سريعة في أقل من دقيقة",color:"from-yellow-500 to-orange-500",onClick:()=>console.log("لعبة سريعة")},{icon:l.jsx(Ca,{className:"w-6 h-6"}),title:"تحدي يومي",description:"أكمل التحدي اليومي واكسب مكافآت",color:"from-green-500 to-emerald-500",onClick:()=>console.log("تحدي يومي")},{icon:l.jsx(tm,{className:"w-6 h-6"}),title:"لغز اليوم",description:"حل لغز اليوم واحصل على نقاط إضافية",color:"from-blue-500 to-cyan-500",onClick:()=>console.log("لغز اليوم")},{icon:l.jsx(Ca,{className:"w-6 h-6"}),title:"قطف الفواكه",description:"اقطف الفواكه الساقطة واجمع أكبر عدد من النقاط",color:"from-green-500 to-lime-500",onClick:()=>window.open("/fruit-catching.html","_blank")},{icon:l.jsx(jl,{className:"w-6 h-6"}),title:"وضع التدريب",description:"تدرب وحسن مهاراتك قبل المنافسة",color:"from-purple-500 to-indigo-500",onClick:()=>console.log("وضع التدريب")}];return l.jsxs("div",{className:"space-y-12",children:[l.jsxs("section",{children:[l.jsxs("div",{className:"flex items-center gap-3 mb-8",children:[l.jsx("div",{className:"w-8 h-8 bg-gradient-to-r from-yellow-500 to-orange-500 rounded-lg flex items-center justify-center",children:l.jsx(Ea,{className:"w-5 h-5 text-white"})}),l.jsx("h2",{className:"text-2xl font-bold text-white",children:"ألعاب سريعة"})]}),l.jsx("div",{className:"grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6",children:s.map((i,o)=>l.jsxs("button",{onClick:i.onClick,className:"group p-6 bg-white/5 backdrop-blur-md rounded-2xl border border-white/10 hover:bg-white/10 transition-all duration-300 transform hover:scale-105 text-right",children:[l.jsx("div",{className:`w-12 h-12 bg-gradient-to-r ${i.color} rounded-xl flex items-center justify-center mb-4 group-hover:scale-110 transition-transform duration-300`,children:i.icon}),l.jsx("h3",{className:"text-lg font-semibold text-white mb-2",children:i.title}),l.jsx("p",{className:"text-gray-300 text-sm",children:i.description})]},o))})]}),l.jsxs("section",{children:[l.jsxs("div",{className:"flex items-center gap-3 mb-8",children:[l.jsx("div",{className:"w-8 h-8 bg-gradient-to-r from-purple-500 to-pink-500 rounded-lg flex items-center justify-center",children:l.jsx(jl,{className:"w-5 h-5 text-white"})}),l.jsx("h2",{className:"text-2xl font-bold text-white",children:"الألعاب المميزة"})]}),l.jsxs("div",{className:"grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8",children:[l.jsx(ps,{title:"🍎 قطف الفواكه",description:"اقطف الفواكه الساقطة واجمع أكبر عدد من النقاط والعملات في هذه اللعبة الممتعة!",image:"https://images.pexels.com/photos/1132047/pexels-photo-1132047.jpeg?auto=compress&cs=tinysrgb&w=800",players:1250,rating:5,onPlay:()=>{const i=window.location.origin;window.open(`${i}/fruit-catching.html`,"_blank")},featured:!0}),l.jsx(ps,{title:"الغرفة الصوتية العامة",description:"انضم للدردشة الصوتية مع جميع اللاعبين في INFINITY BOX وتواصل مباشرة بالصوت!",image:"https://images.pexels.com/photos/3394656/pexels-photo-3394656.jpeg?auto=compress&cs=tinysrgb&w=800",players:9999,rating:5,onPlay:()=>e&&e("voice"),featured:!0}),r.filter(i=>i.id!==8).map(i=>l.jsx(ps,{title:i.title,description:i.description,image:i.image,players:i.players,rating:i.rating,onPlay:i.onPlay,featured:i.featured},i.id))]})]})]})},Wm=({user:e,roleIcon:t})=>{const n=s=>s.split(" ").map(i=>i[0]).join("").toUpperCase().slice(0,2),r=s=>{const i=["from-purple-500 to-pink-500","from-blue-500 to-cyan-500","from-green-500 to-emerald-500","from-yellow-500 to-orange-500","from-red-500 to-pink-500","from-indigo-500 to-purple-500"];return i[parseInt(s)%i.length]};return l.jsxs("div",{className:"flex flex-col items-center group",children:[l.jsxs("div",{className:"relative",children:[e.isSpeaking&&l.jsx("div",{className:"absolute -inset-2 rounded-full bg-gradient-to-r from-green-400 to-emerald-400 animate-pulse opacity-75"}),l.jsxs("div",{className:`relative w-16 h-16 rounded-full bg-gradient-to-br ${r(e.id)} flex items-center justify-center text-white font-bold text-lg shadow-lg transform transition-all duration-300 group-hover:scale-110 ${e.isSpeaking?"scale-110":""}`,children:[e.avatar?l.jsx("img",{src:e.avatar,alt:e.username,className:"w-full h-full rounded-full object-cover"}):n(e.username),t&&l.jsx("div",{className:"absolute -top-1 -right-1 bg-black/80 rounded-full p-1",children:t})]}),l.jsxs("div",{className:"absolute -bottom-1 -right-1 flex gap-1",children:[e.isMuted&&l.jsx("div",{className:"bg-red-500 rounded-full p-1",children:l.jsx(Zu,{className:"w-3 h-3 text-white"})}),e.isDeafened&&l.jsx("div",{className:"bg-gray-500 rounded-full p-1",children:l.jsx(nd,{className:"w-3 h-3 text-white"})})]})]}),l.jsxs("div",{className:"mt-2 text-center",children:[l.jsx("p",{className:"text-sm font-medium text-white truncate max-w-20",title:e.username,children:e.username}),e.isSpeaking&&l.jsx("div",{className:"flex items-center justify-center mt-1",children:l.jsxs("div",{className:"flex gap-1",children:[l.jsx("div",{className:"w-1 h-3 bg-green-400 rounded-full animate-pulse"}),l.jsx("div",{className:"w-1 h-2 bg-green-400 rounded-full animate-pulse delay-100"}),l.jsx("div",{className:"w-1 h-4 bg-green-400 rounded-full animate-pulse delay-200"})]})})]})]})},Dm=({message:e})=>{const t=r=>r.toLocaleTimeString("ar-SA",{hour:"2-digit",minute:"2-digit",hour12:!1});if(e.type==="system")return l.jsx("div",{className:"flex justify-center",children:l.jsx("div",{className:"bg-blue-500/20 text-blue-300 px-3 py-1 rounded-full text-xs",children:e.text})});const n=e.sender==="أنت";return l.jsx("div",{className:`flex ${n?"justify-end":"justify-start"}`,children:l.jsx("div",{className:`max-w-xs lg:max-w-md ${n?"order-2":"order-1"}`,children:l.jsxs("div",{className:`rounded-2xl px-4 py-2 ${n?"bg-gradient-to-r from-purple-500 to-pink-500 text-white":"bg-white/10 text-white"}`,children:[!n&&l.jsx("p",{className:"text-xs font-semibold mb-1 opacity-70",children:e.sender}),l.jsx("p",{className:"text-sm leading-relaxed",children:e.text}),l.jsx("p",{className:`text-xs mt-1 ${n?"text-white/70":"text-gray-400"}`,children:t(e.timestamp)})]})})})},Qm=({onEmojiSelect:e,onClose:t})=>{const n=v.useRef(null),r=["😀","😃","😄","😁","😆","😅","😂","🤣","😊","😇","🙂","🙃","😉","😌","😍","🥰","😘","😗","😙","😚","😋","😛","😝","😜","🤪","🤨","🧐","🤓","😎","🤩","🥳","😏","😒","😞","😔","😟","😕","🙁","☹️","😣","😖","😫","😩","🥺","😢","😭","😤","😠","👍","👎","👌","✌️","🤞","🤟","🤘","🤙","👈","👉","👆","👇","☝️","✋","🤚","🖐️","🖖","👋","🤝","👏","🙌","👐","🤲","🤜","❤️","🧡","💛","💚","💙","💜","🖤","🤍","💯","💢","💥","💫","💦","💨","🕳️","💬","🎉","🎊","🎈","🎁","🎀","🎂","🎄","🎆"];return v.useEffect(()=>{const s=i=>{n.current&&!n.current.contains(i.target)&&t()};return document.addEventListener("mousedown",s),()=>document.removeEventListener("mousedown",s)},[t]),l.jsx("div",{ref:n,className:"absolute bottom-12 left-0 bg-white/10 backdrop-blur-md border border-white/20 rounded-2xl p-4 shadow-2xl z-50",children:l.jsx("div",{className:"grid grid-cols-8 gap-2 max-h-48 overflow-y-auto",children:r.map((s,i)=>l.jsx("button",{onClick:()=>e(s),className:"w-8 h-8 flex items-center justify-center rounded-lg hover:bg-white/20 transition-colors text-lg",children:s},i))})})};class Ym{constructor(t=`${window.location.protocol==="https:"?"wss":"ws"}://${window.location.host}/ws`){this.url=t,this.ws=null,this.reconnectAttempts=0,this.maxReconnectAttempts=5,this.reconnectDelay=1e3,this.listeners=new Map,this.isConnecting=!1}connect(){return this.isConnecting||this.ws&&this.ws.readyState===WebSocket.OPEN?Promise.resolve():(this.isConnecting=!0,new Promise((t,n)=>{try{console.log("Connecting to WebSocket:",this.url);const a=localStorage.getItem("token");this.ws=new WebSocket(a?`${this.url}${this.url.includes("?")?"&":"?"}token=${encodeURIComponent(a)}`:this.url),this.ws.onopen=()=>{console.log("WebSocket connected successfully"),this.isConnecting=!1,this.reconnectAttempts=0,t()},this.ws.onmessage=r=>{try{const s=JSON.parse(r.data);this.handleMessage(s)}catch(s){console.error("Failed to parse WebSocket message:",s)}},this.ws.onclose=r=>{console.log("WebSocket closed:",r.code,r.reason),this.isConnecting=!1,this.attemptReconnect()},this.ws.onerror=r=>{console.error("WebSocket error:",r),this.isConnecting=!1,this.reconnectAttempts===0&&n(r)}}catch(r){this.isConnecting=!1,n(r)}}))}handleMessage(t){const n=this.listeners.get(t.type);n&&n.forEach(r=>{try{r(t)}catch(s){console.error("Error in WebSocket message handler:",s)}})}attemptReconnect(){if(this.reconnectAttempts>=this.maxReconnectAttempts){console.error("Max reconnection attempts reached");return}this.reconnectAttempts++;const t=this.reconnectDelay*Math.pow(2,this.reconnectAttempts-1);console.log(`Attempting to reconnect in ${t}ms (attempt ${this.reconnectAttempts})`),setTimeout(()=>{this.connect().catch(n=>{console.error("Reconnection failed:",n)})},t)}send(t){this.ws&&this.ws.readyState===WebSocket.OPEN?this.ws.send(JSON.stringify(t)):console.warn("WebSocket not connected, message not sent:",t)}on(t,n){this.listeners.has(t)||this.listeners.set(t,new Set),this.listeners.get(t).add(n)}off(t,n){const r=this.listeners.get(t);r&&r.delete(n)}disconnect(){this.ws&&(this.ws.close(),this.ws=null),this.listeners.clear(),this.reconnectAttempts=0,this.isConnecting=!1}get isConnected(){var t;return((t=this.ws)==null?void 0:t.readyState)===WebSocket.OPEN}}const D=new Ym,Gm=({userData:e,onLogout:t})=>{const[n,r]=v.useState([]),[s,i]=v.useState([{id:"1",sender:"النظام",text:"مرحباً بكم في INFINITY BOX - غرفة المحادثة الصوتية",timestamp:new Date,type:"system"},{id:"2",sender:"أحمد محمد",text:"أهلاً وسهلاً بالجميع في INFINITY BOX!",timestamp:new Date,type:"user"},{id:"3",sender:"فاطمة علي",text:"كيف حالكم اليوم؟ هل جربتم الألعاب الجديدة؟",timestamp:new Date,type:"user"}]),[o]=v.useState({id:"current",username:(e==null?void 0:e.username)||"أنت",isSpeaking:!1,isMuted:!1,isDeafened:!1,role:e!=null&&e.isAdmin?"admin":"member",isAdmin:(e==null?void 0:e.isAdmin)||!1,coins:500,level:2,experience:750,joinedAt:new Date,lastActive:new Date,status:"online"}),[a,c]=v.useState(!1),[d,h]=v.useState(!0),[x,m]=v.useState(!0),[g,j]=v.useState(!0),[N,I]=v.useState(""),[f,u]=v.useState(!1),[p,w]=v.useState({totalUsers:5,speakingUsers:1}),C=v.useRef(null),E=v.useRef(null),[k,P]=v.useState(null),[H,y]=v.useState(null),[A,xe]=v.useState(0),[L,re]=v.useState({}),[Pe,T]=v.useState({});v.useEffect(()=>{var O;(O=C.current)==null||O.scrollIntoView({behavior:"smooth"})},[s]),v.useEffect(()=>{D.connect().then(()=>{var $;D.send({type:"user_auth",userId:(($=e==null?void 0:e.id)==null?void 0:$.toString())||"",username:(e==null?void 0:e.username)||"ضيف",isAdmin:(e==null?void 0:e.isAdmin)||!1}),setTimeout(()=>{D.send({type:"get_room_users"})},500)}),D.on("voice_room_users",$=>{if($.users){const U=$.users.map(R=>({id:R.username,username:R.username,isSpeaking:R.isSpeaking||!1,isMuted:R.isMuted||!1,isDeafened:!1,role:R.isAdmin?"admin":"member",isAdmin:R.isAdmin||!1,coins:0,level:1,experience:0,joinedAt:new Date,lastActive:new Date,status:"online"}));r(U),w({totalUsers:U.length,speakingUsers:U.filter(R=>R.isSpeaking).length})}}),D.on("chat_message",$=>{if($.sender&&$.text){const U={id:Date.now().toString(),sender:$.sender,text:$.text,timestamp:new Date($.timestamp||Date.now()),type:$.isAdmin?"admin":"user"};i(R=>[...R,U])}}),D.on("auth_success",$=>{const U={id:Date.now().toString(),sender:"النظام",text:$.message||"تم الاتصال بالمحادثة الصوتية بنجاح",timestamp:new Date,type:"system"};i(R=>[...R,U])}),D.on("voice_status_update",$=>{r(U=>U.map(R=>R.username===$.username?{...R,isMuted:$.isMuted,isSpeaking:$.isSpeaking}:R))}),D.on("player_joined",$=>{if($.username){const U={id:Date.now().toString(),sender:"النظام",text:`انضم ${$.username} إلى INFINITY BOX`,timestamp:new Date,type:"system"};i(R=>[...R,U])}}),D.on("player_left",$=>{if($.username){const U={id:Date.now().toString(),sender:"النظام",text:`غادر ${$.username} من INFINITY BOX`,timestamp:new Date,type:"system"};i(R=>[...R,U])}});const O=setInterval(()=>{r($=>$.map(U=>({...U,isSpeaking:Math.random()>.8&&!U.isMuted})))},2e3);return()=>{clearInterval(O)}},[]);const W=async()=>{if(k){k.getTracks().forEach(O=>O.stop()),P(null),c(!1);return}try{const O=await navigator.mediaDevices.getUserMedia({audio:!0});P(O),c(!0),y(null)}catch{y("تعذر الوصول للمايكروفون"),c(!1)}},S=()=>{h(!d)},z=()=>{m(!x),x?D.disconnect():D.connect()},F=()=>{var O;if(N.trim()){const $={type:"chat_message",sender:o.username,text:N.trim(),roomId:"main-room"};D.send($);const U={id:Date.now().toString(),sender:o.username,text:N.trim(),timestamp:new Date,type:"user"};i(R=>[...R,U]),I(""),(O=E.current)==null||O.focus()}},Y=O=>{O.key==="Enter"&&!O.shiftKey&&(O.preventDefault(),F())},te=O=>{var $;I(U=>U+O),u(!1),($=E.current)==null||$.focus()},nt=O=>{switch(O){case"admin":return l.jsx(Ht,{className:"w-3 h-3 text-yellow-400"});case"moderator":return l.jsx(ed,{className:"w-3 h-3 text-blue-400"});default:return null}};return v.useEffect(()=>{if(!k)return;const O=new(window.AudioContext||window.webkitAudioContext),$=O.createMediaStreamSource(k),U=O.createAnalyser();$.connect(U);const R=new Uint8Array(U.fftSize),fe=()=>{U.getByteTimeDomainData(R);let se=0;for(let Re=0;Re<R.length;Re++)se+=Math.abs(R[Re]-128);xe(se/R.length),requestAnimationFrame(fe)};return fe(),()=>{O.close()}},[k]),v.useEffect(()=>{var $;if(!k||!(o!=null&&o.id))return;D.ws&&D.ws.readyState===WebSocket.OPEN&&D.ws.send(JSON.stringify({type:"join_voice",userId:o.id})),($=D.ws)==null||$.addEventListener("message",U=>{(async()=>{var R;try{const fe=JSON.parse(U.data);if(fe.type==="signal"){const{from:se,signal:Re}=fe;if(se===o.id)return;let pt=L[se];if(pt||(pt=O(se),re(Bl=>({...Bl,[se]:pt}))),Re.sdp&&(await pt.setRemoteDescription(new RTCSessionDescription(Re.sdp)),Re.sdp.type==="offer")){const Bl=await pt.createAnswer();await pt.setLocalDescription(Bl),(R=D.ws)==null||R.send(JSON.stringify({type:"signal",to:se,from:o.id,signal:{sdp:pt.localDescription}}))}Re.candidate&&await pt.addIceCandidate(new RTCIceCandidate(Re.candidate))}}catch{}})()}),D.on("voice_room_users",U=>{U.users&&U.users.forEach(R=>{if(R.id!==o.id&&!L[R.id]){const fe=O(R.id);re(se=>({...se,[R.id]:fe})),k&&k.getTracks().forEach(se=>fe.addTrack(se,k)),fe.createOffer().then(se=>{fe.setLocalDescription(se).then(()=>{var Re;(Re=D.ws)==null||Re.send(JSON.stringify({type:"signal",to:R.id,from:o.id,signal:{sdp:se}}))})})}})});function O(U){const R=new RTCPeerConnection({iceServers:[{urls:"stun:stun.l.google.com:19302"}]});return k&&k.getTracks().forEach(fe=>R.addTrack(fe,k)),R.ontrack=fe=>{T(se=>({...se,[U]:fe.streams[0]}))},R.onicecandidate=fe=>{var se;fe.candidate&&((se=D.ws)==null||se.send(JSON.stringify({type:"signal",to:U,from:o.id,signal:{candidate:fe.candidate}})))},R}return()=>{Object.values(L).forEach(U=>U.close()),re({}),T({})}},[k,o==null?void 0:o.id]),l.jsxs("div",{className:"min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 text-white",children:[l.jsx("div",{className:"absolute inset-0 overflow-hidden hidden sm:block",children:l.jsxs("div",{className:"absolute -inset-10 opacity-20",children:[l.jsx("div",{className:"absolute top-1/4 left-1/4 w-96 h-96 bg-purple-500 rounded-full mix-blend-multiply filter blur-xl animate-pulse"}),l.jsx("div",{className:"absolute top-3/4 right-1/4 w-96 h-96 bg-blue-500 rounded-full mix-blend-multiply filter blur-xl animate-pulse delay-1000"}),l.jsx("div",{className:"absolute bottom-1/4 left-1/2 w-96 h-96 bg-pink-500 rounded-full mix-blend-multiply filter blur-xl animate-pulse delay-2000"})]})}),l.jsxs("div",{className:"relative z-10 container mx-auto px-2 sm:px-4 py-4 sm:py-8",children:[l.jsxs("div",{className:"flex flex-col sm:flex-row items-center justify-between mb-4 sm:mb-8 gap-4",children:[l.jsx("div",{className:"flex items-center gap-4",children:l.jsxs("div",{className:"inline-flex items-center gap-3 bg-white/10 backdrop-blur-md rounded-2xl px-6 py-3 border border-white/20",children:[l.jsx("div",{className:"w-3 h-3 bg-green-400 rounded-full animate-pulse"}),l.jsxs("div",{className:"flex items-center gap-2",children:[l.jsx(ft,{className:"w-6 h-6 text-purple-400"}),l.jsx(Mn,{className:"w-4 h-4 text-blue-400"})]}),l.jsx("h1",{className:"text-2xl font-bold bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent",children:"INFINITY BOX"}),l.jsxs("div",{className:"flex items-center gap-2 text-sm text-gray-300",children:[l.jsx(Lt,{className:"w-4 h-4"}),l.jsx("span",{children:p.totalUsers})]})]})}),l.jsxs("div",{className:"flex items-center gap-4",children:[l.jsxs("div",{className:"bg-white/10 backdrop-blur-md rounded-2xl px-4 py-2 border border-white/20 flex items-center gap-3",children:[l.jsxs("div",{className:"flex items-center gap-2",children:[l.jsx(uo,{className:"w-4 h-4 text-yellow-400"}),l.jsx("span",{className:"text-yellow-400 font-semibold",children:o.coins})]}),l.jsx("div",{className:"w-px h-4 bg-white/20"}),l.jsxs("span",{className:"text-sm text-gray-300",children:["مرحباً، ",o.username]}),o.isAdmin&&l.jsx(Ht,{className:"w-4 h-4 text-yellow-400"})]}),l.jsxs("button",{onClick:t,className:"bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 rounded-xl px-4 py-2 text-red-300 hover:text-red-200 transition-all duration-200 flex items-center gap-2",children:[l.jsx(Xu,{className:"w-4 h-4"}),"خروج"]})]})]}),l.jsxs("div",{className:"grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-8",children:[l.jsx("div",{className:"lg:col-span-2",children:l.jsxs("div",{className:"bg-white/5 backdrop-blur-md rounded-3xl p-4 sm:p-8 border border-white/10 shadow-2xl",children:[l.jsxs("div",{className:"flex flex-col sm:flex-row items-center justify-between mb-4 sm:mb-6 gap-2 sm:gap-0",children:[l.jsxs("h2",{className:"text-xl font-semibold flex items-center gap-2",children:[l.jsx(Lt,{className:"w-5 h-5 text-blue-400"}),"المتصلون في INFINITY BOX (",n.length,")"]}),l.jsxs("div",{className:"flex items-center gap-2 text-sm text-gray-400",children:[l.jsx("div",{className:"w-2 h-2 bg-green-400 rounded-full animate-pulse"}),p.speakingUsers," يتحدث الآن"]})]}),l.jsx("div",{className:"grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-6 mb-4 sm:mb-8",children:n.map(O=>l.jsx(Wm,{user:O,roleIcon:nt(O.role)},O.id))}),l.jsxs("div",{className:"flex flex-wrap items-center justify-center gap-3 sm:gap-4 w-full",children:[l.jsxs("button",{onClick:W,className:`relative group p-4 rounded-2xl transition-all duration-300 transform hover:scale-110 ${a?"bg-gradient-to-r from-green-500 to-emerald-500 shadow-lg shadow-green-500/25":"bg-gradient-to-r from-red-500 to-pink-500 shadow-lg shadow-red-500/25"}`,children:[a?l.jsx(Jf,{className:"w-6 h-6"}):l.jsx(Zu,{className:"w-6 h-6"}),l.jsx("div",{className:"absolute -top-12 left-1/2 transform -translate-x-1/2 bg-black/80 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity",children:a?"إيقاف المايك":"تشغيل المايك"})]}),H&&l.jsx("div",{style:{color:"red"},children:H}),l.jsx("div",{style:{width:100,height:10,background:"#eee",marginTop:8},children:l.jsx("div",{style:{width:`${A*10}px`,height:10,background:"#4ade80"}})}),l.jsxs("button",{onClick:S,className:`relative group p-4 rounded-2xl transition-all duration-300 transform hover:scale-110 ${d?"bg-gradient-to-r from-blue-500 to-cyan-500 shadow-lg shadow-blue-500/25":"bg-gradient-to-r from-gray-500 to-slate-500 shadow-lg shadow-gray-500/25"}`,children:[d?l.jsx(am,{className:"w-6 h-6"}):l.jsx(nd,{className:"w-6 h-6"}),l.jsx("div",{className:"absolute -top-12 left-1/2 transform -translate-x-1/2 bg-black/80 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity",children:d?"إيقاف السماعة":"تشغيل السماعة"})]}),l.jsxs("button",{onClick:z,className:`relative group p-4 rounded-2xl transition-all duration-300 transform hover:scale-110 ${x?"bg-gradient-to-r from-red-500 to-pink-500 shadow-lg shadow-red-500/25":"bg-gradient-to-r from-green-500 to-emerald-500 shadow-lg shadow-green-500/25"}`,children:[x?l.jsx(em,{className:"w-6 h-6"}):l.jsx(Ju,{className:"w-6 h-6"}),l.jsx("div",{className:"absolute -top-12 left-1/2 transform -translate-x-1/2 bg-black/80 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity",children:x?"قطع الاتصال":"الاتصال"})]}),l.jsxs("button",{className:"relative group p-4 rounded-2xl bg-gradient-to-r from-purple-500 to-indigo-500 shadow-lg shadow-purple-500/25 transition-all duration-300 transform hover:scale-110",children:[l.jsx(Nl,{className:"w-6 h-6"}),l.jsx("div",{className:"absolute -top-12 left-1/2 transform -translate-x-1/2 bg-black/80 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity",children:"الإعدادات"})]})]})]})}),l.jsx("div",{className:"lg:col-span-1",children:l.jsxs("div",{className:"bg-white/5 backdrop-blur-md rounded-3xl border border-white/10 shadow-2xl overflow-hidden",children:[l.jsxs("div",{className:"flex items-center justify-between p-3 sm:p-4 border-b border-white/10",children:[l.jsxs("h3",{className:"font-semibold flex items-center gap-2",children:[l.jsx($l,{className:"w-5 h-5 text-purple-400"}),"دردشة INFINITY BOX"]}),l.jsx("button",{onClick:()=>j(!g),className:"p-2 rounded-lg hover:bg-white/10 transition-colors",children:g?l.jsx(Xf,{className:"w-4 h-4"}):l.jsx(Gf,{className:"w-4 h-4"})})]}),g&&l.jsxs(l.Fragment,{children:[l.jsxs("div",{className:"h-60 sm:h-96 overflow-y-auto p-2 sm:p-4 space-y-3",children:[s.map(O=>l.jsx(Dm,{message:O},O.id)),l.jsx("div",{ref:C})]}),l.jsx("div",{className:"p-2 sm:p-4 border-t border-white/10",children:l.jsxs("div",{className:"flex items-center gap-1 sm:gap-2",children:[l.jsxs("div",{className:"relative",children:[l.jsx("button",{onClick:()=>u(!f),className:"p-2 rounded-lg hover:bg-white/10 transition-colors",children:l.jsx(rm,{className:"w-5 h-5 text-yellow-400"})}),f&&l.jsx(Qm,{onEmojiSelect:te,onClose:()=>u(!1)})]}),l.jsx("input",{ref:E,type:"text",value:N,onChange:O=>I(O.target.value),onKeyPress:Y,placeholder:"اكتب رسالتك في INFINITY BOX...",className:"flex-1 bg-white/10 border border-white/20 rounded-xl px-2 sm:px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm sm:text-base"}),l.jsx("button",{onClick:F,disabled:!N.trim(),className:"p-2 rounded-xl bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 transform hover:scale-105",children:l.jsx(pi,{className:"w-5 h-5"})})]})})]})]})})]}),l.jsx("div",{className:"mt-4 sm:mt-8 text-center overflow-x-auto",children:l.jsxs("div",{className:"inline-flex items-center gap-2 sm:gap-4 bg-white/5 backdrop-blur-md rounded-2xl px-3 sm:px-6 py-2 sm:py-3 border border-white/10",children:[l.jsxs("div",{className:"flex items-center gap-2",children:[l.jsx("div",{className:`w-2 h-2 rounded-full ${x?"bg-green-400":"bg-red-400"}`}),l.jsx("span",{className:"text-sm text-gray-300",children:x?"متصل بـ INFINITY BOX":"غير متصل"})]}),l.jsx("div",{className:"w-px h-4 bg-white/20"}),l.jsxs("div",{className:"flex items-center gap-2 text-sm text-gray-300",children:[l.jsx(kn,{className:"w-4 h-4 text-yellow-400"}),l.jsx("span",{children:"جودة عالية"})]}),l.jsx("div",{className:"w-px h-4 bg-white/20"}),l.jsxs("div",{className:"flex items-center gap-2 text-sm text-gray-300",children:[l.jsx(ft,{className:"w-4 h-4 text-purple-400"}),l.jsxs("span",{children:["المستوى ",o.level]})]})]})}),Object.entries(Pe).map(([O,$])=>l.jsx("audio",{autoPlay:!0,playsInline:!0,ref:U=>{U&&(U.srcObject=$)}},O))]})]})},Xm=()=>{const[e,t]=v.useState([]),[n,r]=v.useState(1),[s,i]=v.useState(""),[o,a]=v.useState(null),[c,d]=v.useState(!1),[h,x]=v.useState(null),[m,g]=v.useState(""),[j,N]=v.useState(null),[I,f]=v.useState(null),[u,p]=v.useState(!1),[w,C]=v.useState(null);v.useEffect(()=>{k()},[]);const E=(T,W)=>{C({type:T,text:W}),setTimeout(()=>C(null),5e3)},k=async(T=1,W="")=>{d(!0);try{const S=await ae.getUsersWithImages(T,12,W);t(S.users||[]),a(S.pagination),r(T),i(W)}catch(S){E("error","خطأ في تحميل المستخدمين: "+S.message)}finally{d(!1)}},P=()=>{const T=document.getElementById("searchInput"),W=(T==null?void 0:T.value.trim())||"";k(1,W)},H=(T,W)=>{x(T),g(W),N(null),f(null),p(!0)},y=T=>{var S;const W=(S=T.target.files)==null?void 0:S[0];if(W){if(!["image/jpeg","image/jpg","image/png","image/gif"].includes(W.type)){E("error","نوع الملف غير مدعوم. يرجى اختيار صورة بصيغة JPG, PNG, أو GIF");return}const F=2*1024*1024;if(W.size>F){E("error","حجم الصورة كبير جداً. الحد الأقصى 2MB");return}N(W);const Y=new FileReader;Y.onload=te=>{var nt;f((nt=te.target)==null?void 0:nt.result)},Y.readAsDataURL(W)}},A=T=>new Promise((W,S)=>{const z=new FileReader;z.readAsDataURL(T),z.onload=()=>W(z.result),z.onerror=F=>S(F)}),xe=async T=>{if(T.preventDefault(),!(!h||!m))try{let W=null,S=null;m.startsWith("change_")&&j&&(W=await A(j),S=j.type),await ae.manageUserImage(h.userId,m,W||void 0,S||void 0),E("success","تم تحديث الصورة بنجاح"),L(),k(n,s)}catch(W){E("error","خطأ في إدارة الصورة: "+W.message)}},L=()=>{p(!1),x(null),g(""),N(null),f(null)},re=T=>T?"موجودة":"غير موجودة",Pe=T=>T||"/images/default-avatar.png";return l.jsxs("div",{className:"space-y-8",children:[l.jsxs("div",{className:"flex items-center gap-3 mb-8",children:[l.jsx("div",{className:"w-8 h-8 bg-gradient-to-r from-purple-500 to-indigo-500 rounded-lg flex items-center justify-center",children:l.jsx(Yu,{className:"w-5 h-5 text-white"})}),l.jsx("h2",{className:"text-2xl font-bold text-white",children:"إدارة صور المستخدمين"})]}),w&&l.jsx("div",{className:`p-4 rounded-2xl border ${w.type==="success"?"bg-green-500/20 border-green-500/50 text-green-300":w.type==="error"?"bg-red-500/20 border-red-500/50 text-red-300":"bg-blue-500/20 border-blue-500/50 text-blue-300"}`,children:l.jsxs("div",{className:"flex items-center gap-2",children:[w.type==="success"&&l.jsx(ci,{className:"w-5 h-5"}),w.type==="error"&&l.jsx(ui,{className:"w-5 h-5"}),w.type==="info"&&l.jsx(hi,{className:"w-5 h-5"}),l.jsx("span",{children:w.text})]})}),l.jsxs("div",{className:"bg-white/5 backdrop-blur-md rounded-3xl border border-white/10 shadow-2xl overflow-hidden",children:[l.jsx("div",{className:"p-6 border-b border-white/10",children:l.jsxs("div",{className:"flex items-center gap-4",children:[l.jsxs("div",{className:"relative flex-1",children:[l.jsx(mi,{className:"absolute right-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400"}),l.jsx("input",{id:"searchInput",type:"text",placeholder:"البحث عن مستخدم...",className:"w-full bg-white/10 border border-white/20 rounded-xl px-12 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent",onKeyPress:T=>T.key==="Enter"&&P()})]}),l.jsxs("button",{onClick:P,className:"bg-purple-500/20 hover:bg-purple-500/30 border border-purple-500/50 rounded-xl px-6 py-3 text-purple-300 transition-colors flex items-center gap-2",children:[l.jsx(mi,{className:"w-4 h-4"}),"بحث"]}),l.jsxs("button",{onClick:()=>k(),className:"bg-green-500/20 hover:bg-green-500/30 border border-green-500/50 rounded-xl px-6 py-3 text-green-300 transition-colors flex items-center gap-2",children:[l.jsx(Zn,{className:"w-4 h-4"}),"تحديث"]})]})}),l.jsxs("div",{className:"p-6",children:[c?l.jsxs("div",{className:"text-center py-12",children:[l.jsx(Zn,{className:"w-8 h-8 text-purple-400 animate-spin mx-auto mb-4"}),l.jsx("p",{className:"text-gray-300",children:"جاري التحميل..."})]}):e.length===0?l.jsxs("div",{className:"text-center py-12",children:[l.jsx(Lt,{className:"w-16 h-16 text-gray-400 mx-auto mb-4"}),l.jsx("h3",{className:"text-xl font-semibold text-white mb-2",children:"لا توجد مستخدمين"}),l.jsx("p",{className:"text-gray-300",children:"لم يتم العثور على أي مستخدمين"})]}):l.jsx("div",{className:"grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6",children:e.map(T=>l.jsxs("div",{className:"bg-white/5 rounded-2xl p-6 border border-white/10 hover:bg-white/10 transition-all duration-200",children:[l.jsxs("div",{className:"flex items-center gap-4 mb-4",children:[l.jsx("img",{src:Pe(T.avatar),alt:"صورة المستخدم",className:"w-16 h-16 rounded-full object-cover border-2 border-purple-500"}),l.jsxs("div",{className:"flex-1",children:[l.jsx("h3",{className:"font-semibold text-white",children:T.displayName||T.username}),l.jsxs("p",{className:"text-sm text-gray-400",children:["ID: ",T.userId]})]})]}),l.jsx("div",{className:"space-y-3 mb-4",children:l.jsxs("div",{className:"flex items-center justify-between p-3 bg-white/5 rounded-lg",children:[l.jsxs("div",{className:"flex items-center gap-3",children:[l.jsx("img",{src:Pe(T.avatar),alt:"الصورة الشخصية",className:"w-8 h-8 rounded-lg object-cover"}),l.jsxs("div",{children:[l.jsx("p",{className:"text-sm font-medium text-white",children:"الصورة الشخصية"}),l.jsx("p",{className:"text-xs text-gray-400",children:re(T.avatar)})]})]}),l.jsxs("div",{className:"flex gap-2",children:[l.jsx("button",{onClick:()=>H(T,"remove_avatar"),className:"p-2 bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 rounded-lg text-red-300 transition-colors",title:"حذف",children:l.jsx(lm,{className:"w-4 h-4"})}),l.jsx("button",{onClick:()=>H(T,"change_avatar"),className:"p-2 bg-yellow-500/20 hover:bg-yellow-500/30 border border-yellow-500/50 rounded-lg text-yellow-300 transition-colors",title:"تغيير",children:l.jsx(qu,{className:"w-4 h-4"})})]})]})})]},T.userId))}),o&&o.totalPages>1&&l.jsxs("div",{className:"flex justify-center items-center gap-2 mt-8",children:[o.hasPrevPage&&l.jsx("button",{onClick:()=>k(n-1,s),className:"px-4 py-2 bg-white/10 hover:bg-white/20 border border-white/20 rounded-lg text-white transition-colors",children:"السابق"}),Array.from({length:o.totalPages},(T,W)=>W+1).map(T=>l.jsx("button",{onClick:()=>k(T,s),className:`px-4 py-2 rounded-lg transition-colors ${T===n?"bg-purple-500 text-white":"bg-white/10 hover:bg-white/20 border border-white/20 text-white"}`,children:T},T)),o.hasNextPage&&l.jsx("button",{onClick:()=>k(n+1,s),className:"px-4 py-2 bg-white/10 hover:bg-white/20 border border-white/20 rounded-lg text-white transition-colors",children:"التالي"})]})]})]}),u&&l.jsx("div",{className:"fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4",children:l.jsxs("div",{className:"bg-slate-800 rounded-3xl p-8 max-w-md w-full border border-white/20",children:[l.jsxs("div",{className:"flex items-center justify-between mb-6",children:[l.jsxs("h3",{className:"text-xl font-bold text-white",children:["إدارة صور المستخدم ",h==null?void 0:h.userId]}),l.jsx("button",{onClick:L,className:"p-2 rounded-lg hover:bg-white/10 transition-colors",children:l.jsx(fo,{className:"w-5 h-5 text-gray-400"})})]}),l.jsxs("form",{onSubmit:xe,className:"space-y-6",children:[l.jsxs("div",{children:[l.jsx("label",{className:"block text-sm font-medium text-gray-300 mb-2",children:"الإجراء"}),l.jsxs("select",{value:m,onChange:T=>g(T.target.value),className:"w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-purple-500",required:!0,children:[l.jsx("option",{value:"",children:"اختر الإجراء"}),l.jsx("option",{value:"remove_avatar",children:"حذف الصورة الشخصية"}),l.jsx("option",{value:"change_avatar",children:"تغيير الصورة الشخصية"})]})]}),m.startsWith("change_")&&l.jsxs("div",{children:[l.jsx("label",{className:"block text-sm font-medium text-gray-300 mb-2",children:"اختر الصورة"}),l.jsxs("div",{className:"relative",children:[l.jsx("input",{type:"file",accept:"image/*",onChange:y,className:"hidden",id:"imageFile"}),l.jsxs("label",{htmlFor:"imageFile",className:"w-full bg-purple-500/20 hover:bg-purple-500/30 border border-purple-500/50 rounded-xl px-4 py-3 text-purple-300 cursor-pointer transition-colors flex items-center justify-center gap-2",children:[l.jsx(sm,{className:"w-5 h-5"}),"اختيار ملف"]})]}),I&&l.jsx("div",{className:"mt-4",children:l.jsx("img",{src:I,alt:"معاينة الصورة",className:"w-full max-h-40 object-cover rounded-xl"})})]}),l.jsxs("div",{className:"flex gap-4",children:[l.jsx("button",{type:"submit",className:"flex-1 bg-gradient-to-r from-purple-500 to-indigo-500 hover:from-purple-600 hover:to-indigo-600 text-white font-semibold py-3 px-6 rounded-xl transition-all duration-200",children:"حفظ التغييرات"}),l.jsx("button",{type:"button",onClick:L,className:"flex-1 bg-gray-500/20 hover:bg-gray-500/30 border border-gray-500/50 text-gray-300 font-semibold py-3 px-6 rounded-xl transition-all duration-200",children:"إلغاء"})]})]})]})})]})},La=({userData:e,onLogout:t})=>{const[n,r]=v.useState("users"),[s,i]=v.useState([]),[o,a]=v.useState(null),[c,d]=v.useState(""),[h,x]=v.useState(!1),[m,g]=v.useState(null),[j,N]=v.useState({numBoxes:10,winRatio:.3}),[I,f]=v.useState([]);v.useEffect(()=>{e!=null&&e.isAdmin&&(p(),w(),C())},[e]);const u=(y,A)=>{g({type:y,text:A}),setTimeout(()=>g(null),5e3)},p=async()=>{x(!0);try{const y=await ae.getAllUsersAdmin();i(y.users||[])}catch{u("error","خطأ في تحميل المستخدمين")}finally{x(!1)}},w=async()=>{try{const y=await ae.getGameSettings();N(y)}catch(y){console.error("خطأ في تحميل إعدادات اللعبة:",y)}},C=async()=>{try{const y=await ae.getSuspiciousActivity();f(y.users||[])}catch(y){console.error("خطأ في تحميل النشاطات المشبوهة:",y),f([])}},E=async y=>{if(!y.trim()){p();return}x(!0);try{const A=await ae.searchUsersAdmin(y);i(A.users||[])}catch{u("error","خطأ في البحث")}finally{x(!1)}},k=async(y,A)=>{try{if(A.playerId){if(!/^\d{6}$/.test(A.playerId)){u("error","معرف اللاعب يجب أن يكون 6 أرقام فقط");return}await ae.updatePlayerId(y,A.playerId),u("success","تم تحديث معرف اللاعب بنجاح")}const{playerId:xe,...L}=A;Object.keys(L).length>0&&(await ae.updateUserAdmin(y,L),u("success","تم تحديث المستخدم بنجاح")),p(),a(null)}catch{u("error","خطأ في تحديث المستخدم")}},P=async()=>{try{await ae.updateGameSettings(j),u("success","تم حفظ إعدادات اللعبة بنجاح")}catch{u("error","خطأ في حفظ الإعدادات")}},H=s.filter(y=>y.username.toLowerCase().includes(c.toLowerCase())||y.email.toLowerCase().includes(c.toLowerCase()));return e!=null&&e.isAdmin?l.jsxs("div",{className:"min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 text-white",children:[l.jsx("div",{className:"absolute inset-0 overflow-hidden",children:l.jsxs("div",{className:"absolute -inset-10 opacity-20",children:[l.jsx("div",{className:"absolute top-1/4 left-1/4 w-96 h-96 bg-purple-500 rounded-full mix-blend-multiply filter blur-xl animate-pulse"}),l.jsx("div",{className:"absolute top-3/4 right-1/4 w-96 h-96 bg-blue-500 rounded-full mix-blend-multiply filter blur-xl animate-pulse delay-1000"}),l.jsx("div",{className:"absolute bottom-1/4 left-1/2 w-96 h-96 bg-pink-500 rounded-full mix-blend-multiply filter blur-xl animate-pulse delay-2000"})]})}),l.jsxs("div",{className:"relative z-10 container mx-auto px-4 py-8",children:[l.jsxs("div",{className:"flex items-center justify-between mb-8",children:[l.jsxs("div",{className:"flex items-center gap-4",children:[l.jsxs("div",{className:"w-16 h-16 bg-gradient-to-r from-yellow-500 to-orange-500 rounded-2xl flex items-center justify-center relative",children:[l.jsx(Ht,{className:"w-8 h-8 text-white"}),l.jsx(Mn,{className:"w-4 h-4 text-white absolute -top-1 -right-1"})]}),l.jsxs("div",{children:[l.jsx("h1",{className:"text-3xl font-bold bg-gradient-to-r from-yellow-400 to-orange-400 bg-clip-text text-transparent",children:"لوحة تحكم المشرف"}),l.jsx("p",{className:"text-gray-300",children:"INFINITY BOX - إدارة شاملة للمنصة"})]})]}),l.jsxs("div",{className:"flex items-center gap-4",children:[l.jsxs("div",{className:"bg-white/10 backdrop-blur-md rounded-2xl px-4 py-2 border border-white/20 flex items-center gap-3",children:[l.jsx(Ht,{className:"w-5 h-5 text-yellow-400"}),l.jsxs("span",{className:"text-sm text-gray-300",children:["مرحباً، ",e.username]})]}),l.jsx("button",{onClick:t,className:"bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 rounded-xl px-4 py-2 text-red-300 hover:text-red-200 transition-all duration-200",children:"خروج"})]})]}),m&&l.jsx("div",{className:`mb-6 p-4 rounded-2xl border ${m.type==="success"?"bg-green-500/20 border-green-500/50 text-green-300":m.type==="error"?"bg-red-500/20 border-red-500/50 text-red-300":"bg-blue-500/20 border-blue-500/50 text-blue-300"}`,children:l.jsxs("div",{className:"flex items-center gap-2",children:[m.type==="success"&&l.jsx(ci,{className:"w-5 h-5"}),m.type==="error"&&l.jsx(ui,{className:"w-5 h-5"}),m.type==="info"&&l.jsx(hi,{className:"w-5 h-5"}),l.jsx("span",{children:m.text})]})}),l.jsx("div",{className:"flex flex-wrap gap-2 mb-8",children:[{id:"users",label:"إدارة المستخدمين",icon:Lt,color:"from-blue-500 to-cyan-500"},{id:"game",label:"إعدادات اللعبة",icon:Nl,color:"from-green-500 to-emerald-500"},{id:"suspicious",label:"النشاطات المشبوهة",icon:ka,color:"from-red-500 to-pink-500"},{id:"images",label:"إدارة الصور",icon:Yu,color:"from-purple-500 to-indigo-500"}].map(y=>l.jsxs("button",{onClick:()=>r(y.id),className:`flex items-center gap-2 px-6 py-3 rounded-xl transition-all duration-200 ${n===y.id?`bg-gradient-to-r ${y.color} text-white shadow-lg`:"bg-white/10 hover:bg-white/20 text-gray-300"}`,children:[l.jsx(y.icon,{className:"w-5 h-5"}),l.jsx("span",{className:"font-medium",children:y.label})]},y.id))}),l.jsxs("div",{className:"bg-white/5 backdrop-blur-md rounded-3xl border border-white/10 shadow-2xl overflow-hidden",children:[n==="users"&&l.jsxs("div",{className:"p-8",children:[l.jsxs("div",{className:"flex items-center justify-between mb-6",children:[l.jsxs("h2",{className:"text-2xl font-bold text-white flex items-center gap-2",children:[l.jsx(Lt,{className:"w-6 h-6 text-blue-400"}),"إدارة المستخدمين (",H.length,")"]}),l.jsxs("button",{onClick:p,className:"flex items-center gap-2 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 rounded-xl px-4 py-2 text-blue-300 transition-colors",children:[l.jsx(Zn,{className:"w-4 h-4"}),"تحديث"]})]}),l.jsxs("div",{className:"relative mb-6",children:[l.jsx(mi,{className:"absolute right-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400"}),l.jsx("input",{type:"text",value:c,onChange:y=>{d(y.target.value),E(y.target.value)},placeholder:"البحث عن المستخدمين...",className:"w-full bg-white/10 border border-white/20 rounded-xl px-12 py-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"})]}),h?l.jsxs("div",{className:"text-center py-12",children:[l.jsx(Zn,{className:"w-8 h-8 text-blue-400 animate-spin mx-auto mb-4"}),l.jsx("p",{className:"text-gray-300",children:"جاري التحميل..."})]}):l.jsx("div",{className:"grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6",children:H.map(y=>l.jsxs("div",{className:"bg-white/5 rounded-2xl p-6 border border-white/10 hover:bg-white/10 transition-all duration-200",children:[l.jsxs("div",{className:"flex items-center gap-4 mb-4",children:[l.jsx("div",{className:"w-12 h-12 bg-gradient-to-r from-blue-500 to-cyan-500 rounded-full flex items-center justify-center text-lg font-bold",children:y.username.charAt(0).toUpperCase()}),l.jsxs("div",{className:"flex-1",children:[l.jsxs("h3",{className:"font-semibold text-white flex items-center gap-2",children:[y.username,y.isAdmin&&l.jsx(Ht,{className:"w-4 h-4 text-yellow-400"})]}),l.jsx("p",{className:"text-sm text-gray-400",children:y.email}),l.jsxs("p",{className:"text-xs text-blue-400",children:["المعرف: ",y.playerId]})]})]}),l.jsxs("div",{className:"grid grid-cols-2 gap-4 mb-4",children:[l.jsxs("div",{className:"bg-white/5 rounded-lg p-3 text-center",children:[l.jsxs("div",{className:"flex items-center justify-center gap-1 mb-1",children:[l.jsx(uo,{className:"w-4 h-4 text-yellow-400"}),l.jsx("span",{className:"text-yellow-400 font-semibold",children:y.coins})]}),l.jsx("p",{className:"text-xs text-gray-400",children:"العملات"})]}),l.jsxs("div",{className:"bg-white/5 rounded-lg p-3 text-center",children:[l.jsxs("div",{className:"flex items-center justify-center gap-1 mb-1",children:[l.jsx(kn,{className:"w-4 h-4 text-purple-400"}),l.jsx("span",{className:"text-purple-400 font-semibold",children:y.pearls||0})]}),l.jsx("p",{className:"text-xs text-gray-400",children:"اللآلئ"})]})]}),l.jsxs("div",{className:"flex gap-2",children:[l.jsxs("button",{onClick:()=>a(y),className:"flex-1 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 rounded-lg px-3 py-2 text-blue-300 text-sm transition-colors flex items-center justify-center gap-1",children:[l.jsx(qu,{className:"w-4 h-4"}),"تعديل"]}),l.jsxs("button",{onClick:()=>k(y.id,{isAdmin:!y.isAdmin}),className:`flex-1 border rounded-lg px-3 py-2 text-sm transition-colors flex items-center justify-center gap-1 ${y.isAdmin?"bg-red-500/20 hover:bg-red-500/30 border-red-500/50 text-red-300":"bg-green-500/20 hover:bg-green-500/30 border-green-500/50 text-green-300"}`,children:[y.isAdmin?l.jsx(om,{className:"w-4 h-4"}):l.jsx(im,{className:"w-4 h-4"}),y.isAdmin?"إلغاء":"ترقية"]})]})]},y.id))})]}),n==="game"&&l.jsxs("div",{className:"p-8",children:[l.jsxs("h2",{className:"text-2xl font-bold text-white mb-6 flex items-center gap-2",children:[l.jsx(Nl,{className:"w-6 h-6 text-green-400"}),"إعدادات اللعبة"]}),l.jsx("div",{className:"max-w-2xl space-y-6",children:l.jsxs("div",{className:"bg-white/5 rounded-2xl p-6 border border-white/10",children:[l.jsx("h3",{className:"text-lg font-semibold text-white mb-4",children:"إعدادات صناديق الحظ"}),l.jsxs("div",{className:"space-y-4",children:[l.jsxs("div",{children:[l.jsx("label",{className:"block text-sm font-medium text-gray-300 mb-2",children:"عدد الصناديق في الجولة"}),l.jsx("input",{type:"number",min:"5",max:"100",value:j.numBoxes,onChange:y=>N(A=>({...A,numBoxes:parseInt(y.target.value)})),className:"w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"})]}),l.jsxs("div",{children:[l.jsx("label",{className:"block text-sm font-medium text-gray-300 mb-2",children:"نسبة الفوز (من 0.1 إلى 0.9)"}),l.jsx("input",{type:"number",min:"0.1",max:"0.9",step:"0.1",value:j.winRatio,onChange:y=>N(A=>({...A,winRatio:parseFloat(y.target.value)})),className:"w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent"})]}),l.jsxs("button",{onClick:P,className:"w-full bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white font-semibold py-3 px-6 rounded-xl transition-all duration-200 flex items-center justify-center gap-2",children:[l.jsx(nm,{className:"w-5 h-5"}),"حفظ الإعدادات"]})]})]})})]}),n==="suspicious"&&l.jsxs("div",{className:"p-8",children:[l.jsxs("div",{className:"flex items-center justify-between mb-6",children:[l.jsxs("h2",{className:"text-2xl font-bold text-white flex items-center gap-2",children:[l.jsx(ka,{className:"w-6 h-6 text-red-400"}),"النشاطات المشبوهة"]}),l.jsxs("button",{onClick:C,className:"flex items-center gap-2 bg-red-500/20 hover:bg-red-500/30 border border-red-500/50 rounded-xl px-4 py-2 text-red-300 transition-colors",children:[l.jsx(Zn,{className:"w-4 h-4"}),"تحديث"]})]}),l.jsxs("div",{className:"grid grid-cols-1 md:grid-cols-3 gap-6 mb-8",children:[l.jsx("div",{className:"bg-red-500/20 rounded-2xl p-6 border border-red-500/50",children:l.jsxs("div",{className:"flex items-center gap-3",children:[l.jsx(hi,{className:"w-8 h-8 text-red-400"}),l.jsxs("div",{children:[l.jsx("p",{className:"text-2xl font-bold text-red-300",children:I.length}),l.jsx("p",{className:"text-sm text-red-400",children:"مستخدمين مشبوهين"})]})]})}),l.jsx("div",{className:"bg-orange-500/20 rounded-2xl p-6 border border-orange-500/50",children:l.jsxs("div",{className:"flex items-center gap-3",children:[l.jsx(Qf,{className:"w-8 h-8 text-orange-400"}),l.jsxs("div",{children:[l.jsx("p",{className:"text-2xl font-bold text-orange-300",children:I.filter(y=>y.riskLevel==="high").length}),l.jsx("p",{className:"text-sm text-orange-400",children:"مخاطر عالية"})]})]})}),l.jsx("div",{className:"bg-yellow-500/20 rounded-2xl p-6 border border-yellow-500/50",children:l.jsxs("div",{className:"flex items-center gap-3",children:[l.jsx(wl,{className:"w-8 h-8 text-yellow-400"}),l.jsxs("div",{children:[l.jsx("p",{className:"text-2xl font-bold text-yellow-300",children:I.filter(y=>y.riskLevel==="medium").length}),l.jsx("p",{className:"text-sm text-yellow-400",children:"تحت المراقبة"})]})]})})]}),I.length===0?l.jsxs("div",{className:"text-center py-12",children:[l.jsx(ci,{className:"w-16 h-16 text-green-400 mx-auto mb-4"}),l.jsx("h3",{className:"text-xl font-semibold text-white mb-2",children:"لا توجد نشاطات مشبوهة"}),l.jsx("p",{className:"text-gray-300",children:"جميع المستخدمين يتصرفون بشكل طبيعي"})]}):l.jsx("div",{className:"space-y-4",children:I.map((y,A)=>{var xe,L;return l.jsx("div",{className:"bg-white/5 rounded-2xl p-6 border border-white/10",children:l.jsxs("div",{className:"flex items-center justify-between",children:[l.jsxs("div",{className:"flex items-center gap-4",children:[l.jsx("div",{className:"w-12 h-12 bg-gradient-to-r from-red-500 to-pink-500 rounded-full flex items-center justify-center text-lg font-bold",children:((L=(xe=y.username)==null?void 0:xe.charAt(0))==null?void 0:L.toUpperCase())||"?"}),l.jsxs("div",{children:[l.jsx("h3",{className:"font-semibold text-white",children:y.username}),l.jsxs("p",{className:"text-sm text-gray-400",children:["آخر نشاط: ",y.lastActivity]})]})]}),l.jsx("div",{className:`px-3 py-1 rounded-full text-xs font-semibold ${y.riskLevel==="high"?"bg-red-500/20 text-red-300":y.riskLevel==="medium"?"bg-yellow-500/20 text-yellow-300":"bg-green-500/20 text-green-300"}`,children:y.riskLevel==="high"?"خطر عالي":y.riskLevel==="medium"?"خطر متوسط":"خطر منخفض"})]})},A)})})]}),n==="images"&&l.jsx("div",{className:"p-8",children:l.jsx(Xm,{})})]})]}),o&&l.jsx("div",{className:"fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4",children:l.jsxs("div",{className:"bg-slate-800 rounded-3xl p-8 max-w-md w-full border border-white/20",children:[l.jsx("h3",{className:"text-xl font-bold text-white mb-6",children:"تعديل المستخدم"}),l.jsxs("div",{className:"space-y-4",children:[l.jsxs("div",{children:[l.jsx("label",{className:"block text-sm font-medium text-gray-300 mb-2",children:"معرف اللاعب"}),l.jsx("input",{type:"text",value:o.playerId,onChange:y=>a(A=>A?{...A,playerId:y.target.value}:null),maxLength:6,pattern:"\\d{6}",className:"w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500",placeholder:"6 أرقام فقط"})]}),l.jsxs("div",{children:[l.jsx("label",{className:"block text-sm font-medium text-gray-300 mb-2",children:"اسم المستخدم"}),l.jsx("input",{type:"text",value:o.username,onChange:y=>a(A=>A?{...A,username:y.target.value}:null),className:"w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"})]}),l.jsxs("div",{children:[l.jsx("label",{className:"block text-sm font-medium text-gray-300 mb-2",children:"العملات الذهبية"}),l.jsx("input",{type:"number",value:o.coins,onChange:y=>a(A=>A?{...A,coins:parseInt(y.target.value)}:null),className:"w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"})]}),l.jsxs("div",{children:[l.jsx("label",{className:"block text-sm font-medium text-gray-300 mb-2",children:"اللآلئ"}),l.jsx("input",{type:"number",value:o.pearls||0,onChange:y=>a(A=>A?{...A,pearls:parseInt(y.target.value)}:null),className:"w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"})]}),l.jsxs("div",{className:"flex items-center gap-3",children:[l.jsx("input",{type:"checkbox",id:"isAdmin",checked:o.isAdmin,onChange:y=>a(A=>A?{...A,isAdmin:y.target.checked}:null),className:"w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"}),l.jsx("label",{htmlFor:"isAdmin",className:"text-sm font-medium text-gray-300",children:"صلاحيات المشرف"})]})]}),l.jsxs("div",{className:"flex gap-4 mt-8",children:[l.jsx("button",{onClick:()=>k(o.id,o),className:"flex-1 bg-gradient-to-r from-blue-500 to-cyan-500 hover:from-blue-600 hover:to-cyan-600 text-white font-semibold py-3 px-6 rounded-xl transition-all duration-200",children:"حفظ التغييرات"}),l.jsx("button",{onClick:()=>a(null),className:"flex-1 bg-gray-500/20 hover:bg-gray-500/30 border border-gray-500/50 text-gray-300 font-semibold py-3 px-6 rounded-xl transition-all duration-200",children:"إلغاء"})]})]})})]}):l.jsx("div",{className:"min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center",children:l.jsxs("div",{className:"bg-red-500/20 border border-red-500/50 rounded-3xl p-8 text-center max-w-md",children:[l.jsx(ui,{className:"w-16 h-16 text-red-400 mx-auto mb-4"}),l.jsx("h2",{className:"text-2xl font-bold text-white mb-2",children:"غير مصرح"}),l.jsx("p",{className:"text-red-300 mb-6",children:"ليس لديك صلاحيات للوصول إلى لوحة تحكم المشرف"}),l.jsx("button",{onClick:t,className:"bg-red-500 hover:bg-red-600 text-white px-6 py-2 rounded-xl transition-colors",children:"العودة لتسجيل الدخول"})]})})},Km=({userData:e,isOwner:t,onUpdateProfile:n})=>{const[r,s]=v.useState("overview"),[i,o]=v.useState(!1),[a,c]=v.useState(""),[d,h]=v.useState((e==null?void 0:e.gender)||"male"),[x,m]=v.useState(!1),[g,j]=v.useState({gems:0,stars:0,coins:0,bombs:0,bats:0,snakes:0}),[N,I]=v.useState(!1),[f,u]=v.useState(!1),[p,w]=v.useState(""),E=(L=>L==="female"?{primary:"from-pink-500 to-red-400",secondary:"bg-pink-50",accent:"text-pink-600",button:"bg-pink-500 hover:bg-pink-600",border:"border-pink-200"}:{primary:"from-blue-500 to-yellow-400",secondary:"bg-blue-50",accent:"text-blue-600",button:"bg-blue-500 hover:bg-blue-600",border:"border-blue-200"})((e==null?void 0:e.gender)||"male");v.useEffect(()=>{e!=null&&e.id&&(k(),P())},[e==null?void 0:e.id,t]);const k=async()=>{try{const L=await fetch(`/api/user-items/${e.id}`,{headers:{Authorization:`Bearer ${localStorage.getItem("token")}`}});if(L.ok){const re=await L.json();j(re.items)}}catch(L){console.error("Error fetching user items:",L)}},P=async()=>{if(!t&&(e!=null&&e.id))try{const L=localStorage.getItem("token"),re=await fetch(`/api/friends/check/${e.id}`,{headers:{Authorization:`Bearer ${L}`}});if(re.ok){const Pe=await re.json();I(Pe.isFriend)}}catch(L){console.error("Error checking friendship:",L)}},H=async()=>{if(p.trim())try{const L=localStorage.getItem("token");(await fetch("/api/messages/send",{method:"POST",headers:{"Content-Type":"application/json",Authorization:`Bearer ${L}`},body:JSON.stringify({toUserId:e.id,message:p})})).ok?(w(""),u(!1),alert("تم إرسال الرسالة بنجاح!")):alert("فشل في إرسال الرسالة")}catch(L){console.error("Error sending message:",L),alert("خطأ في إرسال الرسالة")}},y=L=>{var Pe;const re=(Pe=L.target.files)==null?void 0:Pe[0];if(re){if(re.size>5*1024*1024){alert("حجم الصورة كبير جداً. يجب أن يكون أقل من 5 ميجابايت");return}const T=new FileReader;T.onload=W=>{var S;c((S=W.target)==null?void 0:S.result)},T.readAsDataURL(re)}},A=async()=>{m(!0);try{const L=localStorage.getItem("token"),re=await fetch("/api/profile/update",{method:"PUT",headers:{"Content-Type":"application/json",Authorization:`Bearer ${L}`},body:JSON.stringify({profileImage:a,gender:d})});if(re.ok){const Pe=await re.json();n==null||n(Pe),o(!1),alert("تم تحديث الملف الشخصي بنجاح!")}else alert("فشل في تحديث الملف الشخصي")}catch(L){console.error("Error updating profile:",L),alert("حدث خطأ في تحديث الملف الشخصي")}finally{m(!1)}},xe=()=>a||(e!=null&&e.profileImage?e.profileImage:(e==null?void 0:e.gender)==="female"?"data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTAwIiBoZWlnaHQ9IjEwMCIgdmlld0JveD0iMCAwIDEwMCAxMDAiIGZpbGw9Im5vbmUiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+CjxyZWN0IHdpZHRoPSIxMDAiIGhlaWdodD0iMTAwIiByeD0iNTAiIGZpbGw9IiNGRjY5QjQiLz4KPHN2ZyB4PSIyNSIgeT0iMjUiIHdpZHRoPSI1MCIgaGVpZ2h0PSI1MCIgdmlld0JveD0iMCAwIDI0IDI0IiBmaWxsPSJ3aGl0ZSI+CjxwYXRoIGQ9Ik0xMiAyQzEzLjEgMiAxNCAyLjkgMTQgNFMxMy4xIDYgMTIgNiAxMCA1LjEgMTAgNFMxMC45IDIgMTIgMlpNMjEgOVYxMUgyMFYxMkMxOS4xIDEyIDE4LjQgMTIuNiAxOC4xIDEzLjNDMTcuMSAxMS45IDE1LjEgMTEgMTMuOCAxMC43QzE0IDEwLjUgMTQuMSAxMC4yIDE0LjEgMTBDMTQgOS4xIDEzLjYgOC40IDEzIDhDMTMuNCA3LjYgMTMuNyA3IDE0IDYuOUMxNS40IDcuNyAxNi4yIDkuMSAxNiAzMEMxOC40IDI5IDEwLjUgMzAgOFMxMS42IDI5IDEwIDI5LjdIMThDMTggMjguNSAxOC4zIDI3LjUgMTguOSAyNi43QzE5LjMgMjcuMSAxOS44IDI3LjMgMjAuNSAyNy4zSDE5QzE5IDI3IDEwLjMgMjcgMTAuNSAyNy4zSDE5LjQgMjEgOVoiLz4KPHN2Zz4KPHN2Zz4K":"data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTAwIiBoZWlnaHQ9IjEwMCIgdmlld0JveD0iMCAwIDEwMCAxMDAiIGZpbGw9Im5vbmUiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+CjxyZWN0IHdpZHRoPSIxMDAiIGhlaWdodD0iMTAwIiByeD0iNTAiIGZpbGw9IiMzQjgyRjYiLz4KPHN2ZyB4PSIyNSIgeT0iMjUiIHdpZHRoPSI1MCIgaGVpZ2h0PSI1MCIgdmlld0JveD0iMCAwIDI0IDI0IiBmaWxsPSJ3aGl0ZSI+CjxwYXRoIGQ9Ik0xMiAyQTMgMyAwIDAgMSAxNSA1QTMgMyAwIDAgMSAxMiA4QTMgMyAwIDAgMSA5IDVBMyAzIDAgMCAxIDEyIDJNMjEgMjFWMjBDMjEgMTYuMTMgMTcuODcgMTMgMTQgMTNIMTBDNi4xMyAxMyAzIDE2LjEzIDMgMjBWMjFIMjFaIi8+Cjwvc3ZnPgo=");return l.jsxs("div",{className:"max-w-md mx-auto bg-gradient-to-br from-slate-900 via-purple-900/90 to-slate-800 min-h-screen rounded-3xl shadow-2xl overflow-hidden",children:[l.jsxs("div",{className:`bg-gradient-to-br ${E.primary} p-8 text-white relative overflow-hidden rounded-t-3xl`,children:[l.jsxs("div",{className:"absolute inset-0 opacity-20",children:[l.jsx("div",{className:"absolute top-0 left-0 w-40 h-40 bg-white/30 rounded-full -translate-x-20 -translate-y-20 blur-xl"}),l.jsx("div",{className:"absolute bottom-0 right-0 w-32 h-32 bg-white/20 rounded-full translate-x-12 translate-y-12 blur-lg"}),l.jsx("div",{className:"absolute top-1/2 left-1/2 w-24 h-24 bg-white/10 rounded-full -translate-x-12 -translate-y-12 blur-md"})]}),l.jsxs("div",{className:"relative z-10",children:[l.jsxs("div",{className:"flex flex-col items-center mb-4",children:[l.jsxs("div",{className:"relative",children:[l.jsx("div",{className:"w-28 h-28 rounded-full overflow-hidden border-4 border-white/60 shadow-2xl bg-gradient-to-br from-purple-400 to-blue-500 ring-4 ring-white/30 backdrop-blur-sm",children:l.jsx("img",{src:xe(),alt:"الصورة الشخصية",className:"w-full h-full object-cover"})}),t&&l.jsx("button",{onClick:()=>{var L;return i?(L=document.getElementById("imageUpload"))==null?void 0:L.click():o(!0)},className:"absolute -bottom-1 -right-1 w-10 h-10 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center shadow-xl border-2 border-white/50 hover:scale-110 transition-transform",children:l.jsx(Df,{className:"w-5 h-5 text-white"})}),i&&l.jsx("input",{id:"imageUpload",type:"file",accept:"image/*",onChange:y,className:"hidden"})]}),l.jsx("h2",{className:"text-xl font-bold mt-3 text-black",children:e==null?void 0:e.username}),l.jsxs("p",{className:"text-white/80 text-sm",children:["ID: ",e==null?void 0:e.playerId]}),i&&l.jsxs("div",{className:"mt-3 flex space-x-2 rtl:space-x-reverse",children:[l.jsx("button",{onClick:()=>h("male"),className:`px-3 py-1 rounded-full text-xs ${d==="male"?"bg-white text-blue-600":"bg-white/20 text-white"}`,children:"ذكر"}),l.jsx("button",{onClick:()=>h("female"),className:`px-3 py-1 rounded-full text-xs ${d==="female"?"bg-white text-pink-600":"bg-white/20 text-white"}`,children:"أنثى"})]})]}),t?l.jsxs("div",{className:"grid grid-cols-3 gap-3 text-center",children:[l.jsxs("div",{className:"bg-white/20 rounded-lg p-3 backdrop-blur-sm",children:[l.jsxs("div",{className:"text-lg font-bold text-black",children:["🪙 ",(e==null?void 0:e.goldCoins)||0]}),l.jsx("div",{className:"text-xs text-white/80",children:"ذهب"})]}),l.jsxs("div",{className:"bg-white/20 rounded-lg p-3 backdrop-blur-sm",children:[l.jsxs("div",{className:"text-lg font-bold text-black",children:["🦪 ",(e==null?void 0:e.pearls)||0]}),l.jsx("div",{className:"text-xs text-white/80",children:"لؤلؤ"})]}),l.jsxs("div",{className:"bg-white/20 rounded-lg p-3 backdrop-blur-sm",children:[l.jsxs("div",{className:"text-lg font-bold text-black",children:["Lv.",(e==null?void 0:e.level)||1]}),l.jsx("div",{className:"text-xs text-white/80",children:"مستوى"})]})]}):l.jsxs("div",{className:"space-y-3",children:[l.jsxs("div",{className:"bg-white/20 rounded-lg p-3 backdrop-blur-sm text-center",children:[l.jsxs("div",{className:"text-lg font-bold text-black",children:["Lv.",(e==null?void 0:e.level)||1]}),l.jsx("div",{className:"text-xs text-white/80",children:"مستوى"})]}),N&&l.jsxs("button",{onClick:()=>u(!0),className:"w-full bg-gradient-to-r from-blue-500 to-purple-600 text-white py-2 px-4 rounded-lg flex items-center justify-center gap-2 hover:from-blue-600 hover:to-purple-700 transition-all duration-300 shadow-lg",children:[l.jsx($l,{className:"w-4 h-4"}),l.jsx("span",{children:"إرسال رسالة"})]})]})]}),i&&l.jsxs("div",{className:"absolute top-4 right-4 flex space-x-2 rtl:space-x-reverse",children:[l.jsx("button",{onClick:A,disabled:x,className:"w-8 h-8 bg-green-500 rounded-full flex items-center justify-center",children:l.jsx(Yf,{className:"w-4 h-4 text-white"})}),l.jsx("button",{onClick:()=>{o(!1),c(""),h((e==null?void 0:e.gender)||"male")},className:"w-8 h-8 bg-red-500 rounded-full flex items-center justify-center",children:l.jsx(fo,{className:"w-4 h-4 text-white"})})]})]}),l.jsx("div",{className:"sticky top-0 bg-gradient-to-r from-slate-800/95 to-blue-800/95 backdrop-blur-md border-b border-blue-500/30 z-20 mx-4 rounded-2xl mt-4 shadow-lg",children:l.jsx("div",{className:"flex overflow-x-auto scrollbar-hide p-2",children:[{id:"overview",label:"عام",icon:Xr},...t?[{id:"friends",label:"أصدقاء",icon:Lt},{id:"gifts",label:"هدايا",icon:Zf},{id:"items",label:"عناصر ودرع",icon:kn},{id:"charge",label:"شحن",icon:Kf},{id:"exchange",label:"تبديل",icon:Wf}]:[]].map(L=>l.jsxs("button",{onClick:()=>s(L.id),className:`flex-shrink-0 flex flex-col items-center px-3 py-2 min-w-[60px] transition-all duration-300 rounded-xl ${r===L.id?"bg-gradient-to-br from-blue-500 to-indigo-600 text-white shadow-lg transform scale-105":"text-gray-300 hover:bg-slate-800/40 hover:text-white"}`,children:[l.jsx(L.icon,{className:"w-4 h-4 mb-1"}),l.jsx("span",{className:"text-xs font-medium",children:L.label})]},L.id))})}),l.jsxs("div",{className:"p-6 pb-20",children:[r==="overview"&&l.jsxs("div",{className:"space-y-6",children:[l.jsxs("div",{className:"bg-gradient-to-br from-slate-800/90 to-blue-800/90 rounded-2xl p-6 border border-blue-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h3",{className:"font-bold text-blue-300 mb-4 text-lg flex items-center gap-2",children:[l.jsx(Xr,{className:"w-5 h-5"}),"معلومات الحساب"]}),l.jsxs("div",{className:"space-y-3 text-sm",children:[l.jsxs("div",{className:"flex justify-between items-center p-3 bg-slate-800/40 rounded-xl backdrop-blur-sm border border-slate-400/20",children:[l.jsx("span",{className:"text-slate-300",children:"الجنس:"}),l.jsx("span",{className:"text-blue-300 font-medium",children:(e==null?void 0:e.gender)==="female"?"👩 أنثى":"👨 ذكر"})]}),l.jsxs("div",{className:"flex justify-between items-center p-3 bg-slate-800/40 rounded-xl backdrop-blur-sm border border-slate-400/20",children:[l.jsx("span",{className:"text-slate-300",children:"تاريخ الانضمام:"}),l.jsx("span",{className:"text-blue-300 font-medium",children:new Date(e==null?void 0:e.joinedAt).toLocaleDateString("ar-EG")})]}),l.jsxs("div",{className:"flex justify-between items-center p-3 bg-slate-800/40 rounded-xl backdrop-blur-sm border border-slate-400/20",children:[l.jsx("span",{className:"text-slate-300",children:"آخر نشاط:"}),l.jsx("span",{className:"text-blue-300 font-medium",children:new Date(e==null?void 0:e.lastActive).toLocaleDateString("ar-EG")})]})]})]}),!t&&l.jsx("div",{className:"bg-gradient-to-br from-blue-800/80 to-indigo-800/80 rounded-2xl p-6 border border-blue-400/30 shadow-xl backdrop-blur-sm",children:l.jsxs("div",{className:"flex items-center space-x-3 rtl:space-x-reverse",children:[l.jsx("div",{className:"w-12 h-12 bg-gradient-to-br from-blue-400 to-indigo-500 rounded-full flex items-center justify-center shadow-lg",children:l.jsx(Xr,{className:"w-6 h-6 text-white"})}),l.jsxs("div",{children:[l.jsx("h4",{className:"font-bold text-blue-300 text-lg",children:"ملف عام"}),l.jsx("p",{className:"text-sm text-blue-200",children:"يمكنك عرض الاسم والصورة والآي دي والمستوى فقط"})]})]})}),l.jsxs("div",{className:"grid grid-cols-2 gap-4",children:[l.jsx("div",{className:"bg-gradient-to-br from-amber-800/80 to-orange-800/80 rounded-2xl p-5 shadow-xl border border-amber-400/30 backdrop-blur-sm",children:l.jsxs("div",{className:"flex items-center space-x-3 rtl:space-x-reverse",children:[l.jsx("div",{className:"w-12 h-12 bg-gradient-to-br from-amber-400 to-orange-500 rounded-full flex items-center justify-center shadow-lg",children:l.jsx("span",{className:"text-2xl",children:"🏆"})}),l.jsxs("div",{children:[l.jsx("div",{className:"text-xl font-bold text-black",children:(e==null?void 0:e.experience)||0}),l.jsx("div",{className:"text-xs text-amber-200 font-medium",children:"خبرة"})]})]})}),l.jsx("div",{className:"bg-gradient-to-br from-amber-800/80 to-orange-800/80 rounded-2xl p-5 shadow-xl border border-amber-400/30 backdrop-blur-sm",children:l.jsxs("div",{className:"flex items-center space-x-3 rtl:space-x-reverse",children:[l.jsx("div",{className:"w-12 h-12 bg-gradient-to-br from-amber-400 to-orange-500 rounded-full flex items-center justify-center shadow-lg",children:l.jsx("span",{className:"text-2xl",children:"🎮"})}),l.jsxs("div",{children:[l.jsx("div",{className:"text-xl font-bold text-black",children:(e==null?void 0:e.level)||1}),l.jsx("div",{className:"text-xs text-amber-200 font-medium",children:"مستوى"})]})]})})]})]}),t&&r==="friends"&&l.jsxs("div",{className:"space-y-5",children:[l.jsxs("div",{className:"text-center mb-6",children:[l.jsx("div",{className:"text-5xl mb-4 drop-shadow-lg",children:"👥"}),l.jsx("h3",{className:"text-xl font-bold text-white mb-2",children:"إدارة الأصدقاء"}),l.jsx("p",{className:"text-gray-300 text-sm",children:"أضف وتفاعل مع أصدقائك في المنصة"})]}),l.jsxs("div",{className:"bg-gradient-to-br from-blue-800/60 to-indigo-800/60 p-6 rounded-2xl border border-blue-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("div",{className:"flex items-center gap-3 mb-4",children:[l.jsx(td,{className:"w-6 h-6 text-blue-300"}),l.jsx("h4",{className:"font-bold text-blue-200 text-lg",children:"إضافة صديق جديد"})]}),l.jsxs("div",{className:"flex gap-3",children:[l.jsx("input",{type:"text",placeholder:"رقم اللاعب (6 أرقام)",className:"flex-1 px-4 py-3 bg-blue-900/30 border border-blue-400/30 rounded-xl text-white placeholder-blue-300 focus:outline-none focus:ring-2 focus:ring-blue-500",maxLength:6}),l.jsx("button",{className:"px-6 py-3 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-xl text-sm font-bold hover:from-blue-600 hover:to-indigo-700 transition-all duration-300 shadow-md",children:"🔍 بحث"})]})]}),l.jsxs("div",{className:"bg-gradient-to-br from-slate-800/60 to-blue-800/60 p-6 rounded-2xl border border-slate-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h4",{className:"font-bold text-slate-200 mb-4 text-lg flex items-center gap-3",children:[l.jsx("span",{className:"text-2xl",children:"👫"}),"قائمة الأصدقاء"]}),l.jsxs("div",{className:"text-center py-6 text-slate-300 text-sm bg-slate-900/30 rounded-xl",children:[l.jsx("div",{className:"text-3xl mb-2",children:"😔"}),"لا توجد أصدقاء حالياً"]})]}),l.jsxs("div",{className:"bg-gradient-to-br from-emerald-800/60 to-green-800/60 p-6 rounded-2xl border border-emerald-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h4",{className:"font-bold text-emerald-200 mb-4 text-lg flex items-center gap-3",children:[l.jsx("span",{className:"text-2xl",children:"📩"}),"طلبات الصداقة"]}),l.jsxs("div",{className:"text-center py-6 text-emerald-300 text-sm bg-emerald-900/30 rounded-xl",children:[l.jsx("div",{className:"text-3xl mb-2",children:"📭"}),"لا توجد طلبات صداقة جديدة"]})]})]}),t&&r==="gifts"&&l.jsxs("div",{className:"space-y-5",children:[l.jsxs("div",{className:"text-center mb-6",children:[l.jsx("div",{className:"text-5xl mb-4 drop-shadow-lg",children:"🎁"}),l.jsx("h3",{className:"text-xl font-bold text-white mb-2",children:"نظام إدارة الهدايا"}),l.jsx("p",{className:"text-gray-300 text-sm",children:"أرسل واستقبل الهدايا المتنوعة مع الأصدقاء"})]}),l.jsxs("div",{className:"bg-gradient-to-br from-blue-800/60 to-indigo-800/60 p-6 rounded-2xl border border-blue-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("div",{className:"flex items-center gap-3 mb-5",children:[l.jsx(pi,{className:"w-6 h-6 text-blue-300"}),l.jsx("h4",{className:"font-bold text-blue-200 text-lg",children:"إرسال هدية جديدة"})]}),l.jsxs("div",{className:"mb-5",children:[l.jsxs("h5",{className:"text-base font-bold text-yellow-300 mb-3 flex items-center gap-2",children:[l.jsx("span",{className:"text-xl",children:"💰"}),"العملات الذهبية"]}),l.jsx("div",{className:"grid grid-cols-1 gap-3",children:l.jsxs("button",{className:"p-4 bg-yellow-800/40 border border-yellow-400/30 rounded-xl hover:bg-yellow-700/50 transition-all duration-300 flex items-center gap-4 shadow-lg",children:[l.jsx("div",{className:"text-3xl drop-shadow-lg",children:"🪙"}),l.jsxs("div",{className:"text-right flex-1",children:[l.jsx("div",{className:"text-sm font-bold text-yellow-200",children:"عملات ذهبية"}),l.jsx("div",{className:"text-xs text-yellow-300",children:"للشراء والاستخدام في المنصة"})]})]})})]}),l.jsxs("div",{className:"mb-5",children:[l.jsxs("h5",{className:"text-base font-bold text-red-300 mb-3 flex items-center gap-2",children:[l.jsx("span",{className:"text-xl",children:"⚠️"}),"العناصر الضارة"]}),l.jsxs("div",{className:"grid grid-cols-3 gap-3",children:[l.jsxs("button",{className:"p-4 bg-red-800/40 border border-red-400/30 rounded-xl hover:bg-red-700/50 transition-all duration-300 text-center shadow-lg",children:[l.jsx("div",{className:"text-3xl mb-2 drop-shadow-lg",children:"💣"}),l.jsx("div",{className:"text-xs font-bold text-red-200",children:"قنبلة مدمرة"})]}),l.jsxs("button",{className:"p-4 bg-red-800/40 border border-red-400/30 rounded-xl hover:bg-red-700/50 transition-all duration-300 text-center shadow-lg",children:[l.jsx("div",{className:"text-3xl mb-2 drop-shadow-lg",children:"🦇"}),l.jsx("div",{className:"text-xs font-bold text-red-200",children:"خفاش مؤذي"})]}),l.jsxs("button",{className:"p-4 bg-red-800/40 border border-red-400/30 rounded-xl hover:bg-red-700/50 transition-all duration-300 text-center shadow-lg",children:[l.jsx("div",{className:"text-3xl mb-2 drop-shadow-lg",children:"🐍"}),l.jsx("div",{className:"text-xs font-bold text-red-200",children:"ثعبان سام"})]})]})]}),l.jsxs("div",{className:"mb-5",children:[l.jsxs("h5",{className:"text-base font-bold text-emerald-300 mb-3 flex items-center gap-2",children:[l.jsx("span",{className:"text-xl",children:"✨"}),"العناصر المفيدة"]}),l.jsxs("div",{className:"grid grid-cols-3 gap-3",children:[l.jsxs("button",{className:"p-4 bg-emerald-800/40 border border-emerald-400/30 rounded-xl hover:bg-emerald-700/50 transition-all duration-300 text-center shadow-lg",children:[l.jsx("div",{className:"text-3xl mb-2 drop-shadow-lg",children:"💎"}),l.jsx("div",{className:"text-xs font-bold text-emerald-200",children:"جوهرة نادرة"})]}),l.jsxs("button",{className:"p-4 bg-emerald-800/40 border border-emerald-400/30 rounded-xl hover:bg-emerald-700/50 transition-all duration-300 text-center shadow-lg",children:[l.jsx("div",{className:"text-3xl mb-2 drop-shadow-lg",children:"⭐"}),l.jsx("div",{className:"text-xs font-bold text-emerald-200",children:"نجمة ذهبية"})]}),l.jsxs("button",{className:"p-4 bg-emerald-800/40 border border-emerald-400/30 rounded-xl hover:bg-emerald-700/50 transition-all duration-300 text-center shadow-lg",children:[l.jsx("div",{className:"text-3xl mb-2 drop-shadow-lg",children:"🪙"}),l.jsx("div",{className:"text-xs font-bold text-emerald-200",children:"عملة خاصة"})]})]})]}),l.jsxs("div",{className:"flex gap-3",children:[l.jsx("input",{type:"text",placeholder:"رقم اللاعب (6 أرقام)",className:"flex-1 px-4 py-3 bg-blue-900/30 border border-blue-400/30 rounded-xl text-white placeholder-blue-300 focus:outline-none focus:ring-2 focus:ring-blue-500"}),l.jsx("button",{className:"px-6 py-3 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-xl text-sm font-bold hover:from-blue-600 hover:to-indigo-700 transition-all duration-300 shadow-md",children:"🎁 إرسال"})]})]}),l.jsxs("div",{className:"bg-gradient-to-br from-slate-800/60 to-blue-800/60 p-6 rounded-2xl border border-slate-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h4",{className:"font-bold text-slate-200 mb-4 text-lg flex items-center gap-3",children:[l.jsx("span",{className:"text-2xl",children:"📦"}),"الهدايا المستلمة"]}),l.jsxs("div",{className:"text-center py-6 text-slate-300 text-sm bg-slate-900/30 rounded-xl",children:[l.jsx("div",{className:"text-3xl mb-2",children:"🎈"}),"لا توجد هدايا جديدة في الوقت الحالي"]})]})]}),t&&r==="items"&&l.jsxs("div",{className:"space-y-4",children:[l.jsxs("div",{className:"text-center mb-6",children:[l.jsx("div",{className:"text-4xl mb-3",children:"⚡"}),l.jsx("h3",{className:"text-lg font-semibold text-gray-700 mb-2",children:"العناصر المجمعة"}),l.jsx("p",{className:"text-sm text-gray-500",children:"العناصر التي حصلت عليها من الألعاب"})]}),l.jsxs("div",{className:"bg-gradient-to-br from-emerald-800/80 to-green-800/80 p-6 rounded-2xl border border-emerald-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h4",{className:"font-bold text-emerald-300 mb-4 text-lg flex items-center gap-3",children:[l.jsx("span",{className:"text-2xl",children:"⭐"}),"العناصر المفيدة"]}),l.jsxs("div",{className:"grid grid-cols-3 gap-4",children:[l.jsxs("div",{className:"text-center p-4 bg-emerald-800/40 rounded-xl border border-emerald-400/30 backdrop-blur-sm hover:bg-emerald-700/50 transition-all duration-300 transform hover:scale-105 shadow-lg",children:[l.jsx("div",{className:"text-4xl mb-3 drop-shadow-lg",children:"💎"}),l.jsx("div",{className:"text-sm font-bold text-emerald-200 mb-1",children:"جوهرة نادرة"}),l.jsx("div",{className:"text-xs text-emerald-300 bg-emerald-900/30 px-2 py-1 rounded-lg mb-2",children:"مكافأة 500 🪙"}),l.jsx("div",{className:"text-xl font-bold text-white bg-gradient-to-r from-emerald-600 to-green-600 rounded-xl py-2 shadow-md",children:g.gems})]}),l.jsxs("div",{className:"text-center p-4 bg-emerald-800/40 rounded-xl border border-emerald-400/30 backdrop-blur-sm hover:bg-emerald-700/50 transition-all duration-300 transform hover:scale-105 shadow-lg",children:[l.jsx("div",{className:"text-4xl mb-3 drop-shadow-lg",children:"⭐"}),l.jsx("div",{className:"text-sm font-bold text-emerald-200 mb-1",children:"نجمة ذهبية"}),l.jsx("div",{className:"text-xs text-emerald-300 bg-emerald-900/30 px-2 py-1 rounded-lg mb-2",children:"مكافأة 200 🪙"}),l.jsx("div",{className:"text-xl font-bold text-white bg-gradient-to-r from-emerald-600 to-green-600 rounded-xl py-2 shadow-md",children:g.stars})]}),l.jsxs("div",{className:"text-center p-4 bg-emerald-800/40 rounded-xl border border-emerald-400/30 backdrop-blur-sm hover:bg-emerald-700/50 transition-all duration-300 transform hover:scale-105 shadow-lg",children:[l.jsx("div",{className:"text-4xl mb-3 drop-shadow-lg",children:"🪙"}),l.jsx("div",{className:"text-sm font-bold text-emerald-200 mb-1",children:"عملة خاصة"}),l.jsx("div",{className:"text-xs text-emerald-300 bg-emerald-900/30 px-2 py-1 rounded-lg mb-2",children:"مكافأة 100 🪙"}),l.jsx("div",{className:"text-xl font-bold text-white bg-gradient-to-r from-emerald-600 to-green-600 rounded-xl py-2 shadow-md",children:g.coins})]})]})]}),l.jsxs("div",{className:"bg-gradient-to-br from-red-800/80 to-rose-800/80 p-6 rounded-2xl border border-red-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h4",{className:"font-bold text-red-300 mb-4 text-lg flex items-center gap-3",children:[l.jsx("span",{className:"text-2xl",children:"💣"}),"العناصر الضارة"]}),l.jsxs("div",{className:"grid grid-cols-3 gap-4",children:[l.jsxs("div",{className:"text-center p-4 bg-red-800/40 rounded-xl border border-red-400/30 backdrop-blur-sm hover:bg-red-700/50 transition-all duration-300 transform hover:scale-105 shadow-lg",children:[l.jsx("div",{className:"text-4xl mb-3 drop-shadow-lg",children:"💣"}),l.jsx("div",{className:"text-sm font-bold text-red-200 mb-1",children:"قنبلة مدمرة"}),l.jsx("div",{className:"text-xs text-red-300 bg-red-900/30 px-2 py-1 rounded-lg mb-2",children:"خسارة 100 🪙"}),l.jsx("div",{className:"text-xl font-bold text-white bg-gradient-to-r from-red-600 to-rose-600 rounded-xl py-2 shadow-md",children:g.bombs})]}),l.jsxs("div",{className:"text-center p-4 bg-red-800/40 rounded-xl border border-red-400/30 backdrop-blur-sm hover:bg-red-700/50 transition-all duration-300 transform hover:scale-105 shadow-lg",children:[l.jsx("div",{className:"text-4xl mb-3 drop-shadow-lg",children:"🦇"}),l.jsx("div",{className:"text-sm font-bold text-red-200 mb-1",children:"خفاش مؤذي"}),l.jsx("div",{className:"text-xs text-red-300 bg-red-900/30 px-2 py-1 rounded-lg mb-2",children:"خسارة 50 🪙"}),l.jsx("div",{className:"text-xl font-bold text-white bg-gradient-to-r from-red-600 to-rose-600 rounded-xl py-2 shadow-md",children:g.bats})]}),l.jsxs("div",{className:"text-center p-4 bg-red-800/40 rounded-xl border border-red-400/30 backdrop-blur-sm hover:bg-red-700/50 transition-all duration-300 transform hover:scale-105 shadow-lg",children:[l.jsx("div",{className:"text-4xl mb-3 drop-shadow-lg",children:"🐍"}),l.jsx("div",{className:"text-sm font-bold text-red-200 mb-1",children:"ثعبان سام"}),l.jsx("div",{className:"text-xs text-red-300 bg-red-900/30 px-2 py-1 rounded-lg mb-2",children:"خسارة 75 🪙"}),l.jsx("div",{className:"text-xl font-bold text-white bg-gradient-to-r from-red-600 to-rose-600 rounded-xl py-2 shadow-md",children:g.snakes})]})]})]}),l.jsxs("div",{className:"bg-gradient-to-br from-amber-800/60 to-yellow-800/60 p-6 rounded-2xl border border-amber-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h4",{className:"font-bold text-amber-200 mb-3 text-lg flex items-center gap-3",children:[l.jsx("span",{className:"text-2xl",children:"💡"}),"نصائح مهمة"]}),l.jsx("p",{className:"text-amber-100 text-sm leading-relaxed",children:"اجمع العناصر المفيدة من الألعاب • أرسلها كهدايا للأصدقاء • بادلها بعملات ذهبية قيمة"})]}),l.jsxs("div",{className:"bg-gradient-to-br from-blue-800/80 to-indigo-800/80 p-6 rounded-2xl border border-blue-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h4",{className:"font-bold text-blue-200 mb-4 text-lg flex items-center gap-3",children:[l.jsx("span",{className:"text-3xl drop-shadow-lg",children:"🛡️"}),"نظام الحماية المتطور"]}),l.jsx("p",{className:"text-blue-100 text-sm mb-6 leading-relaxed",children:"احمِ نفسك من العناصر الضارة والهجمات الخطيرة في الألعاب والهدايا"}),l.jsxs("div",{className:"grid grid-cols-1 gap-5",children:[l.jsxs("div",{className:"bg-blue-800/40 p-5 rounded-xl border border-blue-400/30 backdrop-blur-sm shadow-lg",children:[l.jsxs("div",{className:"flex items-center justify-between mb-3",children:[l.jsx("h5",{className:"font-bold text-blue-200 text-base",children:"🥇 درع ذهبي أساسي"}),l.jsx("span",{className:"text-xs text-blue-100 bg-blue-600/40 px-3 py-1 rounded-full font-medium",children:"24 ساعة"})]}),l.jsx("p",{className:"text-sm text-blue-100 mb-4 leading-relaxed",children:"حماية قوية ضد القنابل المدمرة والخفافيش المؤذية والثعابين السامة"}),l.jsx("button",{className:"w-full bg-gradient-to-r from-blue-500 to-blue-600 text-white py-3 rounded-xl text-sm font-bold hover:from-blue-600 hover:to-blue-700 transition-all duration-300 shadow-md",children:"🛡️ تفعيل الحماية (2,000 🪙)"})]}),l.jsxs("div",{className:"bg-purple-800/40 p-5 rounded-xl border border-purple-400/30 backdrop-blur-sm shadow-lg",children:[l.jsxs("div",{className:"flex items-center justify-between mb-3",children:[l.jsx("h5",{className:"font-bold text-purple-200 text-base",children:"👑 درع متقدم مميز"}),l.jsx("span",{className:"text-xs text-purple-100 bg-purple-600/40 px-3 py-1 rounded-full font-medium",children:"7 أيام"})]}),l.jsx("p",{className:"text-sm text-purple-100 mb-4 leading-relaxed",children:"حماية مميزة وشاملة لمدة أسبوع كامل ضد جميع العناصر الضارة والهجمات"}),l.jsx("button",{className:"w-full bg-gradient-to-r from-purple-500 to-purple-600 text-white py-3 rounded-xl text-sm font-bold hover:from-purple-600 hover:to-purple-700 transition-all duration-300 shadow-md",children:"👑 تفعيل الحماية المميزة (20,000 🪙)"})]})]})]})]}),t&&r==="charge"&&l.jsxs("div",{className:"space-y-4",children:[l.jsxs("div",{className:"text-center mb-6",children:[l.jsx("div",{className:"text-5xl mb-4 drop-shadow-lg",children:"💰"}),l.jsx("h3",{className:"text-xl font-bold text-white mb-2",children:"شحن الرصيد الذهبي"}),l.jsx("p",{className:"text-gray-300 text-sm",children:"اشحن عملاتك الذهبية بأفضل الأسعار"})]}),l.jsxs("div",{className:"grid grid-cols-1 gap-4",children:[l.jsx("div",{className:"bg-gradient-to-br from-yellow-800/60 to-amber-800/60 p-6 rounded-2xl border border-yellow-400/30 shadow-xl backdrop-blur-sm",children:l.jsxs("div",{className:"text-center",children:[l.jsx("div",{className:"text-4xl mb-3 drop-shadow-lg",children:"🪙"}),l.jsx("h4",{className:"font-bold text-yellow-200 mb-2 text-lg",children:"5,000 عملة ذهبية"}),l.jsx("p",{className:"text-yellow-100 text-base mb-4 font-semibold",children:"💵 $1 USD فقط"}),l.jsx("button",{className:"w-full bg-gradient-to-r from-yellow-500 to-amber-600 text-white py-3 rounded-xl text-sm font-bold hover:from-yellow-600 hover:to-amber-700 transition-all duration-300 shadow-md",children:"📱 شحن عبر واتساب"})]})}),l.jsx("div",{className:"bg-gradient-to-br from-green-800/60 to-emerald-800/60 p-6 rounded-2xl border border-green-400/30 shadow-xl backdrop-blur-sm",children:l.jsxs("div",{className:"text-center",children:[l.jsx("div",{className:"text-4xl mb-3 drop-shadow-lg",children:"🪙"}),l.jsx("h4",{className:"font-bold text-green-200 mb-2 text-lg",children:"27,200 عملة ذهبية"}),l.jsx("p",{className:"text-green-100 text-base mb-1 font-semibold",children:"💵 $5 USD"}),l.jsx("p",{className:"text-sm text-green-300 bg-green-900/30 px-3 py-1 rounded-lg mb-4 font-medium",children:"🎉 وفر 8% أكثر!"}),l.jsx("button",{className:"w-full bg-gradient-to-r from-green-500 to-emerald-600 text-white py-3 rounded-xl text-sm font-bold hover:from-green-600 hover:to-emerald-700 transition-all duration-300 shadow-md",children:"📱 شحن عبر واتساب"})]})})]})]}),t&&r==="exchange"&&l.jsxs("div",{className:"space-y-4",children:[l.jsxs("div",{className:"text-center mb-6",children:[l.jsx("div",{className:"text-5xl mb-4 drop-shadow-lg",children:"🔄"}),l.jsx("h3",{className:"text-xl font-bold text-white mb-2",children:"نظام تبديل العملات"}),l.jsx("p",{className:"text-gray-300 text-sm",children:"اللآلئ مخصصة حصرياً للتحويل إلى دولارات نقدية"})]}),l.jsxs("div",{className:"space-y-5",children:[l.jsxs("div",{className:"bg-gradient-to-br from-blue-800/60 to-indigo-800/60 p-6 rounded-2xl border border-blue-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h4",{className:"font-bold text-blue-200 mb-4 text-lg flex items-center gap-3",children:[l.jsx("span",{className:"text-2xl",children:"🪙➡️🦪"}),"تحويل ذهب إلى لآلئ"]}),l.jsx("p",{className:"text-blue-100 text-sm mb-4 bg-blue-900/30 px-3 py-2 rounded-lg",children:"معدل التحويل: 10,000 🪙 = 1 🦪"}),l.jsxs("div",{className:"flex items-center gap-3 mb-4",children:[l.jsx("input",{type:"number",placeholder:"10000",className:"flex-1 px-4 py-3 bg-blue-900/30 border border-blue-400/30 rounded-xl text-white placeholder-blue-300 focus:outline-none focus:ring-2 focus:ring-blue-500"}),l.jsx("span",{className:"text-blue-200 font-medium",children:"🪙 ➡️ 🦪"})]}),l.jsx("button",{className:"w-full bg-gradient-to-r from-blue-500 to-indigo-600 text-white py-3 rounded-xl text-sm font-bold hover:from-blue-600 hover:to-indigo-700 transition-all duration-300 shadow-md",children:"🔄 تحويل إلى لآلئ"})]}),l.jsxs("div",{className:"bg-gradient-to-br from-green-800/60 to-emerald-800/60 p-6 rounded-2xl border border-green-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h4",{className:"font-bold text-green-200 mb-4 text-lg flex items-center gap-3",children:[l.jsx("span",{className:"text-2xl",children:"🦪➡️💵"}),"سحب دولارات نقدية"]}),l.jsx("div",{className:"bg-green-900/30 p-4 rounded-xl mb-4",children:l.jsxs("p",{className:"text-green-100 text-sm leading-relaxed",children:[l.jsx("strong",{className:"text-green-200",children:"💰 معدل التحويل:"})," 10 🦪 = $1 USD",l.jsx("br",{}),l.jsx("strong",{className:"text-green-200",children:"🎯 الحد الأدنى للسحب:"})," $25 USD (250 🦪)"]})}),l.jsxs("div",{className:"flex items-center gap-3 mb-4",children:[l.jsx("input",{type:"number",placeholder:"250",min:"250",className:"flex-1 px-4 py-3 bg-green-900/30 border border-green-400/30 rounded-xl text-white placeholder-green-300 focus:outline-none focus:ring-2 focus:ring-green-500"}),l.jsx("span",{className:"text-green-200 font-medium",children:"🦪 ➡️ $"})]}),l.jsx("button",{className:"w-full bg-gradient-to-r from-green-500 to-emerald-600 text-white py-3 rounded-xl text-sm font-bold hover:from-green-600 hover:to-emerald-700 transition-all duration-300 shadow-md",children:"📱 طلب سحب عبر واتساب"})]}),l.jsxs("div",{className:"bg-gradient-to-br from-amber-800/60 to-yellow-800/60 p-6 rounded-2xl border border-amber-400/30 shadow-xl backdrop-blur-sm",children:[l.jsxs("h4",{className:"font-bold text-amber-200 mb-4 text-lg flex items-center gap-3",children:[l.jsx("span",{className:"text-2xl",children:"📝"}),"معلومات مهمة"]}),l.jsxs("div",{className:"space-y-2 text-amber-100 text-sm leading-relaxed",children:[l.jsxs("p",{children:["• ",l.jsx("strong",{children:"اللآلئ 🦪"})," - مخصصة حصرياً للتحويل إلى دولارات نقدية"]}),l.jsxs("p",{children:["• ",l.jsx("strong",{children:"العملات الذهبية 🪙"})," - للشراء والتبادل داخل المنصة"]}),l.jsxs("p",{children:["• ",l.jsx("strong",{children:"العناصر الخاصة"})," - تُكسب من الألعاب والتحديات"]})]})]})]})]})]}),f&&l.jsx("div",{className:"fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4",children:l.jsxs("div",{className:"bg-gradient-to-br from-slate-800 to-blue-800 rounded-2xl p-6 w-full max-w-md shadow-2xl border border-blue-400/30",children:[l.jsxs("h3",{className:"text-xl font-bold text-white mb-4 text-center",children:["إرسال رسالة إلى ",e==null?void 0:e.username]}),l.jsx("textarea",{value:p,onChange:L=>w(L.target.value),placeholder:"اكتب رسالتك هنا...",className:"w-full p-3 rounded-xl bg-slate-800/40 border border-blue-400/30 text-white placeholder-blue-300 resize-none h-32 focus:outline-none focus:ring-2 focus:ring-blue-500",maxLength:500}),l.jsxs("div",{className:"text-right text-xs text-blue-300 mt-1 mb-4",children:[p.length,"/500"]}),l.jsxs("div",{className:"flex gap-3",children:[l.jsx("button",{onClick:()=>{u(!1),w("")},className:"flex-1 bg-slate-600 hover:bg-slate-700 text-white py-2 px-4 rounded-xl transition-colors",children:"إلغاء"}),l.jsxs("button",{onClick:H,disabled:!p.trim(),className:"flex-1 bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 disabled:from-gray-500 disabled:to-gray-600 text-white py-2 px-4 rounded-xl transition-all flex items-center justify-center gap-2",children:[l.jsx(pi,{className:"w-4 h-4"}),"إرسال"]})]})]})})]})},Zm=({userData:e,onLogout:t})=>{var x,m;const[n,r]=v.useState("games"),[s,i]=v.useState(!1),[o,a]=v.useState(e),c=g=>{a({...o,...g})},d=[{id:"games",label:"الألعاب",icon:jl,color:"text-purple-400"},{id:"voice",label:"المحادثة الصوتية",icon:$l,color:"text-blue-400"},{id:"leaderboard",label:"لوحة المتصدرين",icon:bl,color:"text-yellow-400"},{id:"profile",label:"الملف الشخصي",icon:Lt,color:"text-green-400"},...e!=null&&e.isAdmin?[{id:"admin",label:"لوحة المشرف",icon:ed,color:"text-red-400"}]:[]];v.useEffect(()=>{a(e)},[e]);const h=()=>{switch(n){case"games":return l.jsx(xs,{setActiveTab:r});case"voice":return l.jsx(Gm,{userData:e,onLogout:t});case"leaderboard":return l.jsx(Jm,{});case"profile":return l.jsx(qm,{userData:o,onUpdateProfile:c});case"admin":return e!=null&&e.isAdmin?l.jsx(La,{userData:e,onLogout:t}):l.jsx(xs,{});default:return l.jsx(xs,{})}};return n==="admin"&&(e!=null&&e.isAdmin)?l.jsx(La,{userData:e,onLogout:t}):l.jsxs("div",{className:"min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 text-white",children:[l.jsx("div",{className:"absolute inset-0 overflow-hidden",children:l.jsxs("div",{className:"absolute -inset-10 opacity-20",children:[l.jsx("div",{className:"absolute top-1/4 left-1/4 w-96 h-96 bg-purple-500 rounded-full mix-blend-multiply filter blur-xl animate-pulse"}),l.jsx("div",{className:"absolute top-3/4 right-1/4 w-96 h-96 bg-blue-500 rounded-full mix-blend-multiply filter blur-xl animate-pulse delay-1000"}),l.jsx("div",{className:"absolute bottom-1/4 left-1/2 w-96 h-96 bg-pink-500 rounded-full mix-blend-multiply filter blur-xl animate-pulse delay-2000"})]})}),l.jsxs("div",{className:"relative z-10 flex h-screen",children:[l.jsx("aside",{className:`fixed lg:static inset-y-0 right-0 z-50 w-80 bg-slate-900 border-l border-slate-700 transform transition-transform duration-300 ${s?"translate-x-0":"translate-x-full lg:translate-x-0"}`,children:l.jsxs("div",{className:"flex flex-col h-full",children:[l.jsx("div",{className:"p-6 border-b border-slate-700",children:l.jsxs("div",{className:"flex items-center justify-between",children:[l.jsxs("div",{className:"flex items-center gap-3",children:[l.jsxs("div",{className:"w-12 h-12 bg-gradient-to-r from-purple-500 to-pink-500 rounded-2xl flex items-center justify-center relative",children:[l.jsx(ft,{className:"w-6 h-6 text-white"}),l.jsx(Mn,{className:"w-3 h-3 text-white absolute -top-1 -right-1"})]}),l.jsxs("div",{children:[l.jsx("h1",{className:"text-xl font-bold bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent",children:"INFINITY BOX"}),l.jsx("p",{className:"text-xs text-gray-400",children:"منصة الألعاب والمحادثة"})]})]}),l.jsx("button",{onClick:()=>i(!1),className:"lg:hidden p-2 rounded-lg hover:bg-slate-700 transition-colors",children:l.jsx(fo,{className:"w-5 h-5"})})]})}),l.jsxs("div",{className:"p-6 border-b border-slate-700",children:[l.jsxs("div",{className:"flex items-center gap-4 mb-4",children:[l.jsx("div",{className:"w-16 h-16 bg-gradient-to-r from-blue-500 to-cyan-500 rounded-full flex items-center justify-center text-xl font-bold",children:((m=(x=e==null?void 0:e.username)==null?void 0:x.charAt(0))==null?void 0:m.toUpperCase())||"U"}),l.jsxs("div",{className:"flex-1",children:[l.jsx("h3",{className:"font-semibold text-white",children:(e==null?void 0:e.username)||"مستخدم"}),(e==null?void 0:e.playerId)&&l.jsxs("div",{className:"text-xs text-gray-400 mt-1",children:["رقمك المميز: ",e.playerId]}),l.jsxs("div",{className:"flex items-center gap-2 text-sm text-gray-400",children:[l.jsx(kn,{className:"w-4 h-4 text-yellow-400"}),l.jsx("span",{children:"المستوى 5"})]})]}),(e==null?void 0:e.isAdmin)&&l.jsx(Ht,{className:"w-5 h-5 text-yellow-400"})]}),l.jsxs("div",{className:"grid grid-cols-2 gap-4",children:[l.jsxs("div",{className:"bg-slate-800 rounded-xl p-3 text-center border border-slate-700",children:[l.jsxs("div",{className:"flex items-center justify-center gap-1 mb-1",children:[l.jsx(uo,{className:"w-4 h-4 text-yellow-400"}),l.jsx("span",{className:"text-yellow-400 font-semibold",children:"1,250"})]}),l.jsx("p",{className:"text-xs text-gray-400",children:"العملات الذهبية"})]}),l.jsxs("div",{className:"bg-slate-800 rounded-xl p-3 text-center border border-slate-700",children:[l.jsxs("div",{className:"flex items-center justify-center gap-1 mb-1",children:[l.jsx(bl,{className:"w-4 h-4 text-purple-400"}),l.jsx("span",{className:"text-purple-400 font-semibold",children:"847"})]}),l.jsx("p",{className:"text-xs text-gray-400",children:"النقاط"})]})]})]}),l.jsx("nav",{className:"flex-1 p-6",children:l.jsx("div",{className:"space-y-2",children:d.map(g=>l.jsxs("button",{onClick:()=>{r(g.id),i(!1)},className:`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all duration-200 text-right ${n===g.id?"bg-slate-700 border border-slate-600 shadow-lg":"hover:bg-slate-800"}`,children:[l.jsx(g.icon,{className:`w-5 h-5 ${g.color}`}),l.jsx("span",{className:"font-medium",children:g.label}),g.id==="admin"&&(e==null?void 0:e.isAdmin)&&l.jsx(Ht,{className:"w-4 h-4 text-yellow-400 mr-auto"})]},g.id))})}),l.jsxs("div",{className:"p-6 border-t border-white/10 space-y-2",children:[l.jsxs("button",{className:"w-full flex items-center gap-3 px-4 py-3 rounded-xl hover:bg-white/5 transition-colors text-right",onClick:()=>{e!=null&&e.isAdmin?(r("admin"),i(!1)):alert("هذه الصفحة مخصصة للمشرفين فقط")},children:[l.jsx(Nl,{className:"w-5 h-5 text-gray-400"}),l.jsx("span",{children:"الإعدادات"})]}),l.jsxs("button",{onClick:t,className:"w-full flex items-center gap-3 px-4 py-3 rounded-xl hover:bg-red-500/20 text-red-300 transition-colors text-right",children:[l.jsx(Xu,{className:"w-5 h-5"}),l.jsx("span",{children:"تسجيل الخروج"})]})]})]})}),l.jsxs("main",{className:"flex-1 flex flex-col overflow-hidden",children:[l.jsx("header",{className:"lg:hidden bg-slate-900 border-b border-slate-700 p-4",children:l.jsxs("div",{className:"flex items-center justify-between",children:[l.jsxs("div",{className:"flex items-center gap-3",children:[l.jsx("div",{className:"w-8 h-8 bg-gradient-to-r from-purple-500 to-pink-500 rounded-lg flex items-center justify-center",children:l.jsx(ft,{className:"w-4 h-4 text-white"})}),l.jsx("h1",{className:"text-lg font-bold",children:"INFINITY BOX"})]}),l.jsx("button",{onClick:()=>i(!0),className:"p-2 rounded-lg hover:bg-slate-700 transition-colors",children:l.jsx(qf,{className:"w-6 h-6"})})]})}),l.jsx("div",{className:"flex-1 overflow-auto p-6 lg:p-8",children:h()})]})]}),s&&l.jsx("div",{className:"fixed inset-0 bg-black/50 z-40 lg:hidden",onClick:()=>i(!1)})]})},qm=({userData:e,onUpdateProfile:t})=>l.jsx(Km,{userData:e,isOwner:!0,onUpdateProfile:t}),Jm=()=>l.jsxs("div",{className:"space-y-8",children:[l.jsxs("div",{className:"flex items-center gap-3 mb-8",children:[l.jsx("div",{className:"w-8 h-8 bg-gradient-to-r from-yellow-500 to-orange-500 rounded-lg flex items-center justify-center",children:l.jsx(bl,{className:"w-5 h-5 text-white"})}),l.jsx("h2",{className:"text-2xl font-bold text-white",children:"لوحة المتصدرين"})]}),l.jsx("div",{className:"bg-white/5 backdrop-blur-md rounded-3xl p-8 border border-white/10",children:l.jsxs("div",{className:"text-center py-12",children:[l.jsx(bl,{className:"w-16 h-16 text-yellow-400 mx-auto mb-4"}),l.jsx("h3",{className:"text-xl font-semibold text-white mb-2",children:"لوحة المتصدرين"}),l.jsx("p",{className:"text-gray-300",children:"قريباً - سيتم عرض أفضل اللاعبين هنا"})]})})]}),ep=({onLogin:e})=>{const[t,n]=v.useState(""),[r,s]=v.useState(""),[i,o]=v.useState(""),[a,c]=v.useState(!1),[d,h]=v.useState(""),x=async m=>{m.preventDefault(),h("");try{if(a){const g=await ae.register({username:t,password:r,email:i});e(g.user)}else{const g=await ae.login({username:t,password:r});e(g.user)}}catch(g){h(g.message||"حدث خطأ في المصادقة")}};return l.jsxs("div",{className:"mobile-login",children:[l.jsxs("div",{className:"login-header",children:[l.jsx("div",{className:"app-logo",children:"🎮"}),l.jsx("h1",{className:"app-title",children:"INFINITY BOX"}),l.jsx("p",{className:"app-subtitle",children:"منصة الألعاب الجماعية والمحادثة الصوتية"})]}),l.jsxs("form",{className:"login-form",onSubmit:x,children:[l.jsx("input",{type:"text",placeholder:"اسم المستخدم",value:t,onChange:m=>n(m.target.value),required:!0}),a&&l.jsx("input",{type:"email",placeholder:"البريد الإلكتروني",value:i,onChange:m=>o(m.target.value),required:!0}),l.jsx("input",{type:"password",placeholder:"كلمة المرور",value:r,onChange:m=>s(m.target.value),required:!0}),d&&l.jsx("div",{className:"error-message",children:d}),l.jsx("button",{type:"submit",className:"login-button",children:a?"إنشاء حساب":"تسجيل الدخول"}),l.jsx("button",{type:"button",className:"switch-mode",onClick:()=>c(!a),children:a?"لديك حساب؟ سجل دخولك":"ليس لديك حساب؟ أنشئ واحداً"})]})]})},tp=()=>{const[e,t]=v.useState(0),[n,r]=v.useState(3),[s,i]=v.useState(0),[o,a]=v.useState(50),[c,d]=v.useState([]),[h,x]=v.useState(!1),[m,g]=v.useState(0);v.useEffect(()=>{if(h){const I=setInterval(()=>{const f={id:Date.now(),x:Math.random()*90+5,y:-10,type:Math.random()>.8?"bomb":"fruit",emoji:Math.random()>.8?"💣":["🍎","🍊","🍌","🍇"][Math.floor(Math.random()*4)]};d(u=>[...u,f])},1e3);return()=>clearInterval(I)}},[h]),v.useEffect(()=>{if(h){const I=setInterval(()=>{d(f=>f.map(u=>({...u,y:u.y+5})).filter(u=>u.y>=85&&u.y<=95&&Math.abs(u.x-o)<15?(u.type==="bomb"?r(p=>p-1):(t(p=>p+10),i(p=>p+5)),!1):u.y<100))},50);return()=>clearInterval(I)}},[h,o]);const j=I=>{g(I.touches[0].clientX)},N=I=>{const f=I.touches[0].clientX,p=(f-m)/window.innerWidth*100;a(w=>{const C=w+p;return Math.max(10,Math.min(90,C))}),g(f)};return n<=0?l.jsxs("div",{className:"game-over",children:[l.jsx("h2",{children:"انتهت اللعبة!"}),l.jsxs("p",{children:["النقاط: ",e]}),l.jsxs("p",{children:["الذهب المكتسب: ",s," 🪙"]}),l.jsx("button",{onClick:()=>window.location.reload(),children:"العب مرة أخرى"})]}):l.jsxs("div",{className:"fruit-game-mobile",children:[l.jsxs("div",{className:"game-header",children:[l.jsxs("div",{children:["النقاط: ",e]}),l.jsxs("div",{children:["الحياة: ","❤️".repeat(n)]}),l.jsxs("div",{children:["الذهب: ",s," 🪙"]})]}),h?l.jsxs("div",{className:"game-area",onTouchStart:j,onTouchMove:N,children:[c.map(I=>l.jsx("div",{className:"falling-fruit",style:{left:`${I.x}%`,top:`${I.y}%`},children:I.emoji},I.id)),l.jsx("div",{className:"basket",style:{left:`${o}%`},children:"🧺"})]}):l.jsxs("div",{className:"game-start",children:[l.jsx("h2",{children:"لعبة جمع الفواكه"}),l.jsx("p",{children:"استخدم إصبعك لتحريك السلة وجمع الفواكه!"}),l.jsx("button",{onClick:()=>x(!0),children:"ابدأ اللعبة"})]})]})},np=({user:e,onNavigate:t})=>{const[n,r]=v.useState({onlinePlayers:0,activeRooms:0});v.useEffect(()=>{ae.request("/stats").then(i=>{r(i)}).catch(console.error)},[]);const s=[{id:1,name:"لعبة جمع الفواكه",icon:"🍎",description:"اجمع الفواكه واربح النقاط الذهبية",action:()=>t("fruit-game")},{id:2,name:"الغرف الجماعية",icon:"🎮",description:"العب مع أصدقائك في غرف خاصة",action:()=>t("multiplayer")},{id:3,name:"المحادثة الصوتية",icon:"🎤",description:"تحدث مع الأصدقاء صوتياً",action:()=>t("voice")},{id:4,name:"الملف الشخصي",icon:"👤",description:"عرض وتعديل ملفك الشخصي",action:()=>t("profile")}];return l.jsxs("div",{className:"mobile-home",children:[l.jsxs("div",{className:"home-header",children:[l.jsxs("h1",{children:["مرحباً ",e.username,"!"]}),l.jsxs("div",{className:"stats",children:[l.jsxs("div",{className:"stat",children:[l.jsx("span",{className:"stat-value",children:n.onlinePlayers}),l.jsx("span",{className:"stat-label",children:"لاعب متصل"})]}),l.jsxs("div",{className:"stat",children:[l.jsx("span",{className:"stat-value",children:n.activeRooms}),l.jsx("span",{className:"stat-label",children:"غرفة نشطة"})]})]})]}),l.jsx("div",{className:"games-grid",children:s.map(i=>l.jsxs("div",{className:"game-card",onClick:i.action,children:[l.jsx("div",{className:"game-icon",children:i.icon}),l.jsx("div",{className:"game-name",children:i.name}),l.jsx("div",{className:"game-desc",children:i.description})]},i.id))})]})},rp=({onBack:e})=>{const[t,n]=v.useState([]),[r,s]=v.useState(!1),[i,o]=v.useState("");v.useEffect(()=>(a(),D.on("room_update",a),()=>{D.off("room_update",a)}),[]);const a=async()=>{try{const h=await ae.request("/game/rooms");n(h.rooms||[])}catch(h){console.error("Error loading rooms:",h)}},c=async()=>{i&&(D.send({type:"room_create",data:{gameType:"fruit_catching",settings:{maxPlayers:4,isPrivate:!1,gameMode:"competitive",difficulty:"medium"}},roomId:"",playerId:localStorage.getItem("userId")||"",timestamp:Date.now()}),s(!1),o(""))},d=h=>{D.send({type:"room_join",data:{roomId:h},roomId:h,playerId:localStorage.getItem("userId")||"",timestamp:Date.now()})};return l.jsxs("div",{className:"mobile-multiplayer",children:[l.jsxs("div",{className:"screen-header",children:[l.jsx("button",{onClick:e,className:"back-button",children:"⬅️"}),l.jsx("h2",{children:"غرف الألعاب الجماعية"}),l.jsx("button",{onClick:()=>s(!0),className:"create-button",children:"➕"})]}),l.jsx("div",{className:"rooms-list",children:t.map(h=>{var x,m,g;return l.jsxs("div",{className:"room-card",children:[l.jsxs("div",{className:"room-info",children:[l.jsx("h3",{children:h.name}),l.jsxs("p",{children:[((x=h.players)==null?void 0:x.length)||0,"/",((m=h.settings)==null?void 0:m.maxPlayers)||4," لاعبين"]}),l.jsx("p",{children:(g=h.settings)!=null&&g.isPrivate?"🔒 خاصة":"🌐 عامة"})]}),l.jsx("button",{onClick:()=>d(h.id),className:"join-button",children:"انضمام"})]},h.id)})}),r&&l.jsx("div",{className:"modal",children:l.jsxs("div",{className:"modal-content",children:[l.jsx("h3",{children:"إنشاء غرفة جديدة"}),l.jsx("input",{type:"text",placeholder:"اسم الغرفة",value:i,onChange:h=>o(h.target.value)}),l.jsxs("div",{className:"modal-buttons",children:[l.jsx("button",{onClick:()=>s(!1),children:"إلغاء"}),l.jsx("button",{onClick:c,children:"إنشاء"})]})]})})]})},lp=({onBack:e})=>{var x;const[t,n]=v.useState([]),[r,s]=v.useState(null),[i,o]=v.useState(!1);v.useEffect(()=>{a()},[]);const a=async()=>{try{const m=await ae.request("/voice/rooms");n(m.rooms||[])}catch(m){console.error("Error loading voice rooms:",m)}},c=m=>{D.send({type:"voice_room_join",roomId:m,userId:localStorage.getItem("userId")||"",data:{roomId:m},timestamp:Date.now()});const g=t.find(j=>j.id===m);s(g)},d=()=>{r&&(D.send({type:"voice_room_leave",roomId:r.id,userId:localStorage.getItem("userId")||"",data:{},timestamp:Date.now()}),s(null))},h=()=>{o(!i),D.send({type:i?"voice_unmute":"voice_mute",roomId:r.id,userId:localStorage.getItem("userId")||"",data:{},timestamp:Date.now()})};return r?l.jsxs("div",{className:"voice-room-active",children:[l.jsxs("div",{className:"screen-header",children:[l.jsx("button",{onClick:d,className:"back-button",children:"⬅️"}),l.jsx("h2",{children:r.name})]}),l.jsx("div",{className:"voice-users",children:(x=r.users)==null?void 0:x.map(m=>l.jsxs("div",{className:"voice-user",children:[l.jsx("div",{className:"user-avatar",children:"👤"}),l.jsx("div",{className:"user-name",children:m.username}),l.jsx("div",{className:`speaking-indicator ${m.isSpeaking?"speaking":""}`,children:m.isMuted?"🔇":"🔊"})]},m.id))}),l.jsx("div",{className:"voice-controls",children:l.jsx("button",{onClick:h,className:`mute-button ${i?"muted":""}`,children:i?"🔇":"🎤"})})]}):l.jsxs("div",{className:"mobile-voice",children:[l.jsxs("div",{className:"screen-header",children:[l.jsx("button",{onClick:e,className:"back-button",children:"⬅️"}),l.jsx("h2",{children:"الغرف الصوتية"})]}),l.jsx("div",{className:"voice-rooms-list",children:t.map(m=>{var g;return l.jsxs("div",{className:"voice-room-card",children:[l.jsxs("div",{className:"room-info",children:[l.jsx("h3",{children:m.name}),l.jsxs("p",{children:[m.userCount||0,"/",((g=m.settings)==null?void 0:g.maxUsers)||20," مستخدم"]})]}),l.jsx("button",{onClick:()=>c(m.id),className:"join-button",children:"انضمام 🎤"})]},m.id)})})]})},sp=({user:e,onBack:t})=>{var n;return l.jsxs("div",{className:"mobile-profile",children:[l.jsxs("div",{className:"screen-header",children:[l.jsx("button",{onClick:t,className:"back-button",children:"⬅️"}),l.jsx("h2",{children:"الملف الشخصي"})]}),l.jsxs("div",{className:"profile-content",children:[l.jsxs("div",{className:"profile-header",children:[l.jsx("div",{className:"profile-avatar",children:"👤"}),l.jsx("h2",{children:e.username}),l.jsxs("p",{className:"player-id",children:["رقم اللاعب: ",e.playerId]}),e.isAdmin&&l.jsx("span",{className:"admin-badge",children:"مدير"})]}),l.jsxs("div",{className:"profile-stats",children:[l.jsxs("div",{className:"stat-box",children:[l.jsx("span",{className:"stat-icon",children:"🪙"}),l.jsx("span",{className:"stat-value",children:((n=e.goldCoins)==null?void 0:n.toLocaleString())||0}),l.jsx("span",{className:"stat-label",children:"ذهب"})]}),l.jsxs("div",{className:"stat-box",children:[l.jsx("span",{className:"stat-icon",children:"🦪"}),l.jsx("span",{className:"stat-value",children:e.pearls||0}),l.jsx("span",{className:"stat-label",children:"لؤلؤة"})]}),l.jsxs("div",{className:"stat-box",children:[l.jsx("span",{className:"stat-icon",children:"⭐"}),l.jsx("span",{className:"stat-value",children:e.level||1}),l.jsx("span",{className:"stat-label",children:"المستوى"})]})]}),l.jsxs("div",{className:"profile-actions",children:[l.jsxs("button",{className:"profile-action",children:[l.jsx("span",{children:"🛍️"})," المتجر"]}),l.jsxs("button",{className:"profile-action",children:[l.jsx("span",{children:"👥"})," الأصدقاء"]}),l.jsxs("button",{className:"profile-action",children:[l.jsx("span",{children:"🎁"})," الهدايا"]}),l.jsxs("button",{className:"profile-action",children:[l.jsx("span",{children:"⚙️"})," الإعدادات"]})]}),l.jsx("button",{className:"logout-button",onClick:()=>{ae.logout(),window.location.reload()},children:"تسجيل الخروج"})]})]})};function ip(){const[e,t]=v.useState(null),[n,r]=v.useState("home"),[s,i]=v.useState(!0);v.useEffect(()=>{(async()=>{if(localStorage.getItem("token"))try{const h=await ae.request("/auth/me");t(h.user)}catch(h){console.error("Auth check failed:",h)}i(!1)})()},[]);const o=c=>{t(c),r("home")},a=c=>{r(c)};return s?l.jsxs("div",{className:"mobile-loading",children:[l.jsx("div",{className:"loading-icon",children:"🎮"}),l.jsx("h1",{children:"INFINITY BOX"})]}):e?l.jsxs("div",{className:"mobile-app",children:[n==="home"&&l.jsx(np,{user:e,onNavigate:a}),n==="fruit-game"&&l.jsxs("div",{children:[l.jsx("button",{onClick:()=>a("home"),className:"back-button",children:"⬅️ رجوع"}),l.jsx(tp,{})]}),n==="multiplayer"&&l.jsx(rp,{onBack:()=>a("home")}),n==="voice"&&l.jsx(lp,{onBack:()=>a("home")}),n==="profile"&&l.jsx(sp,{user:e,onBack:()=>a("home")})]}):l.jsx(ep,{onLogin:o})}function op(){const[e,t]=v.useState(!1),[n,r]=v.useState(null),[s,i]=v.useState(!0),[o,a]=v.useState(!1);v.useEffect(()=>{localStorage.removeItem("activeTab");const h=()=>{const m=navigator.userAgent,g=/Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(m)||window.innerWidth<=768;a(g)};h(),window.addEventListener("resize",h);const x=localStorage.getItem("token");x?ae.getCurrentUser().then(m=>{const g=localStorage.getItem("isAdmin")==="true";r(m&&typeof m=="object"?{...m,token:x,isAdmin:g}:{token:x,isAdmin:g}),t(!0),D.connect().catch(j=>{console.error("Failed to connect to WebSocket:",j)})}).catch(m=>{m.message.includes("MULTIPLE_LOGIN")&&alert("تم تسجيل الدخول من جهاز آخر. سيتم تسجيل خروجك من هذا الجهاز."),t(!1),r(null),localStorage.removeItem("token"),localStorage.removeItem("username"),localStorage.removeItem("isAdmin")}).finally(()=>i(!1)):i(!1)},[]);const c=async h=>{r(h),t(!0);try{await D.connect()}catch(x){console.error("Failed to connect to WebSocket:",x)}},d=()=>{localStorage.removeItem("token"),localStorage.removeItem("username"),localStorage.removeItem("isAdmin"),D.disconnect(),t(!1),r(null)};return s?l.jsx("div",{className:"min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center",children:l.jsxs("div",{className:"text-center",children:[l.jsx("div",{className:"w-16 h-16 border-4 border-purple-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"}),l.jsx("p",{className:"text-white text-lg",children:"جاري التحميل..."})]})}):o?l.jsx(ip,{}):e?l.jsx(Zm,{userData:n,onLogout:d}):l.jsx(mm,{onAuthSuccess:c})}Du(document.getElementById("root")).render(l.jsx(v.StrictMode,{children:l.jsx(op,{})}));
@@ -0,0 +1,27 @@
+// يرسل حدث webhook موقعاً للمزود التجريبي لإكمال طلب شراء أثناء التطوير والاختبار
+// npm run payments:mock-webhook -- <providerReference> [paid|failed]
+
+import { MockPaymentProvider, createMockProviderFromEnv } from "../server/payments";
+
+const [providerReference, status = "paid"] = process.argv.slice(2);
+if (!providerReference || (status !== "paid" && status !== "failed")) {
+  console.error("Usage: npm run payments:mock-webhook -- <providerReference> [paid|failed]");
+  process.exit(1);
+}
+
+const provider = createMockProviderFromEnv();
+if (!provider) {
+  console.error("Set ENABLE_MOCK_PAYMENTS=true and MOCK_PAYMENT_WEBHOOK_SECRET to match the server");
+  process.exit(1);
+}
+
+const baseUrl = (process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "");
+const { body, signature } = provider.buildWebhook({ providerReference, status });
+
+const response = await fetch(`${baseUrl}/api/payments/webhooks/${provider.name}`, {
+  method: "POST",
+  headers: { "Content-Type": "application/json", [MockPaymentProvider.SIGNATURE_HEADER]: signature },
+  body
+});
+console.log(response.status, await response.text());
+process.exit(response.ok ? 0 : 1);
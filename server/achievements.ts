@@ -0,0 +1,202 @@
+import { storage, type AchievementCounters } from "./storage";
+import { sendToUser } from "./socketAuth";
+
+// الأحداث التي تعيد تقييم الإنجازات المرتبطة بها
+export type AchievementEvent = "game_score" | "match_finished" | "gift_sent" | "friend_added";
+
+export interface AchievementReward {
+  gold: number;
+  pearls: number;
+  item?: { itemType: string; itemName: string }; // عنصر يضاف لمخزون اللاعب
+}
+
+export interface AchievementDefinition {
+  key: string; // ثابت - يخزن في achievements.achievement_key فلا يتغير بعد النشر
+  name: string;
+  description: string;
+  events: AchievementEvent[];
+  target: number;
+  progress(counters: AchievementCounters): number;
+  reward: AchievementReward;
+}
+
+export interface AchievementProgress {
+  key: string;
+  name: string;
+  description: string;
+  progress: number;
+  target: number;
+  unlocked: boolean;
+  unlockedAt: Date | null;
+  reward: AchievementReward;
+}
+
+const GAME_EVENTS: AchievementEvent[] = ["game_score", "match_finished"];
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    key: "first_game",
+    name: "البداية",
+    description: "العب أول لعبة",
+    events: GAME_EVENTS,
+    target: 1,
+    progress: c => c.gamesPlayed,
+    reward: { gold: 50, pearls: 0 }
+  },
+  {
+    key: "games_100",
+    name: "لاعب مخضرم",
+    description: "العب 100 لعبة",
+    events: GAME_EVENTS,
+    target: 100,
+    progress: c => c.gamesPlayed,
+    reward: { gold: 1000, pearls: 1 }
+  },
+  {
+    key: "first_win",
+    name: "أول فوز",
+    description: "افز بأول مباراة جماعية",
+    events: ["match_finished"],
+    target: 1,
+    progress: c => c.matchesWon,
+    reward: { gold: 200, pearls: 0 }
+  },
+  {
+    key: "wins_10",
+    name: "بطل الغرف",
+    description: "افز بـ 10 مباريات جماعية",
+    events: ["match_finished"],
+    target: 10,
+    progress: c => c.matchesWon,
+    reward: { gold: 1000, pearls: 1 }
+  },
+  {
+    key: "fruit_catching_10k",
+    name: "جامع الفواكه",
+    description: "احصل على 10,000 نقطة في قطف الفواكه",
+    events: GAME_EVENTS,
+    target: 10000,
+    progress: c => c.bestScores["fruit_catching"] ?? 0,
+    reward: { gold: 500, pearls: 0 }
+  },
+  {
+    key: "racing_10k",
+    name: "سيد الحلبة",
+    description: "احصل على 10,000 نقطة في السباق",
+    events: GAME_EVENTS,
+    target: 10000,
+    progress: c => c.bestScores["racing"] ?? 0,
+    reward: { gold: 500, pearls: 0 }
+  },
+  {
+    key: "gifts_sent_50",
+    name: "الكريم",
+    description: "أرسل 50 هدية",
+    events: ["gift_sent"],
+    target: 50,
+    progress: c => c.giftsSent,
+    reward: { gold: 0, pearls: 1, item: { itemType: "stars", itemName: "Generous Star" } }
+  },
+  {
+    key: "first_friend",
+    name: "صديق جديد",
+    description: "أضف أول صديق",
+    events: ["friend_added"],
+    target: 1,
+    progress: c => c.friends,
+    reward: { gold: 50, pearls: 0 }
+  },
+  {
+    key: "friends_10",
+    name: "اجتماعي",
+    description: "كوّن 10 صداقات",
+    events: ["friend_added"],
+    target: 10,
+    progress: c => c.friends,
+    reward: { gold: 300, pearls: 0 }
+  }
+];
+
+export async function getAchievementProgress(userId: number): Promise<{
+  achievements: AchievementProgress[];
+  unlocked: number;
+  total: number;
+  percent: number;
+}> {
+  const [counters, unlockedRows] = await Promise.all([
+    storage.getAchievementCounters(userId),
+    storage.getUserAchievements(userId)
+  ]);
+  const unlockedAt = new Map(unlockedRows.map(a => [a.achievementKey, a.unlockedAt]));
+
+  const list = ACHIEVEMENTS.map(definition => {
+    const unlocked = unlockedAt.has(definition.key);
+    return {
+      key: definition.key,
+      name: definition.name,
+      description: definition.description,
+      // المفتوح يبقى مكتملاً حتى لو نقص العداد لاحقاً (مثل حذف صديق)
+      progress: unlocked ? definition.target : Math.min(definition.progress(counters), definition.target),
+      target: definition.target,
+      unlocked,
+      unlockedAt: unlockedAt.get(definition.key) ?? null,
+      reward: definition.reward
+    };
+  });
+
+  const unlocked = list.filter(a => a.unlocked).length;
+  return {
+    achievements: list,
+    unlocked,
+    total: list.length,
+    percent: Math.round((unlocked / list.length) * 1000) / 10
+  };
+}
+
+// يفتح الإنجازات التي اكتمل شرطها بعد الحدث ويرسلها للاعب عبر WebSocket.
+// لا يرمي أخطاء - فشل الإنجازات لا يجب أن يفشل الطلب الأصلي
+export async function checkAchievements(userId: number, event: AchievementEvent): Promise<AchievementProgress[]> {
+  const candidates = ACHIEVEMENTS.filter(a => a.events.includes(event));
+  if (candidates.length === 0) return [];
+
+  try {
+    const [counters, unlockedRows] = await Promise.all([
+      storage.getAchievementCounters(userId),
+      storage.getUserAchievements(userId)
+    ]);
+    const alreadyUnlocked = new Set(unlockedRows.map(a => a.achievementKey));
+
+    const unlocked: AchievementProgress[] = [];
+    for (const definition of candidates) {
+      if (alreadyUnlocked.has(definition.key) || definition.progress(counters) < definition.target) continue;
+
+      // الفهرس الفريد يضمن منح المكافأة مرة واحدة حتى مع الأحداث المتزامنة
+      const result = await storage.unlockAchievement(userId, {
+        key: definition.key,
+        name: definition.name,
+        description: definition.description,
+        gold: definition.reward.gold,
+        pearls: definition.reward.pearls,
+        item: definition.reward.item
+      });
+      if (!result) continue;
+
+      const view: AchievementProgress = {
+        key: definition.key,
+        name: definition.name,
+        description: definition.description,
+        progress: definition.target,
+        target: definition.target,
+        unlocked: true,
+        unlockedAt: result.achievement.unlockedAt,
+        reward: definition.reward
+      };
+      unlocked.push(view);
+      sendToUser(userId, { type: "achievement_unlocked", achievement: view });
+    }
+    return unlocked;
+  } catch (error) {
+    console.error(`Error checking achievements for user ${userId}:`, error);
+    return [];
+  }
+}
@@ -0,0 +1,259 @@
+import type { Request, Response, NextFunction } from "express";
+import jwt from "jsonwebtoken";
+import { randomBytes, createHash } from "crypto";
+import { storage } from "./storage";
+import type { User, Session, AuthToken, AuthTokenPurpose } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+      authSession?: Session;
+    }
+  }
+}
+
+if (!process.env.JWT_SECRET && process.env.NODE_ENV === "production") {
+  throw new Error("JWT_SECRET must be set in production");
+}
+
+const JWT_SECRET = process.env.JWT_SECRET || "infinity-box-dev-secret";
+const MAX_SESSIONS_PER_USER = process.env.MAX_SESSIONS_PER_USER ? parseInt(process.env.MAX_SESSIONS_PER_USER) : 5;
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+const ACCESS_TOKEN_TTL_SECONDS = process.env.ACCESS_TOKEN_TTL_SECONDS ? parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS) : 15 * 60;
+const REFRESH_TOKEN_TTL_DAYS = process.env.REFRESH_TOKEN_TTL_DAYS ? parseInt(process.env.REFRESH_TOKEN_TTL_DAYS) : 30;
+
+const ONE_TIME_TOKEN_TTL_MS: Record<AuthTokenPurpose, number> = {
+  password_reset: 60 * 60 * 1000, // ساعة
+  email_verification: 24 * 60 * 60 * 1000 // يوم
+};
+
+export interface TokenPayload {
+  sub: string;
+  username: string;
+  sid: string; // رمز الجلسة المخزن في جدول sessions
+}
+
+export interface AuthContext {
+  user: User;
+  session: Session;
+}
+
+export interface IssuedTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number; // بالثواني
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public status = 401, public code?: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+export function generateSessionToken(): string {
+  return randomBytes(24).toString("hex");
+}
+
+export function signToken(user: Pick<User, "id" | "username">, sessionToken: string): string {
+  return jwt.sign(
+    { username: user.username, sid: sessionToken },
+    JWT_SECRET,
+    { subject: String(user.id), algorithm: "HS256", expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+  );
+}
+
+// الرموز العشوائية (التجديد، إعادة التعيين، التأكيد) لا تُخزن إلا بصيغة مجزأة
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function refreshTokenExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+async function issueTokens(user: Pick<User, "id" | "username">, session: Session): Promise<IssuedTokens> {
+  const refreshToken = randomBytes(48).toString("base64url");
+  await storage.createRefreshToken(session.id, hashToken(refreshToken), refreshTokenExpiry());
+  return {
+    token: signToken(user, session.sessionToken),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS
+  };
+}
+
+export function extractToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith("Bearer ")) return undefined;
+  return header.slice("Bearer ".length).trim() || undefined;
+}
+
+function describeDevice(userAgent: string | undefined): string {
+  if (!userAgent) return "Unknown device";
+  if (/iphone|ipad/i.test(userAgent)) return "iOS";
+  if (/android/i.test(userAgent)) return "Android";
+  if (/windows/i.test(userAgent)) return "Windows";
+  if (/macintosh|mac os/i.test(userAgent)) return "Mac";
+  if (/linux/i.test(userAgent)) return "Linux";
+  return "Unknown device";
+}
+
+// إنشاء جلسة جديدة للجهاز الحالي وإصدار التوكن الخاص بها
+export async function startSession(user: User, req: Request): Promise<IssuedTokens & { session: Session }> {
+  const userAgent = req.get("user-agent");
+  const requestedLabel = typeof req.body?.deviceLabel === "string" ? req.body.deviceLabel.trim() : "";
+
+  const session = await storage.createSession({
+    userId: user.id,
+    sessionToken: generateSessionToken(),
+    deviceLabel: (requestedLabel || describeDevice(userAgent)).slice(0, 100),
+    ipAddress: req.ip || null,
+    userAgent: userAgent || null,
+  });
+
+  // الإبقاء على أحدث الأجهزة فقط ضمن الحد المسموح
+  await storage.revokeExcessSessions(user.id, MAX_SESSIONS_PER_USER);
+
+  return { ...(await issueTokens(user, session)), session };
+}
+
+// تبديل رمز التجديد بزوج جديد من الرموز
+export async function refreshSession(refreshToken: string): Promise<IssuedTokens> {
+  const newRefreshToken = randomBytes(48).toString("base64url");
+  const result = await storage.rotateRefreshToken(
+    hashToken(refreshToken),
+    hashToken(newRefreshToken),
+    refreshTokenExpiry()
+  );
+
+  switch (result.status) {
+    case "rotated": {
+      const user = await storage.getUser(result.session.userId);
+      if (!user) throw new AuthError("Invalid refresh token", 401, "INVALID_REFRESH_TOKEN");
+      return {
+        token: signToken(user, result.session.sessionToken),
+        refreshToken: newRefreshToken,
+        expiresIn: ACCESS_TOKEN_TTL_SECONDS
+      };
+    }
+    case "reused":
+      console.warn(`Refresh token reuse detected - session ${result.session.id} revoked`);
+      throw new AuthError("Refresh token already used - session revoked", 401, "REFRESH_TOKEN_REUSED");
+    case "revoked":
+      throw new AuthError("Session has been revoked", 401, "SESSION_REVOKED");
+    case "expired":
+      throw new AuthError("Refresh token expired", 401, "REFRESH_TOKEN_EXPIRED");
+    default:
+      throw new AuthError("Invalid refresh token", 401, "INVALID_REFRESH_TOKEN");
+  }
+}
+
+export function serializeSession(session: Session, currentSessionId?: number) {
+  return {
+    id: session.id,
+    deviceLabel: session.deviceLabel,
+    ipAddress: session.ipAddress,
+    userAgent: session.userAgent,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    current: session.id === currentSessionId
+  };
+}
+
+// إصدار رمز استخدام واحد وإرجاعه بصيغته الأصلية لإرساله بالبريد
+export async function issueOneTimeToken(userId: number, purpose: AuthTokenPurpose, email?: string): Promise<string> {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + ONE_TIME_TOKEN_TTL_MS[purpose]);
+  await storage.createAuthToken(userId, purpose, hashToken(token), expiresAt, email);
+  return token;
+}
+
+export async function consumeOneTimeToken(purpose: AuthTokenPurpose, token: string): Promise<AuthToken | undefined> {
+  return storage.consumeAuthToken(purpose, hashToken(token));
+}
+
+// التحقق من التوقيع وتحميل المستخدم والتأكد من أن الجلسة ما زالت فعالة
+export async function authenticateToken(
+  token: string,
+  options: { allowExpired?: boolean } = {}
+): Promise<AuthContext> {
+  let payload: TokenPayload;
+  try {
+    payload = jwt.verify(token, JWT_SECRET, {
+      algorithms: ["HS256"],
+      ignoreExpiration: options.allowExpired
+    }) as TokenPayload;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new AuthError("Access token expired", 401, "TOKEN_EXPIRED");
+    }
+    throw new AuthError("Invalid token");
+  }
+
+  const session = payload.sid ? await storage.getSessionByToken(payload.sid) : undefined;
+  if (!session || session.userId !== parseInt(payload.sub)) {
+    throw new AuthError("Invalid token");
+  }
+
+  if (session.revokedAt) {
+    throw new AuthError("Session has been revoked", 401, "SESSION_REVOKED");
+  }
+
+  const user = await storage.getUser(session.userId);
+  if (!user) {
+    throw new AuthError("Invalid token");
+  }
+
+  const lastSeen = session.lastSeenAt ? session.lastSeenAt.getTime() : 0;
+  if (Date.now() - lastSeen > SESSION_TOUCH_INTERVAL_MS) {
+    await storage.touchSession(session.id);
+  }
+
+  return { user, session };
+}
+
+export async function requireAuth(req: Request<any>, res: Response, next: NextFunction) {
+  const token = extractToken(req);
+  if (!token) {
+    return res.status(401).json({ message: "No token provided" });
+  }
+
+  try {
+    const { user, session } = await authenticateToken(token);
+    req.user = user;
+    req.authSession = session;
+    next();
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return res.status(error.status).json({ message: error.message, code: error.code });
+    }
+    next(error);
+  }
+}
+
+// مثل requireAuth لكنه لا يرفض الطلب؛ يضبط req.user فقط إذا كان الرمز صالحاً
+export async function optionalAuth(req: Request<any>, res: Response, next: NextFunction) {
+  const token = extractToken(req);
+  if (!token) return next();
+
+  try {
+    const { user, session } = await authenticateToken(token);
+    req.user = user;
+    req.authSession = session;
+  } catch (error) {
+    if (!(error instanceof AuthError)) return next(error);
+  }
+  next();
+}
+
+// يجب استخدامه بعد requireAuth؛ يمنع حسابات الضيوف من العمليات المالية حتى تكتمل الترقية
+export function requireRegistered(req: Request<any>, res: Response, next: NextFunction) {
+  if (req.user?.isGuest) {
+    return res.status(403).json({
+      message: "Guest accounts must register to use this feature",
+      code: "GUEST_RESTRICTED"
+    });
+  }
+  next();
+}
@@ -0,0 +1,94 @@
+// مكافآت تسجيل الدخول اليومي - دورة من 7 أيام تزداد فيها المكافأة مع استمرار السلسلة
+
+import type { RewardAmount } from "./gameRules";
+import type { DailyRewardClaim } from "@shared/schema";
+
+export interface DailyReward extends RewardAmount {
+  day: number; // اليوم في الدورة 1..7
+  item?: { itemType: string; itemName: string };
+}
+
+// عنصر يحفظ السلسلة عن يوم فائت واحد
+export const STREAK_SAVER_ITEM = { itemType: "streak_saver", itemName: "Streak Saver" };
+
+export const DAILY_REWARD_CYCLE: DailyReward[] = [
+  { day: 1, gold: 100, pearls: 0 },
+  { day: 2, gold: 150, pearls: 0 },
+  { day: 3, gold: 200, pearls: 0, item: { itemType: "gems", itemName: "Daily Gem" } },
+  { day: 4, gold: 250, pearls: 0 },
+  { day: 5, gold: 300, pearls: 1 },
+  { day: 6, gold: 400, pearls: 1 },
+  { day: 7, gold: 500, pearls: 2, item: STREAK_SAVER_ITEM }
+];
+
+export function dailyRewardForStreak(streak: number): DailyReward {
+  return DAILY_REWARD_CYCLE[(Math.max(1, streak) - 1) % DAILY_REWARD_CYCLE.length];
+}
+
+export type DailyRewardErrorCode = "INVALID_TIMEZONE" | "TIMEZONE_CHANGE_TOO_SOON" | "NOT_ENOUGH_STREAK_SAVERS";
+
+export class DailyRewardError extends Error {
+  constructor(public code: DailyRewardErrorCode) {
+    super({
+      INVALID_TIMEZONE: "Invalid timezone",
+      TIMEZONE_CHANGE_TOO_SOON: "Timezone can only change 24 hours after the last claim",
+      NOT_ENOUGH_STREAK_SAVERS: "Not enough streak savers to cover the missed days"
+    }[code]);
+    this.name = "DailyRewardError";
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// التاريخ YYYY-MM-DD كما يراه اللاعب في منطقته الزمنية
+export function calendarDate(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(date);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+export interface DailyRewardStatus {
+  today: string;
+  timezone: string;
+  claimedToday: boolean;
+  streak: number; // 0 = السلسلة انقطعت
+  missedDays: number; // أيام فائتة يمكن تغطيتها بعناصر حفظ السلسلة
+  streakSavers: number;
+  nextReward: DailyReward; // مكافأة المطالبة القادمة (اليوم أو غداً)
+  cycle: DailyReward[];
+}
+
+export function getDailyRewardStatus(
+  last: DailyRewardClaim | undefined,
+  streakSavers: number,
+  timezone: string,
+  now = new Date()
+): DailyRewardStatus {
+  const today = calendarDate(now, timezone);
+  const gap = last ? daysBetween(last.claimDate, today) : null;
+  const claimedToday = gap !== null && gap <= 0;
+  const missedDays = gap !== null && gap > 1 ? gap - 1 : 0;
+  const streak = last && gap !== null && gap <= 1 ? last.streak : 0;
+
+  return {
+    today,
+    timezone,
+    claimedToday,
+    streak,
+    missedDays,
+    streakSavers,
+    nextReward: dailyRewardForStreak(streak + 1),
+    cycle: DAILY_REWARD_CYCLE
+  };
+}
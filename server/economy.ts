@@ -0,0 +1,94 @@
+// أسعار الاقتصاد - القيم تأتي من جدول economy_configs (أحدث نسخة) وهذه الدوال تحسب بها فقط
+
+import { economyConfigSchema, type CreateAdminAdjustmentData, type EconomyConfig, type ExchangeCurrency } from "@shared/schema";
+
+export interface ActiveEconomyConfig {
+  version: number; // 0 = لا توجد نسخة محفوظة، تُستخدم القيم الافتراضية
+  config: EconomyConfig;
+}
+
+// يدمج التعديل الجزئي مع الإعدادات الحالية؛ الكائنات المتداخلة تُدمج حقلاً بحقل
+export function mergeEconomyConfig(current: EconomyConfig, patch: Record<string, any>): EconomyConfig {
+  const merged: Record<string, any> = { ...current };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) continue;
+    merged[key] = value !== null && typeof value === "object" && !Array.isArray(value)
+      ? { ...(current as Record<string, any>)[key], ...value }
+      : value;
+  }
+  return economyConfigSchema.parse(merged);
+}
+
+export interface ExchangeQuote {
+  from: ExchangeCurrency;
+  to: ExchangeCurrency;
+  debit: number; // ما يُخصم من عملة from شاملاً الرسوم
+  credit: number; // ما يُضاف بعملة to بعد الرسوم
+  grossGold: number; // قيمة الصرف بالذهب قبل الرسوم
+  feeGold: number;
+  goldPerPearl: number;
+  feeBps: number;
+  configVersion: number;
+}
+
+export type ExchangeErrorCode = "EXCHANGE_DISABLED" | "GOLD_TO_PEARLS_DISABLED" | "EXCHANGE_TOO_SMALL" | "RATE_CHANGED";
+
+export class ExchangeError extends Error {
+  constructor(public code: ExchangeErrorCode) {
+    super({
+      EXCHANGE_DISABLED: "Currency exchange is currently disabled",
+      GOLD_TO_PEARLS_DISABLED: "Buying pearls with gold is currently disabled",
+      EXCHANGE_TOO_SMALL: "Amount is too small to exchange after fees",
+      RATE_CHANGED: "Exchange rates changed; request a new quote"
+    }[code]);
+    this.name = "ExchangeError";
+  }
+}
+
+function feeFor(grossGold: number, feeBps: number): number {
+  return Math.ceil((grossGold * feeBps) / 10000);
+}
+
+// الرسوم تُحسب دائماً بالذهب. عند شراء اللؤلؤ يُصرف أكبر عدد صحيح ممكن والباقي يبقى للاعب
+export function quoteExchange({ version, config }: ActiveEconomyConfig, from: ExchangeCurrency, amount: number): ExchangeQuote {
+  const rate = config.goldPerPearl;
+  const feeBps = config.exchangeFeeBps;
+  const base = { from, goldPerPearl: rate, feeBps, configVersion: version };
+
+  if (from === "pearls") {
+    const grossGold = amount * rate;
+    const feeGold = feeFor(grossGold, feeBps);
+    return { ...base, to: "gold", debit: amount, credit: grossGold - feeGold, grossGold, feeGold };
+  }
+
+  let pearls = Math.floor((amount * 10000) / (rate * (10000 + feeBps)));
+  while (pearls > 0 && pearls * rate + feeFor(pearls * rate, feeBps) > amount) pearls--;
+  const grossGold = pearls * rate;
+  const feeGold = feeFor(grossGold, feeBps);
+  return { ...base, to: "pearls", debit: grossGold + feeGold, credit: pearls, grossGold, feeGold };
+}
+
+export function vipLevelsForPurchase(config: EconomyConfig, goldAmount: number): number {
+  return Math.floor(goldAmount / config.vip.goldPerStep) * config.vip.levelsPerGoldStep;
+}
+
+export function vipLevelsForPearls(config: EconomyConfig, pearlsAmount: number): number {
+  return pearlsAmount * config.vip.levelsPerPearl;
+}
+
+// الحد يُطبق على مجموع تعديلات اللاعب خلال هذه المدة، حتى لا يُقسم تعديل كبير إلى أجزاء صغيرة
+export const ADJUSTMENT_APPROVAL_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface AdjustmentTotals {
+  gold: number;
+  pearls: number;
+  items: number;
+}
+
+// recent = مجموع القيم المطلقة لتعديلات اللاعب المطبقة أو المعلقة خلال ADJUSTMENT_APPROVAL_WINDOW_MS
+export function requiresSecondApproval(config: EconomyConfig, adjustment: CreateAdminAdjustmentData, recent: AdjustmentTotals): boolean {
+  const threshold = config.adjustmentApprovalThreshold;
+  return recent.gold + Math.abs(adjustment.goldDelta) > threshold.gold
+    || recent.pearls + Math.abs(adjustment.pearlsDelta) > threshold.pearls
+    || recent.items + Math.abs(adjustment.item?.quantity ?? 0) > threshold.items;
+}
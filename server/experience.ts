@@ -0,0 +1,48 @@
+import { storage, type ExperienceResult } from "./storage";
+import { XP_RULES, getLevelProgress, type XpSource } from "./levels";
+import { startOfUtcDay } from "./gameRules";
+import { sendToUser } from "./socketAuth";
+
+export interface ExperienceOptions {
+  value?: number; // النتيجة لمصدر game_score
+  referenceType?: string;
+  referenceId?: number;
+}
+
+// يمنح الخبرة حسب قاعدة المصدر ويرسل حدث level_up للاعب عند ارتفاع مستواه.
+// لا يرمي أخطاء - فشل الخبرة لا يجب أن يفشل الطلب الأصلي
+export async function awardExperience(
+  userId: number,
+  source: XpSource,
+  options: ExperienceOptions = {}
+): Promise<ExperienceResult | undefined> {
+  const rule = XP_RULES[source];
+  const amount = rule.amount(options.value ?? 0);
+  if (amount <= 0) return undefined;
+
+  try {
+    const result = await storage.grantExperience(userId, {
+      source,
+      amount,
+      dailyLimit: rule.dailyLimit,
+      dayStart: startOfUtcDay(),
+      referenceType: options.referenceType,
+      referenceId: options.referenceId
+    });
+
+    if (result && result.level > result.previousLevel) {
+      sendToUser(userId, {
+        type: "level_up",
+        previousLevel: result.previousLevel,
+        ...getLevelProgress(result.level, result.user.experience || 0),
+        rewards: result.levelRewards,
+        goldCoins: result.user.goldCoins || 0,
+        pearls: result.user.pearls || 0
+      });
+    }
+    return result;
+  } catch (error) {
+    console.error(`Error awarding ${source} experience to user ${userId}:`, error);
+    return undefined;
+  }
+}
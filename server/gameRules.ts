@@ -0,0 +1,116 @@
+// قواعد مكافآت الألعاب - الخادم وحده يحسب الذهب واللؤلؤ من النتيجة ولا يثق بما يرسله العميل
+
+export interface RewardAmount {
+  gold: number;
+  pearls: number;
+}
+
+export interface GameRewardRule {
+  gameId: string;
+  aliases: string[]; // أسماء قديمة يرسلها العميل لنفس اللعبة
+  maxScore: number; // أعلى نتيجة معقولة لجولة واحدة
+  maxPointsPerSecond: number; // أسرع معدل نقاط ممكن فعلياً
+  minDurationMs: number; // أقصر جولة حقيقية
+  maxDurationMs: number; // بعدها تنتهي صلاحية جلسة اللعب
+  reward(score: number, level: number): RewardAmount;
+  perSessionCap: RewardAmount;
+  dailyCap: RewardAmount;
+}
+
+export interface ComputedReward extends RewardAmount {
+  capped: boolean;
+}
+
+export const GAME_REWARD_RULES: GameRewardRule[] = [
+  {
+    // نفس معرفات أنواع الألعاب في GameSyncManager
+    gameId: "fruit_catching",
+    aliases: ["قطف الفواكه المطورة", "fruit-catching"],
+    maxScore: 50000,
+    maxPointsPerSecond: 200,
+    minDurationMs: 5 * 1000,
+    maxDurationMs: 60 * 60 * 1000,
+    // 1 ذهب لكل 10 نقاط مع زيادة 5% لكل مستوى، و1 لؤلؤة لكل 5000 نقطة
+    reward: (score, level) => ({
+      gold: Math.floor((score / 10) * (1 + Math.max(0, level - 1) * 0.05)),
+      pearls: Math.floor(score / 5000)
+    }),
+    perSessionCap: { gold: 500, pearls: 2 },
+    dailyCap: { gold: 5000, pearls: 5 }
+  },
+  {
+    gameId: "racing",
+    aliases: ["سباق"],
+    maxScore: 20000,
+    maxPointsPerSecond: 100,
+    minDurationMs: 20 * 1000,
+    maxDurationMs: 30 * 60 * 1000,
+    // 1 ذهب لكل 20 نقطة، و1 لؤلؤة لكل 10000 نقطة
+    reward: (score) => ({
+      gold: Math.floor(score / 20),
+      pearls: Math.floor(score / 10000)
+    }),
+    perSessionCap: { gold: 400, pearls: 1 },
+    dailyCap: { gold: 4000, pearls: 3 }
+  }
+];
+
+export function findGameRule(gameName: string): GameRewardRule | undefined {
+  const name = gameName.trim();
+  return GAME_REWARD_RULES.find(rule => rule.gameId === name || rule.aliases.includes(name));
+}
+
+export function computeGameReward(
+  rule: GameRewardRule,
+  score: number,
+  level: number,
+  earnedToday: RewardAmount
+): ComputedReward {
+  const raw = rule.reward(Math.min(Math.max(0, score), rule.maxScore), Math.max(1, level));
+
+  const cap = (amount: number, currency: keyof RewardAmount) => {
+    const remainingToday = Math.max(0, rule.dailyCap[currency] - earnedToday[currency]);
+    return Math.max(0, Math.min(amount, rule.perSessionCap[currency], remainingToday));
+  };
+
+  const gold = cap(raw.gold, "gold");
+  const pearls = cap(raw.pearls, "pearls");
+  return { gold, pearls, capped: gold < raw.gold || pearls < raw.pearls };
+}
+
+export type ScoreRejectionReason =
+  | "INVALID_SESSION"
+  | "SESSION_ALREADY_SUBMITTED"
+  | "SESSION_EXPIRED"
+  | "GAME_MISMATCH"
+  | "TOO_FAST"
+  | "SCORE_IMPLAUSIBLE";
+
+export class ScoreRejectedError extends Error {
+  constructor(public reason: ScoreRejectionReason, message: string) {
+    super(message);
+    this.name = "ScoreRejectedError";
+  }
+}
+
+// أعلى نتيجة ممكنة فعلياً بعد elapsedMs من اللعب
+export function maxScoreForElapsed(rule: GameRewardRule, elapsedMs: number): number {
+  return Math.min(rule.maxScore, Math.ceil((Math.max(0, elapsedMs) / 1000) * rule.maxPointsPerSecond));
+}
+
+// يرمي ScoreRejectedError إذا كانت النتيجة غير ممكنة خلال الوقت المنقضي منذ بدء الجلسة
+export function assertPlausibleScore(rule: GameRewardRule, score: number, elapsedMs: number): void {
+  if (elapsedMs > rule.maxDurationMs) {
+    throw new ScoreRejectedError("SESSION_EXPIRED", "Game session has expired");
+  }
+  if (elapsedMs < rule.minDurationMs) {
+    throw new ScoreRejectedError("TOO_FAST", "Game finished faster than possible");
+  }
+  if (score > maxScoreForElapsed(rule, elapsedMs)) {
+    throw new ScoreRejectedError("SCORE_IMPLAUSIBLE", "Score is not possible for the time played");
+  }
+}
+
+export function startOfUtcDay(date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
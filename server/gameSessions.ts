@@ -0,0 +1,59 @@
+import { createHmac, randomBytes, randomInt, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { ScoreRejectedError } from "./gameRules";
+import type { GameSession } from "@shared/schema";
+
+const GAME_SESSION_SECRET = process.env.GAME_SESSION_SECRET || process.env.JWT_SECRET || "infinity-box-dev-game-sessions";
+
+export interface IssuedGameSession {
+  sessionToken: string; // يرسله العميل مع النتيجة
+  sessionId: string;
+  seed: number;
+  startedAt: string;
+}
+
+// التوقيع يربط الرمز بكل حقول الجلسة، فلا يمكن نقله لمستخدم أو لعبة أخرى
+function signSession(session: Pick<GameSession, "sessionId" | "userId" | "gameName" | "seed" | "startedAt">): string {
+  return createHmac("sha256", GAME_SESSION_SECRET)
+    .update(`${session.sessionId}:${session.userId}:${session.gameName}:${session.seed}:${session.startedAt.getTime()}`)
+    .digest("hex");
+}
+
+export async function startGameSession(userId: number, gameName: string): Promise<IssuedGameSession> {
+  const session = await storage.createGameSession({
+    sessionId: randomBytes(16).toString("hex"),
+    userId,
+    gameName,
+    seed: randomInt(0, 2 ** 31 - 1),
+    startedAt: new Date()
+  });
+
+  return {
+    sessionToken: `${session.sessionId}.${signSession(session)}`,
+    sessionId: session.sessionId,
+    seed: session.seed,
+    startedAt: session.startedAt.toISOString()
+  };
+}
+
+// يرمي ScoreRejectedError إذا كان الرمز مزوراً أو لا يخص هذا المستخدم واللعبة
+export async function resolveGameSession(userId: number, gameName: string, sessionToken: string): Promise<GameSession> {
+  const [sessionId, signature] = sessionToken.split(".");
+  const session = sessionId && signature ? await storage.getGameSession(sessionId) : undefined;
+  if (!session || session.userId !== userId) {
+    throw new ScoreRejectedError("INVALID_SESSION", "Invalid game session");
+  }
+
+  const expected = Buffer.from(signSession(session));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new ScoreRejectedError("INVALID_SESSION", "Invalid game session");
+  }
+  if (session.gameName !== gameName) {
+    throw new ScoreRejectedError("GAME_MISMATCH", "Score was submitted for a different game");
+  }
+  if (session.status !== "active") {
+    throw new ScoreRejectedError("SESSION_ALREADY_SUBMITTED", "A score was already submitted for this game session");
+  }
+  return session;
+}
@@ -0,0 +1,58 @@
+import { storage } from "./storage";
+import { DEFAULT_GAME_SETTINGS, gameSettingsSchema, type GameSettings } from "@shared/schema";
+
+export const GLOBAL_SETTINGS_SCOPE = "global";
+
+type SettingsPatch = { [key: string]: unknown };
+
+function isPlainObject(value: unknown): value is SettingsPatch {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function deepMerge<T>(base: T, patch: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(patch)) {
+    return (patch === undefined ? base : patch) as T;
+  }
+  const merged: SettingsPatch = { ...base };
+  for (const [key, value] of Object.entries(patch)) {
+    merged[key] = deepMerge(merged[key], value);
+  }
+  return merged as T;
+}
+
+// الإعدادات المحفوظة قد تكون من إصدار أقدم؛ نكملها بالقيم الافتراضية ونتجاهل ما لم يعد صالحاً
+function normalize(stored: unknown): GameSettings {
+  const parsed = gameSettingsSchema.safeParse(deepMerge(DEFAULT_GAME_SETTINGS, stored));
+  return parsed.success ? parsed.data : DEFAULT_GAME_SETTINGS;
+}
+
+// الافتراضي ← الإعدادات العامة للمستخدم ← إعدادات اللعبة المحددة
+export async function resolveGameSettings(userId: number, gameName?: string): Promise<GameSettings> {
+  const scopes = gameName ? [GLOBAL_SETTINGS_SCOPE, gameName] : [GLOBAL_SETTINGS_SCOPE];
+  const rows = await storage.getUserSettings(userId, scopes);
+  const global = rows.find(r => r.gameName === GLOBAL_SETTINGS_SCOPE);
+  const perGame = gameName ? rows.find(r => r.gameName === gameName) : undefined;
+
+  let settings = normalize(global?.settings);
+  if (perGame) {
+    settings = normalize(deepMerge(settings, perGame.settings));
+  }
+  return settings;
+}
+
+// patch يجب أن يكون قد مر عبر updateGameSettingsSchema
+export async function updateGameSettings(userId: number, patch: SettingsPatch, gameName?: string): Promise<GameSettings> {
+  const scope = gameName || GLOBAL_SETTINGS_SCOPE;
+  const [existing] = await storage.getUserSettings(userId, [scope]);
+
+  // صف اللعبة يحفظ الفروقات عن الإعدادات العامة فقط، حتى يتبع التغييرات العامة اللاحقة
+  const stored = deepMerge(isPlainObject(existing?.settings) ? existing.settings : {}, patch);
+  if (scope === GLOBAL_SETTINGS_SCOPE) {
+    await storage.saveUserSettings(userId, scope, normalize(stored));
+  } else {
+    gameSettingsSchema.deepPartial().parse(stored);
+    await storage.saveUserSettings(userId, scope, stored);
+  }
+
+  return resolveGameSettings(userId, gameName);
+}
@@ -1,5 +1,11 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import { storage } from './storage';
+import { getSocketIdentity, type SocketIdentity } from './socketAuth';
+import { resolveGameSettings } from './gameSettings';
+import { checkAchievements } from './achievements';
+import { awardExperience } from './experience';
+import { findGameRule, maxScoreForElapsed } from './gameRules';
+import { DEFAULT_GAME_SETTINGS, type GameSettings } from '@shared/schema';
 
 // أنواع الأحداث للألعاب
 export type GameEventType = 
@@ -47,6 +53,7 @@ export interface GameRoom {
   };
   status: 'waiting' | 'playing' | 'paused' | 'finished';
   createdAt: Date;
+  startedAt?: Date;
   hostId: string;
 }
 
@@ -69,10 +76,14 @@ export class GameSyncManager {
 
   private setupEventHandlers() {
     this.wss.on('connection', (ws: WebSocket) => {
+      const identity = getSocketIdentity(ws);
+      if (!identity) return;
+
       ws.on('message', (message) => {
         try {
           const gameMessage: GameMessage = JSON.parse(message.toString());
-          this.handleGameMessage(ws, gameMessage);
+          // هوية اللاعب تأتي من الاتصال الموثق وليس من الرسالة
+          this.handleGameMessage(ws, identity, { ...gameMessage, playerId: identity.userId });
         } catch (error) {
           console.error('خطأ في معالجة رسالة اللعبة:', error);
         }
@@ -84,13 +95,13 @@ export class GameSyncManager {
     });
   }
 
-  private async handleGameMessage(ws: WebSocket, message: GameMessage) {
+  private async handleGameMessage(ws: WebSocket, identity: SocketIdentity, message: GameMessage) {
     switch (message.type) {
       case 'room_create':
-        await this.createGameRoom(ws, message);
+        await this.createGameRoom(ws, identity, message);
         break;
       case 'room_join':
-        await this.joinGameRoom(ws, message);
+        await this.joinGameRoom(ws, identity, message);
         break;
       case 'room_leave':
         await this.leaveGameRoom(ws, message);
@@ -118,35 +129,43 @@ export class GameSyncManager {
     }
   }
 
-  private async createGameRoom(ws: WebSocket, message: GameMessage) {
+  private async createGameRoom(ws: WebSocket, identity: SocketIdentity, message: GameMessage) {
     const roomId = this.generateRoomId();
-    const { gameType, settings, playerInfo } = message.data;
+    const { gameType, settings = {} } = message.data || {};
+
+    // القيم التي لم يرسلها المضيف تؤخذ من إعداداته المحفوظة
+    let preferences: GameSettings = DEFAULT_GAME_SETTINGS;
+    try {
+      preferences = await resolveGameSettings(parseInt(identity.userId), gameType);
+    } catch (error) {
+      console.error('خطأ في جلب إعدادات المضيف:', error);
+    }
 
     const room: GameRoom = {
       id: roomId,
-      name: `غرفة ${playerInfo.username}`,
+      name: `غرفة ${identity.username}`,
       gameType,
       players: new Map(),
       gameState: this.initializeGameState(gameType),
       settings: {
-        maxPlayers: settings.maxPlayers || 4,
-        isPrivate: settings.isPrivate || false,
+        maxPlayers: settings.maxPlayers || preferences.multiplayer.maxPlayers,
+        isPrivate: settings.isPrivate ?? preferences.multiplayer.isPrivate,
         password: settings.password,
-        gameMode: settings.gameMode || 'competitive',
-        difficulty: settings.difficulty || 'medium'
+        gameMode: settings.gameMode || preferences.multiplayer.gameMode,
+        difficulty: settings.difficulty || preferences.difficulty
       },
       status: 'waiting',
       createdAt: new Date(),
-      hostId: playerInfo.id
+      hostId: identity.userId
     };
 
     this.rooms.set(roomId, room);
     
     // إضافة اللاعب كمضيف
     const player: GamePlayer = {
-      id: playerInfo.id,
-      username: playerInfo.username,
-      isAdmin: playerInfo.isAdmin || false,
+      id: identity.userId,
+      username: identity.username,
+      isAdmin: identity.isAdmin,
       isHost: true,
       score: 0,
       lives: 3,
@@ -157,14 +176,14 @@ export class GameSyncManager {
       ws
     };
 
-    room.players.set(playerInfo.id, player);
-    this.playerRooms.set(playerInfo.id, roomId);
+    room.players.set(identity.userId, player);
+    this.playerRooms.set(identity.userId, roomId);
 
     // إرسال تأكيد إنشاء الغرفة
     this.sendToPlayer(ws, {
       type: 'room_create',
       roomId,
-      playerId: playerInfo.id,
+      playerId: identity.userId,
       data: {
         room: this.serializeRoom(room),
         message: 'تم إنشاء غرفة اللعبة بنجاح'
@@ -172,11 +191,11 @@ export class GameSyncManager {
       timestamp: Date.now()
     });
 
-    console.log(`تم إنشاء غرفة جديدة: ${roomId} بواسطة ${playerInfo.username}`);
+    console.log(`تم إنشاء غرفة جديدة: ${roomId} بواسطة ${identity.username}`);
   }
 
-  private async joinGameRoom(ws: WebSocket, message: GameMessage) {
-    const { roomId, playerInfo, password } = message.data;
+  private async joinGameRoom(ws: WebSocket, identity: SocketIdentity, message: GameMessage) {
+    const { roomId, password } = message.data || {};
     const room = this.rooms.get(roomId);
 
     if (!room) {
@@ -197,9 +216,9 @@ export class GameSyncManager {
 
     // إضافة اللاعب للغرفة
     const player: GamePlayer = {
-      id: playerInfo.id,
-      username: playerInfo.username,
-      isAdmin: playerInfo.isAdmin || false,
+      id: identity.userId,
+      username: identity.username,
+      isAdmin: identity.isAdmin,
       isHost: false,
       score: 0,
       lives: 3,
@@ -210,14 +229,14 @@ export class GameSyncManager {
       ws
     };
 
-    room.players.set(playerInfo.id, player);
-    this.playerRooms.set(playerInfo.id, roomId);
+    room.players.set(identity.userId, player);
+    this.playerRooms.set(identity.userId, roomId);
 
     // إخطار جميع اللاعبين بانضمام اللاعب الجديد
     this.broadcastToRoom(roomId, {
       type: 'player_joined',
       roomId,
-      playerId: playerInfo.id,
+      playerId: identity.userId,
       data: {
         player: this.serializePlayer(player),
         room: this.serializeRoom(room)
@@ -225,7 +244,7 @@ export class GameSyncManager {
       timestamp: Date.now()
     });
 
-    console.log(`انضم ${playerInfo.username} إلى الغرفة ${roomId}`);
+    console.log(`انضم ${identity.username} إلى الغرفة ${roomId}`);
   }
 
   private async leaveGameRoom(ws: WebSocket, message: GameMessage) {
@@ -282,6 +301,7 @@ export class GameSyncManager {
     }
 
     room.status = 'playing';
+    room.startedAt = new Date();
     room.gameState = this.initializeGameState(room.gameType);
 
     // بدء مؤقت اللعبة
@@ -326,25 +346,20 @@ export class GameSyncManager {
 
   private async handlePlayerScore(message: GameMessage) {
     const room = this.rooms.get(message.roomId);
-    if (!room) return;
+    if (!room || room.status !== 'playing' || !room.startedAt) return;
 
     const player = room.players.get(message.playerId);
     if (!player) return;
 
-    const { points, itemType } = message.data;
-    player.score += points;
-
-    // حفظ النتيجة في قاعدة البيانات
-    try {
-      await storage.saveGameScore(
-        parseInt(message.playerId), 
-        room.gameType, 
-        player.score, 
-        player.level
-      );
-    } catch (error) {
-      console.error('خطأ في حفظ النتيجة:', error);
+    // النقاط تأتي من العميل: نقبلها فقط ضمن حدود قواعد اللعبة للوقت المنقضي
+    const { points, itemType } = message.data || {};
+    const rule = findGameRule(room.gameType);
+    if (!rule || !Number.isInteger(points) || points <= 0
+      || player.score + points > maxScoreForElapsed(rule, Date.now() - room.startedAt.getTime())) {
+      return this.sendError(player.ws, 'نتيجة غير صالحة');
     }
+    player.score += points;
+    // النتيجة تُحفظ مرة واحدة عند نهاية المباراة في endGame
 
     // بث تحديث النتيجة
     this.broadcastToRoom(message.roomId, {
@@ -470,7 +485,8 @@ export class GameSyncManager {
 
   private async endGame(roomId: string, reason: string) {
     const room = this.rooms.get(roomId);
-    if (!room) return;
+    // المؤقت وخروج اللاعبين قد يستدعيان الإنهاء معاً؛ نحفظ النتائج مرة واحدة
+    if (!room || room.status === 'finished') return;
 
     room.status = 'finished';
     this.clearGameTimer(roomId);
@@ -485,15 +501,32 @@ export class GameSyncManager {
       }))
       .sort((a, b) => b.score - a.score);
 
-    // حفظ النتائج النهائية
-    for (const player of room.players.values()) {
+    // حفظ النتائج النهائية - اللاعبون بنفس النتيجة يتشاركون المركز
+    // مباراة لم تبدأ أو بلاعب واحد لا تُحسب في النتائج والإنجازات والخبرة
+    if (room.startedAt && results.length >= 2) {
       try {
-        await storage.saveGameScore(
-          parseInt(player.id),
+        const saved = await storage.saveMatchResults(
+          roomId,
           room.gameType,
-          player.score,
-          player.level
+          Date.now() - room.startedAt.getTime(),
+          results.map(result => {
+            const placement = results.findIndex(r => r.score === result.score) + 1;
+            return {
+              userId: parseInt(result.id),
+              score: result.score,
+              level: result.level,
+              placement,
+              isWinner: placement === 1 && result.score > 0
+            };
+          })
         );
+        saved.forEach(result => {
+          void checkAchievements(result.userId, 'match_finished');
+          void awardExperience(result.userId, 'match_played', { referenceType: 'match_result', referenceId: result.id });
+          if (result.isWinner) {
+            void awardExperience(result.userId, 'match_won', { referenceType: 'match_result', referenceId: result.id });
+          }
+        });
       } catch (error) {
         console.error('خطأ في حفظ النتيجة النهائية:', error);
       }
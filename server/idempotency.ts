@@ -0,0 +1,80 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import { storage } from "./storage";
+
+const HEADER = "Idempotency-Key";
+const MAX_KEY_LENGTH = 255;
+
+// مدة الاحتفاظ بالمفاتيح قبل حذفها، بعدها يُعامل المفتاح كطلب جديد
+export const IDEMPOTENCY_KEY_TTL_HOURS = process.env.IDEMPOTENCY_KEY_TTL_HOURS
+  ? parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS)
+  : 24;
+
+function hashRequest(endpoint: string, body: unknown): string {
+  return createHash("sha256").update(endpoint).update(JSON.stringify(body ?? null)).digest("hex");
+}
+
+// يجب استخدامه بعد requireAuth. الطلبات بدون الترويسة تمر كما هي؛
+// مع الترويسة يُحفظ الرد الأول ويُعاد كما هو لأي تكرار بنفس المفتاح والمحتوى
+export async function idempotent(req: Request<any>, res: Response, next: NextFunction) {
+  const key = req.get(HEADER);
+  if (key === undefined) {
+    return next();
+  }
+  if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({ message: `Invalid ${HEADER} header`, code: "INVALID_IDEMPOTENCY_KEY" });
+  }
+
+  try {
+    const endpoint = `${req.method} ${req.baseUrl}${req.path}`;
+    const requestHash = hashRequest(endpoint, req.body);
+    const { created, record } = await storage.beginIdempotentRequest(req.user!.id, key, endpoint, requestHash);
+
+    if (!created) {
+      if (record.endpoint !== endpoint || record.requestHash !== requestHash) {
+        return res.status(422).json({
+          message: `${HEADER} was already used with a different request`,
+          code: "IDEMPOTENCY_KEY_MISMATCH"
+        });
+      }
+      if (record.responseStatus === null) {
+        return res.status(409).json({
+          message: "A request with this key is still being processed",
+          code: "IDEMPOTENCY_REQUEST_IN_PROGRESS"
+        });
+      }
+      res.set("Idempotent-Replayed", "true");
+      return res.status(record.responseStatus).json(record.responseBody);
+    }
+
+    // نحفظ الرد قبل إرساله حتى لا يرى التكرار السريع مفتاحاً بلا نتيجة.
+    // أخطاء الخادم لا تُحفظ ويُحرر المفتاح ليتمكن العميل من إعادة المحاولة
+    let settled = false;
+    const settle = (status: number, body: unknown) => {
+      settled = true;
+      const persist = status >= 500
+        ? storage.releaseIdempotentRequest(record.id)
+        : storage.completeIdempotentRequest(record.id, status, body);
+      return persist.catch(error => console.error("Error saving idempotent response:", error));
+    };
+
+    const originalJson = res.json.bind(res);
+    res.json = ((body: unknown) => {
+      void settle(res.statusCode, body).finally(() => originalJson(body));
+      return res;
+    }) as Response["json"];
+
+    // ردود بدون res.json (send/end أو معالج الأخطاء) تُحفظ بلا جسم؛
+    // وإذا انقطع الاتصال قبل أي رد يُحرر المفتاح بدل أن يبقى "قيد المعالجة" حتى انتهاء صلاحيته
+    res.once("finish", () => {
+      if (!settled) void settle(res.statusCode, null);
+    });
+    res.once("close", () => {
+      if (!settled) void settle(500, null);
+    });
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
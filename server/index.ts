@@ -3,7 +3,14 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-app.use(express.json());
+// Render/Railway run behind a proxy; needed for the real client IP in req.ip
+app.set("trust proxy", 1);
+app.use(express.json({
+  // نحتفظ بالجسم الخام للتحقق من توقيعات webhooks الدفع
+  verify: (req, _res, buf) => {
+    (req as Request).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -0,0 +1,87 @@
+import { storage, type LeaderboardEntry, type LeaderboardQuery } from "./storage";
+import { startOfUtcDay } from "./gameRules";
+
+export const LEADERBOARD_WINDOWS = ["daily", "weekly", "all"] as const;
+export type LeaderboardWindow = typeof LEADERBOARD_WINDOWS[number];
+
+const CACHE_TTL_MS = (process.env.LEADERBOARD_CACHE_SECONDS ? parseInt(process.env.LEADERBOARD_CACHE_SECONDS) : 30) * 1000;
+const MAX_CACHE_ENTRIES = 1000;
+
+export interface Leaderboard {
+  window: LeaderboardWindow;
+  entries: LeaderboardEntry[];
+  me: LeaderboardEntry | null; // ترتيب المستخدم حتى لو كان خارج القائمة
+}
+
+interface CacheEntry<T> {
+  value: Promise<T>;
+  expiresAt: number;
+}
+
+// نخزن الـ Promise نفسه حتى تشترك الطلبات المتزامنة في استعلام واحد
+// ترتيب الـ Map هو ترتيب الاستخدام (LRU): كل إصابة تنقل المفتاح إلى النهاية
+const cache = new Map<string, CacheEntry<unknown>>();
+
+function cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+  const now = Date.now();
+  const hit = cache.get(key);
+  if (hit && hit.expiresAt > now) {
+    cache.delete(key);
+    cache.set(key, hit);
+    return hit.value as Promise<T>;
+  }
+  cache.delete(key);
+
+  if (cache.size >= MAX_CACHE_ENTRIES) {
+    cache.forEach((entry, k) => {
+      if (entry.expiresAt <= now) cache.delete(k);
+    });
+    // ثم الأقدم استخداماً حتى يتوفر مكان للمفتاح الجديد
+    let excess = cache.size - MAX_CACHE_ENTRIES + 1;
+    cache.forEach((_, k) => {
+      if (excess-- > 0) cache.delete(k);
+    });
+  }
+
+  const value = load();
+  cache.set(key, { value, expiresAt: now + CACHE_TTL_MS });
+  value.catch(() => cache.delete(key));
+  return value;
+}
+
+// الأسبوع يبدأ يوم الاثنين 00:00 UTC
+function windowStart(window: LeaderboardWindow): Date | undefined {
+  const today = startOfUtcDay();
+  if (window === "daily") return today;
+  if (window === "weekly") {
+    const daysSinceMonday = (today.getUTCDay() + 6) % 7;
+    return new Date(today.getTime() - daysSinceMonday * 24 * 60 * 60 * 1000);
+  }
+  return undefined;
+}
+
+export async function getLeaderboard(options: {
+  gameName?: string;
+  window: LeaderboardWindow;
+  limit: number;
+  userId?: number;
+  friendIds?: number[];
+}): Promise<Leaderboard> {
+  const query: LeaderboardQuery = {
+    gameName: options.gameName,
+    since: windowStart(options.window),
+    userIds: options.friendIds
+  };
+  const scope = options.friendIds ? `friends:${options.userId}` : "all";
+  const key = `${scope}|${options.gameName ?? "*"}|${options.window}`;
+
+  const entries = await cached(`${key}|top${options.limit}`, () => storage.getLeaderboard(query, options.limit));
+
+  let me: LeaderboardEntry | null = null;
+  if (options.userId !== undefined) {
+    me = entries.find(e => e.userId === options.userId)
+      ?? (await cached(`${key}|user${options.userId}`, () => storage.getLeaderboardRank(query, options.userId!))) ?? null;
+  }
+
+  return { window: options.window, entries, me };
+}
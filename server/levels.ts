@@ -0,0 +1,65 @@
+// منحنى المستويات ومصادر نقاط الخبرة - قيم ثابتة يمكن تعديلها من متغيرات البيئة
+
+import type { RewardAmount } from "./gameRules";
+
+function envNumber(name: string, fallback: number): number {
+  const value = process.env[name] ? Number(process.env[name]) : NaN;
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const LEVEL_CURVE = {
+  base: envNumber("LEVEL_XP_BASE", 100),
+  exponent: envNumber("LEVEL_XP_EXPONENT", 1.5),
+  maxLevel: Math.floor(envNumber("MAX_LEVEL", 100))
+};
+
+// مجموع الخبرة اللازم للوصول إلى المستوى: base × (level - 1)^exponent
+export function experienceForLevel(level: number): number {
+  const capped = Math.min(Math.max(1, level), LEVEL_CURVE.maxLevel);
+  return Math.round(LEVEL_CURVE.base * Math.pow(capped - 1, LEVEL_CURVE.exponent));
+}
+
+export function levelForExperience(experience: number): number {
+  let level = 1;
+  while (level < LEVEL_CURVE.maxLevel && experience >= experienceForLevel(level + 1)) {
+    level++;
+  }
+  return level;
+}
+
+export interface LevelProgress {
+  level: number;
+  experience: number;
+  currentLevelXp: number;
+  nextLevelXp: number | null; // null = أعلى مستوى
+}
+
+export function getLevelProgress(level: number, experience: number): LevelProgress {
+  return {
+    level,
+    experience,
+    currentLevelXp: experienceForLevel(level),
+    nextLevelXp: level < LEVEL_CURVE.maxLevel ? experienceForLevel(level + 1) : null
+  };
+}
+
+// مكافأة الوصول لكل مستوى: 50 ذهب × المستوى، ولؤلؤة كل 10 مستويات
+export function levelUpReward(level: number): RewardAmount {
+  return { gold: level * 50, pearls: level % 10 === 0 ? 1 : 0 };
+}
+
+export type XpSource = "game_score" | "match_played" | "match_won" | "daily_activity" | "gift_sent" | "friend_added";
+
+export interface XpRule {
+  amount(value: number): number; // value = النتيجة لـ game_score، وغير مستخدمة لباقي المصادر
+  dailyLimit: number; // أقصى عدد مرات منح الخبرة من هذا المصدر في اليوم (UTC)
+}
+
+export const XP_RULES: Record<XpSource, XpRule> = {
+  game_score: { amount: score => 10 + Math.min(40, Math.floor(score / 500)), dailyLimit: 30 },
+  match_played: { amount: () => 20, dailyLimit: 20 },
+  match_won: { amount: () => 30, dailyLimit: 20 },
+  daily_activity: { amount: () => 50, dailyLimit: 1 },
+  gift_sent: { amount: () => 5, dailyLimit: 10 },
+  friend_added: { amount: () => 20, dailyLimit: 5 }
+};
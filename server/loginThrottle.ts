@@ -0,0 +1,87 @@
+import { storage } from "./storage";
+import type { LoginAttempt } from "@shared/schema";
+
+// عدد المحاولات الفاشلة المسموحة قبل بدء التأخير التصاعدي
+const FREE_ATTEMPTS = process.env.LOGIN_FREE_ATTEMPTS ? parseInt(process.env.LOGIN_FREE_ATTEMPTS) : 3;
+const BACKOFF_BASE_SECONDS = process.env.LOGIN_BACKOFF_BASE_SECONDS ? parseInt(process.env.LOGIN_BACKOFF_BASE_SECONDS) : 2;
+const USER_LOCKOUT_THRESHOLD = process.env.LOGIN_LOCKOUT_THRESHOLD ? parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD) : 10;
+const IP_LOCKOUT_THRESHOLD = process.env.LOGIN_IP_LOCKOUT_THRESHOLD ? parseInt(process.env.LOGIN_IP_LOCKOUT_THRESHOLD) : 50;
+const LOCKOUT_MINUTES = process.env.LOGIN_LOCKOUT_MINUTES ? parseInt(process.env.LOGIN_LOCKOUT_MINUTES) : 15;
+
+export type LoginThrottleCode = "ACCOUNT_LOCKED" | "TOO_MANY_ATTEMPTS";
+
+export class LoginThrottleError extends Error {
+  constructor(public code: LoginThrottleCode, public retryAfterSeconds: number) {
+    super(code === "ACCOUNT_LOCKED"
+      ? "Account temporarily locked after too many failed login attempts"
+      : "Too many failed login attempts, please wait before trying again");
+    this.name = "LoginThrottleError";
+  }
+}
+
+export function usernameKey(username: string): string {
+  return `user:${username.trim().toLowerCase()}`;
+}
+
+function ipKey(ip: string): string {
+  return `ip:${ip}`;
+}
+
+function lockoutMs(): number {
+  return LOCKOUT_MINUTES * 60 * 1000;
+}
+
+// أقرب وقت يُسمح فيه بمحاولة جديدة لهذا المفتاح
+function blockedUntil(attempt: LoginAttempt): number {
+  let until = attempt.lockedUntil ? attempt.lockedUntil.getTime() : 0;
+
+  if (attempt.lastFailedAt && attempt.failedCount > FREE_ATTEMPTS) {
+    const exponent = attempt.failedCount - FREE_ATTEMPTS - 1;
+    const delayMs = Math.min(BACKOFF_BASE_SECONDS * 1000 * 2 ** exponent, lockoutMs());
+    until = Math.max(until, attempt.lastFailedAt.getTime() + delayMs);
+  }
+
+  return until;
+}
+
+export async function assertLoginAllowed(username: string, ip: string | undefined): Promise<void> {
+  const keys = [usernameKey(username)];
+  if (ip) keys.push(ipKey(ip));
+
+  const attempts = await storage.getLoginAttempts(keys);
+  const now = Date.now();
+
+  for (const attempt of attempts) {
+    const until = blockedUntil(attempt);
+    if (until > now) {
+      const locked = !!attempt.lockedUntil && attempt.lockedUntil.getTime() > now;
+      throw new LoginThrottleError(
+        locked && attempt.attemptKey.startsWith("user:") ? "ACCOUNT_LOCKED" : "TOO_MANY_ATTEMPTS",
+        Math.ceil((until - now) / 1000)
+      );
+    }
+  }
+}
+
+export async function recordLoginFailure(username: string, ip: string | undefined): Promise<void> {
+  // المحاولات الأقدم من مدة القفل لا تُحتسب
+  const resetBefore = new Date(Date.now() - lockoutMs());
+  const targets: Array<[string, number]> = [[usernameKey(username), USER_LOCKOUT_THRESHOLD]];
+  if (ip) targets.push([ipKey(ip), IP_LOCKOUT_THRESHOLD]);
+
+  for (const [key, threshold] of targets) {
+    const attempt = await storage.incrementLoginFailures(key, resetBefore);
+    if (attempt.failedCount >= threshold) {
+      await storage.lockLoginKey(key, new Date(Date.now() + lockoutMs()));
+    }
+  }
+}
+
+export async function recordLoginSuccess(username: string): Promise<void> {
+  // لا نمسح عداد الـ IP حتى لا يستطيع المهاجم تصفيره بحساب صحيح يملكه
+  await storage.clearLoginAttempts(usernameKey(username));
+}
+
+export async function unlockAccount(username: string): Promise<boolean> {
+  return storage.clearLoginAttempts(usernameKey(username));
+}
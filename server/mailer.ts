@@ -0,0 +1,113 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import fs from "fs";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export class SmtpTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor(private from: string, options: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    pass?: string;
+  }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+// للتطوير المحلي والاختبارات: يكتب كل رسالة كسطر JSON في ملف، أو يطبعها إن لم يُحدد ملف
+export class FileTransport implements MailTransport {
+  constructor(private filePath?: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    if (!this.filePath) {
+      console.log(`[mail] to=${message.to} subject="${message.subject}"\n${message.text}`);
+      return;
+    }
+
+    const entry = { ...message, sentAt: new Date().toISOString() };
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, JSON.stringify(entry) + "\n");
+  }
+}
+
+function createTransport(): MailTransport {
+  const from = process.env.MAIL_FROM || "INFINITY BOX <no-reply@infinitybox.game>";
+
+  switch (process.env.MAIL_TRANSPORT) {
+    case "smtp":
+      if (!process.env.SMTP_HOST) {
+        throw new Error("SMTP_HOST must be set when MAIL_TRANSPORT=smtp");
+      }
+      return new SmtpTransport(from, {
+        host: process.env.SMTP_HOST,
+        port: process.env.SMTP_PORT ? parseInt(process.env.SMTP_PORT) : 587,
+        secure: process.env.SMTP_SECURE === "true",
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS
+      });
+    case "file":
+      return new FileTransport(process.env.MAIL_FILE || "logs/mail.log");
+    default:
+      return new FileTransport();
+  }
+}
+
+const APP_URL = (process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "");
+
+export const mailer: MailTransport = createTransport();
+
+export async function sendPasswordResetEmail(to: string, username: string, token: string): Promise<void> {
+  const link = `${APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+  await mailer.send({
+    to,
+    subject: "INFINITY BOX - إعادة تعيين كلمة المرور",
+    text: [
+      `مرحباً ${username}،`,
+      "",
+      "طلبت إعادة تعيين كلمة المرور. استخدم الرابط التالي خلال ساعة واحدة:",
+      link,
+      "",
+      "إذا لم تطلب ذلك، يمكنك تجاهل هذه الرسالة.",
+      "",
+      `Hi ${username}, use the link above to reset your password. It expires in one hour.`
+    ].join("\n")
+  });
+}
+
+export async function sendVerificationEmail(to: string, username: string, token: string): Promise<void> {
+  const link = `${APP_URL}/verify-email?token=${encodeURIComponent(token)}`;
+  await mailer.send({
+    to,
+    subject: "INFINITY BOX - تأكيد البريد الإلكتروني",
+    text: [
+      `مرحباً ${username}،`,
+      "",
+      "يرجى تأكيد بريدك الإلكتروني عبر الرابط التالي:",
+      link,
+      "",
+      `Hi ${username}, please confirm your email address using the link above.`
+    ].join("\n")
+  });
+}
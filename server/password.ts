@@ -0,0 +1,30 @@
+import bcrypt from "bcryptjs";
+import { timingSafeEqual } from "crypto";
+
+const BCRYPT_ROUNDS = 10;
+const BCRYPT_HASH_PATTERN = /^\$2[aby]\$\d{2}\$/;
+
+export function isPasswordHash(value: string): boolean {
+  return BCRYPT_HASH_PATTERN.test(value);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+// يدعم الصفوف القديمة التي خُزنت فيها كلمة المرور كنص عادي،
+// ويُعلم المستدعي بضرورة إعادة التشفير بعد التحقق الناجح
+export async function verifyPassword(
+  password: string,
+  stored: string
+): Promise<{ valid: boolean; needsRehash: boolean }> {
+  if (isPasswordHash(stored)) {
+    const valid = await bcrypt.compare(password, stored);
+    return { valid, needsRehash: valid && bcrypt.getRounds(stored) < BCRYPT_ROUNDS };
+  }
+
+  const given = Buffer.from(password);
+  const expected = Buffer.from(stored);
+  const valid = given.length === expected.length && timingSafeEqual(given, expected);
+  return { valid, needsRehash: valid };
+}
@@ -0,0 +1,131 @@
+import type { IncomingHttpHeaders } from "http";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { PurchaseOrder } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer; // الجسم الخام كما وصل - مطلوب للتحقق من توقيع الـ webhook
+    }
+  }
+}
+
+export interface GoldPackage {
+  id: string;
+  gold: number;
+  priceCents: number;
+  currency: string;
+  label: string;
+}
+
+// الباقات يحددها الخادم فقط؛ العميل يرسل معرف الباقة وليس الكمية
+export const GOLD_PACKAGES: GoldPackage[] = [
+  { id: "gold_1000", gold: 1000, priceCents: 99, currency: "USD", label: "1,000 ذهب" },
+  { id: "gold_5000", gold: 5000, priceCents: 449, currency: "USD", label: "5,000 ذهب" },
+  { id: "gold_12000", gold: 12000, priceCents: 999, currency: "USD", label: "12,000 ذهب" },
+  { id: "gold_30000", gold: 30000, priceCents: 2299, currency: "USD", label: "30,000 ذهب" }
+];
+
+export function getGoldPackage(packageId: string): GoldPackage | undefined {
+  return GOLD_PACKAGES.find(p => p.id === packageId);
+}
+
+export interface CheckoutSession {
+  providerReference: string;
+  checkoutUrl: string | null; // null = لا توجد صفحة دفع خارجية (المزود التجريبي)
+}
+
+export interface PaymentEvent {
+  providerReference: string;
+  status: "paid" | "failed";
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  createCheckout(order: PurchaseOrder): Promise<CheckoutSession>;
+  // يرمي WebhookSignatureError إذا كان التوقيع غير صالح
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent;
+}
+
+export class WebhookSignatureError extends Error {
+  constructor(message = "Invalid webhook signature") {
+    super(message);
+    this.name = "WebhookSignatureError";
+  }
+}
+
+// مزود محلي للتطوير والاختبارات: يوقع الأحداث بـ HMAC-SHA256 بنفس طريقة المزودات الحقيقية
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = "mock";
+  static readonly SIGNATURE_HEADER = "x-mock-signature";
+
+  constructor(private secret: string) {}
+
+  async createCheckout(order: PurchaseOrder): Promise<CheckoutSession> {
+    return {
+      providerReference: `mock_${order.id}_${randomBytes(8).toString("hex")}`,
+      checkoutUrl: null
+    };
+  }
+
+  sign(payload: string | Buffer): string {
+    return createHmac("sha256", this.secret).update(payload).digest("hex");
+  }
+
+  // يبني جسم الحدث وتوقيعه كما يرسلهما المزود - يستخدم في الاختبارات
+  buildWebhook(event: PaymentEvent): { body: string; signature: string } {
+    const body = JSON.stringify({ reference: event.providerReference, status: event.status });
+    return { body, signature: this.sign(body) };
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent {
+    const signature = headers[MockPaymentProvider.SIGNATURE_HEADER];
+    if (typeof signature !== "string") {
+      throw new WebhookSignatureError("Missing webhook signature");
+    }
+
+    const expected = Buffer.from(this.sign(rawBody));
+    const given = Buffer.from(signature);
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      throw new WebhookSignatureError();
+    }
+
+    const event = JSON.parse(rawBody.toString("utf8"));
+    if (typeof event.reference !== "string" || (event.status !== "paid" && event.status !== "failed")) {
+      throw new Error("Malformed webhook payload");
+    }
+    return { providerReference: event.reference, status: event.status };
+  }
+}
+
+// المزود التجريبي يمنح ذهباً لأي حدث موقع، لذلك يُفعّل صراحةً فقط وبسر يحدده المشغل
+export function createMockProviderFromEnv(): MockPaymentProvider | undefined {
+  if (process.env.ENABLE_MOCK_PAYMENTS !== "true") {
+    return undefined;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("ENABLE_MOCK_PAYMENTS must not be set in production");
+  }
+  const secret = process.env.MOCK_PAYMENT_WEBHOOK_SECRET;
+  if (!secret || secret === "change-me") {
+    throw new Error("MOCK_PAYMENT_WEBHOOK_SECRET must be set to your own secret when ENABLE_MOCK_PAYMENTS=true");
+  }
+  return new MockPaymentProvider(secret);
+}
+
+function createProviders(): Map<string, PaymentProvider> {
+  const providers = new Map<string, PaymentProvider>();
+
+  const mock = createMockProviderFromEnv();
+  if (mock) {
+    providers.set(mock.name, mock);
+  }
+
+  return providers;
+}
+
+export const paymentProviders = createProviders();
+
+export function getPaymentProvider(name?: string): PaymentProvider | undefined {
+  return paymentProviders.get(name || process.env.PAYMENT_PROVIDER || "mock");
+}
@@ -0,0 +1,66 @@
+import type { Request, Response, NextFunction } from "express";
+import { USER_ROLES, type User, type UserRole } from "@shared/schema";
+
+export type Permission =
+  | "admin.access"
+  | "users.view"
+  | "users.edit"
+  | "users.sessions"
+  | "roles.assign"
+  | "images.moderate"
+  | "economy.view"
+  | "economy.adjust"
+  | "economy.configure"
+  | "economy.approve"
+  | "shop.manage"
+  | "games.review"
+  | "withdrawals.review";
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  "player": [],
+  "moderator": ["admin.access", "users.view", "images.moderate", "games.review"],
+  "support": ["admin.access", "users.view", "users.edit", "users.sessions", "economy.adjust"],
+  "economy-admin": ["admin.access", "users.view", "economy.view", "economy.adjust", "economy.configure", "economy.approve", "shop.manage", "withdrawals.review"],
+  "super-admin": [
+    "admin.access",
+    "users.view",
+    "users.edit",
+    "users.sessions",
+    "roles.assign",
+    "images.moderate",
+    "economy.view",
+    "economy.adjust",
+    "economy.configure",
+    "economy.approve",
+    "shop.manage",
+    "games.review",
+    "withdrawals.review"
+  ]
+};
+
+// الحسابات القديمة التي لديها isAdmin فقط تُعامل كمدير عام حتى يُسند لها دور
+export function getUserRole(user: Pick<User, "role" | "isAdmin">): UserRole {
+  const role = USER_ROLES.find(r => r === user.role);
+  if (role && role !== "player") return role;
+  return user.isAdmin ? "super-admin" : "player";
+}
+
+export function getPermissions(user: Pick<User, "role" | "isAdmin">): Permission[] {
+  return ROLE_PERMISSIONS[getUserRole(user)];
+}
+
+export function hasPermission(user: Pick<User, "role" | "isAdmin">, permission: Permission): boolean {
+  return getPermissions(user).includes(permission);
+}
+
+// يجب استخدامه بعد requireAuth؛ يتطلب جميع الصلاحيات المذكورة
+export function requirePermission(...permissions: Permission[]) {
+  return (req: Request<any>, res: Response, next: NextFunction) => {
+    const user = req.user;
+    const missing = user ? permissions.find(p => !hasPermission(user, p)) : permissions[0];
+    if (missing) {
+      return res.status(403).json({ message: "Permission denied", code: "FORBIDDEN", permission: missing });
+    }
+    next();
+  };
+}
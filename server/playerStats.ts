@@ -0,0 +1,111 @@
+import { storage, type GameScoreSummary } from "./storage";
+import type { MatchResult, StatsVisibility, User } from "@shared/schema";
+
+export interface GameStats extends GameScoreSummary {
+  matchesPlayed: number;
+  wins: number;
+  winRate: number | null; // null = لم يلعب مباريات جماعية
+}
+
+export interface PlayerStats {
+  userId: number;
+  gamesPlayed: number;
+  totalPlayTimeMs: number;
+  games: GameStats[];
+  multiplayer: {
+    matchesPlayed: number;
+    wins: number;
+    winRate: number | null;
+    currentWinStreak: number;
+    longestWinStreak: number;
+  };
+  streaks: {
+    currentDailyStreak: number; // أيام متتالية حتى اليوم أو الأمس
+    longestDailyStreak: number;
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function winRate(wins: number, played: number): number | null {
+  return played > 0 ? Math.round((wins / played) * 1000) / 10 : null;
+}
+
+// days: تواريخ YYYY-MM-DD من الأحدث للأقدم بدون تكرار
+function dailyStreaks(days: string[], now = new Date()): { current: number; longest: number } {
+  const dayNumbers = days.map(d => Math.floor(Date.parse(`${d}T00:00:00Z`) / DAY_MS));
+  const today = Math.floor(now.getTime() / DAY_MS);
+
+  let longest = 0;
+  let run = 0;
+  let current = 0;
+  for (let i = 0; i < dayNumbers.length; i++) {
+    run = i > 0 && dayNumbers[i - 1] - dayNumbers[i] === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    if (run === i + 1) current = run; // ما زلنا في السلسلة التي تبدأ بأحدث يوم
+  }
+
+  // السلسلة الحالية تنقطع إذا لم يلعب اليوم ولا الأمس
+  if (dayNumbers.length === 0 || today - dayNumbers[0] > 1) current = 0;
+  return { current, longest };
+}
+
+// matches: مرتبة من الأقدم للأحدث
+function winStreaks(matches: MatchResult[]): { current: number; longest: number } {
+  let current = 0;
+  let longest = 0;
+  for (const match of matches) {
+    current = match.isWinner ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return { current, longest };
+}
+
+export async function getPlayerStats(userId: number): Promise<PlayerStats> {
+  const [summaries, days, matches] = await Promise.all([
+    storage.getGameScoreSummary(userId),
+    storage.getPlayDays(userId),
+    storage.getMatchResults(userId)
+  ]);
+
+  const games = summaries.map(summary => {
+    const gameMatches = matches.filter(m => m.gameType === summary.gameName);
+    const wins = gameMatches.filter(m => m.isWinner).length;
+    return { ...summary, matchesPlayed: gameMatches.length, wins, winRate: winRate(wins, gameMatches.length) };
+  });
+
+  const wins = matches.filter(m => m.isWinner).length;
+  const winStreak = winStreaks(matches);
+  const dailyStreak = dailyStreaks(days);
+
+  return {
+    userId,
+    gamesPlayed: games.reduce((sum, g) => sum + g.gamesPlayed, 0),
+    totalPlayTimeMs: games.reduce((sum, g) => sum + g.totalPlayTimeMs, 0),
+    games,
+    multiplayer: {
+      matchesPlayed: matches.length,
+      wins,
+      winRate: winRate(wins, matches.length),
+      currentWinStreak: winStreak.current,
+      longestWinStreak: winStreak.longest
+    },
+    streaks: {
+      currentDailyStreak: dailyStreak.current,
+      longestDailyStreak: dailyStreak.longest
+    }
+  };
+}
+
+// المستخدم يرى إحصائياته دائماً، والمشرفون بصلاحية users.view يرون الجميع
+export async function canViewStats(viewer: User | undefined, target: User, canViewAll: boolean): Promise<boolean> {
+  if (viewer && (viewer.id === target.id || canViewAll)) return true;
+
+  const visibility = target.statsVisibility as StatsVisibility;
+  if (visibility === "public") return true;
+  if (visibility === "friends" && viewer) {
+    const friends = await storage.getFriends(target.id);
+    return friends.some(f => f.id === viewer.id);
+  }
+  return false;
+}
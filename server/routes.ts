@@ -1,8 +1,28 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer } from "ws";
-import { storage } from "./storage";
-import { insertUserSchema, loginSchema, type User } from "@shared/schema";
+import { storage, InsufficientBalanceError, ShopPurchaseError, AdminAdjustmentError } from "./storage";
+import { requireAuth, optionalAuth, requireRegistered, startSession, refreshSession, serializeSession, extractToken, authenticateToken, issueOneTimeToken, consumeOneTimeToken, AuthError } from "./auth";
+import { hashPassword } from "./password";
+import { idempotent, IDEMPOTENCY_KEY_TTL_HOURS } from "./idempotency";
+import { findGameRule, computeGameReward, assertPlausibleScore, startOfUtcDay, ScoreRejectedError } from "./gameRules";
+import { startGameSession, resolveGameSession } from "./gameSessions";
+import { getLeaderboard, LEADERBOARD_WINDOWS, type LeaderboardWindow } from "./leaderboards";
+import { getPlayerStats, canViewStats } from "./playerStats";
+import { resolveGameSettings, updateGameSettings } from "./gameSettings";
+import { checkAchievements, getAchievementProgress } from "./achievements";
+import { awardExperience } from "./experience";
+import { getLevelProgress } from "./levels";
+import { ExchangeError, mergeEconomyConfig, quoteExchange, vipLevelsForPearls } from "./economy";
+import { DailyRewardError, dailyRewardForStreak, getDailyRewardStatus, isValidTimeZone } from "./dailyRewards";
+import { WITHDRAWAL_RULES, WithdrawalError } from "./withdrawals";
+import { EXPORT_MAX_ROWS, buildTransactionQuery, decodeCursor, encodeCursor, transactionsToCsv } from "./transactionHistory";
+import { GOLD_PACKAGES, getGoldPackage, getPaymentProvider, WebhookSignatureError } from "./payments";
+import { requirePermission, hasPermission, getUserRole, getPermissions, type Permission } from "./permissions";
+import { sendPasswordResetEmail, sendVerificationEmail } from "./mailer";
+import { authenticateUpgrade, bindSocketIdentity, getSocketIdentity } from "./socketAuth";
+import { assertLoginAllowed, recordLoginFailure, recordLoginSuccess, unlockAccount, LoginThrottleError } from "./loginThrottle";
+import { insertUserSchema, upgradeGuestSchema, createPurchaseOrderSchema, startGameSchema, submitScoreSchema, reviewGameFlagSchema, updateStatsVisibilitySchema, updateGameSettingsSchema, claimDailyRewardSchema, createWithdrawalSchema, reviewWithdrawalSchema, exchangeCurrencySchema, updateEconomyConfigSchema, createAdminAdjustmentSchema, decideAdminAdjustmentSchema, transactionHistoryQuerySchema, shopItemSchema, updateShopItemSchema, purchaseShopItemSchema, loginSchema, forgotPasswordSchema, resetPasswordSchema, updateRoleSchema, type User, type GameSession, type WithdrawalStatus, type Transaction } from "@shared/schema";
 import { GameSyncManager } from "./gameSync";
 import { VoiceChatManager } from "./voiceChat";
 
@@ -12,39 +32,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { username, password } = loginSchema.parse(req.body);
       
+      await assertLoginAllowed(username, req.ip);
+      
       const user = await storage.authenticateUser(username, password);
       if (!user) {
+        await recordLoginFailure(username, req.ip);
         return res.status(401).json({ message: "Invalid username or password" });
       }
+      await recordLoginSuccess(username);
 
-      // Generate new session token
-      const sessionToken = `${Date.now()}-${Math.random().toString(36)}`;
-      const token = Buffer.from(`${user.id}:${user.username}:${sessionToken}`).toString('base64');
-      
-      // Update user with new session token (this will invalidate other sessions)
-      await storage.updateUser(user.id, { 
-        activeSessionToken: sessionToken,
-        status: 'online',
-        lastActive: new Date()
-      });
+      // Open a session for this device (other devices stay signed in)
+      const { token, refreshToken, expiresIn } = await startSession(user, req);
+      // خبرة النشاط اليومي - الحد اليومي يمنع منحها أكثر من مرة في اليوم
+      void awardExperience(user.id, "daily_activity");
       
       res.json({
         token,
+        refreshToken,
+        expiresIn,
         user: {
           id: user.id,
           username: user.username,
           email: user.email,
           avatar: user.avatar,
-          isAdmin: user.isAdmin,
+          isAdmin: hasPermission(user, 'admin.access'),
+          role: getUserRole(user),
           coins: user.coins,
           level: user.level,
           experience: user.experience,
+          vipLevel: user.vipLevel,
           status: user.status
         },
-        isAdmin: user.isAdmin,
+        isAdmin: hasPermission(user, 'admin.access'),
         username: user.username
       });
     } catch (error: any) {
+      if (error instanceof LoginThrottleError) {
+        res.set("Retry-After", String(error.retryAfterSeconds));
+        return res.status(429).json({
+          message: error.message,
+          code: error.code,
+          retryAfter: error.retryAfterSeconds
+        });
+      }
       console.error("Login error:", error);
       res.status(400).json({ 
         message: "Invalid request data",
@@ -59,11 +89,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const user = await storage.createUser(userData);
       
-      // Simple token (in production, use JWT)
-      const token = Buffer.from(`${user.id}:${user.username}`).toString('base64');
+      if (user.email) {
+        issueOneTimeToken(user.id, "email_verification", user.email)
+          .then(token => sendVerificationEmail(user.email!, user.username, token))
+          .catch(error => console.error("Error sending verification email:", error));
+      }
+      
+      const { token, refreshToken, expiresIn } = await startSession(user, req);
       
       res.status(201).json({
         token,
+        refreshToken,
+        expiresIn,
         user: {
           id: user.id,
           playerId: user.playerId,
@@ -76,6 +113,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           pearls: user.pearls,
           level: user.level,
           experience: user.experience,
+          vipLevel: user.vipLevel,
           status: user.status
         },
         isAdmin: user.isAdmin,
@@ -98,19 +136,206 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Guest play - a temporary account that can be upgraded later without losing progress
+  app.post("/api/auth/guest", async (req, res) => {
+    try {
+      const user = await storage.createGuestUser();
+      const { token, refreshToken, expiresIn } = await startSession(user, req);
+
+      res.status(201).json({
+        token,
+        refreshToken,
+        expiresIn,
+        user: {
+          id: user.id,
+          playerId: user.playerId,
+          username: user.username,
+          avatar: user.avatar,
+          isGuest: true,
+          coins: user.coins,
+          goldCoins: user.goldCoins,
+          pearls: user.pearls,
+          level: user.level,
+          experience: user.experience,
+          vipLevel: user.vipLevel,
+          status: user.status
+        },
+        isAdmin: false,
+        username: user.username,
+        isGuest: true,
+        welcomeBonus: true
+      });
+    } catch (error) {
+      console.error("Guest login error:", error);
+      res.status(500).json({ message: "Error creating guest account" });
+    }
+  });
+
+  app.post("/api/auth/upgrade", requireAuth, async (req, res) => {
+    try {
+      if (!req.user!.isGuest) {
+        return res.status(400).json({ message: "Account is already registered", code: "NOT_GUEST" });
+      }
+
+      const data = upgradeGuestSchema.parse(req.body);
+      const user = await storage.upgradeGuestUser(req.user!.id, data);
+
+      issueOneTimeToken(user.id, "email_verification", data.email)
+        .then(token => sendVerificationEmail(data.email, user.username, token))
+        .catch(error => console.error("Error sending verification email:", error));
+
+      res.json({
+        message: "Account upgraded",
+        user: {
+          id: user.id,
+          playerId: user.playerId,
+          username: user.username,
+          email: user.email,
+          emailVerified: user.emailVerified,
+          isGuest: false,
+          goldCoins: user.goldCoins,
+          pearls: user.pearls,
+          level: user.level
+        }
+      });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid request data", error: error.message });
+      }
+      if (error.message === 'البريد الإلكتروني مستخدم مسبقاً') {
+        return res.status(400).json({ message: "Email already exists" });
+      }
+      if (error.message === 'اسم المستخدم مستخدم مسبقاً') {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+      if (error.message === 'Account is not a guest account') {
+        return res.status(400).json({ message: "Account is already registered", code: "NOT_GUEST" });
+      }
+      console.error("Guest upgrade error:", error);
+      res.status(500).json({ message: "Error upgrading account" });
+    }
+  });
+
+  // Exchange a refresh token for a new access token (the refresh token is rotated)
+  app.post("/api/auth/refresh", async (req, res) => {
+    try {
+      const { refreshToken } = req.body;
+      if (!refreshToken || typeof refreshToken !== 'string') {
+        return res.status(400).json({ message: "Refresh token is required" });
+      }
+
+      const tokens = await refreshSession(refreshToken);
+      res.json(tokens);
+    } catch (error: any) {
+      if (error instanceof AuthError) {
+        return res.status(error.status).json({ message: error.message, code: error.code });
+      }
+      console.error("Refresh error:", error);
+      res.status(500).json({ message: "Error refreshing token" });
+    }
+  });
+
+  // Password reset - always answers the same way so emails can't be probed
+  app.post("/api/auth/forgot-password", async (req, res) => {
+    try {
+      const { email } = forgotPasswordSchema.parse(req.body);
+
+      // The email is sent in the background so the response time doesn't reveal whether the account exists
+      const user = await storage.getUserByEmail(email);
+      if (user && user.email) {
+        const { id, username, email: to } = user;
+        void issueOneTimeToken(id, "password_reset")
+          .then(token => sendPasswordResetEmail(to, username, token))
+          .catch(error => console.error("Error sending password reset email:", error));
+      }
+
+      res.json({ message: "If an account with that email exists, a reset link has been sent" });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid request data", error: error.message });
+      }
+      console.error("Forgot password error:", error);
+      res.status(500).json({ message: "Error requesting password reset" });
+    }
+  });
+
+  app.post("/api/auth/reset-password", async (req, res) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+
+      const resetToken = await consumeOneTimeToken("password_reset", token);
+      if (!resetToken) {
+        return res.status(400).json({ message: "Invalid or expired token", code: "INVALID_TOKEN" });
+      }
+
+      await storage.updateUser(resetToken.userId, { password: await hashPassword(password) });
+      // Sign out every device that may have been using the old password
+      await storage.revokeUserSessions(resetToken.userId);
+
+      res.json({ message: "Password has been reset" });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid request data", error: error.message });
+      }
+      console.error("Reset password error:", error);
+      res.status(500).json({ message: "Error resetting password" });
+    }
+  });
+
+  // Email verification
+  app.post("/api/auth/verify-email/request", requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      if (!user.email) {
+        return res.status(400).json({ message: "No email on this account" });
+      }
+      if (user.emailVerified) {
+        return res.status(400).json({ message: "Email already verified" });
+      }
+
+      const token = await issueOneTimeToken(user.id, "email_verification", user.email);
+      await sendVerificationEmail(user.email, user.username, token);
+
+      res.json({ message: "Verification email sent" });
+    } catch (error) {
+      console.error("Error sending verification email:", error);
+      res.status(500).json({ message: "Error sending verification email" });
+    }
+  });
+
+  app.post("/api/auth/verify-email", async (req, res) => {
+    try {
+      const { token } = req.body;
+      if (!token || typeof token !== 'string') {
+        return res.status(400).json({ message: "Token is required" });
+      }
+
+      const verification = await consumeOneTimeToken("email_verification", token);
+      const user = verification ? await storage.getUser(verification.userId) : undefined;
+      // The email may have changed since the link was sent
+      if (!verification || !user || user.email !== verification.email) {
+        return res.status(400).json({ message: "Invalid or expired token", code: "INVALID_TOKEN" });
+      }
+
+      await storage.updateUser(user.id, { emailVerified: true, emailVerifiedAt: new Date() });
+      res.json({ message: "Email verified", emailVerified: true });
+    } catch (error) {
+      console.error("Error verifying email:", error);
+      res.status(500).json({ message: "Error verifying email" });
+    }
+  });
+
   // Logout route
   app.post("/api/auth/logout", async (req, res) => {
     try {
-      const token = req.headers.authorization?.replace('Bearer ', '');
+      const token = extractToken(req);
       if (token) {
-        const decoded = Buffer.from(token, 'base64').toString();
-        const [userId] = decoded.split(':');
+        // An expired access token is still good enough to sign out with
+        const { user, session } = await authenticateToken(token, { allowExpired: true });
         
-        // Clear session token and set status to offline
-        await storage.updateUser(parseInt(userId), { 
-          activeSessionToken: null,
-          status: 'offline'
-        });
+        // Revoke this device's session and set status to offline
+        await storage.revokeSession(user.id, session.id);
+        await storage.updateUser(user.id, { status: 'offline' });
       }
       
       res.json({ message: "Logged out successfully" });
@@ -119,90 +344,420 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // User routes
-  app.get("/api/user", async (req, res) => {
+  // Session management (multi-device)
+  app.get("/api/auth/sessions", requireAuth, async (req, res) => {
     try {
-      const token = req.headers.authorization?.replace('Bearer ', '');
-      if (!token) {
-        return res.status(401).json({ message: "No token provided" });
-      }
+      const sessions = await storage.getUserSessions(req.user!.id);
+      res.json(sessions.map(session => serializeSession(session, req.authSession!.id)));
+    } catch (error) {
+      console.error("Error getting sessions:", error);
+      res.status(500).json({ message: "Error getting sessions" });
+    }
+  });
 
-      const decoded = Buffer.from(token, 'base64').toString();
-      const [userId, username, sessionToken] = decoded.split(':');
-      
-      const user = await storage.getUser(parseInt(userId));
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+  app.delete("/api/auth/sessions/:sessionId", requireAuth, async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.sessionId);
+      const success = await storage.revokeSession(req.user!.id, sessionId);
+      if (!success) {
+        return res.status(404).json({ message: "Session not found" });
       }
+      res.json({ success });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Error revoking session" });
+    }
+  });
 
-      // Check if session is still valid (not logged in from another device)
-      if (user.activeSessionToken !== sessionToken) {
-        return res.status(401).json({ 
-          message: "Session expired - logged in from another device",
-          code: "MULTIPLE_LOGIN"
-        });
-      }
+  app.post("/api/auth/sessions/revoke-others", requireAuth, async (req, res) => {
+    try {
+      const revoked = await storage.revokeUserSessions(req.user!.id, req.authSession!.id);
+      res.json({ success: true, revoked });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ message: "Error revoking sessions" });
+    }
+  });
+
+  // User routes
+  app.get("/api/user", requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
 
       res.json({
         id: user.id,
         playerId: user.playerId,
         username: user.username,
         email: user.email,
+        emailVerified: user.emailVerified,
+        isGuest: user.isGuest,
         avatar: user.avatar,
-        isAdmin: user.isAdmin,
+        isAdmin: hasPermission(user, 'admin.access'),
+        role: getUserRole(user),
+        permissions: getPermissions(user),
         coins: user.coins,
         level: user.level,
         experience: user.experience,
+        vipLevel: user.vipLevel,
         status: user.status
       });
     } catch (error) {
-      res.status(401).json({ message: "Invalid token" });
+      console.error("Error getting user:", error);
+      res.status(500).json({ message: "Error getting user" });
     }
   });
 
   // Game routes
-  app.post("/api/game/score", async (req, res) => {
+  // Each round starts with a server-issued, signed session; the score is accepted once per session
+  app.post("/api/game/start", requireAuth, async (req, res) => {
     try {
-      const token = req.headers.authorization?.replace('Bearer ', '');
-      if (!token) {
-        return res.status(401).json({ message: "No token provided" });
+      const { gameName } = startGameSchema.parse(req.body);
+      const rule = findGameRule(gameName);
+      if (!rule) {
+        return res.status(400).json({ message: "Unknown game", code: "UNKNOWN_GAME" });
       }
 
-      const decoded = Buffer.from(token, 'base64').toString();
-      const [userId] = decoded.split(':');
-      
-      const { gameName, score, level, goldEarned, pearlsEarned } = req.body;
-      
-      if (!gameName || score === undefined) {
-        return res.status(400).json({ message: "Game name and score are required" });
+      const session = await startGameSession(req.user!.id, rule.gameId);
+      res.status(201).json({ ...session, gameName: rule.gameId });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid request data", error: error.message });
       }
+      console.error("Error starting game session:", error);
+      res.status(500).json({ message: "Error starting game" });
+    }
+  });
 
-      await storage.saveGameScore(parseInt(userId), gameName, score, level || 1);
-      
-      // Update currencies if provided
-      if (goldEarned || pearlsEarned) {
-        await storage.updateCurrency(parseInt(userId), goldEarned || 0, pearlsEarned || 0);
-      }
-      
-      // Get updated user data
-      const user = await storage.getUser(parseInt(userId));
+  // Rewards are computed from the score by the game's rule; goldEarned/pearlsEarned from the client are ignored
+  app.post("/api/game/score", requireAuth, async (req, res) => {
+    const userId = req.user!.id;
+    let data: { sessionToken: string; gameName: string; score: number; level?: number };
+    try {
+      data = submitScoreSchema.parse(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ message: "Invalid request data", error: error.message });
+    }
+
+    const rule = findGameRule(data.gameName);
+    if (!rule) {
+      return res.status(400).json({ message: "Unknown game", code: "UNKNOWN_GAME" });
+    }
+
+    let session: GameSession | undefined;
+    let elapsedMs: number | undefined;
+    try {
+      session = await resolveGameSession(userId, rule.gameId, data.sessionToken);
+      elapsedMs = Date.now() - session.startedAt.getTime();
+      assertPlausibleScore(rule, data.score, elapsedMs);
+
+      const playedLevel = data.level ?? 1;
+      let capped = false;
+      const result = await storage.recordGameScore(
+        userId,
+        rule.gameId,
+        data.score,
+        playedLevel,
+        (earnedToday) => {
+          const reward = computeGameReward(rule, data.score, playedLevel, earnedToday);
+          capped = reward.capped;
+          return reward;
+        },
+        startOfUtcDay(),
+        session.id,
+        elapsedMs
+      );
+      const achievements = await checkAchievements(userId, "game_score");
+      const experience = await awardExperience(userId, "game_score", {
+        value: data.score,
+        referenceType: "game_score",
+        referenceId: result.gameScore.id
+      });
       
       res.json({ 
         success: true, 
         message: "Score saved successfully",
-        goldCoins: user?.goldCoins || 0,
-        pearls: user?.pearls || 0
+        scoreId: result.gameScore.id,
+        reward: { ...result.reward, capped },
+        goldCoins: result.user.goldCoins || 0,
+        pearls: result.user.pearls || 0,
+        achievements,
+        experience: experience
+          ? { gained: experience.xpGained, previousLevel: experience.previousLevel, ...getLevelProgress(experience.level, experience.user.experience || 0) }
+          : null
       });
     } catch (error) {
+      if (error instanceof ScoreRejectedError) {
+        try {
+          // الجلسة المرفوضة لا يمكن استخدامها مرة أخرى
+          if (session && error.reason !== "SESSION_ALREADY_SUBMITTED") {
+            await storage.rejectGameSession(session.id);
+          }
+          await storage.createGameScoreFlag({
+            userId,
+            gameSessionId: session?.id,
+            gameName: rule.gameId,
+            score: data.score,
+            elapsedMs,
+            reason: error.reason
+          });
+        } catch (flagError) {
+          console.error("Error flagging rejected score:", flagError);
+        }
+        return res.status(422).json({ message: error.message, code: error.reason });
+      }
       console.error("Error saving score:", error);
       res.status(500).json({ message: "Error saving score" });
     }
   });
 
+  // Anti-cheat review of rejected score submissions
+  app.get("/api/admin/game-flags", requireAuth, requirePermission('games.review'), async (req, res) => {
+    try {
+      const status = typeof req.query.status === 'string' ? req.query.status : 'pending';
+      const flags = await storage.getGameScoreFlags(status === 'all' ? undefined : status);
+      res.json({ flags });
+    } catch (error) {
+      console.error("Error getting game flags:", error);
+      res.status(500).json({ message: "Error getting game flags" });
+    }
+  });
+
+  app.put("/api/admin/game-flags/:flagId", requireAuth, requirePermission('games.review'), async (req, res) => {
+    try {
+      const { status, note } = reviewGameFlagSchema.parse(req.body);
+      const flag = await storage.reviewGameScoreFlag(parseInt(req.params.flagId), req.user!.id, status, note);
+      if (!flag) {
+        return res.status(404).json({ message: "Flag not found" });
+      }
+      res.json({ flag });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid request data", error: error.message });
+      }
+      console.error("Error reviewing game flag:", error);
+      res.status(500).json({ message: "Error reviewing game flag" });
+    }
+  });
+
+  // Game settings - ?game=<gameName> reads/writes the overrides for one game on top of the global settings
+  function settingsScope(game: unknown): string | undefined | null {
+    if (game === undefined) return undefined;
+    if (typeof game !== 'string') return null;
+    const gameName = findGameRule(game)?.gameId ?? game;
+    return /^[a-z0-9_-]{1,50}$/.test(gameName) && gameName !== 'global' ? gameName : null;
+  }
+
+  app.get("/api/game/settings", requireAuth, async (req, res) => {
+    try {
+      const gameName = settingsScope(req.query.game);
+      if (gameName === null) {
+        return res.status(400).json({ message: "Invalid game name" });
+      }
+
+      const settings = await resolveGameSettings(req.user!.id, gameName);
+      res.json({ game: gameName ?? null, settings });
+    } catch (error) {
+      console.error("Error getting game settings:", error);
+      res.status(500).json({ message: "Error getting game settings" });
+    }
+  });
+
+  app.put("/api/game/settings", requireAuth, async (req, res) => {
+    try {
+      const gameName = settingsScope(req.query.game);
+      if (gameName === null) {
+        return res.status(400).json({ message: "Invalid game name" });
+      }
+
+      const patch = updateGameSettingsSchema.parse(req.body);
+      const settings = await updateGameSettings(req.user!.id, patch, gameName);
+      res.json({ game: gameName ?? null, settings });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid settings", error: error.message });
+      }
+      console.error("Error updating game settings:", error);
+      res.status(500).json({ message: "Error updating game settings" });
+    }
+  });
+
+  // Level progress
+  app.get("/api/user/level", requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      res.json({ ...getLevelProgress(user.level || 1, user.experience || 0), vipLevel: user.vipLevel });
+    } catch (error) {
+      console.error("Error getting level progress:", error);
+      res.status(500).json({ message: "Error getting level progress" });
+    }
+  });
+
+  // Daily login rewards - the calendar day is taken from the player's IANA timezone (default UTC)
+  app.get("/api/daily-rewards", requireAuth, async (req, res) => {
+    try {
+      const timezone = typeof req.query.timezone === 'string' ? req.query.timezone : 'UTC';
+      if (!isValidTimeZone(timezone)) {
+        return res.status(400).json({ message: "Invalid timezone", code: "INVALID_TIMEZONE" });
+      }
+
+      const userId = req.user!.id;
+      const [last, streakSavers] = await Promise.all([
+        storage.getLastDailyRewardClaim(userId),
+        storage.countStreakSavers(userId)
+      ]);
+      res.json(getDailyRewardStatus(last, streakSavers, timezone));
+    } catch (error) {
+      console.error("Error getting daily reward status:", error);
+      res.status(500).json({ message: "Error getting daily rewards" });
+    }
+  });
+
+  app.post("/api/daily-rewards/claim", requireAuth, async (req, res) => {
+    try {
+      const { timezone = 'UTC', useStreakSaver = false } = claimDailyRewardSchema.parse(req.body ?? {});
+      if (!isValidTimeZone(timezone)) {
+        throw new DailyRewardError("INVALID_TIMEZONE");
+      }
+
+      // A second claim on the same day returns the original claim without a new reward
+      const result = await storage.claimDailyReward(req.user!.id, timezone, useStreakSaver);
+      if (!result.alreadyClaimed) {
+        void awardExperience(req.user!.id, "daily_activity", { referenceType: "daily_reward_claim", referenceId: result.claim.id });
+      }
+      res.json({
+        alreadyClaimed: result.alreadyClaimed,
+        claim: result.claim,
+        reward: dailyRewardForStreak(result.claim.streak),
+        item: result.item ?? null,
+        goldCoins: result.user.goldCoins || 0,
+        pearls: result.user.pearls || 0
+      });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid request data", error: error.message });
+      }
+      if (error instanceof DailyRewardError) {
+        return res.status(error.code === "INVALID_TIMEZONE" ? 400 : 409).json({ message: error.message, code: error.code });
+      }
+      console.error("Error claiming daily reward:", error);
+      res.status(500).json({ message: "Error claiming daily reward" });
+    }
+  });
+
+  // Achievements
+  app.get("/api/achievements", requireAuth, async (req, res) => {
+    try {
+      const progress = await getAchievementProgress(req.user!.id);
+      res.json(progress);
+    } catch (error) {
+      console.error("Error getting achievement progress:", error);
+      res.status(500).json({ message: "Error getting achievements" });
+    }
+  });
+
+  app.get("/api/achievements/me", requireAuth, async (req, res) => {
+    try {
+      const achievements = await storage.getUserAchievements(req.user!.id);
+      res.json({ achievements });
+    } catch (error) {
+      console.error("Error getting user achievements:", error);
+      res.status(500).json({ message: "Error getting achievements" });
+    }
+  });
+
+  // Player statistics
+  app.get("/api/game/stats", requireAuth, async (req, res) => {
+    try {
+      const stats = await getPlayerStats(req.user!.id);
+      res.json({ ...stats, visibility: req.user!.statsVisibility });
+    } catch (error) {
+      console.error("Error getting game stats:", error);
+      res.status(500).json({ message: "Error getting game stats" });
+    }
+  });
+
+  app.put("/api/game/stats/visibility", requireAuth, async (req, res) => {
+    try {
+      const { visibility } = updateStatsVisibilitySchema.parse(req.body);
+      await storage.updateUser(req.user!.id, { statsVisibility: visibility });
+      res.json({ visibility });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid request data", error: error.message });
+      }
+      console.error("Error updating stats visibility:", error);
+      res.status(500).json({ message: "Error updating stats visibility" });
+    }
+  });
+
+  app.get("/api/game/stats/:userId", optionalAuth, async (req, res) => {
+    try {
+      const target = await storage.getUser(parseInt(req.params.userId));
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const viewer = req.user;
+      const allowed = await canViewStats(viewer, target, !!viewer && hasPermission(viewer, 'users.view'));
+      if (!allowed) {
+        return res.status(403).json({ message: "This player's stats are private", code: "STATS_PRIVATE" });
+      }
+
+      const stats = await getPlayerStats(target.id);
+      res.json({ ...stats, username: target.username });
+    } catch (error) {
+      console.error("Error getting game stats:", error);
+      res.status(500).json({ message: "Error getting game stats" });
+    }
+  });
+
+  // Leaderboards: /global (all games), /friends (caller and friends, optional ?game=) or /<gameName>
+  app.get("/api/leaderboards/:board", optionalAuth, async (req, res) => {
+    try {
+      const board = req.params.board;
+      const window = (typeof req.query.window === 'string' ? req.query.window : 'all') as LeaderboardWindow;
+      if (!LEADERBOARD_WINDOWS.includes(window)) {
+        return res.status(400).json({ message: "window must be daily, weekly or all" });
+      }
+      const requestedLimit = parseInt(String(req.query.limit ?? 50));
+      const limit = Math.min(Math.max(Number.isNaN(requestedLimit) ? 50 : requestedLimit, 1), 100);
+      const userId = req.user?.id;
+
+      let gameName: string | undefined;
+      let friendIds: number[] | undefined;
+      if (board === 'friends') {
+        if (userId === undefined) {
+          return res.status(401).json({ message: "No token provided" });
+        }
+        const friends = await storage.getFriends(userId);
+        friendIds = [userId, ...friends.map(f => f.id)];
+        if (typeof req.query.game === 'string') {
+          gameName = findGameRule(req.query.game)?.gameId ?? req.query.game;
+        }
+      } else if (board !== 'global') {
+        gameName = findGameRule(board)?.gameId ?? board;
+      }
+
+      const leaderboard = await getLeaderboard({ gameName, window, limit, userId, friendIds });
+      res.json({ board, gameName: gameName ?? null, ...leaderboard });
+    } catch (error) {
+      console.error("Error getting leaderboard:", error);
+      res.status(500).json({ message: "Error getting leaderboard" });
+    }
+  });
+
+  // Per-user data is read by its owner; staff need the given permission to read anyone else's
+  function canAccessUser(viewer: User, userId: number, permission: Permission): boolean {
+    return viewer.id === userId || hasPermission(viewer, permission);
+  }
+
   // Profile routes
-  app.get("/api/profile/friends/:userId", async (req, res) => {
+  app.get("/api/profile/friends/:userId", requireAuth, async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
+      if (!canAccessUser(req.user!, userId, 'users.view')) {
+        return res.status(403).json({ message: "Permission denied", code: "FORBIDDEN" });
+      }
       const friends = await storage.getFriends(userId);
       res.json(friends);
     } catch (error) {
@@ -211,9 +766,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/profile/friend-requests/:userId", async (req, res) => {
+  app.get("/api/profile/friend-requests/:userId", requireAuth, async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
+      if (!canAccessUser(req.user!, userId, 'users.view')) {
+        return res.status(403).json({ message: "Permission denied", code: "FORBIDDEN" });
+      }
       const requests = await storage.getFriendRequests(userId);
       res.json(requests);
     } catch (error) {
@@ -222,18 +780,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/profile/friend-request", async (req, res) => {
+  app.post("/api/profile/friend-request", requireAuth, async (req, res) => {
     try {
       const { friendId } = req.body;
-      const token = req.headers.authorization?.replace('Bearer ', '');
-      if (!token) {
-        return res.status(401).json({ message: "No token provided" });
+      const userId = req.user!.id;
+      if (friendId === userId) {
+        return res.status(400).json({ message: "Cannot send a friend request to yourself" });
       }
-
-      const decoded = Buffer.from(token, 'base64').toString();
-      const [userId] = decoded.split(':');
-      
-      const friendship = await storage.sendFriendRequest(parseInt(userId), friendId);
+      const friendship = await storage.sendFriendRequest(userId, friendId);
       res.json(friendship);
     } catch (error) {
       console.error("Error sending friend request:", error);
@@ -241,11 +795,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/profile/accept-friend", async (req, res) => {
+  app.post("/api/profile/accept-friend", requireAuth, async (req, res) => {
     try {
-      const { friendshipId } = req.body;
-      const success = await storage.acceptFriendRequest(friendshipId);
-      res.json({ success });
+      const friendshipId = parseInt(req.body.friendshipId);
+      if (!Number.isInteger(friendshipId)) {
+        return res.status(400).json({ message: "Invalid friendship id" });
+      }
+
+      // فقط المستلم يقبل الطلب، والمكافآت تُمنح عند الانتقال من pending إلى accepted فقط
+      const friendship = await storage.acceptFriendRequest(friendshipId, req.user!.id);
+      if (!friendship) {
+        return res.status(404).json({ success: false, message: "Friend request not found" });
+      }
+
+      for (const userId of [friendship.userId, friendship.friendId]) {
+        void checkAchievements(userId, "friend_added");
+        void awardExperience(userId, "friend_added", { referenceType: "friendship", referenceId: friendship.id });
+      }
+      res.json({ success: true });
     } catch (error) {
       console.error("Error accepting friend request:", error);
       res.status(500).json({ message: "Error accepting friend request" });
@@ -253,19 +820,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Check friendship status
-  app.get("/api/friends/check/:friendId", async (req, res) => {
+  app.get("/api/friends/check/:friendId", requireAuth, async (req, res) => {
     try {
       const friendId = parseInt(req.params.friendId);
-      const token = req.headers.authorization?.replace('Bearer ', '');
-      if (!token) {
-        return res.status(401).json({ message: "No token provided" });
-      }
-
-      const decoded = Buffer.from(token, 'base64').toString();
-      const [userId] = decoded.split(':');
-      
+      const userId = req.user!.id;
       // Get user's friends list
-      const friends = await storage.getFriends(parseInt(userId));
+      const friends = await storage.getFriends(userId);
       const isFriend = friends.some(friend => friend.id === friendId);
       
       res.json({ isFriend });
@@ -275,263 +835,777 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Send message to friends only
-  app.post("/api/messages/send", async (req, res) => {
+  // Send message to friends only
+  app.post("/api/messages/send", requireAuth, async (req, res) => {
+    try {
+      const { toUserId, message } = req.body;
+      const fromUserId = req.user!.id;
+      // Check if users are friends
+      const friends = await storage.getFriends(fromUserId);
+      const isFriend = friends.some(friend => friend.id === toUserId);
+      
+      if (!isFriend) {
+        return res.status(403).json({ message: "يمكن إرسال الرسائل للأصدقاء فقط" });
+      }
+      
+      // Send message
+      const sentMessage = await storage.sendMessage(fromUserId, toUserId, message);
+      res.json(sentMessage);
+    } catch (error) {
+      console.error("Error sending message:", error);
+      res.status(500).json({ message: "Error sending message" });
+    }
+  });
+
+  // Get messages between two users (friends only)
+  app.get("/api/messages/:friendId", requireAuth, async (req, res) => {
+    try {
+      const friendId = parseInt(req.params.friendId);
+      const userId = req.user!.id;
+      // Check if users are friends
+      const friends = await storage.getFriends(userId);
+      const isFriend = friends.some(friend => friend.id === friendId);
+      
+      if (!isFriend) {
+        return res.status(403).json({ message: "يمكن مشاهدة الرسائل مع الأصدقاء فقط" });
+      }
+      
+      // Get messages
+      const messages = await storage.getMessages(userId, friendId);
+      res.json(messages);
+    } catch (error) {
+      console.error("Error getting messages:", error);
+      res.status(500).json({ message: "Error getting messages" });
+    }
+  });
+
+  app.get("/api/profile/gifts/:userId", requireAuth, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      if (!canAccessUser(req.user!, userId, 'users.view')) {
+        return res.status(403).json({ message: "Permission denied", code: "FORBIDDEN" });
+      }
+      const gifts = await storage.getUserGifts(userId);
+      res.json(gifts);
+    } catch (error) {
+      console.error("Error getting gifts:", error);
+      res.status(500).json({ message: "Error getting gifts" });
+    }
+  });
+
+  app.post("/api/profile/send-gift", requireAuth, requireRegistered, idempotent, async (req, res) => {
+    try {
+      const { toUserId, giftType, amount, message } = req.body;
+      const fromUserId = req.user!.id;
+
+      if ((giftType === 'gold' || giftType === 'pearls') && (!Number.isInteger(amount) || amount <= 0)) {
+        return res.status(400).json({ message: "Gift amount must be a positive integer" });
+      }
+
+      // Deduct from sender and create the gift in one transaction
+      const gift = await storage.sendGift(fromUserId, toUserId, giftType, amount, message);
+      void checkAchievements(fromUserId, "gift_sent");
+      void awardExperience(fromUserId, "gift_sent", { referenceType: "gift", referenceId: gift.id });
+
+      res.json(gift);
+    } catch (error) {
+      if (error instanceof InsufficientBalanceError) {
+        return res.status(400).json({
+          message: error.currency === 'gold' ? "Insufficient gold" : "Insufficient pearls",
+          code: "INSUFFICIENT_BALANCE"
+        });
+      }
+      console.error("Error sending gift:", error);
+      res.status(500).json({ message: "Error sending gift" });
+    }
+  });
+
+  app.post("/api/profile/claim-gift", requireAuth, async (req, res) => {
+    try {
+      const giftId = parseInt(req.body.giftId);
+      if (!Number.isInteger(giftId)) {
+        return res.status(400).json({ message: "Invalid gift id" });
+      }
+      // Only gifts sent to the caller can be claimed
+      const success = await storage.claimGift(giftId, req.user!.id);
+      res.json({ success });
+    } catch (error) {
+      console.error("Error claiming gift:", error);
+      res.status(500).json({ message: "Error claiming gift" });
+    }
+  });
+
+  app.get("/api/profile/items/:userId", requireAuth, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      if (!canAccessUser(req.user!, userId, 'users.view')) {
+        return res.status(403).json({ message: "Permission denied", code: "FORBIDDEN" });
+      }
+      const items = await storage.getUserItems(userId);
+      res.json(items);
+    } catch (error) {
+      console.error("Error getting items:", error);
+      res.status(500).json({ message: "Error getting items" });
+    }
+  });
+
+  app.post("/api/profile/activate-item", requireAuth, async (req, res) => {
+    try {
+      const itemId = parseInt(req.body.itemId);
+      if (!Number.isInteger(itemId)) {
+        return res.status(400).json({ message: "Invalid item id" });
+      }
+      // Only the caller's own items can be activated
+      const success = await storage.activateItem(req.user!.id, itemId);
+      if (!success) {
+        return res.status(404).json({ success: false, message: "Item not found" });
+      }
+      res.json({ success });
+    } catch (error) {
+      console.error("Error activating item:", error);
+      res.status(500).json({ message: "Error activating item" });
+    }
+  });
+
+  // Item shop - prices, stock and what the player receives come from the catalog
+  app.get("/api/shop/items", async (req, res) => {
+    try {
+      const items = await storage.getShopItems();
+      res.json({ items });
+    } catch (error) {
+      console.error("Error getting shop items:", error);
+      res.status(500).json({ message: "Error getting shop items" });
+    }
+  });
+
+  app.post("/api/shop/items/:itemId/purchase", requireAuth, idempotent, async (req, res) => {
+    try {
+      const { quantity } = purchaseShopItemSchema.parse(req.body ?? {});
+      const result = await storage.purchaseShopItem(req.user!.id, parseInt(req.params.itemId), quantity);
+
+      res.json({
+        success: true,
+        items: result.items,
+        goldCoins: result.user.goldCoins,
+        pearls: result.user.pearls,
+        transactionId: result.transaction.id
+      });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid request data", error: error.message });
+      }
+      if (error instanceof ShopPurchaseError) {
+        const status = error.code === "ITEM_NOT_FOUND" ? 404 : 409;
+        return res.status(status).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof InsufficientBalanceError) {
+        return res.status(400).json({
+          message: error.currency === 'gold' ? "Insufficient gold" : "Insufficient pearls",
+          code: "INSUFFICIENT_BALANCE"
+        });
+      }
+      console.error("Error purchasing shop item:", error);
+      res.status(500).json({ message: "Error purchasing item" });
+    }
+  });
+
+  app.get("/api/admin/shop/items", requireAuth, requirePermission('shop.manage'), async (req, res) => {
+    try {
+      const items = await storage.getShopItems(true);
+      res.json({ items });
+    } catch (error) {
+      console.error("Error getting shop items:", error);
+      res.status(500).json({ message: "Error getting shop items" });
+    }
+  });
+
+  app.post("/api/admin/shop/items", requireAuth, requirePermission('shop.manage'), async (req, res) => {
+    try {
+      const data = shopItemSchema.parse(req.body);
+      const item = await storage.createShopItem(data);
+      res.status(201).json({ item });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid request data", error: error.message });
+      }
+      if (error.code === '23505') {
+        return res.status(409).json({ message: "SKU already exists", code: "DUPLICATE_SKU" });
+      }
+      console.error("Error creating shop item:", error);
+      res.status(500).json({ message: "Error creating shop item" });
+    }
+  });
+
+  app.put("/api/admin/shop/items/:itemId", requireAuth, requirePermission('shop.manage'), async (req, res) => {
+    try {
+      const updates = updateShopItemSchema.parse(req.body);
+      const item = await storage.updateShopItem(parseInt(req.params.itemId), updates);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      res.json({ item });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid request data", error: error.message });
+      }
+      if (error.code === '23505') {
+        return res.status(409).json({ message: "SKU already exists", code: "DUPLICATE_SKU" });
+      }
+      console.error("Error updating shop item:", error);
+      res.status(500).json({ message: "Error updating shop item" });
+    }
+  });
+
+  // Items already bought keep pointing at the catalog row, so delete only stops sales
+  app.delete("/api/admin/shop/items/:itemId", requireAuth, requirePermission('shop.manage'), async (req, res) => {
+    try {
+      const item = await storage.archiveShopItem(parseInt(req.params.itemId));
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      res.json({ item });
+    } catch (error) {
+      console.error("Error archiving shop item:", error);
+      res.status(500).json({ message: "Error archiving shop item" });
+    }
+  });
+
+  // Gold top-ups: the order is created here, gold is credited only by the provider webhook
+  async function openPurchaseOrder(userId: number, packageId: string) {
+    const goldPackage = getGoldPackage(packageId);
+    if (!goldPackage) {
+      return null;
+    }
+
+    const provider = getPaymentProvider();
+    if (!provider) {
+      throw new Error("No payment provider configured");
+    }
+
+    const order = await storage.createPurchaseOrder({
+      userId,
+      packageId: goldPackage.id,
+      goldAmount: goldPackage.gold,
+      priceCents: goldPackage.priceCents,
+      currency: goldPackage.currency,
+      provider: provider.name
+    });
+    const checkout = await provider.createCheckout(order);
+    const updated = await storage.setPurchaseOrderReference(order.id, checkout.providerReference);
+
+    return { order: updated || order, checkoutUrl: checkout.checkoutUrl };
+  }
+
+  app.get("/api/payments/packages", async (req, res) => {
+    res.json({ packages: GOLD_PACKAGES });
+  });
+
+  app.post("/api/payments/orders", requireAuth, requireRegistered, idempotent, async (req, res) => {
+    try {
+      const { packageId } = createPurchaseOrderSchema.parse(req.body);
+      const result = await openPurchaseOrder(req.user!.id, packageId);
+      if (!result) {
+        return res.status(400).json({ message: "Unknown gold package", code: "INVALID_PACKAGE" });
+      }
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid request data", error: error.message });
+      }
+      console.error("Error creating purchase order:", error);
+      res.status(500).json({ message: "Error creating purchase order" });
+    }
+  });
+
+  app.get("/api/payments/orders", requireAuth, async (req, res) => {
+    try {
+      const orders = await storage.getUserPurchaseOrders(req.user!.id);
+      res.json({ orders });
+    } catch (error) {
+      console.error("Error getting purchase orders:", error);
+      res.status(500).json({ message: "Error getting purchase orders" });
+    }
+  });
+
+  app.get("/api/payments/orders/:orderId", requireAuth, async (req, res) => {
+    try {
+      const order = await storage.getPurchaseOrder(parseInt(req.params.orderId));
+      if (!order || order.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      res.json({ order });
+    } catch (error) {
+      console.error("Error getting purchase order:", error);
+      res.status(500).json({ message: "Error getting purchase order" });
+    }
+  });
+
+  // Provider webhooks - the signature is checked against the raw request body
+  app.post("/api/payments/webhooks/:provider", async (req, res) => {
+    try {
+      const provider = getPaymentProvider(req.params.provider);
+      if (!provider) {
+        return res.status(404).json({ message: "Unknown payment provider" });
+      }
+      if (!req.rawBody) {
+        return res.status(400).json({ message: "Missing request body" });
+      }
+
+      const event = provider.parseWebhook(req.rawBody, req.headers);
+      const order = await storage.settlePurchaseOrder(provider.name, event.providerReference, event.status);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      res.json({ received: true, orderId: order.id, status: order.status });
+    } catch (error: any) {
+      if (error instanceof WebhookSignatureError) {
+        return res.status(401).json({ message: error.message, code: "INVALID_SIGNATURE" });
+      }
+      if (error instanceof SyntaxError || error.message === "Malformed webhook payload") {
+        return res.status(400).json({ message: "Malformed webhook payload" });
+      }
+      console.error("Payment webhook error:", error);
+      res.status(500).json({ message: "Error processing webhook" });
+    }
+  });
+
+  // Gold/pearl exchange desk - rates and fees come from the latest economy config version
+  app.get("/api/economy/rates", async (req, res) => {
+    try {
+      const { version, config } = await storage.getEconomyConfig();
+      res.json({
+        version,
+        goldPerPearl: config.goldPerPearl,
+        exchangeFeeBps: config.exchangeFeeBps,
+        exchangeEnabled: config.exchangeEnabled,
+        goldToPearlsEnabled: config.goldToPearlsEnabled
+      });
+    } catch (error) {
+      console.error("Error getting exchange rates:", error);
+      res.status(500).json({ message: "Error getting exchange rates" });
+    }
+  });
+
+  app.get("/api/economy/quote", async (req, res) => {
+    try {
+      const { from, amount } = exchangeCurrencySchema.parse({
+        from: req.query.from,
+        amount: Number(req.query.amount)
+      });
+      const quote = quoteExchange(await storage.getEconomyConfig(), from, amount);
+      res.json({ quote });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid request data", error: error.message });
+      }
+      console.error("Error quoting exchange:", error);
+      res.status(500).json({ message: "Error quoting exchange" });
+    }
+  });
+
+  app.post("/api/economy/exchange", requireAuth, requireRegistered, idempotent, async (req, res) => {
+    try {
+      const { from, amount, expectedVersion } = exchangeCurrencySchema.parse(req.body);
+      const result = await storage.exchangeCurrency(req.user!.id, from, amount, expectedVersion);
+      res.json({
+        quote: result.quote,
+        transactions: result.transactions,
+        goldCoins: result.user.goldCoins || 0,
+        pearls: result.user.pearls || 0
+      });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid request data", error: error.message });
+      }
+      if (error instanceof ExchangeError) {
+        return res.status(error.code === "RATE_CHANGED" ? 409 : 400).json({ message: error.message, code: error.code });
+      }
+      if (error instanceof InsufficientBalanceError) {
+        return res.status(400).json({
+          message: error.currency === 'gold' ? "Insufficient gold" : "Insufficient pearls",
+          code: "INSUFFICIENT_BALANCE"
+        });
+      }
+      console.error("Error exchanging currency:", error);
+      res.status(500).json({ message: "Error exchanging currency" });
+    }
+  });
+
+  app.get("/api/admin/economy/config", requireAuth, requirePermission('economy.view'), async (req, res) => {
+    try {
+      const [current, history] = await Promise.all([
+        storage.getEconomyConfig(),
+        storage.getEconomyConfigHistory(50)
+      ]);
+      res.json({ ...current, history });
+    } catch (error) {
+      console.error("Error getting economy config:", error);
+      res.status(500).json({ message: "Error getting economy config" });
+    }
+  });
+
+  // Saves a new version; earlier versions stay as they were so old transactions keep their rates
+  app.put("/api/admin/economy/config", requireAuth, requirePermission('economy.configure'), async (req, res) => {
+    try {
+      const { expectedVersion, note, config: changes } = updateEconomyConfigSchema.parse(req.body);
+      const current = await storage.getEconomyConfig();
+      const config = mergeEconomyConfig(current.config, changes);
+
+      const saved = await storage.saveEconomyConfig(config, req.user!.id, expectedVersion, note);
+      if (!saved) {
+        return res.status(409).json({ message: "Economy config was changed by someone else", code: "CONFIG_VERSION_CONFLICT", version: current.version });
+      }
+      res.json({ version: saved.version, config, note: saved.note });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid economy config", error: error.message });
+      }
+      if (error.code === '23505') {
+        return res.status(409).json({ message: "Economy config was changed by someone else", code: "CONFIG_VERSION_CONFLICT" });
+      }
+      console.error("Error saving economy config:", error);
+      res.status(500).json({ message: "Error saving economy config" });
+    }
+  });
+
+  // Manual balance adjustments - amounts above the economy config threshold wait for a second admin
+  function adjustmentErrorResponse(res: Response, error: any, action: string) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ message: "Invalid request data", error: error.message });
+    }
+    if (error instanceof AdminAdjustmentError) {
+      const status = { ADJUSTMENT_NOT_FOUND: 404, USER_NOT_FOUND: 404, SELF_APPROVAL: 403, SELF_ADJUSTMENT: 403, NOT_PENDING: 409, INSUFFICIENT_ITEMS: 400 }[error.code];
+      return res.status(status).json({ message: error.message, code: error.code });
+    }
+    if (error instanceof InsufficientBalanceError) {
+      return res.status(400).json({
+        message: error.currency === 'gold' ? "Insufficient gold" : "Insufficient pearls",
+        code: "INSUFFICIENT_BALANCE"
+      });
+    }
+    console.error(`Error ${action} adjustment:`, error);
+    res.status(500).json({ message: `Error ${action} adjustment` });
+  }
+
+  app.post("/api/admin/users/:id/adjustments", requireAuth, requirePermission('economy.adjust'), async (req, res) => {
+    try {
+      const data = createAdminAdjustmentSchema.parse(req.body);
+      const adjustment = await storage.createAdminAdjustment(parseInt(req.params.id), req.user!.id, data);
+      res.status(adjustment.status === "applied" ? 201 : 202).json({ adjustment });
+    } catch (error: any) {
+      adjustmentErrorResponse(res, error, "creating");
+    }
+  });
+
+  app.get("/api/admin/adjustments", requireAuth, requirePermission('economy.adjust'), async (req, res) => {
+    try {
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      const userId = typeof req.query.userId === 'string' ? parseInt(req.query.userId) : undefined;
+      const adjustments = await storage.getAdminAdjustments({ status, userId: Number.isNaN(userId) ? undefined : userId });
+      res.json({ adjustments });
+    } catch (error) {
+      console.error("Error getting adjustments:", error);
+      res.status(500).json({ message: "Error getting adjustments" });
+    }
+  });
+
+  app.post("/api/admin/adjustments/:adjustmentId/approve", requireAuth, requirePermission('economy.approve'), async (req, res) => {
+    try {
+      const { note } = decideAdminAdjustmentSchema.parse(req.body ?? {});
+      const adjustment = await storage.decideAdminAdjustment(parseInt(req.params.adjustmentId), req.user!.id, true, note);
+      res.json({ adjustment });
+    } catch (error: any) {
+      adjustmentErrorResponse(res, error, "approving");
+    }
+  });
+
+  // Approvers can reject any pending adjustment; the admin who asked for it can withdraw their own
+  app.post("/api/admin/adjustments/:adjustmentId/reject", requireAuth, requirePermission('economy.adjust'), async (req, res) => {
     try {
-      const { toUserId, message } = req.body;
-      const token = req.headers.authorization?.replace('Bearer ', '');
-      if (!token) {
-        return res.status(401).json({ message: "No token provided" });
+      const { note } = decideAdminAdjustmentSchema.parse(req.body ?? {});
+      const adjustmentId = parseInt(req.params.adjustmentId);
+      const existing = await storage.getAdminAdjustment(adjustmentId);
+      if (existing && existing.requestedBy !== req.user!.id && !hasPermission(req.user!, 'economy.approve')) {
+        return res.status(403).json({ message: "Permission denied", code: "FORBIDDEN", permission: "economy.approve" });
       }
 
-      const decoded = Buffer.from(token, 'base64').toString();
-      const [fromUserId] = decoded.split(':');
-      
-      // Check if users are friends
-      const friends = await storage.getFriends(parseInt(fromUserId));
-      const isFriend = friends.some(friend => friend.id === toUserId);
-      
-      if (!isFriend) {
-        return res.status(403).json({ message: "يمكن إرسال الرسائل للأصدقاء فقط" });
-      }
-      
-      // Send message
-      const sentMessage = await storage.sendMessage(parseInt(fromUserId), toUserId, message);
-      res.json(sentMessage);
-    } catch (error) {
-      console.error("Error sending message:", error);
-      res.status(500).json({ message: "Error sending message" });
+      const adjustment = await storage.decideAdminAdjustment(adjustmentId, req.user!.id, false, note);
+      res.json({ adjustment });
+    } catch (error: any) {
+      adjustmentErrorResponse(res, error, "rejecting");
     }
   });
 
-  // Get messages between two users (friends only)
-  app.get("/api/messages/:friendId", async (req, res) => {
+  app.get("/api/admin/audit-log", requireAuth, requirePermission('economy.view'), async (req, res) => {
     try {
-      const friendId = parseInt(req.params.friendId);
-      const token = req.headers.authorization?.replace('Bearer ', '');
-      if (!token) {
-        return res.status(401).json({ message: "No token provided" });
-      }
-
-      const decoded = Buffer.from(token, 'base64').toString();
-      const [userId] = decoded.split(':');
-      
-      // Check if users are friends
-      const friends = await storage.getFriends(parseInt(userId));
-      const isFriend = friends.some(friend => friend.id === friendId);
-      
-      if (!isFriend) {
-        return res.status(403).json({ message: "يمكن مشاهدة الرسائل مع الأصدقاء فقط" });
-      }
-      
-      // Get messages
-      const messages = await storage.getMessages(parseInt(userId), friendId);
-      res.json(messages);
+      const targetUserId = typeof req.query.targetUserId === 'string' ? parseInt(req.query.targetUserId) : NaN;
+      const actorId = typeof req.query.actorId === 'string' ? parseInt(req.query.actorId) : NaN;
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '100')) || 100, 1), 500);
+      const entries = await storage.getAdminAuditLog({
+        targetUserId: Number.isNaN(targetUserId) ? undefined : targetUserId,
+        actorId: Number.isNaN(actorId) ? undefined : actorId
+      }, limit);
+      res.json({ entries });
     } catch (error) {
-      console.error("Error getting messages:", error);
-      res.status(500).json({ message: "Error getting messages" });
+      console.error("Error getting audit log:", error);
+      res.status(500).json({ message: "Error getting audit log" });
     }
   });
 
-  app.get("/api/profile/gifts/:userId", async (req, res) => {
+  // Pearl cash-out - pearls are held in escrow from the request until it is paid or rejected
+  app.get("/api/withdrawals/rules", async (req, res) => {
     try {
-      const userId = parseInt(req.params.userId);
-      const gifts = await storage.getUserGifts(userId);
-      res.json(gifts);
+      const { config } = await storage.getEconomyConfig();
+      res.json({ ...WITHDRAWAL_RULES, pearlValueCents: config.pearlValueCents });
     } catch (error) {
-      console.error("Error getting gifts:", error);
-      res.status(500).json({ message: "Error getting gifts" });
+      console.error("Error getting withdrawal rules:", error);
+      res.status(500).json({ message: "Error getting withdrawal rules" });
     }
   });
 
-  app.post("/api/profile/send-gift", async (req, res) => {
+  app.post("/api/withdrawals", requireAuth, requireRegistered, idempotent, async (req, res) => {
     try {
-      const { toUserId, giftType, amount, message } = req.body;
-      const token = req.headers.authorization?.replace('Bearer ', '');
-      if (!token) {
-        return res.status(401).json({ message: "No token provided" });
-      }
-
-      const decoded = Buffer.from(token, 'base64').toString();
-      const [fromUserId] = decoded.split(':');
-      
-      // Check if user has enough currency
-      const user = await storage.getUser(parseInt(fromUserId));
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const data = createWithdrawalSchema.parse(req.body);
+      const { withdrawal, user } = await storage.createWithdrawalRequest(req.user!.id, data);
+      res.status(201).json({ withdrawal, pearls: user.pearls || 0 });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid request data", error: error.message });
       }
-
-      if (giftType === 'gold' && (user.goldCoins || 0) < amount) {
-        return res.status(400).json({ message: "Insufficient gold" });
+      if (error instanceof WithdrawalError) {
+        return res.status(400).json({ message: error.message, code: error.code });
       }
-      if (giftType === 'pearls' && (user.pearls || 0) < amount) {
-        return res.status(400).json({ message: "Insufficient pearls" });
+      if (error instanceof InsufficientBalanceError) {
+        return res.status(400).json({ message: "Insufficient pearls", code: "INSUFFICIENT_BALANCE" });
       }
+      console.error("Error creating withdrawal request:", error);
+      res.status(500).json({ message: "Error creating withdrawal request" });
+    }
+  });
 
-      // Deduct from sender
-      const goldDelta = giftType === 'gold' ? -amount : 0;
-      const pearlsDelta = giftType === 'pearls' ? -amount : 0;
-      await storage.updateCurrency(parseInt(fromUserId), goldDelta, pearlsDelta);
-
-      // Create gift
-      const gift = await storage.sendGift(parseInt(fromUserId), toUserId, giftType, amount, message);
-      
-      // Add transaction record
-      await storage.addTransaction(
-        parseInt(fromUserId), 
-        'gift_sent', 
-        goldDelta, 
-        pearlsDelta, 
-        `إرسال هدية ${amount} ${giftType === 'gold' ? 'ذهب' : 'لؤلؤ'} إلى المستخدم ${toUserId}`
-      );
-
-      res.json(gift);
+  app.get("/api/withdrawals", requireAuth, async (req, res) => {
+    try {
+      const withdrawals = await storage.getUserWithdrawalRequests(req.user!.id);
+      res.json({ withdrawals });
     } catch (error) {
-      console.error("Error sending gift:", error);
-      res.status(500).json({ message: "Error sending gift" });
+      console.error("Error getting withdrawal requests:", error);
+      res.status(500).json({ message: "Error getting withdrawal requests" });
     }
   });
 
-  app.post("/api/profile/claim-gift", async (req, res) => {
+  app.get("/api/withdrawals/:withdrawalId", requireAuth, async (req, res) => {
     try {
-      const { giftId } = req.body;
-      const success = await storage.claimGift(giftId);
-      res.json({ success });
+      const withdrawal = await storage.getWithdrawalRequest(parseInt(req.params.withdrawalId));
+      if (!withdrawal || withdrawal.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Withdrawal request not found" });
+      }
+      const events = await storage.getWithdrawalEvents(withdrawal.id);
+      res.json({ withdrawal, events });
     } catch (error) {
-      console.error("Error claiming gift:", error);
-      res.status(500).json({ message: "Error claiming gift" });
+      console.error("Error getting withdrawal request:", error);
+      res.status(500).json({ message: "Error getting withdrawal request" });
     }
   });
 
-  app.get("/api/profile/items/:userId", async (req, res) => {
+  app.get("/api/admin/withdrawals", requireAuth, requirePermission('withdrawals.review'), async (req, res) => {
     try {
-      const userId = parseInt(req.params.userId);
-      const items = await storage.getUserItems(userId);
-      res.json(items);
+      const status = typeof req.query.status === 'string' ? req.query.status : 'pending';
+      const statuses: WithdrawalStatus[] = ["pending", "approved", "rejected", "paid"];
+      if (status !== 'all' && !statuses.includes(status as WithdrawalStatus)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+
+      const withdrawals = await storage.getWithdrawalRequests(status === 'all' ? undefined : status as WithdrawalStatus);
+      res.json({ withdrawals });
     } catch (error) {
-      console.error("Error getting items:", error);
-      res.status(500).json({ message: "Error getting items" });
+      console.error("Error getting withdrawal requests:", error);
+      res.status(500).json({ message: "Error getting withdrawal requests" });
     }
   });
 
-  app.post("/api/profile/activate-item", async (req, res) => {
+  app.get("/api/admin/withdrawals/:withdrawalId", requireAuth, requirePermission('withdrawals.review'), async (req, res) => {
     try {
-      const { itemId } = req.body;
-      const token = req.headers.authorization?.replace('Bearer ', '');
-      if (!token) {
-        return res.status(401).json({ message: "No token provided" });
+      const withdrawal = await storage.getWithdrawalRequest(parseInt(req.params.withdrawalId));
+      if (!withdrawal) {
+        return res.status(404).json({ message: "Withdrawal request not found" });
       }
-
-      const decoded = Buffer.from(token, 'base64').toString();
-      const [userId] = decoded.split(':');
-      
-      const success = await storage.activateItem(parseInt(userId), itemId);
-      res.json({ success });
+      const events = await storage.getWithdrawalEvents(withdrawal.id);
+      res.json({ withdrawal, events });
     } catch (error) {
-      console.error("Error activating item:", error);
-      res.status(500).json({ message: "Error activating item" });
+      console.error("Error getting withdrawal request:", error);
+      res.status(500).json({ message: "Error getting withdrawal request" });
     }
   });
 
-  app.post("/api/profile/charge-balance", async (req, res) => {
+  app.put("/api/admin/withdrawals/:withdrawalId", requireAuth, requirePermission('withdrawals.review'), async (req, res) => {
     try {
-      const { amount } = req.body;
-      const token = req.headers.authorization?.replace('Bearer ', '');
-      if (!token) {
-        return res.status(401).json({ message: "No token provided" });
+      const review = reviewWithdrawalSchema.parse(req.body);
+      const withdrawal = await storage.reviewWithdrawalRequest(parseInt(req.params.withdrawalId), req.user!.id, review);
+      res.json({ withdrawal });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid request data", error: error.message });
       }
+      if (error instanceof WithdrawalError) {
+        const status = error.code === "WITHDRAWAL_NOT_FOUND" ? 404 : 409;
+        return res.status(status).json({ message: error.message, code: error.code });
+      }
+      console.error("Error reviewing withdrawal request:", error);
+      res.status(500).json({ message: "Error reviewing withdrawal request" });
+    }
+  });
 
-      const decoded = Buffer.from(token, 'base64').toString();
-      const [userId] = decoded.split(':');
-      
-      // Simulate payment processing (in real app, integrate with payment gateway)
-      await storage.updateCurrency(parseInt(userId), amount, 0);
-      
-      // Add transaction record
-      await storage.addTransaction(
-        parseInt(userId), 
-        'purchase', 
-        amount, 
-        0, 
-        `شحن رصيد ${amount} ذهب`
-      );
+  // Kept for older clients: same as POST /api/payments/orders. `amount` is accepted
+  // only when it matches one of the server-defined packages
+  app.post("/api/profile/charge-balance", requireAuth, requireRegistered, idempotent, async (req, res) => {
+    try {
+      const { packageId, amount } = req.body;
+      const resolvedPackageId = packageId ?? GOLD_PACKAGES.find(p => p.gold === amount)?.id;
+      const result = typeof resolvedPackageId === "string"
+        ? await openPurchaseOrder(req.user!.id, resolvedPackageId)
+        : null;
+      if (!result) {
+        return res.status(400).json({ message: "Unknown gold package", code: "INVALID_PACKAGE" });
+      }
 
-      res.json({ success: true });
+      res.status(201).json({ success: true, ...result });
     } catch (error) {
       console.error("Error charging balance:", error);
       res.status(500).json({ message: "Error charging balance" });
     }
   });
 
-  app.get("/api/profile/transactions/:userId", async (req, res) => {
+  // Transaction history - players read their own, users with economy.view read anyone's
+  app.get("/api/profile/transactions/:userId", requireAuth, async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
-      const transactions = await storage.getUserTransactions(userId);
-      res.json(transactions);
-    } catch (error) {
+      if (!canAccessUser(req.user!, userId, 'economy.view')) {
+        return res.status(403).json({ message: "Permission denied", code: "FORBIDDEN" });
+      }
+
+      const { limit, cursor, ...filters } = transactionHistoryQuerySchema.parse(req.query);
+      const beforeId = cursor !== undefined ? decodeCursor(cursor) : undefined;
+      if (cursor !== undefined && beforeId === undefined) {
+        return res.status(400).json({ message: "Invalid cursor", code: "INVALID_CURSOR" });
+      }
+
+      // One extra row tells whether there is a next page
+      const rows = await storage.getTransactionsPage(buildTransactionQuery(userId, filters), limit + 1, beforeId);
+      const transactions = rows.slice(0, limit);
+      res.json({
+        transactions,
+        nextCursor: rows.length > limit ? encodeCursor(transactions[transactions.length - 1].id) : null
+      });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid request data", error: error.message });
+      }
       console.error("Error getting transactions:", error);
       res.status(500).json({ message: "Error getting transactions" });
     }
   });
 
-  // Convert pearls to USD with level increase
-  app.post("/api/profile/convert-pearls", async (req, res) => {
+  app.get("/api/profile/transactions/:userId/summary", requireAuth, async (req, res) => {
     try {
-      const { pearlsAmount } = req.body;
-      const token = req.headers.authorization?.replace('Bearer ', '');
-      if (!token) {
-        return res.status(401).json({ message: "No token provided" });
+      const userId = parseInt(req.params.userId);
+      if (!canAccessUser(req.user!, userId, 'economy.view')) {
+        return res.status(403).json({ message: "Permission denied", code: "FORBIDDEN" });
       }
 
-      const decoded = Buffer.from(token, 'base64').toString();
-      const [userId] = decoded.split(':');
-      
-      // Check if user has enough pearls
-      const user = await storage.getUser(parseInt(userId));
-      if (!user || (user.pearls || 0) < pearlsAmount) {
-        return res.status(400).json({ message: "Insufficient pearls" });
+      const { limit, cursor, ...filters } = transactionHistoryQuerySchema.parse(req.query);
+      const summary = await storage.getTransactionSummary(buildTransactionQuery(userId, filters));
+      res.json({
+        ...summary,
+        netGold: summary.goldIn - summary.goldOut,
+        netPearls: summary.pearlsIn - summary.pearlsOut
+      });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid request data", error: error.message });
       }
+      console.error("Error getting transaction summary:", error);
+      res.status(500).json({ message: "Error getting transaction summary" });
+    }
+  });
 
-      // Calculate level increase: +10 levels per pearl converted
-      const levelIncrease = pearlsAmount * 10;
-      
-      // Update currency (subtract pearls)
-      await storage.updateCurrency(parseInt(userId), 0, -pearlsAmount);
-      
-      // Update level
-      await storage.updateLevel(parseInt(userId), levelIncrease);
+  // ?format=csv|json with the same filters; at most EXPORT_MAX_ROWS rows, newest first
+  app.get("/api/profile/transactions/:userId/export", requireAuth, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      if (!canAccessUser(req.user!, userId, 'economy.view')) {
+        return res.status(403).json({ message: "Permission denied", code: "FORBIDDEN" });
+      }
+
+      const format = req.query.format === 'json' ? 'json' : 'csv';
+      const { limit, cursor, ...filters } = transactionHistoryQuerySchema.parse(req.query);
+      const query = buildTransactionQuery(userId, filters);
+
+      const rows: Transaction[] = [];
+      let beforeId: number | undefined;
+      while (rows.length < EXPORT_MAX_ROWS) {
+        const page = await storage.getTransactionsPage(query, Math.min(1000, EXPORT_MAX_ROWS - rows.length), beforeId);
+        rows.push(...page);
+        if (page.length === 0 || page.length < 1000) break;
+        beforeId = page[page.length - 1].id;
+      }
+      if (rows.length === EXPORT_MAX_ROWS) {
+        res.setHeader('X-Export-Truncated', 'true');
+      }
+
+      res.setHeader('Content-Disposition', `attachment; filename="transactions-${userId}.${format}"`);
+      if (format === 'json') {
+        return res.json({ transactions: rows });
+      }
+      res.type('text/csv').send(transactionsToCsv(rows));
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid request data", error: error.message });
+      }
+      console.error("Error exporting transactions:", error);
+      res.status(500).json({ message: "Error exporting transactions" });
+    }
+  });
+
+  // Burns pearls for VIP levels - cashing pearls out is POST /api/withdrawals
+  app.post("/api/profile/convert-pearls", requireAuth, requireRegistered, idempotent, async (req, res) => {
+    try {
+      const { pearlsAmount } = req.body;
+      const userId = req.user!.id;
+      if (!Number.isInteger(pearlsAmount) || pearlsAmount <= 0) {
+        return res.status(400).json({ message: "Pearls amount must be a positive integer" });
+      }
+
+      const { version, config } = await storage.getEconomyConfig();
+      const vipLevelIncrease = vipLevelsForPearls(config, pearlsAmount);
       
-      // Add transaction record
-      await storage.addTransaction(
-        parseInt(userId), 
-        'pearl_conversion', 
-        0, 
-        -pearlsAmount, 
-        `تحويل ${pearlsAmount} لؤلؤ - رفع المستوى ${levelIncrease} درجة`
-      );
+      // Subtract pearls and raise the VIP level in one ledger entry
+      const { user } = await storage.applyLedgerEntry({
+        userId,
+        type: 'pearl_conversion',
+        goldDelta: 0,
+        pearlsDelta: -pearlsAmount,
+        description: `تحويل ${pearlsAmount} لؤلؤ - رفع مستوى VIP ${vipLevelIncrease} درجة`,
+        vipLevelDelta: vipLevelIncrease,
+        economyConfigVersion: version
+      });
 
-      res.json({ success: true, levelIncrease });
+      // levelIncrease is kept for older clients; the gameplay level no longer changes here
+      res.json({ success: true, vipLevelIncrease, vipLevel: user.vipLevel, levelIncrease: vipLevelIncrease });
     } catch (error) {
+      if (error instanceof InsufficientBalanceError) {
+        return res.status(400).json({ message: "Insufficient pearls", code: "INSUFFICIENT_BALANCE" });
+      }
       console.error("Error converting pearls:", error);
       res.status(500).json({ message: "Error converting pearls" });
     }
   });
 
   // Get user currency
-  app.get("/api/user/currency", async (req, res) => {
+  app.get("/api/user/currency", requireAuth, async (req, res) => {
     try {
-      const token = req.headers.authorization?.replace('Bearer ', '');
-      if (!token) {
-        return res.status(401).json({ message: "No token provided" });
-      }
-
-      const decoded = Buffer.from(token, 'base64').toString();
-      const [userId] = decoded.split(':');
-      
-      const user = await storage.getUser(parseInt(userId));
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
+      const user = req.user!;
 
       res.json({ 
         goldCoins: user.goldCoins || 0,
@@ -544,21 +1618,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin routes
-  app.get("/api/admin/users", async (req, res) => {
+  app.get("/api/admin/users", requireAuth, requirePermission('users.view'), async (req, res) => {
     try {
-      const token = req.headers.authorization?.replace('Bearer ', '');
-      if (!token) {
-        return res.status(401).json({ message: "No token provided" });
-      }
-
-      const decoded = Buffer.from(token, 'base64').toString();
-      const [userId] = decoded.split(':');
-      
-      const user = await storage.getUser(parseInt(userId));
-      if (!user || !user.isAdmin) {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-
       const users = await storage.getAllUsers();
       res.json(users.map(u => ({
         id: u.id,
@@ -566,35 +1627,108 @@ export async function registerRoutes(app: Express): Promise<Server> {
         username: u.username,
         email: u.email,
         avatar: u.avatar,
-        isAdmin: u.isAdmin,
+        isAdmin: hasPermission(u, 'admin.access'),
+        role: getUserRole(u),
         coins: u.coins,
         level: u.level,
         experience: u.experience,
+        vipLevel: u.vipLevel,
         joinedAt: u.joinedAt,
         lastActive: u.lastActive,
         status: u.status
       })));
     } catch (error) {
-      res.status(401).json({ message: "Invalid token" });
+      console.error("Error getting users:", error);
+      res.status(500).json({ message: "Error getting users" });
     }
   });
 
-  // Update player ID
-  app.put("/api/admin/users/:id/player-id", async (req, res) => {
+  app.get("/api/admin/users/:id/sessions", requireAuth, requirePermission('users.sessions'), async (req, res) => {
+    try {
+      const sessions = await storage.getUserSessions(parseInt(req.params.id));
+      res.json(sessions.map(session => serializeSession(session)));
+    } catch (error) {
+      console.error("Error getting user sessions:", error);
+      res.status(500).json({ message: "Error getting user sessions" });
+    }
+  });
+
+  app.delete("/api/admin/users/:id/sessions/:sessionId", requireAuth, requirePermission('users.sessions'), async (req, res) => {
     try {
-      const token = req.headers.authorization?.replace('Bearer ', '');
-      if (!token) {
-        return res.status(401).json({ message: "No token provided" });
+      const success = await storage.revokeSession(parseInt(req.params.id), parseInt(req.params.sessionId));
+      if (!success) {
+        return res.status(404).json({ message: "Session not found" });
       }
+      res.json({ success });
+    } catch (error) {
+      console.error("Error revoking user session:", error);
+      res.status(500).json({ message: "Error revoking user session" });
+    }
+  });
 
-      const decoded = Buffer.from(token, 'base64').toString();
-      const [, adminUsername] = decoded.split(':');
-      const adminUser = await storage.getUserByUsername(adminUsername);
-      
-      if (!adminUser || !adminUser.isAdmin) {
-        return res.status(403).json({ message: "Admin access required" });
+  // Clear failed login attempts so a locked-out player can sign in again
+  app.post("/api/admin/users/:id/unlock", requireAuth, requirePermission('users.edit'), async (req, res) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const unlocked = await unlockAccount(user.username);
+      res.json({ success: true, unlocked });
+    } catch (error) {
+      console.error("Error unlocking user:", error);
+      res.status(500).json({ message: "Error unlocking user" });
+    }
+  });
+
+  // Sign a player out of every device
+  app.delete("/api/admin/users/:id/sessions", requireAuth, requirePermission('users.sessions'), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const revoked = await storage.revokeUserSessions(userId);
+      await storage.updateUser(userId, { status: 'offline' });
+      res.json({ success: true, revoked });
+    } catch (error) {
+      console.error("Error revoking user sessions:", error);
+      res.status(500).json({ message: "Error revoking user sessions" });
+    }
+  });
+
+  // Assign a role (moderator, support, economy-admin, super-admin or back to player)
+  app.put("/api/admin/users/:id/role", requireAuth, requirePermission('roles.assign'), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const { role } = updateRoleSchema.parse(req.body);
+
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "You cannot change your own role" });
       }
 
+      // isAdmin is kept in sync for clients that still read the old flag
+      const updatedUser = await storage.updateUser(userId, { role, isAdmin: role !== 'player' });
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json({
+        id: updatedUser.id,
+        username: updatedUser.username,
+        role: getUserRole(updatedUser),
+        permissions: getPermissions(updatedUser)
+      });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: "Invalid role", error: error.message });
+      }
+      console.error("Error updating role:", error);
+      res.status(500).json({ message: "Error updating role" });
+    }
+  });
+
+  // Update player ID
+  app.put("/api/admin/users/:id/player-id", requireAuth, requirePermission('users.edit'), async (req, res) => {
+    try {
       const userId = parseInt(req.params.id);
       const { playerId } = req.body;
 
@@ -619,29 +1753,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Shield routes
-  app.post("/api/profile/activate-shield", async (req, res) => {
+  app.post("/api/profile/activate-shield", requireAuth, async (req, res) => {
     try {
-      const token = req.headers.authorization?.replace('Bearer ', '');
-      if (!token) {
-        return res.status(401).json({ message: "No token provided" });
-      }
-
-      const decoded = Buffer.from(token, 'base64').toString();
-      const [userId] = decoded.split(':');
-      
+      const userId = req.user!.id;
       const { shieldType } = req.body;
       
       if (!shieldType || !['gold', 'usd'].includes(shieldType)) {
         return res.status(400).json({ message: "Invalid shield type" });
       }
 
-      const shield = await storage.activateShield(parseInt(userId), shieldType);
+      const shield = await storage.activateShield(userId, shieldType);
       res.json({ 
         success: true, 
         shield,
         message: shieldType === 'gold' ? 
-          'تم تفعيل الدرع الواقي بـ 2000 ذهب لمدة أسبوع' :
-          'تم تفعيل الدرع الواقي بـ 1 دولار لمدة أسبوع'
+          `تم تفعيل الدرع الواقي بـ ${shield.cost} ذهب لمدة أسبوع` :
+          `تم تفعيل الدرع الواقي بـ ${shield.cost} لؤلؤ لمدة أسبوع`
       });
     } catch (error: any) {
       console.error("Error activating shield:", error);
@@ -660,17 +1787,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/profile/deactivate-shield", async (req, res) => {
+  app.delete("/api/profile/deactivate-shield", requireAuth, async (req, res) => {
     try {
-      const token = req.headers.authorization?.replace('Bearer ', '');
-      if (!token) {
-        return res.status(401).json({ message: "No token provided" });
-      }
-
-      const decoded = Buffer.from(token, 'base64').toString();
-      const [userId] = decoded.split(':');
-      
-      const success = await storage.deactivateShield(parseInt(userId));
+      const userId = req.user!.id;
+      const success = await storage.deactivateShield(userId);
       res.json({ success });
     } catch (error) {
       console.error("Error deactivating shield:", error);
@@ -679,62 +1799,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Shield protection system endpoints
-  app.post("/api/profile/activate-shield", async (req, res) => {
-    try {
-      const token = req.headers.authorization?.replace('Bearer ', '');
-      if (!token) {
-        return res.status(401).json({ message: "No token provided" });
-      }
-
-      const decoded = Buffer.from(token, 'base64').toString();
-      const [, username] = decoded.split(':');
-      
-      const user = await storage.getUserByUsername(username);
-      if (!user) {
-        return res.status(401).json({ message: "Invalid token" });
-      }
-
-      const { shieldType } = req.body;
-      
-      if (shieldType !== 'gold' && shieldType !== 'usd') {
-        return res.status(400).json({ message: "Invalid shield type" });
-      }
-
-      // Check if user already has active shield
-      const existingShield = await storage.getUserActiveShield(user.id);
-      if (existingShield) {
-        return res.status(400).json({ message: "لديك درع نشط بالفعل!" });
-      }
-
-      // Check balance and activate shield
-      if (shieldType === 'gold') {
-        if ((user.goldCoins || 0) < 2000) {
-          return res.status(400).json({ message: "رصيد الذهب غير كافي!" });
-        }
-        // Deduct gold and activate shield
-        await storage.updateCurrency(user.id, -2000, 0);
-        await storage.addTransaction(user.id, 'shield_purchase', -2000, 0, 'تفعيل درع الذهب (24 ساعة)');
-      } else {
-        if ((user.pearls || 0) < 10) {
-          return res.status(400).json({ message: "رصيد اللؤلؤ غير كافي!" });
-        }
-        // Deduct pearls and activate shield
-        await storage.updateCurrency(user.id, 0, -10);
-        await storage.addTransaction(user.id, 'shield_purchase', 0, -10, 'تفعيل درع الدولار (7 أيام)');
-      }
-
-      const shield = await storage.activateShield(user.id, shieldType);
-      
-      res.json({ 
-        shield, 
-        message: `تم تفعيل ${shieldType === 'gold' ? 'درع الذهب' : 'درع الدولار'} بنجاح!` 
-      });
-    } catch (error: any) {
-      console.error('Error activating shield:', error);
-      res.status(500).json({ message: "خطأ في تفعيل الدرع الواقي" });
-    }
-  });
-
   app.get("/api/profile/shield/:userId", async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
@@ -747,20 +1811,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Profile update endpoints
-  app.put("/api/profile/update", async (req, res) => {
+  app.put("/api/profile/update", requireAuth, async (req, res) => {
     try {
-      const token = req.headers.authorization?.replace('Bearer ', '');
-      if (!token) {
-        return res.status(401).json({ message: "No token provided" });
-      }
-
-      const decoded = Buffer.from(token, 'base64').toString();
-      const [, username] = decoded.split(':');
-      
-      const user = await storage.getUserByUsername(username);
-      if (!user) {
-        return res.status(401).json({ message: "Invalid token" });
-      }
+      const user = req.user!;
 
       const { profileImage, gender } = req.body;
       
@@ -782,21 +1835,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin endpoint to manage user profile images
-  app.delete("/api/admin/users/:id/profile-image", async (req, res) => {
+  app.delete("/api/admin/users/:id/profile-image", requireAuth, requirePermission('images.moderate'), async (req, res) => {
     try {
-      const token = req.headers.authorization?.replace('Bearer ', '');
-      if (!token) {
-        return res.status(401).json({ message: "No token provided" });
-      }
-
-      const decoded = Buffer.from(token, 'base64').toString();
-      const [, adminUsername] = decoded.split(':');
-      
-      const admin = await storage.getUserByUsername(adminUsername);
-      if (!admin || !admin.isAdmin) {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-
       const userId = parseInt(req.params.id);
       const updatedUser = await storage.updateProfileImage(userId, '');
       
@@ -811,21 +1851,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/admin/users/:id/profile-image", async (req, res) => {
+  app.put("/api/admin/users/:id/profile-image", requireAuth, requirePermission('images.moderate'), async (req, res) => {
     try {
-      const token = req.headers.authorization?.replace('Bearer ', '');
-      if (!token) {
-        return res.status(401).json({ message: "No token provided" });
-      }
-
-      const decoded = Buffer.from(token, 'base64').toString();
-      const [, adminUsername] = decoded.split(':');
-      
-      const admin = await storage.getUserByUsername(adminUsername);
-      if (!admin || !admin.isAdmin) {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-
       const userId = parseInt(req.params.id);
       const { profileImage } = req.body;
       
@@ -844,10 +1871,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   const httpServer = createServer(app);
 
-  // Setup WebSocket server
-  const wss = new WebSocketServer({ 
-    server: httpServer,
-    path: '/ws'
+  // Setup WebSocket server - connections are authenticated during the HTTP upgrade
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on('upgrade', async (req, socket, head) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== '/ws') {
+      // Vite HMR handles its own upgrades in development; anywhere else nothing would ever answer
+      if (app.get("env") !== "development") socket.destroy();
+      return;
+    }
+
+    try {
+      const context = await authenticateUpgrade(req);
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        bindSocketIdentity(ws, context);
+        wss.emit('connection', ws, req);
+      });
+    } catch (error) {
+      if (!(error instanceof AuthError)) {
+        console.error('WebSocket upgrade error:', error);
+      }
+      socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+      socket.destroy();
+    }
   });
   
   // إنشاء مديري الألعاب والمحادثة الصوتية
@@ -938,10 +1985,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   wss.on('connection', (ws, req) => {
     console.log('WebSocket client connected');
     
+    // Identity comes from the token checked at upgrade, never from client messages
+    const { userId, username, isAdmin } = getSocketIdentity(ws)!;
     let currentRoom = 'general';
-    let username = 'Anonymous';
-    let userId = '';
-    let isAdmin = false;
     
     // Enhanced ping/pong for connection stability
     ws.isAlive = true;
@@ -967,11 +2013,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const data = JSON.parse(message.toString());
         
         if (data.type === 'user_auth') {
-          // Store user info
-          username = data.username || 'Anonymous';
-          userId = data.userId || '';
-          isAdmin = data.isAdmin || false;
-          
+          // Kept for older clients: the payload's userId/username/isAdmin are ignored
           userConnections.set(userId, { ws, username, room: currentRoom, isAdmin });
           
           // Broadcast updated user list
@@ -986,7 +2028,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         } else if (data.type === 'join_room') {
           // Remove from old room
           voiceRooms.get(currentRoom)?.delete(ws);
-          userConnections.delete(userId);
           
           // Add to new room
           currentRoom = data.roomId || 'general';
@@ -1069,7 +2110,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     ws.on('close', () => {
       console.log('WebSocket client disconnected');
       voiceRooms.get(currentRoom)?.delete(ws);
-      userConnections.delete(userId);
+      if (userConnections.get(userId)?.ws === ws) {
+        userConnections.delete(userId);
+      }
       
       // Broadcast user left
       broadcastToRoom(currentRoom, {
@@ -1084,46 +2127,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
   
-  // Add game item to user inventory
-  app.post("/api/add-game-item", async (req, res) => {
-    try {
-      const token = req.headers.authorization?.replace('Bearer ', '');
-      if (!token) {
-        return res.status(401).json({ message: "No token provided" });
-      }
-
-      const decoded = Buffer.from(token, 'base64').toString();
-      const [userId] = decoded.split(':');
-      
-      const { itemType, itemName, quantity = 1 } = req.body;
-      
-      // Validate item types
-      const validItems = ['gems', 'stars', 'coins', 'bombs', 'bats', 'snakes'];
-      if (!validItems.includes(itemType)) {
-        return res.status(400).json({ message: "Invalid item type" });
-      }
-
-      // Add items to user inventory
-      for (let i = 0; i < quantity; i++) {
-        await storage.addUserItem(parseInt(userId), itemType, itemName);
-      }
-      
-      res.json({ 
-        success: true, 
-        message: `Added ${quantity} ${itemName} to inventory`,
-        itemType,
-        quantity
-      });
-    } catch (error) {
-      console.error("Error adding game item:", error);
-      res.status(500).json({ message: "Error adding game item" });
-    }
-  });
-
   // Get user items count
-  app.get("/api/user-items/:userId", async (req, res) => {
+  app.get("/api/user-items/:userId", requireAuth, async (req, res) => {
     try {
       const userId = parseInt(req.params.userId);
+      if (!canAccessUser(req.user!, userId, 'users.view')) {
+        return res.status(403).json({ message: "Permission denied", code: "FORBIDDEN" });
+      }
       const items = await storage.getUserItems(userId);
       
       // Count items by type
@@ -1171,5 +2181,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   }, 30000);
 
+  // Remove guest accounts that nobody has used for GUEST_RETENTION_DAYS
+  const guestRetentionDays = process.env.GUEST_RETENTION_DAYS ? parseInt(process.env.GUEST_RETENTION_DAYS) : 7;
+  const guestCleanupInterval = setInterval(async () => {
+    try {
+      const cutoff = new Date(Date.now() - guestRetentionDays * 24 * 60 * 60 * 1000);
+      const removed = await storage.deleteInactiveGuests(cutoff);
+      if (removed > 0) {
+        console.log(`🧹 Removed ${removed} inactive guest accounts`);
+      }
+    } catch (error) {
+      console.error("Guest cleanup error:", error);
+    }
+  }, 60 * 60 * 1000);
+
+  // Drop stored idempotency keys once clients can no longer retry with them
+  const idempotencyCleanupInterval = setInterval(async () => {
+    try {
+      const cutoff = new Date(Date.now() - IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000);
+      await storage.deleteIdempotencyKeysBefore(cutoff);
+    } catch (error) {
+      console.error("Idempotency key cleanup error:", error);
+    }
+  }, 60 * 60 * 1000);
+
   return httpServer;
 }
@@ -0,0 +1,74 @@
+import type { IncomingMessage } from "http";
+import type { WebSocket } from "ws";
+import { authenticateToken, AuthError, type AuthContext } from "./auth";
+import { hasPermission } from "./permissions";
+
+// الهوية الموثقة المرتبطة بكل اتصال WebSocket - لا نثق بأي هوية يرسلها العميل
+export interface SocketIdentity {
+  userId: string;
+  username: string;
+  isAdmin: boolean;
+}
+
+const identities = new WeakMap<WebSocket, SocketIdentity>();
+const userSockets = new Map<string, Set<WebSocket>>(); // userId -> كل اتصالات المستخدم (عدة أجهزة أو تبويبات)
+
+// المتصفحات لا تستطيع إرسال ترويسة Authorization مع WebSocket، لذا نقبل ?token= أيضاً
+function extractUpgradeToken(req: IncomingMessage): string | undefined {
+  const header = req.headers.authorization;
+  if (header && header.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim() || undefined;
+  }
+
+  const url = new URL(req.url || "/", "http://localhost");
+  return url.searchParams.get("token") || undefined;
+}
+
+export async function authenticateUpgrade(req: IncomingMessage): Promise<AuthContext> {
+  const token = extractUpgradeToken(req);
+  if (!token) {
+    throw new AuthError("No token provided");
+  }
+  return authenticateToken(token);
+}
+
+export function bindSocketIdentity(ws: WebSocket, context: AuthContext): SocketIdentity {
+  const identity: SocketIdentity = {
+    userId: String(context.user.id),
+    username: context.user.username,
+    isAdmin: hasPermission(context.user, "admin.access")
+  };
+  identities.set(ws, identity);
+
+  const sockets = userSockets.get(identity.userId) ?? new Set<WebSocket>();
+  sockets.add(ws);
+  userSockets.set(identity.userId, sockets);
+  ws.once("close", () => {
+    sockets.delete(ws);
+    if (sockets.size === 0 && userSockets.get(identity.userId) === sockets) {
+      userSockets.delete(identity.userId);
+    }
+  });
+
+  return identity;
+}
+
+export function getSocketIdentity(ws: WebSocket): SocketIdentity | undefined {
+  return identities.get(ws);
+}
+
+// يرسل رسالة لكل اتصالات المستخدم المفتوحة؛ يعيد عدد الاتصالات التي وصلتها
+export function sendToUser(userId: number | string, message: unknown): number {
+  const sockets = userSockets.get(String(userId));
+  if (!sockets) return 0;
+
+  const payload = JSON.stringify(message);
+  let sent = 0;
+  sockets.forEach(ws => {
+    if (ws.readyState === ws.OPEN) {
+      ws.send(payload);
+      sent++;
+    }
+  });
+  return sent;
+}
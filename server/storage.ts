@@ -1,14 +1,63 @@
 import { 
   users, 
   gameScores, 
+  achievements,
   friendships,
   gifts,
   privateMessages,
   userItems,
   transactions,
   userShields,
+  sessions,
+  refreshTokens,
+  authTokens,
+  loginAttempts,
+  idempotencyKeys,
+  purchaseOrders,
+  shopItems,
+  gameSessions,
+  gameScoreFlags,
+  matchResults,
+  userSettings,
+  xpEvents,
+  dailyRewardClaims,
+  withdrawalRequests,
+  withdrawalEvents,
+  economyConfigs,
+  adminAdjustments,
+  adminAuditLog,
+  DEFAULT_ECONOMY_CONFIG,
+  economyConfigSchema,
   type User, 
+  type Session,
+  type InsertSession,
+  type AuthToken,
+  type AuthTokenPurpose,
+  type LoginAttempt,
+  type IdempotencyKey,
+  type PurchaseOrder,
+  type ShopItem,
+  type GameScore,
+  type GameSession,
+  type MatchResult,
+  type UserSettings,
+  type Achievement,
+  type DailyRewardClaim,
+  type WithdrawalRequest,
+  type WithdrawalEvent,
+  type WithdrawalStatus,
+  type CreateWithdrawalData,
+  type EconomyConfig,
+  type EconomyConfigVersion,
+  type ExchangeCurrency,
+  type AdminAdjustment,
+  type AdminAuditLogEntry,
+  type CreateAdminAdjustmentData,
+  type GameScoreFlag,
+  type InsertGameScoreFlag,
+  type InsertShopItem,
   type InsertUser,
+  type UpgradeGuestData,
   type Friendship,
   type Gift,
   type PrivateMessage,
@@ -17,30 +66,315 @@ import {
   type UserShield
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, or, desc, sql } from "drizzle-orm";
+import { hashPassword, verifyPassword } from "./password";
+import { eq, and, or, desc, sql, ne, isNull, inArray, type SQL } from "drizzle-orm";
+import { randomBytes } from "crypto";
+import { ScoreRejectedError, type RewardAmount } from "./gameRules";
+import { levelForExperience, levelUpReward } from "./levels";
+import { ADJUSTMENT_APPROVAL_WINDOW_MS, ExchangeError, quoteExchange, requiresSecondApproval, vipLevelsForPurchase, type ActiveEconomyConfig, type ExchangeQuote } from "./economy";
+import { WITHDRAWAL_RULES, WithdrawalError, canTransition } from "./withdrawals";
+import { DailyRewardError, STREAK_SAVER_ITEM, calendarDate, dailyRewardForStreak, daysBetween } from "./dailyRewards";
+
+export type RefreshRotationResult =
+  | { status: "rotated"; session: Session }
+  | { status: "reused"; session: Session }
+  | { status: "expired" | "revoked" | "invalid" };
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// كل تغيير في رصيد الذهب أو اللؤلؤ يمر عبر قيد واحد في السجل
+export interface LedgerEntry {
+  userId: number;
+  type: string;
+  goldDelta: number;
+  pearlsDelta: number;
+  description: string;
+  vipLevelDelta?: number;
+  referenceType?: string;
+  referenceId?: number;
+  economyConfigVersion?: number; // نسخة الأسعار إذا اعتمد المبلغ عليها
+}
+
+export interface LedgerResult {
+  user: User;
+  transaction: Transaction;
+}
+
+export class InsufficientBalanceError extends Error {
+  constructor(public currency: "gold" | "pearls") {
+    super(currency === "gold" ? 'رصيد الذهب غير كافي' : 'رصيد اللؤلؤ غير كافي');
+    this.name = "InsufficientBalanceError";
+  }
+}
+
+export type ShopPurchaseErrorCode = "ITEM_NOT_FOUND" | "ITEM_UNAVAILABLE" | "OUT_OF_STOCK" | "PURCHASE_LIMIT_REACHED";
+
+export class ShopPurchaseError extends Error {
+  constructor(public code: ShopPurchaseErrorCode) {
+    super({
+      ITEM_NOT_FOUND: "Item not found",
+      ITEM_UNAVAILABLE: "Item is not available for sale",
+      OUT_OF_STOCK: "Item is out of stock",
+      PURCHASE_LIMIT_REACHED: "Purchase limit reached for this item"
+    }[code]);
+    this.name = "ShopPurchaseError";
+  }
+}
+
+export type AdminAdjustmentErrorCode = "ADJUSTMENT_NOT_FOUND" | "NOT_PENDING" | "SELF_APPROVAL" | "SELF_ADJUSTMENT" | "INSUFFICIENT_ITEMS" | "USER_NOT_FOUND";
+
+export class AdminAdjustmentError extends Error {
+  constructor(public code: AdminAdjustmentErrorCode) {
+    super({
+      ADJUSTMENT_NOT_FOUND: "Adjustment not found",
+      NOT_PENDING: "Adjustment is not waiting for approval",
+      SELF_APPROVAL: "A second admin must approve this adjustment",
+      SELF_ADJUSTMENT: "Admins cannot adjust their own account",
+      INSUFFICIENT_ITEMS: "Player does not have enough of that item",
+      USER_NOT_FOUND: "User not found"
+    }[code]);
+    this.name = "AdminAdjustmentError";
+  }
+}
+
+export interface GameScoreResult {
+  gameScore: GameScore;
+  reward: RewardAmount;
+  user: User;
+}
+
+export interface LeaderboardQuery {
+  gameName?: string; // بدونه: مجموع أفضل نتيجة للاعب في كل لعبة
+  since?: Date;
+  userIds?: number[]; // لوحة الأصدقاء
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  userId: number;
+  username: string;
+  playerId: string;
+  avatar: string | null;
+  score: number;
+}
+
+export interface GameScoreSummary {
+  gameName: string;
+  gamesPlayed: number;
+  bestScore: number;
+  averageScore: number;
+  lastScore: number;
+  lastPlayedAt: Date | null;
+  totalPlayTimeMs: number;
+}
+
+export interface MatchPlayerResult {
+  userId: number;
+  score: number;
+  level: number;
+  placement: number;
+  isWinner: boolean;
+}
+
+export interface ShopPurchaseResult extends LedgerResult {
+  items: UserItem[];
+}
+
+// الأرقام التي تقيّم عليها شروط الإنجازات
+export interface AchievementCounters {
+  gamesPlayed: number;
+  bestScores: Record<string, number>; // أفضل نتيجة لكل لعبة
+  matchesWon: number;
+  giftsSent: number; // هدايا ذهب أو لؤلؤ مدفوعة فقط - الأنواع الأخرى مجانية
+  friends: number;
+}
+
+export interface AchievementUnlock {
+  key: string;
+  name: string;
+  description: string;
+  gold: number;
+  pearls: number;
+  item?: { itemType: string; itemName: string };
+}
+
+export interface ExperienceGrant {
+  source: string;
+  amount: number;
+  dailyLimit: number;
+  dayStart: Date;
+  referenceType?: string;
+  referenceId?: number;
+}
+
+export interface ExperienceResult {
+  user: User;
+  xpGained: number;
+  previousLevel: number;
+  level: number;
+  levelRewards: Array<RewardAmount & { level: number }>;
+}
+
+export interface TransactionQuery {
+  userId: number;
+  types?: string[];
+  currency?: "gold" | "pearls";
+  from?: Date;
+  to?: Date;
+}
+
+export interface TransactionTotals {
+  count: number;
+  goldIn: number;
+  goldOut: number;
+  pearlsIn: number;
+  pearlsOut: number;
+}
+
+export interface TransactionSummary extends TransactionTotals {
+  byType: Array<TransactionTotals & { type: string }>;
+}
+
+export interface ExchangeResult {
+  quote: ExchangeQuote;
+  user: User;
+  transactions: Transaction[];
+}
+
+export interface WithdrawalReview {
+  status: "approved" | "rejected" | "paid";
+  note?: string;
+  payoutReference?: string;
+  kycStatus?: "unverified" | "verified" | "failed";
+}
+
+export interface DailyRewardClaimResult {
+  claim: DailyRewardClaim;
+  alreadyClaimed: boolean; // نفس اليوم طُلب مسبقاً - تُعاد المطالبة الأصلية بدون مكافأة جديدة
+  user: User;
+  transaction?: Transaction;
+  item?: UserItem;
+}
+
+export interface UnlockedAchievement {
+  achievement: Achievement;
+  transaction?: Transaction;
+  item?: UserItem;
+}
 
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  createGuestUser(): Promise<User>;
+  upgradeGuestUser(userId: number, data: UpgradeGuestData): Promise<User>;
+  deleteInactiveGuests(inactiveSince: Date): Promise<number>;
   updateUser(id: number, updates: Partial<User>): Promise<User | undefined>;
   deleteUser(id: number): Promise<boolean>;
   getAllUsers(): Promise<User[]>;
   authenticateUser(username: string, password: string): Promise<User | null>;
   saveGameScore(userId: number, gameName: string, score: number, level: number): Promise<void>;
+  recordGameScore(
+    userId: number,
+    gameName: string,
+    score: number,
+    level: number,
+    computeReward: (earnedToday: RewardAmount) => RewardAmount,
+    dayStart: Date,
+    gameSessionId?: number,
+    durationMs?: number
+  ): Promise<GameScoreResult>;
+  saveMatchResults(roomId: string, gameType: string, durationMs: number | null, players: MatchPlayerResult[]): Promise<MatchResult[]>;
+  
+  // Game settings
+  getUserSettings(userId: number, gameNames: string[]): Promise<UserSettings[]>;
+  saveUserSettings(userId: number, gameName: string, settings: unknown): Promise<UserSettings>;
+  
+  // Player statistics
+  getGameScoreSummary(userId: number): Promise<GameScoreSummary[]>;
+  getPlayDays(userId: number): Promise<string[]>;
+  getMatchResults(userId: number): Promise<MatchResult[]>;
+  
+  // Achievements
+  getUserAchievements(userId: number): Promise<Achievement[]>;
+  getAchievementCounters(userId: number): Promise<AchievementCounters>;
+  unlockAchievement(userId: number, unlock: AchievementUnlock): Promise<UnlockedAchievement | undefined>;
+  
+  // Leaderboards
+  getLeaderboard(query: LeaderboardQuery, limit: number): Promise<LeaderboardEntry[]>;
+  getLeaderboardRank(query: LeaderboardQuery, userId: number): Promise<LeaderboardEntry | undefined>;
+  
+  // Game sessions and anti-cheat review
+  createGameSession(session: Pick<GameSession, "sessionId" | "userId" | "gameName" | "seed" | "startedAt">): Promise<GameSession>;
+  getGameSession(sessionId: string): Promise<GameSession | undefined>;
+  rejectGameSession(id: number): Promise<void>;
+  createGameScoreFlag(flag: InsertGameScoreFlag): Promise<GameScoreFlag>;
+  getGameScoreFlags(status?: string): Promise<GameScoreFlag[]>;
+  reviewGameScoreFlag(id: number, reviewerId: number, status: "confirmed" | "dismissed", note?: string): Promise<GameScoreFlag | undefined>;
   updatePlayerId(userId: number, newPlayerId: string): Promise<User | undefined>;
-  updateCurrency(userId: number, goldDelta: number, pearlsDelta: number): Promise<User | undefined>;
+  
+  // Currency ledger
+  applyLedgerEntry(entry: LedgerEntry, tx?: DbTransaction): Promise<LedgerResult>;
+  
+  // Daily rewards
+  getLastDailyRewardClaim(userId: number): Promise<DailyRewardClaim | undefined>;
+  countStreakSavers(userId: number): Promise<number>;
+  claimDailyReward(userId: number, timezone: string, useStreakSaver: boolean): Promise<DailyRewardClaimResult>;
+  
+  // Economy config and currency exchange
+  getEconomyConfig(tx?: DbTransaction): Promise<ActiveEconomyConfig>;
+  getEconomyConfigHistory(limit: number): Promise<EconomyConfigVersion[]>;
+  saveEconomyConfig(config: EconomyConfig, createdBy: number, expectedVersion: number, note?: string): Promise<EconomyConfigVersion | undefined>;
+  exchangeCurrency(userId: number, from: ExchangeCurrency, amount: number, expectedVersion?: number): Promise<ExchangeResult>;
+  
+  // Admin balance adjustments and audit log
+  createAdminAdjustment(userId: number, requestedBy: number, data: CreateAdminAdjustmentData): Promise<AdminAdjustment>;
+  decideAdminAdjustment(id: number, adminId: number, approve: boolean, note?: string): Promise<AdminAdjustment>;
+  getAdminAdjustment(id: number): Promise<AdminAdjustment | undefined>;
+  getAdminAdjustments(filter: { status?: string; userId?: number }): Promise<AdminAdjustment[]>;
+  getAdminAuditLog(filter: { targetUserId?: number; actorId?: number }, limit: number): Promise<AdminAuditLogEntry[]>;
+  
+  // Experience and levels
+  grantExperience(userId: number, grant: ExperienceGrant): Promise<ExperienceResult | undefined>;
+  
+  // Sessions (multi-device)
+  createSession(session: InsertSession): Promise<Session>;
+  getSessionByToken(sessionToken: string): Promise<Session | undefined>;
+  getUserSessions(userId: number): Promise<Session[]>;
+  touchSession(sessionId: number): Promise<void>;
+  revokeSession(userId: number, sessionId: number): Promise<boolean>;
+  revokeUserSessions(userId: number, exceptSessionId?: number): Promise<number>;
+  revokeExcessSessions(userId: number, maxSessions: number): Promise<number>;
+  createRefreshToken(sessionId: number, tokenHash: string, expiresAt: Date): Promise<void>;
+  rotateRefreshToken(tokenHash: string, newTokenHash: string, expiresAt: Date): Promise<RefreshRotationResult>;
+  
+  // One-time tokens (password reset, email verification)
+  createAuthToken(userId: number, purpose: AuthTokenPurpose, tokenHash: string, expiresAt: Date, email?: string): Promise<AuthToken>;
+  consumeAuthToken(purpose: AuthTokenPurpose, tokenHash: string): Promise<AuthToken | undefined>;
+  
+  // Login throttling
+  getLoginAttempts(attemptKeys: string[]): Promise<LoginAttempt[]>;
+  incrementLoginFailures(attemptKey: string, resetBefore: Date): Promise<LoginAttempt>;
+  lockLoginKey(attemptKey: string, lockedUntil: Date): Promise<void>;
+  clearLoginAttempts(attemptKey: string): Promise<boolean>;
+  
+  // Idempotency keys
+  beginIdempotentRequest(userId: number, idempotencyKey: string, endpoint: string, requestHash: string): Promise<{ created: boolean; record: IdempotencyKey }>;
+  completeIdempotentRequest(id: number, responseStatus: number, responseBody: unknown): Promise<void>;
+  releaseIdempotentRequest(id: number): Promise<void>;
+  deleteIdempotencyKeysBefore(cutoff: Date): Promise<number>;
   
   // Friends system
   sendFriendRequest(userId: number, friendId: number): Promise<Friendship>;
-  acceptFriendRequest(friendshipId: number): Promise<boolean>;
+  // undefined = الطلب غير موجود أو ليس موجهاً لهذا المستخدم أو قُبل مسبقاً
+  acceptFriendRequest(friendshipId: number, friendId: number): Promise<Friendship | undefined>;
   getFriends(userId: number): Promise<User[]>;
   getFriendRequests(userId: number): Promise<User[]>;
   
   // Gift system
   sendGift(fromUserId: number, toUserId: number, giftType: string, amount: number, message?: string): Promise<Gift>;
-  claimGift(giftId: number): Promise<boolean>;
+  claimGift(giftId: number, toUserId: number): Promise<boolean>; // فقط مستلم الهدية يستطيع استلامها
   getUserGifts(userId: number): Promise<Gift[]>;
   
   // Messages
@@ -53,12 +387,32 @@ export interface IStorage {
   addUserItem(userId: number, itemType: string, itemName: string, expiresAt?: Date): Promise<UserItem>;
   activateItem(userId: number, itemId: number): Promise<boolean>;
   
+  // Shop catalog
+  getShopItems(includeInactive?: boolean): Promise<ShopItem[]>;
+  getShopItem(itemId: number): Promise<ShopItem | undefined>;
+  createShopItem(item: InsertShopItem): Promise<ShopItem>;
+  updateShopItem(itemId: number, updates: Partial<InsertShopItem>): Promise<ShopItem | undefined>;
+  archiveShopItem(itemId: number): Promise<ShopItem | undefined>;
+  purchaseShopItem(userId: number, itemId: number, quantity: number): Promise<ShopPurchaseResult>;
+  
   // Transactions
-  addTransaction(userId: number, type: string, goldAmount: number, pearlsAmount: number, description: string): Promise<Transaction>;
-  getUserTransactions(userId: number): Promise<Transaction[]>;
+  getTransactionsPage(query: TransactionQuery, limit: number, beforeId?: number): Promise<Transaction[]>;
+  getTransactionSummary(query: TransactionQuery): Promise<TransactionSummary>;
+  
+  // Purchase orders
+  createPurchaseOrder(order: Pick<PurchaseOrder, "userId" | "packageId" | "goldAmount" | "priceCents" | "currency" | "provider">): Promise<PurchaseOrder>;
+  setPurchaseOrderReference(orderId: number, providerReference: string): Promise<PurchaseOrder | undefined>;
+  getPurchaseOrder(orderId: number): Promise<PurchaseOrder | undefined>;
+  getUserPurchaseOrders(userId: number): Promise<PurchaseOrder[]>;
+  settlePurchaseOrder(provider: string, providerReference: string, status: "paid" | "failed"): Promise<PurchaseOrder | undefined>;
   
-  // Level system
-  updateLevel(userId: number, levelIncrease: number): Promise<User | undefined>;
+  // Pearl withdrawals
+  createWithdrawalRequest(userId: number, data: CreateWithdrawalData): Promise<{ withdrawal: WithdrawalRequest; user: User }>;
+  getWithdrawalRequest(id: number): Promise<WithdrawalRequest | undefined>;
+  getUserWithdrawalRequests(userId: number): Promise<WithdrawalRequest[]>;
+  getWithdrawalRequests(status?: WithdrawalStatus): Promise<WithdrawalRequest[]>;
+  getWithdrawalEvents(withdrawalId: number): Promise<WithdrawalEvent[]>;
+  reviewWithdrawalRequest(id: number, reviewerId: number, review: WithdrawalReview): Promise<WithdrawalRequest>;
   
   // Shield system
   activateShield(userId: number, shieldType: 'gold' | 'usd'): Promise<UserShield>;
@@ -118,36 +472,154 @@ export class DatabaseStorage implements IStorage {
     }
 
     const playerId = await this.generateUniquePlayerId();
+    const passwordHash = await hashPassword(insertUser.password);
+    return this.insertUserWithWelcomeBonus({
+      playerId,
+      username: insertUser.username,
+      password: passwordHash,
+      email: insertUser.email || null,
+      isGuest: false
+    });
+  }
+
+  // الضيف يحصل على كلمة مرور عشوائية لا يعرفها أحد؛ يدخل فقط عبر رموز الجلسة
+  async createGuestUser(): Promise<User> {
+    const playerId = await this.generateUniquePlayerId();
+    let username = `guest_${playerId}`;
+    while (await this.getUserByUsername(username)) {
+      username = `guest_${playerId}_${randomBytes(2).toString("hex")}`;
+    }
+
+    const passwordHash = await hashPassword(randomBytes(32).toString("hex"));
+    return this.insertUserWithWelcomeBonus({
+      playerId,
+      username,
+      password: passwordHash,
+      email: null,
+      isGuest: true
+    });
+  }
+
+  private async insertUserWithWelcomeBonus(values: {
+    playerId: string;
+    username: string;
+    password: string;
+    email: string | null;
+    isGuest: boolean;
+  }): Promise<User> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(users)
+        .values({
+          ...values,
+          avatar: null,
+          isAdmin: false,
+          coins: 0,
+          goldCoins: 0,
+          pearls: 0,
+          level: 1,
+          experience: 0,
+          status: "offline"
+        })
+        .returning();
+
+      // الهدية الترحيبية من إعدادات الاقتصاد
+      const { version, config } = await this.getEconomyConfig(tx);
+      const { user } = await this.applyLedgerEntry({
+        userId: created.id,
+        type: 'welcome_bonus',
+        goldDelta: config.welcomeBonus.gold,
+        pearlsDelta: config.welcomeBonus.pearls,
+        description: 'هدية ترحيبية - مرحباً بك في INFINITY BOX!',
+        economyConfigVersion: version
+      }, tx);
+
+      return user;
+    });
+  }
+
+  // الترقية تحدث في نفس الصف، لذا تبقى النتائج والرصيد والأصدقاء كما هي
+  async upgradeGuestUser(userId: number, data: UpgradeGuestData): Promise<User> {
+    const existingUsernameUser = await this.getUserByUsername(data.username);
+    if (existingUsernameUser && existingUsernameUser.id !== userId) {
+      throw new Error('اسم المستخدم مستخدم مسبقاً');
+    }
+
+    const existingEmailUser = await this.getUserByEmail(data.email);
+    if (existingEmailUser && existingEmailUser.id !== userId) {
+      throw new Error('البريد الإلكتروني مستخدم مسبقاً');
+    }
+
+    const passwordHash = await hashPassword(data.password);
     const [user] = await db
-      .insert(users)
-      .values({
-        playerId,
-        username: insertUser.username,
-        password: insertUser.password,
-        email: insertUser.email || null,
-        avatar: null,
-        isAdmin: false,
-        coins: 0,
-        goldCoins: 10000, // هدية ترحيبية: 10000 ذهب
-        pearls: 1, // هدية ترحيبية: 1 لؤلؤة (= 1 دولار)
-        level: 1,
-        experience: 0,
-        status: "offline"
+      .update(users)
+      .set({
+        username: data.username,
+        password: passwordHash,
+        email: data.email,
+        emailVerified: false,
+        emailVerifiedAt: null,
+        isGuest: false
       })
+      .where(and(eq(users.id, userId), eq(users.isGuest, true)))
       .returning();
 
-    // إضافة معاملة الهدية الترحيبية
-    await this.addTransaction(
-      user.id,
-      'welcome_bonus',
-      10000,
-      1,
-      'هدية ترحيبية - مرحباً بك في INFINITY BOX!'
-    );
-
+    if (!user) {
+      throw new Error('Account is not a guest account');
+    }
     return user;
   }
 
+  // حذف حسابات الضيوف المهجورة مع كل الصفوف المرتبطة بها في معاملة واحدة
+  async deleteInactiveGuests(inactiveSince: Date): Promise<number> {
+    return db.transaction(async (tx) => {
+      const guests = await tx
+        .select({ id: users.id })
+        .from(users)
+        .where(and(
+          eq(users.isGuest, true),
+          sql`${users.lastActive} < ${inactiveSince}`,
+          // الضيف يستخدم رموز الجلسة فقط، لذا نشاطه الفعلي مسجل في الجلسات
+          sql`not exists (select 1 from ${sessions} where ${sessions.userId} = ${users.id} and ${sessions.lastSeenAt} >= ${inactiveSince})`
+        ))
+        .for("update");
+      if (guests.length === 0) return 0;
+
+      const ids = guests.map(g => g.id);
+      const guestSessions = tx.select({ id: sessions.id }).from(sessions).where(inArray(sessions.userId, ids));
+
+      await tx.delete(refreshTokens).where(inArray(refreshTokens.sessionId, guestSessions));
+      await tx.delete(sessions).where(inArray(sessions.userId, ids));
+      await tx.delete(authTokens).where(inArray(authTokens.userId, ids));
+      await tx.delete(gameScoreFlags).where(inArray(gameScoreFlags.userId, ids));
+      await tx.delete(matchResults).where(inArray(matchResults.userId, ids));
+      await tx.delete(userSettings).where(inArray(userSettings.userId, ids));
+      await tx.delete(gameSessions).where(inArray(gameSessions.userId, ids));
+      await tx.delete(gameScores).where(inArray(gameScores.userId, ids));
+      await tx.delete(achievements).where(inArray(achievements.userId, ids));
+      await tx.delete(xpEvents).where(inArray(xpEvents.userId, ids));
+      await tx.delete(dailyRewardClaims).where(inArray(dailyRewardClaims.userId, ids));
+      await tx.delete(friendships).where(or(inArray(friendships.userId, ids), inArray(friendships.friendId, ids)));
+      await tx.delete(gifts).where(or(inArray(gifts.fromUserId, ids), inArray(gifts.toUserId, ids)));
+      await tx.delete(privateMessages).where(or(inArray(privateMessages.fromUserId, ids), inArray(privateMessages.toUserId, ids)));
+      await tx.delete(userItems).where(inArray(userItems.userId, ids));
+      // admin_adjustments.transaction_id يشير إلى transactions، لذا تُحذف قبلها
+      await tx.delete(adminAdjustments).where(inArray(adminAdjustments.userId, ids));
+      await tx.delete(transactions).where(inArray(transactions.userId, ids));
+      await tx.delete(userShields).where(inArray(userShields.userId, ids));
+      await tx.delete(idempotencyKeys).where(inArray(idempotencyKeys.userId, ids));
+      await tx.delete(purchaseOrders).where(inArray(purchaseOrders.userId, ids));
+      await tx.delete(withdrawalEvents).where(inArray(
+        withdrawalEvents.withdrawalId,
+        tx.select({ id: withdrawalRequests.id }).from(withdrawalRequests).where(inArray(withdrawalRequests.userId, ids))
+      ));
+      await tx.delete(withdrawalRequests).where(inArray(withdrawalRequests.userId, ids));
+      await tx.delete(users).where(inArray(users.id, ids));
+
+      return ids.length;
+    });
+  }
+
   async updateUser(id: number, updates: Partial<User>): Promise<User | undefined> {
     const [user] = await db
       .update(users)
@@ -196,12 +668,19 @@ export class DatabaseStorage implements IStorage {
 
   async authenticateUser(username: string, password: string): Promise<User | null> {
     const user = await this.getUserByUsername(username);
-    if (user && user.password === password) {
-      // Update last active time
-      await this.updateUser(user.id, { lastActive: new Date(), status: "online" });
-      return user;
+    if (!user) return null;
+
+    const { valid, needsRehash } = await verifyPassword(password, user.password);
+    if (!valid) return null;
+
+    // Update last active time
+    const updates: Partial<User> = { lastActive: new Date(), status: "online" };
+    if (needsRehash) {
+      // ترحيل كلمات المرور القديمة المخزنة كنص عادي إلى bcrypt
+      updates.password = await hashPassword(password);
     }
-    return null;
+    const updatedUser = await this.updateUser(user.id, updates);
+    return updatedUser || user;
   }
 
   async saveGameScore(userId: number, gameName: string, score: number, level: number): Promise<void> {
@@ -213,6 +692,325 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  // يحفظ النتيجة ويضيف المكافأة في معاملة واحدة. قفل صف اللاعب أولاً يمنع
+  // طلبين متزامنين من تجاوز الحد اليومي لأن كلاهما يقرأ نفس المجموع
+  async recordGameScore(
+    userId: number,
+    gameName: string,
+    score: number,
+    level: number,
+    computeReward: (earnedToday: RewardAmount) => RewardAmount,
+    dayStart: Date,
+    gameSessionId?: number,
+    durationMs?: number
+  ): Promise<GameScoreResult> {
+    return db.transaction(async (tx) => {
+      // حجز الجلسة بشرط أن تكون نشطة - طلبان متزامنان لا يمكن أن ينجحا معاً
+      if (gameSessionId !== undefined) {
+        const [claimed] = await tx
+          .update(gameSessions)
+          .set({ status: "submitted", submittedAt: new Date() })
+          .where(and(eq(gameSessions.id, gameSessionId), eq(gameSessions.status, "active")))
+          .returning();
+        if (!claimed) {
+          throw new ScoreRejectedError("SESSION_ALREADY_SUBMITTED", "A score was already submitted for this game session");
+        }
+      }
+
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!user) {
+        throw new Error('المستخدم غير موجود');
+      }
+
+      const [earned] = await tx
+        .select({
+          gold: sql<number>`coalesce(sum(${transactions.goldAmount}), 0)::int`,
+          pearls: sql<number>`coalesce(sum(${transactions.pearlsAmount}), 0)::int`
+        })
+        .from(transactions)
+        .innerJoin(gameScores, eq(gameScores.id, transactions.referenceId))
+        .where(and(
+          eq(transactions.userId, userId),
+          eq(transactions.transactionType, 'game_reward'),
+          eq(transactions.referenceType, 'game_score'),
+          eq(gameScores.gameName, gameName),
+          sql`${transactions.createdAt} >= ${dayStart}`
+        ));
+
+      const [gameScore] = await tx
+        .insert(gameScores)
+        .values({ userId, gameName, score, level, durationMs })
+        .returning();
+      if (gameSessionId !== undefined) {
+        await tx
+          .update(gameSessions)
+          .set({ gameScoreId: gameScore.id })
+          .where(eq(gameSessions.id, gameSessionId));
+      }
+
+      const reward = computeReward({ gold: earned.gold, pearls: earned.pearls });
+      if (reward.gold <= 0 && reward.pearls <= 0) {
+        return { gameScore, reward: { gold: 0, pearls: 0 }, user };
+      }
+
+      const ledger = await this.applyLedgerEntry({
+        userId,
+        type: 'game_reward',
+        goldDelta: reward.gold,
+        pearlsDelta: reward.pearls,
+        description: `مكافأة لعبة ${gameName} - النتيجة ${score}`,
+        referenceType: 'game_score',
+        referenceId: gameScore.id
+      }, tx);
+
+      return { gameScore, reward, user: ledger.user };
+    });
+  }
+
+  // كل لاعب يحصل على صف في game_scores (للوحات الصدارة والإحصائيات) وصف نتيجة مباراة
+  async saveMatchResults(roomId: string, gameType: string, durationMs: number | null, players: MatchPlayerResult[]): Promise<MatchResult[]> {
+    if (players.length === 0) return [];
+
+    return db.transaction(async (tx) => {
+      const saved: MatchResult[] = [];
+      for (const player of players) {
+        const [gameScore] = await tx
+          .insert(gameScores)
+          .values({ userId: player.userId, gameName: gameType, score: player.score, level: player.level, durationMs })
+          .returning();
+        const [result] = await tx
+          .insert(matchResults)
+          .values({
+            roomId,
+            gameType,
+            userId: player.userId,
+            gameScoreId: gameScore.id,
+            score: player.score,
+            placement: player.placement,
+            playerCount: players.length,
+            isWinner: player.isWinner,
+            durationMs
+          })
+          .returning();
+        saved.push(result);
+      }
+      return saved;
+    });
+  }
+
+  // Game settings
+  async getUserSettings(userId: number, gameNames: string[]): Promise<UserSettings[]> {
+    return await db
+      .select()
+      .from(userSettings)
+      .where(and(eq(userSettings.userId, userId), inArray(userSettings.gameName, gameNames)));
+  }
+
+  async saveUserSettings(userId: number, gameName: string, settings: unknown): Promise<UserSettings> {
+    const [saved] = await db
+      .insert(userSettings)
+      .values({ userId, gameName, settings })
+      .onConflictDoUpdate({
+        target: [userSettings.userId, userSettings.gameName],
+        set: { settings, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  // Player statistics
+  async getGameScoreSummary(userId: number): Promise<GameScoreSummary[]> {
+    const result = await db.execute(sql`
+      select ${gameScores.gameName} as "gameName",
+             count(*)::int as "gamesPlayed",
+             max(${gameScores.score})::int as "bestScore",
+             round(avg(${gameScores.score}), 2)::float as "averageScore",
+             (array_agg(${gameScores.score} order by ${gameScores.playedAt} desc, ${gameScores.id} desc))[1]::int as "lastScore",
+             max(${gameScores.playedAt}) as "lastPlayedAt",
+             coalesce(sum(${gameScores.durationMs}), 0)::bigint as "totalPlayTimeMs"
+      from ${gameScores}
+      where ${gameScores.userId} = ${userId}
+      group by ${gameScores.gameName}
+      order by max(${gameScores.playedAt}) desc`);
+    return (result.rows as any[]).map(row => ({
+      ...row,
+      totalPlayTimeMs: Number(row.totalPlayTimeMs),
+      lastPlayedAt: row.lastPlayedAt ? new Date(row.lastPlayedAt) : null
+    }));
+  }
+
+  // الأيام (UTC) التي لعب فيها المستخدم، من الأحدث للأقدم. الأوقات مخزنة بتوقيت UTC بلا منطقة زمنية
+  async getPlayDays(userId: number): Promise<string[]> {
+    const result = await db.execute(sql`
+      select distinct to_char(${gameScores.playedAt}, 'YYYY-MM-DD') as day
+      from ${gameScores}
+      where ${gameScores.userId} = ${userId}
+      order by day desc`);
+    return (result.rows as Array<{ day: string }>).map(row => row.day);
+  }
+
+  async getMatchResults(userId: number): Promise<MatchResult[]> {
+    return await db
+      .select()
+      .from(matchResults)
+      .where(eq(matchResults.userId, userId))
+      .orderBy(matchResults.endedAt);
+  }
+
+  // Achievements
+  async getUserAchievements(userId: number): Promise<Achievement[]> {
+    return await db
+      .select()
+      .from(achievements)
+      .where(eq(achievements.userId, userId))
+      .orderBy(achievements.unlockedAt);
+  }
+
+  async getAchievementCounters(userId: number): Promise<AchievementCounters> {
+    const [scores, counts] = await Promise.all([
+      db
+        .select({ gameName: gameScores.gameName, bestScore: sql<number>`max(${gameScores.score})::int`, played: sql<number>`count(*)::int` })
+        .from(gameScores)
+        .where(eq(gameScores.userId, userId))
+        .groupBy(gameScores.gameName),
+      db.execute(sql`
+        select
+          (select count(*) from ${matchResults} where ${matchResults.userId} = ${userId} and ${matchResults.isWinner})::int as "matchesWon",
+          (select count(*) from ${gifts}
+             where ${gifts.fromUserId} = ${userId}
+               and ${gifts.giftType} in ('gold', 'pearls')
+               and ${gifts.amount} > 0)::int as "giftsSent",
+          (select count(distinct case when ${friendships.userId} = ${userId} then ${friendships.friendId} else ${friendships.userId} end)
+             from ${friendships}
+             where (${friendships.userId} = ${userId} or ${friendships.friendId} = ${userId})
+               and ${friendships.userId} <> ${friendships.friendId}
+               and ${friendships.status} = 'accepted')::int as "friends"`)
+    ]);
+    const row = counts.rows[0] as { matchesWon: number; giftsSent: number; friends: number };
+
+    return {
+      gamesPlayed: scores.reduce((sum, s) => sum + s.played, 0),
+      bestScores: Object.fromEntries(scores.map(s => [s.gameName, s.bestScore])),
+      matchesWon: row.matchesWon,
+      giftsSent: row.giftsSent,
+      friends: row.friends
+    };
+  }
+
+  // undefined = الإنجاز مفتوح مسبقاً، فلا تُمنح المكافأة مرة ثانية
+  async unlockAchievement(userId: number, unlock: AchievementUnlock): Promise<UnlockedAchievement | undefined> {
+    return db.transaction(async (tx) => {
+      const [achievement] = await tx
+        .insert(achievements)
+        .values({ userId, achievementKey: unlock.key, achievementName: unlock.name, description: unlock.description })
+        .onConflictDoNothing({ target: [achievements.userId, achievements.achievementKey] })
+        .returning();
+      if (!achievement) return undefined;
+
+      const result: UnlockedAchievement = { achievement };
+      if (unlock.gold || unlock.pearls) {
+        const ledger = await this.applyLedgerEntry({
+          userId,
+          type: 'achievement_reward',
+          goldDelta: unlock.gold,
+          pearlsDelta: unlock.pearls,
+          description: `مكافأة إنجاز: ${unlock.name}`,
+          referenceType: 'achievement',
+          referenceId: achievement.id
+        }, tx);
+        result.transaction = ledger.transaction;
+      }
+      if (unlock.item) {
+        const [item] = await tx
+          .insert(userItems)
+          .values({ userId, itemType: unlock.item.itemType, itemName: unlock.item.itemName })
+          .returning();
+        result.item = item;
+      }
+      return result;
+    });
+  }
+
+  // Leaderboards
+  // أفضل نتيجة لكل لاعب ضمن النافذة الزمنية (user_id, score)؛ userId يقصرها على لاعب واحد
+  private leaderboardBoard(query: LeaderboardQuery, userId?: number): SQL {
+    const conditions: SQL[] = [sql`${gameScores.userId} is not null`];
+    if (query.gameName) conditions.push(sql`${gameScores.gameName} = ${query.gameName}`);
+    if (query.since) conditions.push(sql`${gameScores.playedAt} >= ${query.since}`);
+    if (query.userIds) conditions.push(inArray(gameScores.userId, query.userIds));
+    if (userId !== undefined) conditions.push(sql`${gameScores.userId} = ${userId}`);
+    const where = sql.join(conditions, sql` and `);
+
+    const board = query.gameName
+      ? sql`select ${gameScores.userId} as user_id, max(${gameScores.score}) as score
+            from ${gameScores} where ${where} group by ${gameScores.userId}`
+      : sql`select user_id, sum(best) as score from (
+              select ${gameScores.userId} as user_id, max(${gameScores.score}) as best
+              from ${gameScores} where ${where} group by ${gameScores.userId}, ${gameScores.gameName}
+            ) per_game group by user_id`;
+
+    return board;
+  }
+
+  async getLeaderboard(query: LeaderboardQuery, limit: number): Promise<LeaderboardEntry[]> {
+    const result = await db.execute(sql`with board as (${this.leaderboardBoard(query)}),
+      ranked as (select user_id, score, rank() over (order by score desc) as rank from board)
+      select ranked.rank::int as "rank", ranked.user_id as "userId", ranked.score::int as "score",
+             u.username, u.player_id as "playerId", u.avatar
+      from ranked join ${users} u on u.id = ranked.user_id
+      order by ranked.rank, ranked.user_id
+      limit ${limit}`);
+    return result.rows as unknown as LeaderboardEntry[];
+  }
+
+  // الترتيب = 1 + عدد اللاعبين الأعلى نتيجة (نفس rank())، بدون ترتيب اللوحة كاملة أو إرجاعها
+  async getLeaderboardRank(query: LeaderboardQuery, userId: number): Promise<LeaderboardEntry | undefined> {
+    const result = await db.execute(sql`with mine as (${this.leaderboardBoard(query, userId)})
+      select (select count(*) from (${this.leaderboardBoard(query)}) board where board.score > mine.score)::int + 1 as "rank",
+             mine.user_id as "userId", mine.score::int as "score",
+             u.username, u.player_id as "playerId", u.avatar
+      from mine join ${users} u on u.id = mine.user_id`);
+    return result.rows[0] as unknown as LeaderboardEntry | undefined;
+  }
+
+  // Game sessions and anti-cheat review
+  async createGameSession(session: Pick<GameSession, "sessionId" | "userId" | "gameName" | "seed" | "startedAt">): Promise<GameSession> {
+    const [created] = await db.insert(gameSessions).values(session).returning();
+    return created;
+  }
+
+  async getGameSession(sessionId: string): Promise<GameSession | undefined> {
+    const [session] = await db.select().from(gameSessions).where(eq(gameSessions.sessionId, sessionId));
+    return session;
+  }
+
+  async rejectGameSession(id: number): Promise<void> {
+    await db
+      .update(gameSessions)
+      .set({ status: "rejected", submittedAt: new Date() })
+      .where(and(eq(gameSessions.id, id), eq(gameSessions.status, "active")));
+  }
+
+  async createGameScoreFlag(flag: InsertGameScoreFlag): Promise<GameScoreFlag> {
+    const [created] = await db.insert(gameScoreFlags).values(flag).returning();
+    return created;
+  }
+
+  async getGameScoreFlags(status?: string): Promise<GameScoreFlag[]> {
+    const query = db.select().from(gameScoreFlags);
+    const filtered = status ? query.where(eq(gameScoreFlags.status, status)) : query;
+    return await filtered.orderBy(desc(gameScoreFlags.createdAt)).limit(100);
+  }
+
+  async reviewGameScoreFlag(id: number, reviewerId: number, status: "confirmed" | "dismissed", note?: string): Promise<GameScoreFlag | undefined> {
+    const [flag] = await db
+      .update(gameScoreFlags)
+      .set({ status, reviewNote: note ?? null, reviewedBy: reviewerId, reviewedAt: new Date() })
+      .where(eq(gameScoreFlags.id, id))
+      .returning();
+    return flag;
+  }
+
   async updatePlayerId(userId: number, newPlayerId: string): Promise<User | undefined> {
     // Check if the new player ID is unique
     const isUnique = await this.isPlayerIdUnique(newPlayerId);
@@ -229,57 +1027,678 @@ export class DatabaseStorage implements IStorage {
     return updatedUser;
   }
 
-  async updateCurrency(userId: number, goldDelta: number, pearlsDelta: number): Promise<User | undefined> {
-    try {
-      const currentUser = await this.getUser(userId);
-      if (!currentUser) return undefined;
+  // يقفل صف الرصيد، يرفض السحب على المكشوف، ويكتب الرصيد الجديد وسجل المعاملة معاً
+  async applyLedgerEntry(entry: LedgerEntry, tx?: DbTransaction): Promise<LedgerResult> {
+    if (!tx) {
+      return db.transaction((innerTx) => this.applyLedgerEntry(entry, innerTx));
+    }
+
+    const [current] = await tx
+      .select()
+      .from(users)
+      .where(eq(users.id, entry.userId))
+      .for("update");
+    if (!current) {
+      throw new Error('المستخدم غير موجود');
+    }
+
+    const newGold = (current.goldCoins || 0) + entry.goldDelta;
+    const newPearls = (current.pearls || 0) + entry.pearlsDelta;
+    if (newGold < 0) throw new InsufficientBalanceError("gold");
+    if (newPearls < 0) throw new InsufficientBalanceError("pearls");
+
+    const [user] = await tx
+      .update(users)
+      .set({
+        goldCoins: newGold,
+        pearls: newPearls,
+        vipLevel: current.vipLevel + (entry.vipLevelDelta || 0)
+      })
+      .where(eq(users.id, entry.userId))
+      .returning();
+
+    const [transaction] = await tx
+      .insert(transactions)
+      .values({
+        userId: entry.userId,
+        transactionType: entry.type,
+        goldAmount: entry.goldDelta,
+        pearlsAmount: entry.pearlsDelta,
+        description: entry.description,
+        referenceType: entry.referenceType,
+        referenceId: entry.referenceId,
+        economyConfigVersion: entry.economyConfigVersion
+      })
+      .returning();
 
-      const newGold = Math.max(0, (currentUser.goldCoins || 0) + goldDelta);
-      const newPearls = Math.max(0, (currentUser.pearls || 0) + pearlsDelta);
+    return { user, transaction };
+  }
 
-      // Calculate level increase based on gold charged
-      let levelIncrease = 0;
-      if (goldDelta > 0) {
-        // +5 levels for every 5000 gold charged
-        levelIncrease = Math.floor(goldDelta / 5000) * 5;
+  // Daily rewards
+  async getLastDailyRewardClaim(userId: number): Promise<DailyRewardClaim | undefined> {
+    const [claim] = await db
+      .select()
+      .from(dailyRewardClaims)
+      .where(eq(dailyRewardClaims.userId, userId))
+      .orderBy(desc(dailyRewardClaims.claimDate))
+      .limit(1);
+    return claim;
+  }
+
+  async countStreakSavers(userId: number): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(userItems)
+      .where(and(
+        eq(userItems.userId, userId),
+        eq(userItems.itemType, STREAK_SAVER_ITEM.itemType),
+        sql`(${userItems.expiresAt} is null or ${userItems.expiresAt} > now())`
+      ));
+    return count;
+  }
+
+  async claimDailyReward(userId: number, timezone: string, useStreakSaver: boolean): Promise<DailyRewardClaimResult> {
+    return db.transaction(async (tx) => {
+      // قفل صف المستخدم يجعل المطالبات المتزامنة لنفس اليوم تنتظر بعضها
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!user) {
+        throw new Error('المستخدم غير موجود');
       }
-      
-      const newLevel = Math.max(1, (currentUser.level || 1) + levelIncrease);
 
-      const [user] = await db
-        .update(users)
-        .set({ 
-          goldCoins: newGold,
-          pearls: newPearls,
-          level: newLevel
+      const now = new Date();
+      const claimDate = calendarDate(now, timezone);
+      const [last] = await tx
+        .select()
+        .from(dailyRewardClaims)
+        .where(eq(dailyRewardClaims.userId, userId))
+        .orderBy(desc(dailyRewardClaims.claimDate))
+        .limit(1);
+
+      // تغيير المنطقة الزمنية بعد المطالبة مباشرة قد يفتح يوماً تقويمياً جديداً
+      if (last && last.timezone !== timezone && last.claimedAt && now.getTime() - last.claimedAt.getTime() < 24 * 60 * 60 * 1000) {
+        throw new DailyRewardError("TIMEZONE_CHANGE_TOO_SOON");
+      }
+      if (last && daysBetween(last.claimDate, claimDate) <= 0) {
+        return { claim: last, alreadyClaimed: true, user };
+      }
+
+      const missedDays = last ? daysBetween(last.claimDate, claimDate) - 1 : 0;
+      let streak = last && missedDays === 0 ? last.streak + 1 : 1;
+      let streakSaversUsed = 0;
+      if (last && missedDays > 0 && useStreakSaver) {
+        // عنصر واحد لكل يوم فائت - الأقرب انتهاءً يُستهلك أولاً
+        const savers = await tx
+          .select({ id: userItems.id })
+          .from(userItems)
+          .where(and(
+            eq(userItems.userId, userId),
+            eq(userItems.itemType, STREAK_SAVER_ITEM.itemType),
+            sql`(${userItems.expiresAt} is null or ${userItems.expiresAt} > now())`
+          ))
+          .orderBy(sql`${userItems.expiresAt} asc nulls last`, userItems.id)
+          .limit(missedDays);
+        if (savers.length < missedDays) {
+          throw new DailyRewardError("NOT_ENOUGH_STREAK_SAVERS");
+        }
+        await tx.delete(userItems).where(inArray(userItems.id, savers.map(s => s.id)));
+        streakSaversUsed = missedDays;
+        streak = last.streak + missedDays + 1;
+      }
+
+      const reward = dailyRewardForStreak(streak);
+      const [claim] = await tx
+        .insert(dailyRewardClaims)
+        .values({
+          userId,
+          claimDate,
+          timezone,
+          streak,
+          cycleDay: reward.day,
+          goldAmount: reward.gold,
+          pearlsAmount: reward.pearls,
+          itemType: reward.item?.itemType,
+          streakSaversUsed
         })
-        .where(eq(users.id, userId))
         .returning();
-      return user;
-    } catch (error) {
-      console.error("Error updating currency:", error);
-      return undefined;
+
+      const ledger = await this.applyLedgerEntry({
+        userId,
+        type: 'daily_reward',
+        goldDelta: reward.gold,
+        pearlsDelta: reward.pearls,
+        description: `مكافأة الدخول اليومي - اليوم ${reward.day} (سلسلة ${streak})`,
+        referenceType: 'daily_reward_claim',
+        referenceId: claim.id
+      }, tx);
+
+      let item: UserItem | undefined;
+      if (reward.item) {
+        [item] = await tx
+          .insert(userItems)
+          .values({ userId, itemType: reward.item.itemType, itemName: reward.item.itemName })
+          .returning();
+      }
+
+      return { claim, alreadyClaimed: false, user: ledger.user, transaction: ledger.transaction, item };
+    });
+  }
+
+  // Economy config and currency exchange
+  async getEconomyConfig(tx?: DbTransaction): Promise<ActiveEconomyConfig> {
+    const [latest] = await (tx ?? db)
+      .select()
+      .from(economyConfigs)
+      .orderBy(desc(economyConfigs.version))
+      .limit(1);
+    if (!latest) return { version: 0, config: DEFAULT_ECONOMY_CONFIG };
+
+    // الحقول المضافة بعد حفظ النسخة تأخذ قيمها الافتراضية
+    return { version: latest.version, config: economyConfigSchema.parse({ ...DEFAULT_ECONOMY_CONFIG, ...(latest.config as object) }) };
+  }
+
+  async getEconomyConfigHistory(limit: number): Promise<EconomyConfigVersion[]> {
+    return await db
+      .select()
+      .from(economyConfigs)
+      .orderBy(desc(economyConfigs.version))
+      .limit(limit);
+  }
+
+  // undefined = النسخة الحالية ليست expectedVersion (عدّلها مدير آخر)
+  async saveEconomyConfig(config: EconomyConfig, createdBy: number, expectedVersion: number, note?: string): Promise<EconomyConfigVersion | undefined> {
+    return db.transaction(async (tx) => {
+      const current = await this.getEconomyConfig(tx);
+      if (current.version !== expectedVersion) return undefined;
+
+      // الفهرس الفريد على version يرفض الحفظ المتزامن لنفس الرقم
+      const [saved] = await tx
+        .insert(economyConfigs)
+        .values({ version: expectedVersion + 1, config, note, createdBy })
+        .returning();
+      return saved;
+    });
+  }
+
+  async exchangeCurrency(userId: number, from: ExchangeCurrency, amount: number, expectedVersion?: number): Promise<ExchangeResult> {
+    return db.transaction(async (tx) => {
+      const active = await this.getEconomyConfig(tx);
+      if (!active.config.exchangeEnabled) throw new ExchangeError("EXCHANGE_DISABLED");
+      if (from === 'gold' && !active.config.goldToPearlsEnabled) throw new ExchangeError("GOLD_TO_PEARLS_DISABLED");
+      if (expectedVersion !== undefined && expectedVersion !== active.version) {
+        throw new ExchangeError("RATE_CHANGED");
+      }
+
+      const quote = quoteExchange(active, from, amount);
+      if (quote.credit <= 0) throw new ExchangeError("EXCHANGE_TOO_SMALL");
+
+      // قيد للصرف بالسعر الكامل وقيد منفصل للرسوم، وكلاهما يحمل نسخة الأسعار
+      const exchange = await this.applyLedgerEntry({
+        userId,
+        type: 'currency_exchange',
+        goldDelta: from === 'gold' ? -quote.grossGold : quote.grossGold,
+        pearlsDelta: from === 'gold' ? quote.credit : -quote.debit,
+        description: from === 'gold'
+          ? `صرف ${quote.grossGold} ذهب إلى ${quote.credit} لؤلؤ`
+          : `صرف ${quote.debit} لؤلؤ إلى ${quote.grossGold} ذهب`,
+        economyConfigVersion: active.version
+      }, tx);
+
+      const results = [exchange];
+      if (quote.feeGold > 0) {
+        results.push(await this.applyLedgerEntry({
+          userId,
+          type: 'exchange_fee',
+          goldDelta: -quote.feeGold,
+          pearlsDelta: 0,
+          description: `رسوم صرف العملة (${quote.feeBps / 100}%)`,
+          referenceType: 'transaction',
+          referenceId: exchange.transaction.id,
+          economyConfigVersion: active.version
+        }, tx));
+      }
+
+      return { quote, user: results[results.length - 1].user, transactions: results.map(r => r.transaction) };
+    });
+  }
+
+  // Admin balance adjustments and audit log
+  private async writeAuditLog(tx: DbTransaction, entry: Omit<AdminAuditLogEntry, "id" | "createdAt">): Promise<void> {
+    await tx.insert(adminAuditLog).values(entry);
+  }
+
+  // ينفذ التعديل: قيد admin_adjustment في السجل (حتى لو كان للعناصر فقط) ثم إضافة أو سحب العناصر
+  private async applyAdminAdjustment(tx: DbTransaction, adjustment: AdminAdjustment, approvedBy: number | null, decisionNote?: string): Promise<AdminAdjustment> {
+    const { version } = await this.getEconomyConfig(tx);
+    const itemNote = adjustment.itemQuantity ? ` و ${adjustment.itemQuantity} × ${adjustment.itemName}` : '';
+    const { transaction } = await this.applyLedgerEntry({
+      userId: adjustment.userId,
+      type: 'admin_adjustment',
+      goldDelta: adjustment.goldDelta,
+      pearlsDelta: adjustment.pearlsDelta,
+      description: `تعديل إداري${itemNote} - ${adjustment.reason} (${adjustment.ticketReference})`,
+      referenceType: 'admin_adjustment',
+      referenceId: adjustment.id,
+      economyConfigVersion: version
+    }, tx);
+
+    if (adjustment.itemQuantity > 0) {
+      await tx.insert(userItems).values(Array.from({ length: adjustment.itemQuantity }, () => ({
+        userId: adjustment.userId,
+        itemType: adjustment.itemType!,
+        itemName: adjustment.itemName!
+      })));
+    } else if (adjustment.itemQuantity < 0) {
+      const owned = await tx
+        .select({ id: userItems.id })
+        .from(userItems)
+        .where(and(
+          eq(userItems.userId, adjustment.userId),
+          eq(userItems.itemType, adjustment.itemType!),
+          eq(userItems.itemName, adjustment.itemName!)
+        ))
+        .orderBy(userItems.obtainedAt)
+        .limit(-adjustment.itemQuantity)
+        .for("update");
+      if (owned.length < -adjustment.itemQuantity) {
+        throw new AdminAdjustmentError("INSUFFICIENT_ITEMS");
+      }
+      await tx.delete(userItems).where(inArray(userItems.id, owned.map(i => i.id)));
     }
+
+    const [applied] = await tx
+      .update(adminAdjustments)
+      .set({ status: "applied", approvedBy, decisionNote, transactionId: transaction.id, decidedAt: new Date() })
+      .where(eq(adminAdjustments.id, adjustment.id))
+      .returning();
+    return applied;
   }
 
-  async updateLevel(userId: number, levelIncrease: number): Promise<User | undefined> {
-    try {
-      const user = await this.getUser(userId);
-      if (!user) return undefined;
+  // التعديلات تحت الحد تُطبق فوراً، وفوقه تُحفظ بحالة pending_approval
+  async createAdminAdjustment(userId: number, requestedBy: number, data: CreateAdminAdjustmentData): Promise<AdminAdjustment> {
+    if (requestedBy === userId) throw new AdminAdjustmentError("SELF_ADJUSTMENT");
+
+    return db.transaction(async (tx) => {
+      // قفل اللاعب يجعل طلبات التعديل المتزامنة له ترى مجاميع بعضها
+      const [target] = await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for("update");
+      if (!target) throw new AdminAdjustmentError("USER_NOT_FOUND");
+
+      const { config } = await this.getEconomyConfig(tx);
+      const [recent] = await tx
+        .select({
+          gold: sql<number>`coalesce(sum(abs(${adminAdjustments.goldDelta})), 0)::int`,
+          pearls: sql<number>`coalesce(sum(abs(${adminAdjustments.pearlsDelta})), 0)::int`,
+          items: sql<number>`coalesce(sum(abs(${adminAdjustments.itemQuantity})), 0)::int`
+        })
+        .from(adminAdjustments)
+        .where(and(
+          eq(adminAdjustments.userId, userId),
+          inArray(adminAdjustments.status, ["applied", "pending_approval"]),
+          sql`${adminAdjustments.createdAt} >= ${new Date(Date.now() - ADJUSTMENT_APPROVAL_WINDOW_MS)}`
+        ));
+      const needsApproval = requiresSecondApproval(config, data, recent);
+      const [adjustment] = await tx
+        .insert(adminAdjustments)
+        .values({
+          userId,
+          requestedBy,
+          status: "pending_approval",
+          goldDelta: data.goldDelta,
+          pearlsDelta: data.pearlsDelta,
+          itemType: data.item?.itemType,
+          itemName: data.item?.itemName,
+          itemQuantity: data.item?.quantity ?? 0,
+          reason: data.reason,
+          ticketReference: data.ticketReference
+        })
+        .returning();
+
+      await this.writeAuditLog(tx, {
+        actorId: requestedBy,
+        action: needsApproval ? "adjustment.requested" : "adjustment.applied",
+        targetUserId: userId,
+        entityType: "admin_adjustment",
+        entityId: adjustment.id,
+        details: { goldDelta: data.goldDelta, pearlsDelta: data.pearlsDelta, item: data.item, reason: data.reason, ticketReference: data.ticketReference }
+      });
+
+      return needsApproval ? adjustment : this.applyAdminAdjustment(tx, adjustment, null);
+    });
+  }
+
+  async decideAdminAdjustment(id: number, adminId: number, approve: boolean, note?: string): Promise<AdminAdjustment> {
+    return db.transaction(async (tx) => {
+      const [adjustment] = await tx
+        .select()
+        .from(adminAdjustments)
+        .where(eq(adminAdjustments.id, id))
+        .for("update");
+      if (!adjustment) throw new AdminAdjustmentError("ADJUSTMENT_NOT_FOUND");
+      if (adjustment.status !== "pending_approval") throw new AdminAdjustmentError("NOT_PENDING");
+      // صاحب الطلب يستطيع سحبه (رفضه) لكن لا يستطيع الموافقة عليه
+      if (approve && adjustment.requestedBy === adminId) throw new AdminAdjustmentError("SELF_APPROVAL");
+
+      await this.writeAuditLog(tx, {
+        actorId: adminId,
+        action: approve ? "adjustment.approved" : "adjustment.rejected",
+        targetUserId: adjustment.userId,
+        entityType: "admin_adjustment",
+        entityId: adjustment.id,
+        details: note ? { note } : null
+      });
+
+      if (approve) {
+        return this.applyAdminAdjustment(tx, adjustment, adminId, note);
+      }
+
+      const [rejected] = await tx
+        .update(adminAdjustments)
+        .set({ status: "rejected", approvedBy: adminId, decisionNote: note, decidedAt: new Date() })
+        .where(eq(adminAdjustments.id, id))
+        .returning();
+      return rejected;
+    });
+  }
+
+  async getAdminAdjustment(id: number): Promise<AdminAdjustment | undefined> {
+    const [adjustment] = await db.select().from(adminAdjustments).where(eq(adminAdjustments.id, id));
+    return adjustment;
+  }
+
+  async getAdminAdjustments(filter: { status?: string; userId?: number }): Promise<AdminAdjustment[]> {
+    const conditions: SQL[] = [];
+    if (filter.status) conditions.push(eq(adminAdjustments.status, filter.status));
+    if (filter.userId !== undefined) conditions.push(eq(adminAdjustments.userId, filter.userId));
+
+    return await db
+      .select()
+      .from(adminAdjustments)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(adminAdjustments.createdAt))
+      .limit(200);
+  }
+
+  async getAdminAuditLog(filter: { targetUserId?: number; actorId?: number }, limit: number): Promise<AdminAuditLogEntry[]> {
+    const conditions: SQL[] = [];
+    if (filter.targetUserId !== undefined) conditions.push(eq(adminAuditLog.targetUserId, filter.targetUserId));
+    if (filter.actorId !== undefined) conditions.push(eq(adminAuditLog.actorId, filter.actorId));
 
-      const newLevel = Math.max(1, (user.level || 1) + levelIncrease);
+    return await db
+      .select()
+      .from(adminAuditLog)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(adminAuditLog.createdAt), desc(adminAuditLog.id))
+      .limit(limit);
+  }
 
-      const [updatedUser] = await db
+  // Experience and levels
+  // undefined = وصل المصدر لحده اليومي. المستويات المكتسبة بالخبرة لا تنزل أبداً
+  async grantExperience(userId: number, grant: ExperienceGrant): Promise<ExperienceResult | undefined> {
+    return db.transaction(async (tx) => {
+      // قفل صف المستخدم يجعل فحص الحد اليومي آمناً مع الطلبات المتزامنة
+      const [current] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!current) {
+        throw new Error('المستخدم غير موجود');
+      }
+
+      const [{ grantsToday }] = await tx
+        .select({ grantsToday: sql<number>`count(*)::int` })
+        .from(xpEvents)
+        .where(and(
+          eq(xpEvents.userId, userId),
+          eq(xpEvents.source, grant.source),
+          sql`${xpEvents.createdAt} >= ${grant.dayStart}`
+        ));
+      if (grantsToday >= grant.dailyLimit) return undefined;
+
+      await tx.insert(xpEvents).values({
+        userId,
+        source: grant.source,
+        amount: grant.amount,
+        referenceType: grant.referenceType,
+        referenceId: grant.referenceId
+      });
+
+      const previousLevel = current.level || 1;
+      const experience = (current.experience || 0) + grant.amount;
+      const level = Math.max(previousLevel, levelForExperience(experience));
+      let [user] = await tx
         .update(users)
-        .set({ level: newLevel })
+        .set({ experience, level })
         .where(eq(users.id, userId))
         .returning();
 
-      return updatedUser;
-    } catch (error) {
-      console.error("Error updating level:", error);
-      return undefined;
+      const levelRewards: ExperienceResult["levelRewards"] = [];
+      for (let reached = previousLevel + 1; reached <= level; reached++) {
+        const reward = levelUpReward(reached);
+        if (reward.gold || reward.pearls) {
+          ({ user } = await this.applyLedgerEntry({
+            userId,
+            type: 'level_up_reward',
+            goldDelta: reward.gold,
+            pearlsDelta: reward.pearls,
+            description: `مكافأة الوصول للمستوى ${reached}`,
+            referenceType: 'level',
+            referenceId: reached
+          }, tx));
+        }
+        levelRewards.push({ level: reached, ...reward });
+      }
+
+      return { user, xpGained: grant.amount, previousLevel, level, levelRewards };
+    });
+  }
+
+  // Sessions (multi-device)
+  async createSession(session: InsertSession): Promise<Session> {
+    const [created] = await db.insert(sessions).values(session).returning();
+    return created;
+  }
+
+  async getSessionByToken(sessionToken: string): Promise<Session | undefined> {
+    const [session] = await db.select().from(sessions).where(eq(sessions.sessionToken, sessionToken));
+    return session || undefined;
+  }
+
+  async getUserSessions(userId: number): Promise<Session[]> {
+    return await db
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt)))
+      .orderBy(desc(sessions.lastSeenAt));
+  }
+
+  async touchSession(sessionId: number): Promise<void> {
+    await db
+      .update(sessions)
+      .set({ lastSeenAt: new Date() })
+      .where(eq(sessions.id, sessionId));
+  }
+
+  async revokeSession(userId: number, sessionId: number): Promise<boolean> {
+    const result = await db
+      .update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(sessions.id, sessionId),
+        eq(sessions.userId, userId),
+        isNull(sessions.revokedAt)
+      ));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async revokeUserSessions(userId: number, exceptSessionId?: number): Promise<number> {
+    const conditions = [eq(sessions.userId, userId), isNull(sessions.revokedAt)];
+    if (exceptSessionId !== undefined) {
+      conditions.push(ne(sessions.id, exceptSessionId));
     }
+    const result = await db
+      .update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(...conditions));
+    return result.rowCount || 0;
+  }
+
+  // إلغاء أقدم الجلسات عند تجاوز الحد المسموح من الأجهزة
+  async revokeExcessSessions(userId: number, maxSessions: number): Promise<number> {
+    const active = await this.getUserSessions(userId);
+    const excess = active.slice(maxSessions).map(session => session.id);
+    if (excess.length === 0) return 0;
+
+    const result = await db
+      .update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(inArray(sessions.id, excess));
+    return result.rowCount || 0;
+  }
+
+  async createRefreshToken(sessionId: number, tokenHash: string, expiresAt: Date): Promise<void> {
+    await db.insert(refreshTokens).values({ sessionId, tokenHash, expiresAt });
+  }
+
+  // تدوير رمز التجديد: استخدام رمز قديم مرة ثانية يعني تسريبه، فنلغي الجلسة بالكامل
+  async rotateRefreshToken(tokenHash: string, newTokenHash: string, expiresAt: Date): Promise<RefreshRotationResult> {
+    return await db.transaction(async (tx) => {
+      const [token] = await tx
+        .select()
+        .from(refreshTokens)
+        .where(eq(refreshTokens.tokenHash, tokenHash))
+        .for("update");
+      if (!token) return { status: "invalid" as const };
+
+      const [session] = await tx.select().from(sessions).where(eq(sessions.id, token.sessionId));
+      if (!session) return { status: "invalid" as const };
+      if (session.revokedAt) return { status: "revoked" as const };
+
+      if (token.usedAt) {
+        await tx
+          .update(sessions)
+          .set({ revokedAt: new Date() })
+          .where(eq(sessions.id, session.id));
+        return { status: "reused" as const, session };
+      }
+
+      if (token.expiresAt.getTime() <= Date.now()) {
+        return { status: "expired" as const };
+      }
+
+      await tx
+        .update(refreshTokens)
+        .set({ usedAt: new Date() })
+        .where(eq(refreshTokens.id, token.id));
+      await tx.insert(refreshTokens).values({ sessionId: session.id, tokenHash: newTokenHash, expiresAt });
+      const [touched] = await tx
+        .update(sessions)
+        .set({ lastSeenAt: new Date() })
+        .where(eq(sessions.id, session.id))
+        .returning();
+
+      return { status: "rotated" as const, session: touched };
+    });
+  }
+
+  // One-time tokens (password reset, email verification)
+  async createAuthToken(userId: number, purpose: AuthTokenPurpose, tokenHash: string, expiresAt: Date, email?: string): Promise<AuthToken> {
+    // رمز واحد صالح فقط لكل غرض: إلغاء الرموز السابقة غير المستخدمة
+    await db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(authTokens.userId, userId),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt)
+      ));
+
+    const [token] = await db
+      .insert(authTokens)
+      .values({ userId, purpose, tokenHash, expiresAt, email: email || null })
+      .returning();
+    return token;
+  }
+
+  async consumeAuthToken(purpose: AuthTokenPurpose, tokenHash: string): Promise<AuthToken | undefined> {
+    const [token] = await db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(authTokens.tokenHash, tokenHash),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt),
+        sql`${authTokens.expiresAt} > NOW()`
+      ))
+      .returning();
+    return token || undefined;
+  }
+
+  // Login throttling
+  async getLoginAttempts(attemptKeys: string[]): Promise<LoginAttempt[]> {
+    if (attemptKeys.length === 0) return [];
+    return await db.select().from(loginAttempts).where(inArray(loginAttempts.attemptKey, attemptKeys));
+  }
+
+  // زيادة العداد بشكل ذري؛ يبدأ العد من جديد إذا كانت آخر محاولة فاشلة أقدم من resetBefore
+  async incrementLoginFailures(attemptKey: string, resetBefore: Date): Promise<LoginAttempt> {
+    const now = new Date();
+    const [attempt] = await db
+      .insert(loginAttempts)
+      .values({ attemptKey, failedCount: 1, lastFailedAt: now })
+      .onConflictDoUpdate({
+        target: loginAttempts.attemptKey,
+        set: {
+          failedCount: sql`CASE WHEN ${loginAttempts.lastFailedAt} < ${resetBefore} THEN 1 ELSE ${loginAttempts.failedCount} + 1 END`,
+          lastFailedAt: now
+        }
+      })
+      .returning();
+    return attempt;
+  }
+
+  async lockLoginKey(attemptKey: string, lockedUntil: Date): Promise<void> {
+    await db
+      .update(loginAttempts)
+      .set({ lockedUntil })
+      .where(eq(loginAttempts.attemptKey, attemptKey));
+  }
+
+  async clearLoginAttempts(attemptKey: string): Promise<boolean> {
+    const result = await db.delete(loginAttempts).where(eq(loginAttempts.attemptKey, attemptKey));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Idempotency keys
+  // الإدراج مع تجاهل التعارض يضمن أن طلباً واحداً فقط يحجز المفتاح حتى مع التزامن
+  async beginIdempotentRequest(userId: number, idempotencyKey: string, endpoint: string, requestHash: string): Promise<{ created: boolean; record: IdempotencyKey }> {
+    const [created] = await db
+      .insert(idempotencyKeys)
+      .values({ userId, idempotencyKey, endpoint, requestHash })
+      .onConflictDoNothing()
+      .returning();
+    if (created) {
+      return { created: true, record: created };
+    }
+
+    const [existing] = await db
+      .select()
+      .from(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.idempotencyKey, idempotencyKey)));
+    return { created: false, record: existing };
+  }
+
+  async completeIdempotentRequest(id: number, responseStatus: number, responseBody: unknown): Promise<void> {
+    await db
+      .update(idempotencyKeys)
+      .set({ responseStatus, responseBody, completedAt: new Date() })
+      .where(eq(idempotencyKeys.id, id));
+  }
+
+  async releaseIdempotentRequest(id: number): Promise<void> {
+    await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, id));
+  }
+
+  async deleteIdempotencyKeysBefore(cutoff: Date): Promise<number> {
+    const result = await db
+      .delete(idempotencyKeys)
+      .where(sql`${idempotencyKeys.createdAt} < ${cutoff}`);
+    return result.rowCount || 0;
   }
 
   // Friends system
@@ -291,16 +1710,22 @@ export class DatabaseStorage implements IStorage {
     return friendship;
   }
 
-  async acceptFriendRequest(friendshipId: number): Promise<boolean> {
+  async acceptFriendRequest(friendshipId: number, friendId: number): Promise<Friendship | undefined> {
     try {
-      await db
+      // تحديث مشروط واحد حتى لا يُقبل الطلب (وتُمنح مكافآته) أكثر من مرة
+      const [friendship] = await db
         .update(friendships)
         .set({ status: "accepted", acceptedAt: new Date() })
-        .where(eq(friendships.id, friendshipId));
-      return true;
+        .where(and(
+          eq(friendships.id, friendshipId),
+          eq(friendships.friendId, friendId),
+          eq(friendships.status, "pending")
+        ))
+        .returning();
+      return friendship;
     } catch (error) {
       console.error("Error accepting friend request:", error);
-      return false;
+      return undefined;
     }
   }
 
@@ -357,50 +1782,73 @@ export class DatabaseStorage implements IStorage {
       throw new Error('المستخدم محمي بالدرع الواقي ولا يمكن إرسال هدايا سلبية إليه');
     }
 
-    const [gift] = await db
-      .insert(gifts)
-      .values({ fromUserId, toUserId, giftType, amount, message })
-      .returning();
-    return gift;
+    return db.transaction(async (tx) => {
+      // خصم قيمة الهدية من المرسل في نفس المعاملة التي تُنشأ فيها الهدية
+      const goldDelta = giftType === 'gold' ? -amount : 0;
+      const pearlsDelta = giftType === 'pearls' ? -amount : 0;
+      if (goldDelta || pearlsDelta) {
+        await this.applyLedgerEntry({
+          userId: fromUserId,
+          type: 'gift_sent',
+          goldDelta,
+          pearlsDelta,
+          description: `إرسال هدية ${amount} ${giftType === 'gold' ? 'ذهب' : 'لؤلؤ'} إلى المستخدم ${toUserId}`
+        }, tx);
+      }
+
+      const [gift] = await tx
+        .insert(gifts)
+        .values({ fromUserId, toUserId, giftType, amount, message })
+        .returning();
+      return gift;
+    });
   }
 
-  async claimGift(giftId: number): Promise<boolean> {
+  async claimGift(giftId: number, toUserId: number): Promise<boolean> {
     try {
-      const [gift] = await db
-        .select()
-        .from(gifts)
-        .where(and(eq(gifts.id, giftId), eq(gifts.status, "pending")));
-      
-      if (!gift) return false;
-
-      // Check if gift is harmful and user has shield protection
-      const isHarmfulGift = gift.amount < 0 || gift.giftType.includes('bomb') || gift.giftType.includes('trap');
-      if (isHarmfulGift) {
-        const isProtected = await this.isUserProtected(gift.toUserId);
-        if (isProtected) {
-          // User is protected, mark gift as blocked
-          await db
-            .update(gifts)
-            .set({ status: "blocked", claimedAt: new Date() })
-            .where(eq(gifts.id, giftId));
-          return true; // Gift was "processed" but blocked
+      return await db.transaction(async (tx) => {
+        // قفل الهدية يمنع استلامها مرتين من طلبين متزامنين
+        const [gift] = await tx
+          .select()
+          .from(gifts)
+          .where(and(eq(gifts.id, giftId), eq(gifts.toUserId, toUserId), eq(gifts.status, "pending")))
+          .for("update");
+        
+        if (!gift) return false;
+
+        // Check if gift is harmful and user has shield protection
+        const isHarmfulGift = gift.amount < 0 || gift.giftType.includes('bomb') || gift.giftType.includes('trap');
+        if (isHarmfulGift) {
+          const isProtected = await this.isUserProtected(gift.toUserId);
+          if (isProtected) {
+            // User is protected, mark gift as blocked
+            await tx
+              .update(gifts)
+              .set({ status: "blocked", claimedAt: new Date() })
+              .where(eq(gifts.id, giftId));
+            return true; // Gift was "processed" but blocked
+          }
         }
-      }
 
-      // Update user currency
-      if (gift.giftType === "gold") {
-        await this.updateCurrency(gift.toUserId, gift.amount, 0);
-      } else if (gift.giftType === "pearls") {
-        await this.updateCurrency(gift.toUserId, 0, gift.amount);
-      }
+        // Update user currency
+        if (gift.giftType === "gold" || gift.giftType === "pearls") {
+          await this.applyLedgerEntry({
+            userId: gift.toUserId,
+            type: 'gift_received',
+            goldDelta: gift.giftType === "gold" ? gift.amount : 0,
+            pearlsDelta: gift.giftType === "pearls" ? gift.amount : 0,
+            description: `استلام هدية ${gift.amount} ${gift.giftType === 'gold' ? 'ذهب' : 'لؤلؤ'} من المستخدم ${gift.fromUserId}`
+          }, tx);
+        }
 
-      // Mark gift as claimed
-      await db
-        .update(gifts)
-        .set({ status: "claimed", claimedAt: new Date() })
-        .where(eq(gifts.id, giftId));
+        // Mark gift as claimed
+        await tx
+          .update(gifts)
+          .set({ status: "claimed", claimedAt: new Date() })
+          .where(eq(gifts.id, giftId));
 
-      return true;
+        return true;
+      });
     } catch (error) {
       console.error("Error claiming gift:", error);
       return false;
@@ -467,11 +1915,11 @@ export class DatabaseStorage implements IStorage {
 
   async activateItem(userId: number, itemId: number): Promise<boolean> {
     try {
-      // Deactivate all items of the same type first
+      // Only the owner's items - deactivate all items of the same type first
       const [item] = await db
         .select()
         .from(userItems)
-        .where(eq(userItems.id, itemId));
+        .where(and(eq(userItems.id, itemId), eq(userItems.userId, userId)));
       
       if (!item) return false;
 
@@ -484,7 +1932,7 @@ export class DatabaseStorage implements IStorage {
       await db
         .update(userItems)
         .set({ isActive: true })
-        .where(eq(userItems.id, itemId));
+        .where(and(eq(userItems.id, itemId), eq(userItems.userId, userId)));
 
       return true;
     } catch (error) {
@@ -493,72 +1941,377 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  // Transactions
-  async addTransaction(userId: number, type: string, goldAmount: number, pearlsAmount: number, description: string): Promise<Transaction> {
-    const [transaction] = await db
-      .insert(transactions)
-      .values({ userId, transactionType: type, goldAmount, pearlsAmount, description })
+  // Shop catalog
+  async getShopItems(includeInactive = false): Promise<ShopItem[]> {
+    const query = db.select().from(shopItems);
+    const rows = includeInactive
+      ? await query.orderBy(shopItems.id)
+      : await query.where(eq(shopItems.isActive, true)).orderBy(shopItems.id);
+    return rows;
+  }
+
+  async getShopItem(itemId: number): Promise<ShopItem | undefined> {
+    const [item] = await db.select().from(shopItems).where(eq(shopItems.id, itemId));
+    return item;
+  }
+
+  async createShopItem(item: InsertShopItem): Promise<ShopItem> {
+    const [created] = await db.insert(shopItems).values(item).returning();
+    return created;
+  }
+
+  async updateShopItem(itemId: number, updates: Partial<InsertShopItem>): Promise<ShopItem | undefined> {
+    const [item] = await db
+      .update(shopItems)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(shopItems.id, itemId))
       .returning();
-    return transaction;
+    return item;
+  }
+
+  // لا نحذف الصف لأن عناصر اللاعبين المشتراة تشير إليه؛ نوقف بيعه فقط
+  async archiveShopItem(itemId: number): Promise<ShopItem | undefined> {
+    return this.updateShopItem(itemId, { isActive: false });
   }
 
-  async getUserTransactions(userId: number): Promise<Transaction[]> {
+  async purchaseShopItem(userId: number, itemId: number, quantity: number): Promise<ShopPurchaseResult> {
+    return db.transaction(async (tx) => {
+      // قفل صف العنصر يجعل فحص المخزون والحد لكل لاعب آمناً مع الطلبات المتزامنة
+      const [item] = await tx
+        .select()
+        .from(shopItems)
+        .where(eq(shopItems.id, itemId))
+        .for("update");
+      if (!item) throw new ShopPurchaseError("ITEM_NOT_FOUND");
+      if (!item.isActive) throw new ShopPurchaseError("ITEM_UNAVAILABLE");
+      if (item.stockLimit !== null && item.soldCount + quantity > item.stockLimit) {
+        throw new ShopPurchaseError("OUT_OF_STOCK");
+      }
+      if (item.perUserLimit !== null) {
+        const [{ owned }] = await tx
+          .select({ owned: sql<number>`count(*)::int` })
+          .from(userItems)
+          .where(and(eq(userItems.userId, userId), eq(userItems.shopItemId, item.id)));
+        if (owned + quantity > item.perUserLimit) {
+          throw new ShopPurchaseError("PURCHASE_LIMIT_REACHED");
+        }
+      }
+
+      const total = item.price * quantity;
+      const ledger = await this.applyLedgerEntry({
+        userId,
+        type: 'shop_purchase',
+        goldDelta: item.currency === 'gold' ? -total : 0,
+        pearlsDelta: item.currency === 'pearls' ? -total : 0,
+        description: `شراء ${quantity} × ${item.nameAr} من المتجر`
+      }, tx);
+
+      const expiresAt = item.durationHours
+        ? new Date(Date.now() + item.durationHours * 60 * 60 * 1000)
+        : undefined;
+      // صف لكل وحدة، كما تُحسب العناصر في /api/user-items
+      const items = await tx
+        .insert(userItems)
+        .values(Array.from({ length: quantity }, () => ({
+          userId,
+          itemType: item.itemType,
+          itemName: item.nameEn,
+          shopItemId: item.id,
+          expiresAt
+        })))
+        .returning();
+
+      await tx
+        .update(shopItems)
+        .set({ soldCount: item.soldCount + quantity })
+        .where(eq(shopItems.id, item.id));
+
+      return { ...ledger, items };
+    });
+  }
+
+  // Transactions
+  private transactionConditions(query: TransactionQuery): SQL[] {
+    const conditions: SQL[] = [eq(transactions.userId, query.userId)];
+    if (query.types?.length) conditions.push(inArray(transactions.transactionType, query.types));
+    if (query.currency === "gold") conditions.push(sql`coalesce(${transactions.goldAmount}, 0) <> 0`);
+    if (query.currency === "pearls") conditions.push(sql`coalesce(${transactions.pearlsAmount}, 0) <> 0`);
+    if (query.from) conditions.push(sql`${transactions.createdAt} >= ${query.from}`);
+    if (query.to) conditions.push(sql`${transactions.createdAt} < ${query.to}`);
+    return conditions;
+  }
+
+  // من الأحدث للأقدم حسب id؛ beforeId هو آخر id في الصفحة السابقة
+  async getTransactionsPage(query: TransactionQuery, limit: number, beforeId?: number): Promise<Transaction[]> {
+    const conditions = this.transactionConditions(query);
+    if (beforeId !== undefined) conditions.push(sql`${transactions.id} < ${beforeId}`);
+
     return await db
       .select()
       .from(transactions)
-      .where(eq(transactions.userId, userId))
-      .orderBy(desc(transactions.createdAt))
+      .where(and(...conditions))
+      .orderBy(desc(transactions.id))
+      .limit(limit);
+  }
+
+  async getTransactionSummary(query: TransactionQuery): Promise<TransactionSummary> {
+    const byType = await db
+      .select({
+        type: transactions.transactionType,
+        count: sql<number>`count(*)::int`,
+        goldIn: sql<number>`coalesce(sum(greatest(${transactions.goldAmount}, 0)), 0)::int`,
+        goldOut: sql<number>`coalesce(-sum(least(${transactions.goldAmount}, 0)), 0)::int`,
+        pearlsIn: sql<number>`coalesce(sum(greatest(${transactions.pearlsAmount}, 0)), 0)::int`,
+        pearlsOut: sql<number>`coalesce(-sum(least(${transactions.pearlsAmount}, 0)), 0)::int`
+      })
+      .from(transactions)
+      .where(and(...this.transactionConditions(query)))
+      .groupBy(transactions.transactionType)
+      .orderBy(transactions.transactionType);
+
+    const total = (key: keyof TransactionTotals) => byType.reduce((sum, row) => sum + row[key], 0);
+    return {
+      count: total("count"),
+      goldIn: total("goldIn"),
+      goldOut: total("goldOut"),
+      pearlsIn: total("pearlsIn"),
+      pearlsOut: total("pearlsOut"),
+      byType
+    };
+  }
+
+  // Purchase orders
+  async createPurchaseOrder(order: Pick<PurchaseOrder, "userId" | "packageId" | "goldAmount" | "priceCents" | "currency" | "provider">): Promise<PurchaseOrder> {
+    const [created] = await db.insert(purchaseOrders).values(order).returning();
+    return created;
+  }
+
+  async setPurchaseOrderReference(orderId: number, providerReference: string): Promise<PurchaseOrder | undefined> {
+    const [order] = await db
+      .update(purchaseOrders)
+      .set({ providerReference })
+      .where(eq(purchaseOrders.id, orderId))
+      .returning();
+    return order;
+  }
+
+  async getPurchaseOrder(orderId: number): Promise<PurchaseOrder | undefined> {
+    const [order] = await db.select().from(purchaseOrders).where(eq(purchaseOrders.id, orderId));
+    return order;
+  }
+
+  async getUserPurchaseOrders(userId: number): Promise<PurchaseOrder[]> {
+    return await db
+      .select()
+      .from(purchaseOrders)
+      .where(eq(purchaseOrders.userId, userId))
+      .orderBy(desc(purchaseOrders.createdAt))
       .limit(50);
   }
 
-  // Shield system
-  async activateShield(userId: number, shieldType: 'gold' | 'usd'): Promise<UserShield> {
-    const user = await this.getUser(userId);
-    if (!user) {
-      throw new Error('المستخدم غير موجود');
-    }
+  // المزودات تعيد إرسال الـ webhook، لذا الطلب المكتمل لا يُضاف رصيده مرة ثانية
+  async settlePurchaseOrder(provider: string, providerReference: string, status: "paid" | "failed"): Promise<PurchaseOrder | undefined> {
+    return db.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(purchaseOrders)
+        .where(and(eq(purchaseOrders.provider, provider), eq(purchaseOrders.providerReference, providerReference)))
+        .for("update");
+      if (!order || order.status !== "pending") return order;
+
+      if (status === "paid") {
+        const { version, config } = await this.getEconomyConfig(tx);
+        await this.applyLedgerEntry({
+          userId: order.userId,
+          type: 'purchase',
+          goldDelta: order.goldAmount,
+          pearlsDelta: 0,
+          description: `شحن رصيد ${order.goldAmount} ذهب (طلب #${order.id})`,
+          vipLevelDelta: vipLevelsForPurchase(config, order.goldAmount),
+          referenceType: 'purchase_order',
+          referenceId: order.id,
+          economyConfigVersion: version
+        }, tx);
+      }
 
-    // تحديد التكلفة والعملة
-    const cost = shieldType === 'gold' ? 2000 : 1;
-    const currency = shieldType === 'gold' ? 'gold' : 'usd';
+      const [updated] = await tx
+        .update(purchaseOrders)
+        .set({ status, completedAt: new Date() })
+        .where(eq(purchaseOrders.id, order.id))
+        .returning();
+      return updated;
+    });
+  }
 
-    // التحقق من الرصيد
-    if (shieldType === 'gold' && (user.goldCoins || 0) < cost) {
-      throw new Error('رصيد الذهب غير كافي');
-    }
-    if (shieldType === 'usd' && (user.pearls || 0) < 10) { // 1 دولار = 10 لؤلؤ
-      throw new Error('رصيد اللؤلؤ غير كافي');
-    }
+  // Pearl withdrawals
+  // اللؤلؤ يُخصم فوراً إلى الحجز؛ إذا لم يكفِ الرصيد يُلغى إنشاء الطلب كله
+  async createWithdrawalRequest(userId: number, data: CreateWithdrawalData): Promise<{ withdrawal: WithdrawalRequest; user: User }> {
+    if (data.pearlsAmount < WITHDRAWAL_RULES.minPearls) throw new WithdrawalError("BELOW_MINIMUM");
+    if (data.pearlsAmount > WITHDRAWAL_RULES.maxPearls) throw new WithdrawalError("ABOVE_MAXIMUM");
+
+    return db.transaction(async (tx) => {
+      const { version, config } = await this.getEconomyConfig(tx);
+      const [withdrawal] = await tx
+        .insert(withdrawalRequests)
+        .values({
+          userId,
+          pearlsAmount: data.pearlsAmount,
+          amountCents: data.pearlsAmount * config.pearlValueCents,
+          currency: WITHDRAWAL_RULES.currency,
+          payoutMethod: data.payoutMethod,
+          payoutAccount: data.payoutAccount,
+          kycFullName: data.kyc.fullName,
+          kycCountry: data.kyc.country,
+          kycDocumentType: data.kyc.documentType,
+          kycDocumentNumber: data.kyc.documentNumber
+        })
+        .returning();
 
-    // إلغاء تفعيل أي درع حالي
-    await this.deactivateShield(userId);
+      const { user } = await this.applyLedgerEntry({
+        userId,
+        type: 'withdrawal_escrow',
+        goldDelta: 0,
+        pearlsDelta: -data.pearlsAmount,
+        description: `حجز ${data.pearlsAmount} لؤلؤ لطلب السحب #${withdrawal.id}`,
+        referenceType: 'withdrawal',
+        referenceId: withdrawal.id,
+        economyConfigVersion: version
+      }, tx);
+
+      await tx.insert(withdrawalEvents).values({ withdrawalId: withdrawal.id, actorId: userId, toStatus: "pending" });
+      return { withdrawal, user };
+    });
+  }
 
-    // حساب تاريخ انتهاء الصلاحية (أسبوع من الآن)
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7);
+  async getWithdrawalRequest(id: number): Promise<WithdrawalRequest | undefined> {
+    const [withdrawal] = await db.select().from(withdrawalRequests).where(eq(withdrawalRequests.id, id));
+    return withdrawal;
+  }
 
-    // إنشاء الدرع الجديد
-    const [shield] = await db
-      .insert(userShields)
-      .values({
+  async getUserWithdrawalRequests(userId: number): Promise<WithdrawalRequest[]> {
+    return await db
+      .select()
+      .from(withdrawalRequests)
+      .where(eq(withdrawalRequests.userId, userId))
+      .orderBy(desc(withdrawalRequests.createdAt))
+      .limit(50);
+  }
+
+  // الأقدم أولاً حتى تُراجع الطلبات بترتيب وصولها
+  async getWithdrawalRequests(status?: WithdrawalStatus): Promise<WithdrawalRequest[]> {
+    const query = db.select().from(withdrawalRequests);
+    return status
+      ? await query.where(eq(withdrawalRequests.status, status)).orderBy(withdrawalRequests.createdAt).limit(200)
+      : await query.orderBy(desc(withdrawalRequests.createdAt)).limit(200);
+  }
+
+  async getWithdrawalEvents(withdrawalId: number): Promise<WithdrawalEvent[]> {
+    return await db
+      .select()
+      .from(withdrawalEvents)
+      .where(eq(withdrawalEvents.withdrawalId, withdrawalId))
+      .orderBy(withdrawalEvents.createdAt, withdrawalEvents.id);
+  }
+
+  async reviewWithdrawalRequest(id: number, reviewerId: number, review: WithdrawalReview): Promise<WithdrawalRequest> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(withdrawalRequests)
+        .where(eq(withdrawalRequests.id, id))
+        .for("update");
+      if (!current) throw new WithdrawalError("WITHDRAWAL_NOT_FOUND");
+      if (!canTransition(current.status as WithdrawalStatus, review.status)) {
+        throw new WithdrawalError("INVALID_TRANSITION");
+      }
+
+      const kycStatus = review.kycStatus ?? current.kycStatus;
+      if (review.status === "paid" && kycStatus !== "verified") {
+        throw new WithdrawalError("KYC_NOT_VERIFIED");
+      }
+
+      // الرفض يعيد اللؤلؤ المحجوز للاعب
+      if (review.status === "rejected") {
+        await this.applyLedgerEntry({
+          userId: current.userId,
+          type: 'withdrawal_released',
+          goldDelta: 0,
+          pearlsDelta: current.pearlsAmount,
+          description: `إعادة ${current.pearlsAmount} لؤلؤ محجوز - رفض طلب السحب #${current.id}`,
+          referenceType: 'withdrawal',
+          referenceId: current.id
+        }, tx);
+      }
+
+      const now = new Date();
+      const [updated] = await tx
+        .update(withdrawalRequests)
+        .set({
+          status: review.status,
+          kycStatus,
+          reviewedBy: reviewerId,
+          reviewedAt: now,
+          reviewNote: review.note ?? current.reviewNote,
+          ...(review.status === "paid" ? { paidAt: now, payoutReference: review.payoutReference } : {})
+        })
+        .where(eq(withdrawalRequests.id, id))
+        .returning();
+
+      await tx.insert(withdrawalEvents).values({
+        withdrawalId: id,
+        actorId: reviewerId,
+        fromStatus: current.status,
+        toStatus: review.status,
+        note: review.note
+      });
+      return updated;
+    });
+  }
+
+  // Shield system
+  async activateShield(userId: number, shieldType: 'gold' | 'usd'): Promise<UserShield> {
+    return db.transaction(async (tx) => {
+      // التكلفة من إعدادات الاقتصاد: ذهب للدرع الذهبي ولؤلؤ للدرع المدفوع
+      const { version, config } = await this.getEconomyConfig(tx);
+      const currency = shieldType === 'gold' ? 'gold' : 'pearls';
+      const cost = shieldType === 'gold' ? config.shieldCost.gold : config.shieldCost.pearls;
+
+      // خصم التكلفة من الرصيد - يرمي InsufficientBalanceError إن لم يكفِ الرصيد
+      await this.applyLedgerEntry({
         userId,
-        shieldType,
-        cost,
-        currency,
-        expiresAt
-      })
-      .returning();
+        type: 'shield_activation',
+        goldDelta: shieldType === 'gold' ? -cost : 0,
+        pearlsDelta: shieldType === 'gold' ? 0 : -cost,
+        description: shieldType === 'gold'
+          ? `تفعيل الدرع الواقي (ذهب) لمدة أسبوع`
+          : `تفعيل الدرع الواقي (لؤلؤ) لمدة أسبوع`,
+        economyConfigVersion: version
+      }, tx);
+
+      // إلغاء تفعيل أي درع حالي
+      await tx
+        .update(userShields)
+        .set({ isActive: false })
+        .where(eq(userShields.userId, userId));
 
-    // خصم التكلفة من الرصيد
-    if (shieldType === 'gold') {
-      await this.updateCurrency(userId, -cost, 0);
-      await this.addTransaction(userId, 'shield_activation', -cost, 0, `تفعيل الدرع الواقي (ذهب) لمدة أسبوع`);
-    } else {
-      await this.updateCurrency(userId, 0, -10);
-      await this.addTransaction(userId, 'shield_activation', 0, -10, `تفعيل الدرع الواقي (دولار) لمدة أسبوع`);
-    }
+      // حساب تاريخ انتهاء الصلاحية (أسبوع من الآن)
+      const expiresAt = new Date();
+      expiresAt.setDate(expiresAt.getDate() + 7);
+
+      // إنشاء الدرع الجديد
+      const [shield] = await tx
+        .insert(userShields)
+        .values({
+          userId,
+          shieldType,
+          cost,
+          currency,
+          expiresAt
+        })
+        .returning();
 
-    return shield;
+      return shield;
+    });
   }
 
   async getUserActiveShield(userId: number): Promise<UserShield | undefined> {
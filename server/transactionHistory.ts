@@ -0,0 +1,57 @@
+import type { Transaction } from "@shared/schema";
+import type { TransactionQuery } from "./storage";
+
+export const EXPORT_MAX_ROWS = 10000;
+
+// المؤشر معتم للعميل حتى يمكن تغيير صيغته لاحقاً
+export function encodeCursor(lastId: number): string {
+  return Buffer.from(`t:${lastId}`).toString("base64url");
+}
+
+// undefined = مؤشر غير صالح
+export function decodeCursor(cursor: string): number | undefined {
+  const match = /^t:(\d+)$/.exec(Buffer.from(cursor, "base64url").toString("utf8"));
+  return match ? parseInt(match[1]) : undefined;
+}
+
+export function buildTransactionQuery(
+  userId: number,
+  filters: { type?: string; currency?: "gold" | "pearls"; from?: Date; to?: Date }
+): TransactionQuery {
+  const types = filters.type?.split(",").map(t => t.trim()).filter(Boolean);
+  return {
+    userId,
+    types: types?.length ? types : undefined,
+    currency: filters.currency,
+    from: filters.from,
+    to: filters.to
+  };
+}
+
+const CSV_COLUMNS: Array<[string, (t: Transaction) => unknown]> = [
+  ["id", t => t.id],
+  ["created_at", t => t.createdAt?.toISOString()],
+  ["type", t => t.transactionType],
+  ["gold", t => t.goldAmount ?? 0],
+  ["pearls", t => t.pearlsAmount ?? 0],
+  ["description", t => t.description],
+  ["reference_type", t => t.referenceType],
+  ["reference_id", t => t.referenceId],
+  ["economy_config_version", t => t.economyConfigVersion]
+];
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  // النصوص التي تبدأ بـ = + - @ تُنفذ كصيغ في برامج الجداول
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function transactionsToCsv(rows: Transaction[]): string {
+  const lines = [CSV_COLUMNS.map(([name]) => name).join(",")];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map(([, value]) => csvField(value(row))).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
@@ -1,5 +1,6 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import { EventEmitter } from 'events';
+import { getSocketIdentity, type SocketIdentity } from './socketAuth';
 
 // أنواع أحداث المحادثة الصوتية
 export type VoiceChatEventType = 
@@ -98,34 +99,29 @@ export class VoiceChatManager extends EventEmitter {
 
   private setupEventHandlers() {
     this.wss.on('connection', (ws: WebSocket) => {
-      let currentUser: VoiceUser | null = null;
+      const identity = getSocketIdentity(ws);
+      if (!identity) return;
 
       ws.on('message', (message) => {
         try {
           const voiceMessage: VoiceMessage = JSON.parse(message.toString());
-          this.handleVoiceMessage(ws, voiceMessage);
+          // هوية المستخدم تأتي من الاتصال الموثق وليس من الرسالة
+          this.handleVoiceMessage(ws, identity, { ...voiceMessage, userId: identity.userId });
         } catch (error) {
           console.error('خطأ في معالجة رسالة المحادثة الصوتية:', error);
         }
       });
 
       ws.on('close', () => {
-        if (currentUser) {
-          this.handleUserDisconnect(currentUser);
-        }
-      });
-
-      // تخزين مرجع المستخدم للاستخدام في الإغلاق
-      ws.on('voice_user_authenticated', (user) => {
-        currentUser = user;
+        this.handleUserDisconnect(identity.userId, ws);
       });
     });
   }
 
-  private async handleVoiceMessage(ws: WebSocket, message: VoiceMessage) {
+  private async handleVoiceMessage(ws: WebSocket, identity: SocketIdentity, message: VoiceMessage) {
     switch (message.type) {
       case 'voice_room_join':
-        await this.handleRoomJoin(ws, message);
+        await this.handleRoomJoin(ws, identity, message);
         break;
       case 'voice_room_leave':
         await this.handleRoomLeave(ws, message);
@@ -146,7 +142,7 @@ export class VoiceChatManager extends EventEmitter {
         this.handleUnmute(message);
         break;
       case 'voice_room_create':
-        await this.handleRoomCreate(ws, message);
+        await this.handleRoomCreate(ws, identity, message);
         break;
       case 'voice_quality_change':
         this.handleQualityChange(message);
@@ -162,8 +158,8 @@ export class VoiceChatManager extends EventEmitter {
     }
   }
 
-  private async handleRoomJoin(ws: WebSocket, message: VoiceMessage) {
-    const { roomId, userInfo } = message.data;
+  private async handleRoomJoin(ws: WebSocket, identity: SocketIdentity, message: VoiceMessage) {
+    const { roomId, password } = message.data || {};
     const room = this.rooms.get(roomId);
 
     if (!room) {
@@ -175,21 +171,21 @@ export class VoiceChatManager extends EventEmitter {
     }
 
     // التحقق من كلمة المرور إذا كانت الغرفة خاصة
-    if (room.settings.isPrivate && room.settings.password !== message.data.password) {
+    if (room.settings.isPrivate && room.settings.password !== password) {
       return this.sendError(ws, 'كلمة مرور الغرفة الصوتية خاطئة');
     }
 
     // إزالة المستخدم من الغرفة السابقة إن وجدت
-    const previousRoomId = this.userRooms.get(userInfo.id);
+    const previousRoomId = this.userRooms.get(identity.userId);
     if (previousRoomId) {
-      await this.removeUserFromRoom(userInfo.id, previousRoomId);
+      await this.removeUserFromRoom(identity.userId, previousRoomId);
     }
 
     // إنشاء مستخدم صوتي جديد
     const voiceUser: VoiceUser = {
-      id: userInfo.id,
-      username: userInfo.username,
-      isAdmin: userInfo.isAdmin || false,
+      id: identity.userId,
+      username: identity.username,
+      isAdmin: identity.isAdmin,
       isMuted: false,
       isSpeaking: false,
       isDeafened: false,
@@ -202,14 +198,14 @@ export class VoiceChatManager extends EventEmitter {
     };
 
     // إضافة المستخدم للغرفة
-    room.users.set(userInfo.id, voiceUser);
-    this.userRooms.set(userInfo.id, roomId);
+    room.users.set(identity.userId, voiceUser);
+    this.userRooms.set(identity.userId, roomId);
 
     // إرسال تأكيد الانضمام
     this.sendToUser(ws, {
       type: 'voice_room_join',
       roomId,
-      userId: userInfo.id,
+      userId: identity.userId,
       data: {
         room: this.serializeVoiceRoom(room),
         settings: room.settings,
@@ -222,19 +218,19 @@ export class VoiceChatManager extends EventEmitter {
     this.broadcastToVoiceRoom(roomId, {
       type: 'voice_user_status',
       roomId,
-      userId: userInfo.id,
+      userId: identity.userId,
       data: {
         user: this.serializeVoiceUser(voiceUser),
         action: 'joined',
-        message: `انضم ${userInfo.username} للمحادثة الصوتية`
+        message: `انضم ${identity.username} للمحادثة الصوتية`
       },
       timestamp: Date.now()
-    }, userInfo.id);
+    }, identity.userId);
 
     // إرسال الحدث للمستمعين
     this.emit('userJoined', { room, user: voiceUser });
 
-    console.log(`انضم ${userInfo.username} للغرفة الصوتية ${room.name}`);
+    console.log(`انضم ${identity.username} للغرفة الصوتية ${room.name}`);
   }
 
   private async handleRoomLeave(ws: WebSocket, message: VoiceMessage) {
@@ -400,15 +396,15 @@ export class VoiceChatManager extends EventEmitter {
     });
   }
 
-  private async handleRoomCreate(ws: WebSocket, message: VoiceMessage) {
-    const { roomData, userInfo } = message.data;
+  private async handleRoomCreate(ws: WebSocket, identity: SocketIdentity, message: VoiceMessage) {
+    const { roomData = {} } = message.data || {};
     
     const roomId = this.generateRoomId();
     const room = this.createRoom({
       id: roomId,
-      name: roomData.name || `غرفة ${userInfo.username}`,
+      name: roomData.name || `غرفة ${identity.username}`,
       description: roomData.description,
-      ownerId: userInfo.id,
+      ownerId: identity.userId,
       isPrivate: roomData.isPrivate || false,
       password: roomData.password,
       maxUsers: roomData.maxUsers || 10,
@@ -416,18 +412,18 @@ export class VoiceChatManager extends EventEmitter {
     });
 
     // إضافة المنشئ للغرفة تلقائياً
-    await this.handleRoomJoin(ws, {
+    await this.handleRoomJoin(ws, identity, {
       type: 'voice_room_join',
       roomId,
-      userId: userInfo.id,
-      data: { userInfo },
+      userId: identity.userId,
+      data: { roomId, password: roomData.password },
       timestamp: Date.now()
     });
 
     this.sendToUser(ws, {
       type: 'voice_room_create',
       roomId,
-      userId: userInfo.id,
+      userId: identity.userId,
       data: {
         room: this.serializeVoiceRoom(room),
         message: 'تم إنشاء الغرفة الصوتية بنجاح'
@@ -435,7 +431,7 @@ export class VoiceChatManager extends EventEmitter {
       timestamp: Date.now()
     });
 
-    console.log(`تم إنشاء غرفة صوتية جديدة: ${room.name} بواسطة ${userInfo.username}`);
+    console.log(`تم إنشاء غرفة صوتية جديدة: ${room.name} بواسطة ${identity.username}`);
   }
 
   private handleQualityChange(message: VoiceMessage) {
@@ -503,10 +499,14 @@ export class VoiceChatManager extends EventEmitter {
     });
   }
 
-  private handleUserDisconnect(user: VoiceUser) {
-    const roomId = this.userRooms.get(user.id);
-    if (roomId) {
-      this.removeUserFromRoom(user.id, roomId);
+  private handleUserDisconnect(userId: string, ws: WebSocket) {
+    const roomId = this.userRooms.get(userId);
+    if (!roomId) return;
+
+    // قد يكون المستخدم متصلاً من جهاز آخر؛ نزيله فقط إذا كان هذا هو اتصاله في الغرفة
+    const user = this.rooms.get(roomId)?.users.get(userId);
+    if (user && user.ws === ws) {
+      this.removeUserFromRoom(userId, roomId);
     }
   }
 
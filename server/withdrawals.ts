@@ -0,0 +1,46 @@
+// سحب اللؤلؤ نقداً - الحدود وانتقالات الحالة المسموحة. قيمة اللؤلؤة في إعدادات الاقتصاد
+
+import type { WithdrawalStatus } from "@shared/schema";
+
+function envInteger(name: string, fallback: number): number {
+  const value = process.env[name] ? parseInt(process.env[name]!) : NaN;
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+export const WITHDRAWAL_RULES = {
+  minPearls: envInteger("WITHDRAWAL_MIN_PEARLS", 50),
+  maxPearls: envInteger("WITHDRAWAL_MAX_PEARLS", 5000),
+  currency: "USD"
+};
+
+// rejected و paid حالتان نهائيتان
+const TRANSITIONS: Record<WithdrawalStatus, WithdrawalStatus[]> = {
+  pending: ["approved", "rejected"],
+  approved: ["paid", "rejected"],
+  rejected: [],
+  paid: []
+};
+
+export function canTransition(from: WithdrawalStatus, to: WithdrawalStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+export type WithdrawalErrorCode =
+  | "BELOW_MINIMUM"
+  | "ABOVE_MAXIMUM"
+  | "WITHDRAWAL_NOT_FOUND"
+  | "INVALID_TRANSITION"
+  | "KYC_NOT_VERIFIED";
+
+export class WithdrawalError extends Error {
+  constructor(public code: WithdrawalErrorCode) {
+    super({
+      BELOW_MINIMUM: `Minimum withdrawal is ${WITHDRAWAL_RULES.minPearls} pearls`,
+      ABOVE_MAXIMUM: `Maximum withdrawal is ${WITHDRAWAL_RULES.maxPearls} pearls`,
+      WITHDRAWAL_NOT_FOUND: "Withdrawal request not found",
+      INVALID_TRANSITION: "Withdrawal request cannot move to that status",
+      KYC_NOT_VERIFIED: "KYC must be verified before the withdrawal is paid"
+    }[code]);
+    this.name = "WithdrawalError";
+  }
+}
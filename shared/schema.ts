@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, varchar, jsonb, date, uniqueIndex, index } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -9,19 +9,68 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   email: text("email"),
+  emailVerified: boolean("email_verified").default(false),
+  emailVerifiedAt: timestamp("email_verified_at"),
   avatar: text("avatar"),
   profileImage: text("profile_image"), // رابط الصورة الشخصية
   gender: varchar("gender", { length: 10 }).default("male"), // male, female
   isAdmin: boolean("is_admin").default(false),
+  role: varchar("role", { length: 30 }).notNull().default("player"), // player, moderator, support, economy-admin, super-admin
+  isGuest: boolean("is_guest").notNull().default(false), // حساب ضيف مؤقت حتى يكمل التسجيل
+  statsVisibility: varchar("stats_visibility", { length: 10 }).notNull().default("public"), // public, friends, private
   coins: integer("coins").default(0),
   goldCoins: integer("gold_coins").default(10000),
   pearls: integer("pearls").default(10),
-  level: integer("level").default(1),
+  level: integer("level").default(1), // مستوى اللعب - يرتفع بنقاط الخبرة فقط
   experience: integer("experience").default(0),
+  vipLevel: integer("vip_level").notNull().default(0), // مستوى VIP - يرتفع بالشحن وتحويل اللؤلؤ
   joinedAt: timestamp("joined_at").defaultNow(),
   lastActive: timestamp("last_active").defaultNow(),
   status: text("status").default("offline"),
-  activeSessionToken: text("active_session_token"), // للتحكم في الجلسات المتعددة
+});
+
+// جلسات تسجيل الدخول - جلسة لكل جهاز
+export const sessions = pgTable("sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  sessionToken: text("session_token").notNull().unique(),
+  deviceLabel: varchar("device_label", { length: 100 }),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow(),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// رموز التجديد - كل جلسة تمثل عائلة رموز يتم تدويرها عند كل تجديد
+export const refreshTokens = pgTable("refresh_tokens", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull().references(() => sessions.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// رموز الاستخدام الواحد: إعادة تعيين كلمة المرور وتأكيد البريد الإلكتروني
+export const authTokens = pgTable("auth_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  purpose: varchar("purpose", { length: 30 }).notNull(), // password_reset, email_verification
+  tokenHash: text("token_hash").notNull().unique(),
+  email: text("email"), // البريد المراد تأكيده وقت إصدار الرمز
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// محاولات تسجيل الدخول الفاشلة - صف لكل اسم مستخدم ولكل عنوان IP
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  attemptKey: varchar("attempt_key", { length: 200 }).notNull().unique(), // user:<username> أو ip:<address>
+  failedCount: integer("failed_count").notNull().default(0),
+  lastFailedAt: timestamp("last_failed_at"),
+  lockedUntil: timestamp("locked_until"),
 });
 
 // Game scores table
@@ -31,17 +80,85 @@ export const gameScores = pgTable("game_scores", {
   gameName: text("game_name").notNull(),
   score: integer("score").notNull(),
   level: integer("level").default(1),
+  durationMs: integer("duration_ms"), // مدة الجولة - null للنتائج القديمة
   playedAt: timestamp("played_at").defaultNow(),
+}, (table) => ({
+  // لوحات الصدارة تفلتر حسب اللعبة والفترة الزمنية؛ user_id و score في الفهرس حتى يُحسب الترتيب منه فقط
+  gamePlayedIdx: index("game_scores_game_played_idx").on(table.gameName, table.playedAt, table.userId, table.score),
+  userIdx: index("game_scores_user_idx").on(table.userId),
+}));
+
+// نتائج المباريات الجماعية من GameSyncManager - صف لكل لاعب في كل مباراة
+export const matchResults = pgTable("match_results", {
+  id: serial("id").primaryKey(),
+  roomId: varchar("room_id", { length: 50 }).notNull(),
+  gameType: text("game_type").notNull(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  gameScoreId: integer("game_score_id").references(() => gameScores.id),
+  score: integer("score").notNull(),
+  placement: integer("placement").notNull(), // 1 = الفائز
+  playerCount: integer("player_count").notNull(),
+  isWinner: boolean("is_winner").notNull().default(false),
+  durationMs: integer("duration_ms"),
+  endedAt: timestamp("ended_at").defaultNow(),
+}, (table) => ({
+  userIdx: index("match_results_user_idx").on(table.userId, table.endedAt),
+}));
+
+// جلسات اللعب - يصدرها الخادم عند بدء الجولة وتقبل نتيجة واحدة فقط
+export const gameSessions = pgTable("game_sessions", {
+  id: serial("id").primaryKey(),
+  sessionId: varchar("session_id", { length: 64 }).notNull().unique(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  gameName: text("game_name").notNull(),
+  seed: integer("seed").notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("active"), // active, submitted, rejected
+  gameScoreId: integer("game_score_id").references(() => gameScores.id),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  submittedAt: timestamp("submitted_at"),
 });
 
+// النتائج المرفوضة أو المشبوهة بانتظار مراجعة المشرفين
+export const gameScoreFlags = pgTable("game_score_flags", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  gameSessionId: integer("game_session_id").references(() => gameSessions.id),
+  gameName: text("game_name").notNull(),
+  score: integer("score").notNull(),
+  elapsedMs: integer("elapsed_ms"),
+  reason: varchar("reason", { length: 40 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, confirmed, dismissed
+  reviewNote: text("review_note"),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// سجل نقاط الخبرة - يستخدم لحساب الحد اليومي لكل مصدر
+export const xpEvents = pgTable("xp_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  source: varchar("source", { length: 30 }).notNull(), // game_score, match_played, match_won, daily_activity, gift_sent, friend_added
+  amount: integer("amount").notNull(),
+  referenceType: varchar("reference_type", { length: 30 }),
+  referenceId: integer("reference_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userSourceIdx: index("xp_events_user_source_idx").on(table.userId, table.source, table.createdAt),
+}));
+
 // Game achievements table
 export const achievements = pgTable("achievements", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id),
+  achievementKey: varchar("achievement_key", { length: 50 }), // معرف التعريف في server/achievements.ts
   achievementName: text("achievement_name").notNull(),
   description: text("description"),
   unlockedAt: timestamp("unlocked_at").defaultNow(),
-});
+}, (table) => ({
+  // يمنع فتح نفس الإنجاز مرتين لنفس اللاعب
+  userKeyIdx: uniqueIndex("achievements_user_key_idx").on(table.userId, table.achievementKey),
+}));
 
 // نظام الأصدقاء
 export const friendships = pgTable("friendships", {
@@ -76,12 +193,31 @@ export const privateMessages = pgTable("private_messages", {
   sentAt: timestamp("sent_at").defaultNow(),
 });
 
+// كتالوج المتجر - الأسعار والمخزون يحددها الخادم فقط
+export const shopItems = pgTable("shop_items", {
+  id: serial("id").primaryKey(),
+  sku: varchar("sku", { length: 60 }).notNull().unique(),
+  itemType: varchar("item_type", { length: 50 }).notNull(),
+  nameAr: varchar("name_ar", { length: 100 }).notNull(),
+  nameEn: varchar("name_en", { length: 100 }).notNull(),
+  currency: varchar("currency", { length: 10 }).notNull(), // 'gold' or 'pearls'
+  price: integer("price").notNull(),
+  durationHours: integer("duration_hours"), // null = دائم
+  stockLimit: integer("stock_limit"), // null = غير محدود
+  soldCount: integer("sold_count").notNull().default(0),
+  perUserLimit: integer("per_user_limit"), // null = غير محدود
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // نظام الدروع والعناصر
 export const userItems = pgTable("user_items", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
   itemType: varchar("item_type", { length: 50 }).notNull(), // shield, energy_boost, score_multiplier
   itemName: varchar("item_name", { length: 100 }).notNull(),
+  shopItemId: integer("shop_item_id").references(() => shopItems.id), // null = عنصر من داخل اللعبة
   quantity: integer("quantity").default(1),
   isActive: boolean("is_active").default(false),
   expiresAt: timestamp("expires_at"),
@@ -96,8 +232,15 @@ export const transactions = pgTable("transactions", {
   goldAmount: integer("gold_amount").default(0),
   pearlsAmount: integer("pearls_amount").default(0),
   description: text("description"),
+  referenceType: varchar("reference_type", { length: 30 }), // game_score, purchase_order, achievement, level
+  referenceId: integer("reference_id"),
+  economyConfigVersion: integer("economy_config_version"), // نسخة الأسعار المستخدمة في هذه المعاملة
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => ({
+  // صفحات السجل مرتبة من الأحدث حسب id، وفلتر التاريخ يستخدم created_at
+  userIdIdx: index("transactions_user_id_idx").on(table.userId, table.id),
+  userCreatedIdx: index("transactions_user_created_idx").on(table.userId, table.createdAt),
+}));
 
 export const userShields = pgTable("user_shields", {
   id: serial("id").primaryKey(),
@@ -107,25 +250,414 @@ export const userShields = pgTable("user_shields", {
   expiresAt: timestamp("expires_at").notNull(),
   isActive: boolean("is_active").default(true),
   cost: integer("cost").notNull(), // المبلغ المدفوع
-  currency: varchar("currency", { length: 10 }).notNull() // 'gold' or 'usd'
+  currency: varchar("currency", { length: 10 }).notNull() // 'gold' or 'pearls' ('usd' in older rows)
+});
+
+// إعدادات الاقتصاد - كل تعديل يضيف نسخة جديدة ولا يغير النسخ السابقة
+export const economyConfigs = pgTable("economy_configs", {
+  id: serial("id").primaryKey(),
+  version: integer("version").notNull().unique(),
+  config: jsonb("config").notNull(),
+  note: text("note"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
+// طلبات شراء الذهب - لا يُضاف الذهب إلا بعد تأكيد مزود الدفع عبر الـ webhook
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  packageId: varchar("package_id", { length: 50 }).notNull(),
+  goldAmount: integer("gold_amount").notNull(),
+  priceCents: integer("price_cents").notNull(),
+  currency: varchar("currency", { length: 3 }).notNull().default("USD"),
+  provider: varchar("provider", { length: 30 }).notNull(),
+  providerReference: text("provider_reference"),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, paid, failed
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  providerReferenceIdx: uniqueIndex("purchase_orders_provider_reference_idx").on(table.provider, table.providerReference),
+}));
+
+// طلبات سحب اللؤلؤ نقداً - اللؤلؤ يُخصم عند الطلب ويبقى محجوزاً حتى الدفع أو الرفض
+export const withdrawalRequests = pgTable("withdrawal_requests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  pearlsAmount: integer("pearls_amount").notNull(),
+  amountCents: integer("amount_cents").notNull(), // قيمة الطلب بسعر وقت الإنشاء
+  currency: varchar("currency", { length: 3 }).notNull().default("USD"),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, approved, rejected, paid
+  payoutMethod: varchar("payout_method", { length: 30 }).notNull(),
+  payoutAccount: text("payout_account").notNull(),
+  // حقول KYC مبدئية - لا يوجد تحقق آلي بعد، المراجع يتحقق يدوياً
+  kycFullName: text("kyc_full_name").notNull(),
+  kycCountry: varchar("kyc_country", { length: 2 }).notNull(),
+  kycDocumentType: varchar("kyc_document_type", { length: 30 }),
+  kycDocumentNumber: varchar("kyc_document_number", { length: 64 }),
+  kycStatus: varchar("kyc_status", { length: 20 }).notNull().default("unverified"), // unverified, verified, failed
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNote: text("review_note"),
+  payoutReference: text("payout_reference"),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  statusIdx: index("withdrawal_requests_status_idx").on(table.status, table.createdAt),
+  userIdx: index("withdrawal_requests_user_idx").on(table.userId),
+}));
+
+// سجل تدقيق لكل تغيير في حالة طلب السحب
+export const withdrawalEvents = pgTable("withdrawal_events", {
+  id: serial("id").primaryKey(),
+  withdrawalId: integer("withdrawal_id").notNull().references(() => withdrawalRequests.id),
+  actorId: integer("actor_id").references(() => users.id),
+  fromStatus: varchar("from_status", { length: 20 }), // null = إنشاء الطلب
+  toStatus: varchar("to_status", { length: 20 }).notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// تعديلات الأرصدة اليدوية من فريق الدعم - المبالغ الكبيرة تنتظر موافقة مدير ثانٍ
+export const adminAdjustments = pgTable("admin_adjustments", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  requestedBy: integer("requested_by").notNull().references(() => users.id),
+  approvedBy: integer("approved_by").references(() => users.id), // null = طُبق مباشرة أو لم يُقرر بعد
+  status: varchar("status", { length: 20 }).notNull(), // pending_approval, applied, rejected
+  goldDelta: integer("gold_delta").notNull().default(0),
+  pearlsDelta: integer("pearls_delta").notNull().default(0),
+  itemType: varchar("item_type", { length: 50 }),
+  itemName: varchar("item_name", { length: 100 }),
+  itemQuantity: integer("item_quantity").notNull().default(0), // سالب = سحب عناصر من اللاعب
+  reason: text("reason").notNull(),
+  ticketReference: varchar("ticket_reference", { length: 100 }).notNull(),
+  transactionId: integer("transaction_id").references(() => transactions.id),
+  decisionNote: text("decision_note"),
+  createdAt: timestamp("created_at").defaultNow(),
+  decidedAt: timestamp("decided_at"),
+}, (table) => ({
+  statusIdx: index("admin_adjustments_status_idx").on(table.status, table.createdAt),
+  userIdx: index("admin_adjustments_user_idx").on(table.userId),
+}));
+
+// سجل تدقيق لإجراءات المشرفين
+export const adminAuditLog = pgTable("admin_audit_log", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id").notNull().references(() => users.id),
+  action: varchar("action", { length: 50 }).notNull(), // adjustment.requested, adjustment.applied, adjustment.approved, adjustment.rejected
+  targetUserId: integer("target_user_id"), // بدون مفتاح أجنبي حتى يبقى السجل بعد حذف حسابات الضيوف
+  entityType: varchar("entity_type", { length: 30 }),
+  entityId: integer("entity_id"),
+  details: jsonb("details"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  targetIdx: index("admin_audit_log_target_idx").on(table.targetUserId, table.createdAt),
+}));
+
+// مكافآت الدخول اليومي - مطالبة واحدة لكل يوم تقويمي حسب المنطقة الزمنية للاعب
+export const dailyRewardClaims = pgTable("daily_reward_claims", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  claimDate: date("claim_date", { mode: "string" }).notNull(), // YYYY-MM-DD في منطقة اللاعب
+  timezone: varchar("timezone", { length: 64 }).notNull(),
+  streak: integer("streak").notNull(), // أيام متتالية حتى هذه المطالبة
+  cycleDay: integer("cycle_day").notNull(), // 1..7
+  goldAmount: integer("gold_amount").notNull().default(0),
+  pearlsAmount: integer("pearls_amount").notNull().default(0),
+  itemType: varchar("item_type", { length: 50 }),
+  streakSaversUsed: integer("streak_savers_used").notNull().default(0),
+  claimedAt: timestamp("claimed_at").defaultNow(),
+}, (table) => ({
+  userDateIdx: uniqueIndex("daily_reward_claims_user_date_idx").on(table.userId, table.claimDate),
+}));
+
+// إعدادات اللعب لكل مستخدم - صف عام (game_name = 'global') وصف اختياري لكل لعبة
+export const userSettings = pgTable("user_settings", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  gameName: varchar("game_name", { length: 50 }).notNull().default("global"),
+  settings: jsonb("settings").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  userGameIdx: uniqueIndex("user_settings_user_game_idx").on(table.userId, table.gameName),
+}));
+
+// مفاتيح منع التكرار للطلبات المالية - تحفظ بصمة الطلب والرد الأصلي لإعادته عند التكرار
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  idempotencyKey: varchar("idempotency_key", { length: 255 }).notNull(),
+  endpoint: text("endpoint").notNull(),
+  requestHash: text("request_hash").notNull(),
+  responseStatus: integer("response_status"), // null = الطلب ما زال قيد التنفيذ
+  responseBody: jsonb("response_body"),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  userKeyIdx: uniqueIndex("idempotency_keys_user_key_idx").on(table.userId, table.idempotencyKey),
+}));
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
   email: true,
 });
 
+export const USER_ROLES = ["player", "moderator", "support", "economy-admin", "super-admin"] as const;
+
+export const updateRoleSchema = z.object({
+  role: z.enum(USER_ROLES),
+});
+
 export const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
   password: z.string().min(1, "Password is required"),
 });
 
+export const forgotPasswordSchema = z.object({
+  email: z.string().email("Valid email is required"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+// ترقية حساب الضيف إلى حساب كامل - البريد مطلوب لاستعادة الحساب لاحقاً
+export const upgradeGuestSchema = z.object({
+  username: z.string().min(3, "Username must be at least 3 characters").max(30),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  email: z.string().email("Valid email is required"),
+});
+
+export const createPurchaseOrderSchema = z.object({
+  packageId: z.string().min(1, "Package is required"),
+});
+
+export const SHOP_CURRENCIES = ["gold", "pearls"] as const;
+
+export const shopItemSchema = z.object({
+  sku: z.string().min(1).max(60).regex(/^[a-z0-9_-]+$/, "SKU may only contain a-z, 0-9, _ and -"),
+  itemType: z.string().min(1).max(50),
+  nameAr: z.string().min(1).max(100),
+  nameEn: z.string().min(1).max(100),
+  currency: z.enum(SHOP_CURRENCIES),
+  price: z.number().int().min(0),
+  durationHours: z.number().int().positive().nullable().optional(),
+  stockLimit: z.number().int().min(0).nullable().optional(),
+  perUserLimit: z.number().int().positive().nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const updateShopItemSchema = shopItemSchema.partial();
+
+export const purchaseShopItemSchema = z.object({
+  quantity: z.number().int().min(1).max(100).default(1),
+});
+
+export const startGameSchema = z.object({
+  gameName: z.string().min(1, "Game name is required"),
+});
+
+export const submitScoreSchema = z.object({
+  sessionToken: z.string().min(1, "Session token is required"),
+  gameName: z.string().min(1, "Game name is required"),
+  score: z.number().int().min(0),
+  level: z.number().int().positive().optional(),
+});
+
+const volumeSchema = z.number().int().min(0).max(100);
+
+export const gameSettingsSchema = z.object({
+  sound: z.object({ enabled: z.boolean(), volume: volumeSchema }),
+  music: z.object({ enabled: z.boolean(), volume: volumeSchema }),
+  difficulty: z.enum(["easy", "medium", "hard"]),
+  controls: z.object({
+    scheme: z.enum(["auto", "touch", "mouse", "keyboard"]),
+    sensitivity: z.number().int().min(1).max(10),
+    vibration: z.boolean(),
+  }),
+  language: z.enum(["ar", "en"]),
+  voice: z.object({
+    autoJoin: z.boolean(),
+    muteOnJoin: z.boolean(),
+    pushToTalk: z.boolean(),
+    volume: volumeSchema,
+  }),
+  multiplayer: z.object({
+    maxPlayers: z.number().int().min(2).max(8),
+    gameMode: z.enum(["competitive", "cooperative"]),
+    isPrivate: z.boolean(),
+  }),
+});
+
+export const updateGameSettingsSchema = gameSettingsSchema.deepPartial().strict();
+
+export type GameSettings = z.infer<typeof gameSettingsSchema>;
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  sound: { enabled: true, volume: 80 },
+  music: { enabled: true, volume: 60 },
+  difficulty: "medium",
+  controls: { scheme: "auto", sensitivity: 5, vibration: true },
+  language: "ar",
+  voice: { autoJoin: false, muteOnJoin: true, pushToTalk: false, volume: 80 },
+  multiplayer: { maxPlayers: 4, gameMode: "competitive", isPrivate: false },
+};
+
+export const STATS_VISIBILITIES = ["public", "friends", "private"] as const;
+
+export const updateStatsVisibilitySchema = z.object({
+  visibility: z.enum(STATS_VISIBILITIES),
+});
+
+export const claimDailyRewardSchema = z.object({
+  timezone: z.string().min(1).max(64).optional(), // IANA مثل Asia/Riyadh؛ الافتراضي UTC
+  useStreakSaver: z.boolean().optional(),
+});
+
+export const WITHDRAWAL_PAYOUT_METHODS = ["paypal", "bank_transfer"] as const;
+
+export const createWithdrawalSchema = z.object({
+  pearlsAmount: z.number().int().positive(),
+  payoutMethod: z.enum(WITHDRAWAL_PAYOUT_METHODS),
+  payoutAccount: z.string().trim().min(3).max(200), // بريد PayPal أو IBAN
+  kyc: z.object({
+    fullName: z.string().trim().min(3).max(100),
+    country: z.string().trim().length(2).transform(c => c.toUpperCase()), // ISO 3166-1 alpha-2
+    documentType: z.enum(["passport", "national_id", "driver_license"]).optional(),
+    documentNumber: z.string().trim().max(64).optional(),
+  }),
+});
+
+export const reviewWithdrawalSchema = z.object({
+  status: z.enum(["approved", "rejected", "paid"]),
+  note: z.string().max(500).optional(),
+  payoutReference: z.string().max(200).optional(), // مرجع التحويل عند الدفع
+  kycStatus: z.enum(["unverified", "verified", "failed"]).optional(),
+});
+
+const currencyAmountSchema = z.object({
+  gold: z.number().int().min(0),
+  pearls: z.number().int().min(0),
+});
+
+export const economyConfigSchema = z.object({
+  goldPerPearl: z.number().int().positive(), // سعر الصرف في الاتجاهين
+  exchangeFeeBps: z.number().int().min(0).max(5000), // رسوم الصرف بنقاط الأساس (100 = 1%) وتُدفع ذهباً
+  exchangeEnabled: z.boolean(),
+  // شراء اللؤلؤ بالذهب: الذهب المجاني أو الأرخص من قيمة اللؤلؤة عند السحب يصبح نقداً، لذا مغلق افتراضياً
+  goldToPearlsEnabled: z.boolean(),
+  pearlValueCents: z.number().int().positive(), // قيمة اللؤلؤة عند السحب النقدي
+  welcomeBonus: currencyAmountSchema,
+  shieldCost: currencyAmountSchema, // gold للدرع الذهبي، pearls للدرع المدفوع
+  vip: z.object({
+    levelsPerPearl: z.number().int().min(0), // convert-pearls
+    goldPerStep: z.number().int().positive(), // شحن الذهب
+    levelsPerGoldStep: z.number().int().min(0),
+  }),
+  // التعديلات اليدوية التي تتجاوز أي حد (بالقيمة المطلقة) تحتاج موافقة مدير ثانٍ
+  adjustmentApprovalThreshold: z.object({
+    gold: z.number().int().min(0),
+    pearls: z.number().int().min(0),
+    items: z.number().int().min(0),
+  }),
+});
+
+// القيم التي كانت ثابتة في الكود قبل إضافة الإعدادات
+export const DEFAULT_ECONOMY_CONFIG: z.infer<typeof economyConfigSchema> = {
+  goldPerPearl: 200,
+  exchangeFeeBps: 500,
+  exchangeEnabled: true,
+  goldToPearlsEnabled: false,
+  pearlValueCents: 100,
+  welcomeBonus: { gold: 10000, pearls: 1 },
+  shieldCost: { gold: 2000, pearls: 10 },
+  vip: { levelsPerPearl: 10, goldPerStep: 5000, levelsPerGoldStep: 5 },
+  adjustmentApprovalThreshold: { gold: 50000, pearls: 50, items: 10 },
+};
+
+export const updateEconomyConfigSchema = z.object({
+  expectedVersion: z.number().int().min(0), // يمنع تعديلين متزامنين من إلغاء أحدهما الآخر
+  note: z.string().max(500).optional(),
+  config: economyConfigSchema.deepPartial(),
+});
+
+export const createAdminAdjustmentSchema = z.object({
+  goldDelta: z.number().int().default(0),
+  pearlsDelta: z.number().int().default(0),
+  item: z.object({
+    itemType: z.string().trim().min(1).max(50),
+    itemName: z.string().trim().min(1).max(100),
+    quantity: z.number().int().refine(q => q !== 0, "Quantity cannot be 0"),
+  }).optional(),
+  reason: z.string().trim().min(5).max(500),
+  ticketReference: z.string().trim().min(1).max(100),
+}).refine(a => a.goldDelta !== 0 || a.pearlsDelta !== 0 || a.item, "Adjustment changes nothing");
+
+export const decideAdminAdjustmentSchema = z.object({
+  note: z.string().max(500).optional(),
+});
+
+export const transactionHistoryQuerySchema = z.object({
+  type: z.string().max(300).optional(), // أنواع مفصولة بفواصل مثل purchase,gift_sent
+  currency: z.enum(["gold", "pearls"]).optional(), // المعاملات التي غيّرت هذه العملة فقط
+  from: z.coerce.date().optional(), // يشمل
+  to: z.coerce.date().optional(), // لا يشمل
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().max(200).optional(),
+});
+
+export const EXCHANGE_CURRENCIES = ["gold", "pearls"] as const;
+
+export const exchangeCurrencySchema = z.object({
+  from: z.enum(EXCHANGE_CURRENCIES),
+  amount: z.number().int().positive(),
+  expectedVersion: z.number().int().min(0).optional(), // نسخة الأسعار التي رآها اللاعب في العرض
+});
+
+export const reviewGameFlagSchema = z.object({
+  status: z.enum(["confirmed", "dismissed"]),
+  note: z.string().max(500).optional(),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type Session = typeof sessions.$inferSelect;
+export type InsertSession = typeof sessions.$inferInsert;
+export type RefreshToken = typeof refreshTokens.$inferSelect;
+export type AuthToken = typeof authTokens.$inferSelect;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type ShopItem = typeof shopItems.$inferSelect;
+export type InsertShopItem = z.infer<typeof shopItemSchema>;
+export type AuthTokenPurpose = "password_reset" | "email_verification";
 export type LoginData = z.infer<typeof loginSchema>;
+export type UpgradeGuestData = z.infer<typeof upgradeGuestSchema>;
+export type UserRole = typeof USER_ROLES[number];
 export type GameScore = typeof gameScores.$inferSelect;
+export type InsertGameScore = typeof gameScores.$inferInsert;
+export type GameSession = typeof gameSessions.$inferSelect;
+export type MatchResult = typeof matchResults.$inferSelect;
+export type UserSettings = typeof userSettings.$inferSelect;
+export type StatsVisibility = typeof STATS_VISIBILITIES[number];
+export type GameScoreFlag = typeof gameScoreFlags.$inferSelect;
+export type InsertGameScoreFlag = typeof gameScoreFlags.$inferInsert;
 export type Achievement = typeof achievements.$inferSelect;
+export type XpEvent = typeof xpEvents.$inferSelect;
+export type DailyRewardClaim = typeof dailyRewardClaims.$inferSelect;
+export type EconomyConfig = z.infer<typeof economyConfigSchema>;
+export type EconomyConfigVersion = typeof economyConfigs.$inferSelect;
+export type ExchangeCurrency = typeof EXCHANGE_CURRENCIES[number];
+export type AdminAdjustment = typeof adminAdjustments.$inferSelect;
+export type AdminAuditLogEntry = typeof adminAuditLog.$inferSelect;
+export type CreateAdminAdjustmentData = z.infer<typeof createAdminAdjustmentSchema>;
+export type WithdrawalRequest = typeof withdrawalRequests.$inferSelect;
+export type WithdrawalEvent = typeof withdrawalEvents.$inferSelect;
+export type WithdrawalStatus = "pending" | "approved" | "rejected" | "paid";
+export type CreateWithdrawalData = z.infer<typeof createWithdrawalSchema>;
 export type Friendship = typeof friendships.$inferSelect;
 export type Gift = typeof gifts.$inferSelect;
 export type PrivateMessage = typeof privateMessages.$inferSelect;